@@ -1,18 +1,37 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Menu, Mic, LayoutGrid, FileText, History, Save, MapPin, Layout, Upload, Download, Cloud, CloudOff, Loader2 } from 'lucide-react';
+import { Menu, Mic, LayoutGrid, FileText, History, Save, MapPin, Layout, Upload, Download, Cloud, CloudOff, Loader2, ClipboardList, CalendarDays, Tv, Scissors, Languages } from 'lucide-react';
 import PhaseIndicator from './components/PhaseIndicator';
 import ChatInterface from './components/ChatInterface';
 import ProjectSidebar from './components/ProjectSidebar';
 import LiveRoom from './components/LiveRoom';
 import StoryboardView from './components/StoryboardView';
 import ScriptEditor from './components/ScriptEditor';
+import AVScriptEditor from './components/AVScriptEditor';
+import PlayScriptEditor from './components/PlayScriptEditor';
+import PaperEditView from './components/PaperEditView';
+import TranslationView from './components/TranslationView';
 import VersionHistory from './components/VersionHistory';
 import LocationScout from './components/LocationScout';
 import BeatBoard from './components/BeatBoard';
 import ScriptImportModal from './components/ScriptImportModal';
-import { initializeChat, sendMessageToGemini, generateConceptArt } from './services/geminiService';
-import { syncProject, isSyncAvailable, SyncStatus } from './services/syncService';
-import { Message, Phase, ProjectState, Snapshot, CharacterProfile, VisualAsset } from './types';
+import CharacterRenameModal from './components/CharacterRenameModal';
+import BreakdownView from './components/BreakdownView';
+import StripboardView from './components/StripboardView';
+import CharacterReportPanel from './components/CharacterReportPanel';
+import BranchMenu from './components/BranchMenu';
+import MergeView from './components/MergeView';
+import SeriesView from './components/SeriesView';
+import { initializeChat, setChatScriptFormat, sendMessageToGemini, generateConceptArt } from './services/geminiService';
+import { syncProject, syncProjectNow, deleteProject, isSyncAvailable, saveSnapshot as saveCloudSnapshot, SyncStatus } from './services/syncService';
+import { withScriptContent, ensureScriptDocument } from './services/scriptDocumentService';
+import { planCharacterRename, renameCharacterAsset, RENAME_ASSET_CHANGE } from './services/characterRenameService';
+import { createRevisionSet, isScriptLocked } from './services/revisionService';
+import { isNumberingLocked, lockSceneNumbers } from './services/sceneOperationsService';
+import { loadBranchStash, saveBranchStash, createBranch, listBranches, switchWorkspace, rebaseBranch, BranchStash } from './services/branchService';
+import { seriesIdOf, withSeriesBible, shareSeriesBible, startSeries, listEpisodes, createEpisode, removeEpisodeNotes } from './services/seriesService';
+import { inferScriptFormat, getScriptFormat } from './services/scriptFormatService';
+import { remapBeats } from './services/paperEditService';
+import { Message, Phase, ProjectState, ProjectData, ScriptFormat, Snapshot, CharacterProfile, VisualAsset } from './types';
 import { INITIAL_PROJECT_DATA } from './constants';
 
 function App() {
@@ -35,11 +54,11 @@ function App() {
     const parsed = saved ? JSON.parse(saved) : null;
     return parsed ? {
         ...parsed,
-        data: {
+        data: ensureScriptDocument({
             ...INITIAL_PROJECT_DATA,
             ...parsed.data,
             visuals: parsed.data.visuals || []
-        }
+        })
     } : {
       currentPhase: Phase.DevelopmentHell,
       data: INITIAL_PROJECT_DATA,
@@ -56,7 +75,21 @@ function App() {
   const [isHistoryOpen, setIsHistoryOpen] = useState(false);
   const [isLocationScoutOpen, setIsLocationScoutOpen] = useState(false);
   const [isBeatBoardOpen, setIsBeatBoardOpen] = useState(false);
+  const [isPaperEditOpen, setIsPaperEditOpen] = useState(false);
+  const [isTranslationsOpen, setIsTranslationsOpen] = useState(false);
   const [isImportModalOpen, setIsImportModalOpen] = useState(false);
+  const [renameTarget, setRenameTarget] = useState<string | null>(null);
+  const [isBreakdownOpen, setIsBreakdownOpen] = useState(false);
+  const [isStripboardOpen, setIsStripboardOpen] = useState(false);
+  const [isCharacterReportOpen, setIsCharacterReportOpen] = useState(false);
+
+  // Draft branches not being edited right now (main too, while on a branch)
+  const [branchStash, setBranchStash] = useState<BranchStash>(loadBranchStash);
+  const [mergingBranchId, setMergingBranchId] = useState<string | null>(null);
+  const [isSeriesOpen, setIsSeriesOpen] = useState(false);
+
+  // Each branch and episode syncs as its own project row
+  const activeId = projectState.branch?.id || projectState.episode?.id || projectId;
 
   // Save to localStorage AND sync to Supabase (debounced)
   useEffect(() => {
@@ -65,9 +98,13 @@ function App() {
 
     // Sync to cloud (debounced - 2 second delay)
     if (isSyncAvailable()) {
-      syncProject(projectId, projectState, setSyncStatus);
+      syncProject(activeId, projectState, setSyncStatus);
     }
-  }, [projectState, projectId]);
+  }, [projectState, activeId]);
+
+  useEffect(() => {
+    saveBranchStash(branchStash);
+  }, [branchStash]);
 
   const saveSnapshot = (label: string = "Auto-Save") => {
     const newSnapshot: Snapshot = {
@@ -87,11 +124,182 @@ function App() {
 
   const restoreSnapshot = (snap: Snapshot) => {
       if(confirm(`Restore version "${snap.label}" from ${new Date(snap.timestamp).toLocaleString()}? Current unsaved progress will be lost.`)) {
-          setProjectState(prev => ({ ...prev, data: snap.data }));
+          // Shared assets renamed since this version are renamed back, newest first
+          const renames = projectState.data.snapshots
+            .filter(s => s.timestamp >= snap.timestamp && s.assetRename)
+            .reverse();
+          renames
+            .reduce<Promise<unknown>>((done, s) => done.then(() => renameCharacterAsset(s.assetRename!.to, s.assetRename!.from)), Promise.resolve())
+            .catch(err => {
+              console.error('Failed to rename shared asset back:', err);
+              alert('The script was restored, but a renamed shared asset could not be renamed back. Rename it from the asset library.');
+            });
+
+          // History (and the revision sets in it) stays as it is now, less the renames just undone
+          const undone = new Set(renames.map(s => s.id));
+          setProjectState(prev => ({
+              ...prev,
+              data: {
+                  ...ensureScriptDocument(snap.data),
+                  snapshots: prev.data.snapshots.map(s => {
+                      if (!undone.has(s.id)) return s;
+                      const { assetRename, ...rest } = s;
+                      return rest;
+                  })
+              }
+          }));
           setIsHistoryOpen(false);
       }
   };
 
+  const issueRevisionSet = () => {
+      // Locking the script locks its scene numbers too
+      const script = projectState.data.scriptContent || '';
+      const data = isScriptLocked(projectState.data) || isNumberingLocked(script)
+        ? projectState.data
+        : withScriptContent(projectState.data, lockSceneNumbers(script));
+      const set = createRevisionSet(data);
+      const message = set.revision!.index === 0
+        ? "Lock the script? Page and scene breaks are fixed from here on and changes are tracked as revisions."
+        : `Issue the ${set.revision!.color} revision? Its changes become the baseline for the next set.`;
+      if (!confirm(message)) return;
+      setProjectState(prev => ({ ...prev, data: { ...data, snapshots: [...prev.data.snapshots, set] } }));
+      if (isSyncAvailable()) saveCloudSnapshot(activeId, set);
+  };
+
+  // ============================================
+  // DRAFT BRANCHES
+  // ============================================
+
+  const branches = listBranches(projectState, branchStash);
+
+  const switchBranch = (targetId: string | null) => {
+      // Episodes pick up any bible changes made where the writer is leaving
+      const stash = shareSeriesBible(activeId, projectState, branchStash);
+      const result = switchWorkspace(activeId, projectState, stash, targetId || projectId);
+      if (!result) return;
+      // Push the workspace being left before its pending sync is dropped
+      if (isSyncAvailable()) syncProjectNow(activeId, projectState);
+      setBranchStash(result.stash);
+      setProjectState(result.state);
+  };
+
+  const createDraftBranch = (name: string) => {
+      const main = activeId === projectId ? projectState : branchStash[projectId];
+      if (!main) return;
+      const branch = createBranch(projectId, main, name);
+      if (isSyncAvailable()) syncProjectNow(activeId, projectState);
+      setBranchStash(prev => ({ ...prev, [activeId]: projectState }));
+      setProjectState(branch);
+  };
+
+  const deleteDraftBranch = (id: string) => {
+      // Deleting the branch being edited drops it and goes back to main
+      const leaving = id === activeId;
+      if (leaving && !branchStash[projectId]) return;
+      if (leaving) setProjectState(branchStash[projectId]);
+      setBranchStash(prev => {
+          const next = { ...prev };
+          delete next[id];
+          if (leaving) delete next[projectId];
+          return next;
+      });
+      if (isSyncAvailable()) deleteProject(id);
+  };
+
+  const workspace = (id: string) => (id === activeId ? projectState : branchStash[id]);
+  const mergingBranch = mergingBranchId ? workspace(mergingBranchId) : undefined;
+  const mergingMain = workspace(projectId);
+
+  const mergeDraftBranch = (merged: ProjectData) => {
+      if (!mergingBranch?.branch || !mergingMain) return;
+      const name = mergingBranch.branch.name;
+      // Main keeps a restore point from just before the merge
+      const restorePoint: Snapshot = {
+          id: Date.now().toString(),
+          timestamp: Date.now(),
+          label: `Before merging "${name}"`,
+          data: mergingMain.data,
+      };
+      const main: ProjectState = {
+          ...mergingMain,
+          data: { ...merged, snapshots: [...mergingMain.data.snapshots, restorePoint] },
+      };
+      if (isSyncAvailable()) syncProjectNow(activeId, projectState);
+      setBranchStash(prev => {
+          const next = { ...prev, [mergingBranch.branch!.id]: rebaseBranch(mergingBranch) };
+          delete next[projectId];
+          return next;
+      });
+      setProjectState(main);
+      setMergingBranchId(null);
+  };
+
+  // ============================================
+  // SERIES
+  // ============================================
+
+  const seriesId = seriesIdOf(activeId, projectState);
+  const series = seriesId ? workspace(seriesId) : undefined;
+  const episodes = seriesId ? listEpisodes(seriesId, activeId, projectState, branchStash) : [];
+
+  const updateWorkspace = (id: string, update: (state: ProjectState) => ProjectState) => {
+      if (id === activeId) setProjectState(update);
+      else setBranchStash(prev => (prev[id] ? { ...prev, [id]: update(prev[id]) } : prev));
+  };
+
+  const startProjectSeries = () => {
+      if (activeId !== projectId) {
+          alert('Switch back to main before making the project a series.');
+          return;
+      }
+      if (!confirm('Make this project a series? The current script becomes Episode 1.')) return;
+      const started = startSeries(projectId, projectState);
+      // Episodes are stored as projects of their own, so they sync as soon as they exist
+      if (isSyncAvailable()) syncProjectNow(started.episode.episode!.id, started.episode);
+      setBranchStash(prev => ({ ...prev, [started.episode.episode!.id]: started.episode }));
+      setProjectState(started.series);
+  };
+
+  const addEpisode = (title: string) => {
+      if (!seriesId || !series) return;
+      // New episodes start from the bible as it is right now
+      const bible = activeId === seriesId ? series : { ...series, data: withSeriesBible(series.data, projectState.data) };
+      const episode = createEpisode(seriesId, bible, episodes, title);
+      if (isSyncAvailable()) syncProjectNow(episode.episode!.id, episode);
+      setBranchStash(prev => ({ ...prev, [episode.episode!.id]: episode }));
+  };
+
+  const deleteEpisode = (id: string) => {
+      if (!seriesId) return;
+      const withoutNotes = (s: ProjectState): ProjectState =>
+        s.data.series ? { ...s, data: { ...s.data, series: removeEpisodeNotes(s.data.series, id) } } : s;
+      if (id === activeId) {
+          // Deleting the episode being edited goes back to the series
+          const stash = shareSeriesBible(activeId, projectState, branchStash);
+          setProjectState(withoutNotes(stash[seriesId]));
+          delete stash[seriesId];
+          setBranchStash(stash);
+      } else {
+          setBranchStash(prev => {
+              const next = { ...prev };
+              delete next[id];
+              return next;
+          });
+          updateWorkspace(seriesId, withoutNotes);
+      }
+      if (isSyncAvailable()) deleteProject(id);
+  };
+
+  const changeScriptFormat = (scriptFormat: ScriptFormat) => {
+      setProjectState(prev => ({ ...prev, data: { ...prev.data, scriptFormat } }));
+  };
+
+  // The Writer's Room writes in whatever format the open project uses
+  useEffect(() => {
+      setChatScriptFormat(projectState.data.scriptFormat);
+  }, [projectState.data.scriptFormat]);
+
   const deleteSnapshot = (id: string) => {
       setProjectState(prev => ({
           ...prev,
@@ -106,8 +314,7 @@ function App() {
     setProjectState(prev => ({
       ...prev,
       data: {
-        ...prev.data,
-        scriptContent: script,
+        ...withScriptContent(prev.data, script),
         characters: Array.from(new Set([...prev.data.characters, ...characters])),
         locations: Array.from(new Set([...prev.data.locations, ...locations])),
         beats: [
@@ -127,6 +334,59 @@ function App() {
     setIsImportModalOpen(false);
   };
 
+  const handleRenameCharacter = (from: string, to: string, skipped: ReadonlySet<string> = new Set()) => {
+    const plan = planCharacterRename(projectState.data, from, to, skipped);
+    const applied = plan.changes.filter(change => !skipped.has(change.id)).length;
+    const backup: Snapshot = {
+        id: Date.now().toString(),
+        timestamp: Date.now(),
+        label: `Before renaming ${from} to ${to}`,
+        data: projectState.data
+    };
+
+    // Snapshot and rename land in one update so the backup is never missing
+    setProjectState(prev => ({
+        ...prev,
+        data: {
+            ...planCharacterRename(prev.data, from, to, skipped).data,
+            snapshots: [...prev.data.snapshots, backup]
+        }
+    }));
+
+    // The shared asset is renamed in the database (unless unticked); the backup records it so a restore can rename it back
+    if (!skipped.has(RENAME_ASSET_CHANGE)) {
+      renameCharacterAsset(from, to)
+        .then(asset => {
+          if (!asset) return;
+          setProjectState(prev => ({
+              ...prev,
+              data: {
+                  ...prev.data,
+                  snapshots: prev.data.snapshots.map(s => s.id === backup.id ? { ...s, assetRename: { from, to } } : s)
+              }
+          }));
+        })
+        .catch(err => {
+          console.error('Failed to rename shared asset:', err);
+          setMessages(prev => [...prev, {
+            id: Date.now().toString(),
+            role: 'model',
+            content: `⚠️ **The shared asset for ${from} could not be renamed.** The script uses ${to}, but @-mentions still point to the old asset. Rename it from the asset library.`,
+            timestamp: Date.now()
+          }]);
+        });
+    }
+
+    setMessages(prev => [...prev, {
+      id: Date.now().toString(),
+      role: 'model',
+      content: `✏️ **Renamed ${from} to ${to}** — ${applied} changes across the project.\n\nA snapshot was saved first; restore "${backup.label}" from Version History to undo.`,
+      timestamp: Date.now()
+    }]);
+
+    setRenameTarget(null);
+  };
+
   const handleVisualUpload = async (files: File[]) => {
       const newVisualAssets: VisualAsset[] = [];
       for (const file of files) {
@@ -181,7 +441,7 @@ function App() {
   useEffect(() => {
     const init = async () => {
       try {
-        await initializeChat();
+        await initializeChat(projectState.data.scriptFormat);
         if (messages.length === 0) {
             setIsLoading(true);
             const { text } = await sendMessageToGemini("SYSTEM_START: Begin the interaction as Channel Changers. Greet the user.");
@@ -255,7 +515,14 @@ function App() {
           const newData = { ...prevState.data };
           if (dataUpdate.title) newData.title = dataUpdate.title;
           if (dataUpdate.logline) newData.logline = dataUpdate.logline;
-          if (dataUpdate.format) newData.format = dataUpdate.format;
+          if (dataUpdate.format) {
+             newData.format = dataUpdate.format;
+             // The brief's format picks the script mode only while there is no script
+             // to open in the wrong parser; after that the writer switches it
+             if (!newData.scriptContent?.trim()) {
+                 newData.scriptFormat = inferScriptFormat(dataUpdate.format) || newData.scriptFormat;
+             }
+          }
           if (dataUpdate.tone) newData.tone = dataUpdate.tone;
           if (dataUpdate.addCharacters) {
              newData.characters = Array.from(new Set([...newData.characters, ...dataUpdate.addCharacters]));
@@ -280,7 +547,10 @@ function App() {
           }
           if (dataUpdate.scriptAppend) {
               const prevScript = newData.scriptContent || "";
-              newData.scriptContent = prevScript + (prevScript ? "\n\n" : "") + dataUpdate.scriptAppend;
+              return {
+                  ...prevState,
+                  data: withScriptContent(newData, prevScript + (prevScript ? "\n\n" : "") + dataUpdate.scriptAppend)
+              };
           }
           return { ...prevState, data: newData };
         });
@@ -370,6 +640,24 @@ function App() {
         </div>
 
         <div className="flex items-center gap-2">
+            <button
+                onClick={() => setIsSeriesOpen(true)}
+                className={`flex items-center gap-1.5 px-2 py-1 rounded text-xs transition-colors ${projectState.episode ? 'bg-cinematic-800 text-cinematic-gold' : 'text-cinematic-400 hover:text-white hover:bg-cinematic-800'}`}
+                title="Series & episodes"
+            >
+                <Tv size={14} />
+                {projectState.episode && <span className="hidden sm:inline">Ep {projectState.episode.number}</span>}
+            </button>
+
+            {!projectState.episode && <BranchMenu
+              branches={branches}
+              activeBranch={projectState.branch}
+              onSwitch={switchBranch}
+              onCreate={createDraftBranch}
+              onMerge={setMergingBranchId}
+              onDelete={deleteDraftBranch}
+            />}
+
             {/* Cloud Sync Status Indicator */}
             <div className="flex items-center gap-1 px-2 py-1 rounded text-xs" title={
               syncStatus === 'synced' ? 'Synced to cloud' :
@@ -416,6 +704,12 @@ function App() {
             <button onClick={() => setIsBeatBoardOpen(true)} className="p-2 text-cinematic-400 hover:text-white hover:bg-cinematic-800 rounded-full hidden sm:block" title="Beat Board">
                 <Layout size={20} />
             </button>
+            <button onClick={() => setIsPaperEditOpen(true)} className="p-2 text-cinematic-400 hover:text-white hover:bg-cinematic-800 rounded-full hidden sm:block" title="Paper Edit">
+                <Scissors size={20} />
+            </button>
+            <button onClick={() => setIsTranslationsOpen(true)} className="p-2 text-cinematic-400 hover:text-white hover:bg-cinematic-800 rounded-full hidden sm:block" title="Translations">
+                <Languages size={20} />
+            </button>
 
             <button 
                 onClick={() => setIsScriptMode(true)}
@@ -424,6 +718,20 @@ function App() {
             >
                 <FileText size={20} />
             </button>
+            <button 
+                onClick={() => setIsBreakdownOpen(true)}
+                className="p-2 text-cinematic-400 hover:text-white hover:bg-cinematic-800 rounded-full transition-colors hidden sm:block"
+                title="Production Breakdown"
+            >
+                <ClipboardList size={20} />
+            </button>
+            <button 
+                onClick={() => setIsStripboardOpen(true)}
+                className="p-2 text-cinematic-400 hover:text-white hover:bg-cinematic-800 rounded-full transition-colors hidden sm:block"
+                title="Stripboard & Schedule"
+            >
+                <CalendarDays size={20} />
+            </button>
             <button 
                 onClick={() => setIsStoryboardMode(true)}
                 className="p-2 text-cinematic-400 hover:text-white hover:bg-cinematic-800 rounded-full transition-colors hidden sm:block"
@@ -457,11 +765,21 @@ function App() {
             isLoading={isLoading}
         />
         
+        {isCharacterReportOpen && (
+            <CharacterReportPanel
+                data={projectState.data}
+                onClose={() => setIsCharacterReportOpen(false)}
+            />
+        )}
+
         <ProjectSidebar 
             data={projectState.data}
             isOpen={isSidebarOpen}
             toggleSidebar={() => setIsSidebarOpen(!isSidebarOpen)}
             onUpload={handleVisualUpload}
+            onRenameCharacter={setRenameTarget}
+            onOpenCharacterReport={() => setIsCharacterReportOpen(!isCharacterReportOpen)}
+            onChangeScriptFormat={changeScriptFormat}
         />
       </div>
 
@@ -469,10 +787,14 @@ function App() {
       
       {isLocationScoutOpen && (
           <LocationScout 
-            onAddLocation={(loc) => {
+            onAddLocation={(loc, mapUri) => {
                 setProjectState(prev => ({
                     ...prev,
-                    data: { ...prev.data, locations: [...prev.data.locations, loc] }
+                    data: {
+                        ...prev.data,
+                        locations: [...prev.data.locations, loc],
+                        scoutedLocations: [...(prev.data.scoutedLocations || []), { id: crypto.randomUUID(), name: loc, mapUri }]
+                    }
                 }));
             }} 
             onClose={() => setIsLocationScoutOpen(false)} 
@@ -485,39 +807,131 @@ function App() {
             onUpdateBeats={(beats) => {
                 setProjectState(prev => ({
                     ...prev,
-                    data: { ...prev.data, beats }
+                    data: {
+                        ...prev.data,
+                        beats,
+                        // Bites in the paper edit follow a beat that was reworded
+                        ...(prev.data.paperEdit ? { paperEdit: remapBeats(prev.data.paperEdit, prev.data.beats, beats) } : {}),
+                    }
                 }));
             }}
             onClose={() => setIsBeatBoardOpen(false)}
           />
       )}
+
+      {isPaperEditOpen && (
+          <PaperEditView
+            data={projectState.data}
+            onUpdatePaperEdit={(paperEdit) => setProjectState(prev => ({ ...prev, data: { ...prev.data, paperEdit } }))}
+            onAddBeat={(beat) => setProjectState(prev => ({ ...prev, data: { ...prev.data, beats: [...prev.data.beats, beat] } }))}
+            onOpenBeatBoard={() => setIsBeatBoardOpen(true)}
+            onSendToScript={(script) => {
+                setProjectState(prev => ({ ...prev, data: { ...withScriptContent(prev.data, script), scriptFormat: 'av' } }));
+                setIsPaperEditOpen(false);
+                setIsScriptMode(true);
+            }}
+            onClose={() => setIsPaperEditOpen(false)}
+          />
+      )}
+
+      {isTranslationsOpen && (
+          <TranslationView
+            data={projectState.data}
+            onSaveTranslation={(translation) => setProjectState(prev => {
+                const translations = prev.data.translations || [];
+                return {
+                    ...prev,
+                    data: {
+                        ...prev.data,
+                        translations: translations.some(t => t.id === translation.id)
+                          ? translations.map(t => (t.id === translation.id ? translation : t))
+                          : [...translations, translation],
+                    },
+                };
+            })}
+            onRemoveTranslation={(id) => setProjectState(prev => ({ ...prev, data: { ...prev.data, translations: (prev.data.translations || []).filter(t => t.id !== id) } }))}
+            onClose={() => setIsTranslationsOpen(false)}
+          />
+      )}
       
       {isStoryboardMode && (
           <StoryboardView data={projectState.data} onClose={() => setIsStoryboardMode(false)} />
       )}
       
-      {isScriptMode && (
+      {isScriptMode && getScriptFormat(projectState.data) === 'screenplay' && (
           <ScriptEditor 
             data={projectState.data} 
             onUpdateScript={(newContent) => {
                 setProjectState(prev => ({
                     ...prev,
-                    data: { ...prev.data, scriptContent: newContent }
+                    data: withScriptContent(prev.data, newContent)
                 }));
             }}
             onClose={() => setIsScriptMode(false)} 
           />
       )}
 
+      {isScriptMode && projectState.data.scriptFormat === 'av' && (
+          <AVScriptEditor
+            data={projectState.data}
+            onUpdateScript={(newContent) => setProjectState(prev => ({ ...prev, data: withScriptContent(prev.data, newContent) }))}
+            onUpdateFormat={(format) => setProjectState(prev => ({ ...prev, data: { ...prev.data, format } }))}
+            onClose={() => setIsScriptMode(false)}
+          />
+      )}
+
+      {isScriptMode && (projectState.data.scriptFormat === 'stage' || projectState.data.scriptFormat === 'audio') && (
+          <PlayScriptEditor
+            format={projectState.data.scriptFormat}
+            data={projectState.data}
+            onUpdateScript={(newContent) => setProjectState(prev => ({ ...prev, data: withScriptContent(prev.data, newContent) }))}
+            onClose={() => setIsScriptMode(false)}
+          />
+      )}
+
       {isHistoryOpen && (
           <VersionHistory 
+            data={projectState.data}
             snapshots={projectState.data.snapshots || []}
             onRestore={restoreSnapshot}
+            onRestorePart={(next) => setProjectState(prev => ({ ...prev, data: { ...next, snapshots: prev.data.snapshots } }))}
+            onIssueRevision={issueRevisionSet}
             onDelete={deleteSnapshot}
             onClose={() => setIsHistoryOpen(false)}
           />
       )}
 
+      {mergingBranch?.branch && mergingMain && (
+          <MergeView
+            branchName={mergingBranch.branch.name}
+            base={mergingBranch.branch.base}
+            main={mergingMain.data}
+            branch={mergingBranch.data}
+            onMerge={mergeDraftBranch}
+            onClose={() => setMergingBranchId(null)}
+          />
+      )}
+
+      {isSeriesOpen && (
+          <SeriesView
+            title={(series || projectState).data.title}
+            plan={series?.data.series}
+            episodes={episodes}
+            activeId={activeId}
+            onStartSeries={startProjectSeries}
+            onUpdatePlan={(plan) => seriesId && updateWorkspace(seriesId, s => ({ ...s, data: { ...s.data, series: plan } }))}
+            onAddEpisode={addEpisode}
+            onUpdateEpisode={(id, patch) => updateWorkspace(id, s => ({ ...s, data: { ...s.data, ...patch } }))}
+            onDeleteEpisode={deleteEpisode}
+            onOpen={(id) => {
+                const target = id || seriesId;
+                if (target && target !== activeId) switchBranch(target);
+                setIsSeriesOpen(false);
+            }}
+            onClose={() => setIsSeriesOpen(false)}
+          />
+      )}
+
       {/* 🆕 IMPORT/EXPORT MODAL */}
       <ScriptImportModal
         isOpen={isImportModalOpen}
@@ -525,6 +939,47 @@ function App() {
         onImport={handleScriptImport}
         currentProject={projectState.data}
       />
+
+      {isBreakdownOpen && (
+          <BreakdownView
+            data={projectState.data}
+            onUpdateBreakdowns={(breakdowns) => {
+                setProjectState(prev => ({
+                    ...prev,
+                    data: { ...prev.data, breakdowns }
+                }));
+            }}
+            onClose={() => setIsBreakdownOpen(false)}
+          />
+      )}
+
+      {isStripboardOpen && (
+          <StripboardView
+            data={projectState.data}
+            onUpdateSchedule={(schedule) => {
+                setProjectState(prev => ({
+                    ...prev,
+                    data: { ...prev.data, schedule }
+                }));
+            }}
+            onUpdateScoutedLocations={(scoutedLocations) => {
+                setProjectState(prev => ({
+                    ...prev,
+                    data: { ...prev.data, scoutedLocations }
+                }));
+            }}
+            onClose={() => setIsStripboardOpen(false)}
+          />
+      )}
+
+      {renameTarget !== null && (
+          <CharacterRenameModal
+            data={projectState.data}
+            initialName={renameTarget}
+            onApply={handleRenameCharacter}
+            onClose={() => setRenameTarget(null)}
+          />
+      )}
     </div>
   );
 }
@@ -0,0 +1,296 @@
+import React, { useState, useMemo } from 'react';
+import { Download, Plus, Trash2, ArrowUp, ArrowDown, Heading, Timer, Scissors, Undo2, AlertTriangle, X, Captions } from 'lucide-react';
+import { ProjectData } from '../types';
+import { parseAVScript, avRowsToText, formatTimecode, formatDuration, renderAVPDF, renderAVDocx, AVRow, AVShot } from '../services/avScriptService';
+import { getSpotTiming, withTargetDuration, formatSpotLength, buildTrimRequest, cleanTrimResult, SPOT_LENGTHS } from '../services/spotTimingService';
+import { punchUpScript } from '../services/geminiService';
+import { downloadFile, toFileBaseName } from '../services/downloadService';
+import CaptionExportModal from './CaptionExportModal';
+
+interface AVScriptEditorProps {
+  data: ProjectData;
+  onUpdateScript: (newScript: string) => void;
+  onUpdateFormat: (format: string) => void;
+  onClose: () => void;
+}
+
+const blankShot = (): AVShot => ({
+  kind: 'shot', number: 0, video: [], audio: [], duration: 0, timed: false, estimate: 0, start: 0, startLine: 0, endLine: 0,
+});
+
+/**
+ * A column cell that commits on blur, so blank lines typed mid-edit don't
+ * split the shot before the writer has finished
+ */
+const ColumnCell: React.FC<{ lines: string[]; placeholder: string; onCommit: (lines: string[]) => void }> = ({ lines, placeholder, onCommit }) => {
+  const text = lines.join('\n');
+  return (
+    <textarea
+      key={text}
+      defaultValue={text}
+      placeholder={placeholder}
+      rows={Math.max(3, lines.length + 1)}
+      onBlur={(e) => {
+        const next = e.target.value.split('\n').map(line => line.trim()).filter(Boolean);
+        if (next.join('\n') !== text) onCommit(next);
+      }}
+      className="w-full bg-white/60 border border-transparent hover:border-gray-300 focus:border-gray-400 focus:bg-white rounded px-2 py-1.5 font-mono text-sm text-black resize-y focus:outline-none"
+    />
+  );
+};
+
+const RowActions: React.FC<{ index: number; onMove: (index: number, by: number) => void; onRemove: (index: number) => void }> = ({ index, onMove, onRemove }) => (
+  <div className="flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity pt-1">
+      <button onClick={() => onMove(index, -1)} className="p-1 rounded text-gray-500 hover:text-black hover:bg-gray-300" title="Move up"><ArrowUp size={13} /></button>
+      <button onClick={() => onMove(index, 1)} className="p-1 rounded text-gray-500 hover:text-black hover:bg-gray-300" title="Move down"><ArrowDown size={13} /></button>
+      <button onClick={() => onRemove(index)} className="p-1 rounded text-gray-500 hover:text-red-600 hover:bg-gray-300" title="Delete"><Trash2 size={13} /></button>
+  </div>
+);
+
+const AVScriptEditor: React.FC<AVScriptEditorProps> = ({ data, onUpdateScript, onUpdateFormat, onClose }) => {
+  const [script, setScript] = useState(data.scriptContent || '');
+  const [viewMode, setViewMode] = useState<'table' | 'text'>('table');
+  const [showTiming, setShowTiming] = useState(false);
+  const [isTrimming, setIsTrimming] = useState(false);
+  const [beforeTrim, setBeforeTrim] = useState<string | null>(null);
+  const [isCaptionsOpen, setIsCaptionsOpen] = useState(false);
+
+  const parsed = useMemo(() => parseAVScript(script), [script]);
+  const timing = useMemo(() => getSpotTiming(script, data.format), [script, data.format]);
+  const target = timing.target;
+
+  const setTarget = (seconds: number | null) => onUpdateFormat(withTargetDuration(data.format, seconds));
+
+  const trimToTarget = async () => {
+      if (!target) return;
+      setIsTrimming(true);
+      try {
+          const { instruction, context } = buildTrimRequest(script, target);
+          const rewritten = cleanTrimResult(await punchUpScript(script.trim(), instruction, context));
+          if (rewritten.trim() && rewritten.trim() !== script.trim()) {
+              setBeforeTrim(script);
+              setScript(rewritten);
+          }
+      } catch (e) {
+          console.error(e);
+      } finally {
+          setIsTrimming(false);
+      }
+  };
+
+  const undoTrim = () => {
+      if (beforeTrim === null) return;
+      setScript(beforeTrim);
+      setBeforeTrim(null);
+  };
+
+  const writeRows = (rows: AVRow[]) => setScript(avRowsToText(rows));
+
+  const updateRow = (index: number, row: AVRow) => writeRows(parsed.rows.map((r, i) => (i === index ? row : r)));
+
+  const insertRow = (index: number, row: AVRow) => writeRows([...parsed.rows.slice(0, index), row, ...parsed.rows.slice(index)]);
+
+  const moveRow = (index: number, by: number) => {
+    const target = index + by;
+    if (target < 0 || target >= parsed.rows.length) return;
+    const rows = [...parsed.rows];
+    [rows[index], rows[target]] = [rows[target], rows[index]];
+    writeRows(rows);
+  };
+
+  const removeRow = (index: number) => writeRows(parsed.rows.filter((_, i) => i !== index));
+
+  const baseName = toFileBaseName(data.title);
+  const current = { ...data, scriptContent: script };
+
+  return (
+    <div className="fixed inset-0 z-40 bg-[#0a0a0a] flex flex-col animate-in slide-in-from-right duration-300">
+      <div className="flex-none h-16 bg-cinematic-900 border-b border-cinematic-700 flex items-center justify-between px-4 shadow-lg">
+        <div className="flex items-center space-x-4">
+             <h2 className="text-white font-bold tracking-tight">AV Script</h2>
+             <span className="text-cinematic-500 text-sm border-l border-cinematic-700 pl-4">{data.title}</span>
+             <div className="flex bg-cinematic-800 rounded p-0.5 text-xs font-medium">
+                 <button onClick={() => setViewMode('table')} className={`px-2.5 py-1 rounded transition-colors ${viewMode === 'table' ? 'bg-cinematic-700 text-white' : 'text-cinematic-400 hover:text-white'}`}>
+                     Two-column
+                 </button>
+                 <button onClick={() => setViewMode('text')} className={`px-2.5 py-1 rounded transition-colors ${viewMode === 'text' ? 'bg-cinematic-700 text-white' : 'text-cinematic-400 hover:text-white'}`}>
+                     Text
+                 </button>
+             </div>
+             <span className="text-xs text-gray-400 font-mono">
+                 {parsed.shots.length} shots · <span className={timing.over > 0 ? 'text-red-400 font-bold' : target ? 'text-green-400' : ''}>{formatDuration(parsed.duration)}</span>
+                 {target && <> / {formatSpotLength(target)}</>}
+             </span>
+             <select
+               value={target && SPOT_LENGTHS.includes(target) ? String(target) : target ? 'custom' : ''}
+               onChange={(e) => e.target.value !== 'custom' && setTarget(e.target.value ? parseInt(e.target.value, 10) : null)}
+               title="Target length, kept in the project format"
+               className="bg-cinematic-800 border border-cinematic-700 rounded px-2 py-1 text-xs text-white focus:outline-none focus:border-cinematic-accent"
+             >
+                 <option value="">No target</option>
+                 {SPOT_LENGTHS.map(seconds => <option key={seconds} value={seconds}>{formatSpotLength(seconds)}</option>)}
+                 {target && !SPOT_LENGTHS.includes(target) && <option value="custom">{formatSpotLength(target)}</option>}
+             </select>
+        </div>
+
+        <div className="flex items-center space-x-2">
+            {beforeTrim !== null && (
+                <button onClick={undoTrim} className="flex items-center gap-2 px-3 py-1.5 bg-cinematic-800 hover:bg-cinematic-700 text-white rounded text-sm font-medium transition-colors">
+                    <Undo2 size={16} /> Undo trim
+                </button>
+            )}
+            <button onClick={() => setShowTiming(!showTiming)} className={`flex items-center gap-2 px-3 py-1.5 rounded text-sm font-medium transition-colors ${showTiming ? 'bg-cinematic-700 text-white' : 'bg-cinematic-800 hover:bg-cinematic-700 text-white'}`}>
+                <Timer size={16} /> Timing
+            </button>
+            <button onClick={() => setIsCaptionsOpen(true)} className="flex items-center gap-2 px-3 py-1.5 bg-cinematic-800 hover:bg-cinematic-700 text-white rounded text-sm font-medium transition-colors">
+                <Captions size={16} /> Captions
+            </button>
+            <button onClick={() => downloadFile(renderAVPDF(current), `${baseName}_AV.pdf`, 'application/pdf')} className="flex items-center gap-2 px-3 py-1.5 bg-cinematic-800 hover:bg-cinematic-700 text-white rounded text-sm font-medium transition-colors">
+                <Download size={16} /> Export .pdf
+            </button>
+            <button onClick={() => downloadFile(renderAVDocx(current), `${baseName}_AV.docx`, 'application/vnd.openxmlformats-officedocument.wordprocessingml.document')} className="flex items-center gap-2 px-3 py-1.5 bg-cinematic-800 hover:bg-cinematic-700 text-white rounded text-sm font-medium transition-colors">
+                <Download size={16} /> Export .docx
+            </button>
+            <button onClick={() => { onUpdateScript(script); onClose(); }} className="px-4 py-1.5 bg-cinematic-accent hover:bg-red-700 text-white rounded text-sm font-medium transition-colors ml-2">
+                Done
+            </button>
+        </div>
+      </div>
+
+      {timing.over > 0 && target && (
+          <div className="flex-none flex items-center justify-between gap-4 px-4 py-2 bg-red-900/40 border-b border-red-800 text-sm text-red-200">
+              <span className="flex items-center gap-2">
+                  <AlertTriangle size={16} className="text-red-400" />
+                  Runs {formatDuration(parsed.duration)}, {formatDuration(timing.over)} over the {formatSpotLength(target)} target.
+              </span>
+              <button onClick={trimToTarget} disabled={isTrimming} className="flex items-center gap-1.5 px-3 py-1 bg-cinematic-accent hover:bg-red-700 disabled:opacity-50 text-white rounded text-xs font-medium transition-colors">
+                  <Scissors size={12} /> {isTrimming ? 'Trimming...' : `Trim to ${formatSpotLength(target)}`}
+              </button>
+          </div>
+      )}
+
+      <div className="flex-1 flex overflow-hidden">
+      <div className="flex-1 overflow-y-auto bg-[#E8E8E8] text-black relative">
+          {isTrimming && (
+              <div className="absolute inset-0 bg-black/10 backdrop-blur-[1px] flex items-center justify-center z-50">
+                  <div className="bg-cinematic-900 text-white px-6 py-4 rounded-lg shadow-xl flex items-center gap-3">
+                      <div className="animate-spin w-5 h-5 border-2 border-cinematic-accent border-t-transparent rounded-full"></div>
+                      <span className="font-mono text-sm">TRIMMING TO {formatSpotLength(target || 0)}...</span>
+                  </div>
+              </div>
+          )}
+          {viewMode === 'text' ? (
+              <textarea
+                value={script}
+                onChange={(e) => setScript(e.target.value)}
+                spellCheck={false}
+                placeholder={'VIDEO: Wide on the city at dawn. [0:05]\nAUDIO: MUSIC: Soft piano.\nVO: Every day starts somewhere.'}
+                className="w-full h-full p-8 bg-transparent font-mono text-sm leading-relaxed resize-none focus:outline-none"
+              />
+          ) : (
+              <div className="max-w-6xl mx-auto p-6">
+                  <div className="grid grid-cols-[3rem_5.5rem_1fr_1fr_5rem_4.5rem] gap-2 px-2 pb-2 text-[11px] font-bold uppercase tracking-wider text-gray-500 border-b border-gray-300">
+                      <span>Shot</span><span>Time</span><span>Video</span><span>Audio</span><span>Length</span><span />
+                  </div>
+
+                  {parsed.rows.map((row, index) => (
+                      <div key={`${index}-${row.startLine}`} className="group border-b border-gray-300">
+                          {row.kind === 'section' ? (
+                              <div className="flex items-center gap-2 px-2 py-2 bg-gray-200/70">
+                                  <input
+                                    defaultValue={row.title}
+                                    key={row.title}
+                                    onBlur={(e) => e.target.value.trim() !== row.title && updateRow(index, { ...row, title: e.target.value.trim() || 'SECTION' })}
+                                    className="flex-1 bg-transparent font-mono text-sm font-bold uppercase focus:outline-none focus:bg-white rounded px-1"
+                                  />
+                                  <RowActions index={index} onMove={moveRow} onRemove={removeRow} />
+                              </div>
+                          ) : (
+                              <div className="grid grid-cols-[3rem_5.5rem_1fr_1fr_5rem_4.5rem] gap-2 px-2 py-2 items-start">
+                                  <span className="font-mono font-bold text-sm pt-1.5">{row.number}</span>
+                                  <span className="font-mono text-xs text-gray-600 pt-2">{formatTimecode(row.start)}</span>
+                                  <ColumnCell lines={row.video} placeholder="What we see" onCommit={(video) => updateRow(index, { ...row, video })} />
+                                  <ColumnCell lines={row.audio} placeholder="VO: / SFX: / MUSIC:" onCommit={(audio) => updateRow(index, { ...row, audio })} />
+                                  <input
+                                    type="number"
+                                    min={0}
+                                    step={0.5}
+                                    key={`${row.timed}-${row.duration}`}
+                                    defaultValue={row.timed ? row.duration : ''}
+                                    placeholder={formatDuration(row.estimate)}
+                                    title={row.timed ? `Seconds. Its lines need ${formatDuration(row.estimate)}.` : 'Estimated from its lines. Type seconds to fix the length.'}
+                                    onBlur={(e) => {
+                                      const seconds = parseFloat(e.target.value);
+                                      const timed = seconds > 0;
+                                      if (timed !== row.timed || (timed && seconds !== row.duration)) updateRow(index, { ...row, timed, duration: timed ? seconds : 0 });
+                                    }}
+                                    className={`w-full bg-white/60 border hover:border-gray-300 focus:border-gray-400 focus:bg-white rounded px-2 py-1.5 font-mono text-sm focus:outline-none ${row.timed && row.duration < row.estimate ? 'border-red-400 text-red-700' : 'border-transparent'}`}
+                                  />
+                                  <RowActions index={index} onMove={moveRow} onRemove={removeRow} />
+                              </div>
+                          )}
+                      </div>
+                  ))}
+
+                  {parsed.rows.length === 0 && (
+                      <p className="text-sm text-gray-500 italic text-center py-12">No shots yet. Add the first one below, or ask the Writer's Room to draft the spot.</p>
+                  )}
+
+                  <div className="flex items-center gap-2 pt-4">
+                      <button onClick={() => insertRow(parsed.rows.length, blankShot())} className="flex items-center gap-1.5 px-3 py-1 bg-cinematic-800 hover:bg-cinematic-700 text-white rounded text-xs transition-colors">
+                          <Plus size={12} /> Shot
+                      </button>
+                      <button onClick={() => insertRow(parsed.rows.length, { kind: 'section', title: 'NEW SECTION', startLine: 0, endLine: 0 })} className="flex items-center gap-1.5 px-3 py-1 bg-cinematic-800 hover:bg-cinematic-700 text-white rounded text-xs transition-colors">
+                          <Heading size={12} /> Section
+                      </button>
+                  </div>
+              </div>
+          )}
+      </div>
+
+      {showTiming && (
+          <div className="w-80 flex-none bg-cinematic-900 border-l border-cinematic-700 text-white flex flex-col">
+              <div className="bg-cinematic-800 p-3 flex justify-between items-center border-b border-cinematic-700">
+                  <h3 className="font-bold text-sm flex items-center gap-2"><Timer size={14} /> Timing</h3>
+                  <button onClick={() => setShowTiming(false)} className="text-gray-400 hover:text-white"><X size={14} /></button>
+              </div>
+              <div className="flex-1 overflow-y-auto p-3 space-y-3">
+                  {timing.shots.map(shot => (
+                      <div key={shot.number} className={`rounded border p-2 ${shot.short ? 'border-red-800 bg-red-900/20' : 'border-cinematic-700 bg-cinematic-800/50'}`}>
+                          <div className="flex items-center justify-between text-xs font-mono mb-1">
+                              <span className="font-bold">Shot {shot.number}</span>
+                              <span className="text-gray-400">{formatTimecode(shot.start)} · {formatDuration(shot.duration)}{shot.timed ? '' : ' est.'}</span>
+                          </div>
+                          {shot.lines.map((line, i) => (
+                              <div key={i} className="flex items-start justify-between gap-2 text-[11px] py-0.5">
+                                  <span className="text-gray-300 truncate" title={line.text}>
+                                      <span className="text-gray-500 uppercase mr-1">{line.column === 'video' ? 'V' : 'A'}</span>{line.text}
+                                  </span>
+                                  <span className="font-mono text-gray-400 flex-none">{line.seconds ? `${line.seconds.toFixed(1)}s` : 'under'}</span>
+                              </div>
+                          ))}
+                          {shot.short && (
+                              <p className="text-[11px] text-red-300 mt-1">Set to {formatDuration(shot.duration)} but its lines need {formatDuration(shot.estimate)}.</p>
+                          )}
+                      </div>
+                  ))}
+                  {timing.shots.length === 0 && <p className="text-xs text-gray-500 italic">No shots to time yet.</p>}
+              </div>
+              <div className="flex-none border-t border-cinematic-700 p-3 text-xs font-mono flex items-center justify-between">
+                  <span>Total {formatDuration(timing.duration)}</span>
+                  {target && (
+                      <span className={timing.over > 0 ? 'text-red-400' : 'text-green-400'}>
+                          {timing.over > 0 ? `${formatDuration(timing.over)} over` : `${formatDuration(target - timing.duration)} to spare`}
+                      </span>
+                  )}
+              </div>
+          </div>
+      )}
+      </div>
+
+      {isCaptionsOpen && <CaptionExportModal data={current} onClose={() => setIsCaptionsOpen(false)} />}
+    </div>
+  );
+};
+
+export default AVScriptEditor;
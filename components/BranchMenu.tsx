@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { GitBranch, GitMerge, Plus, Check, Trash2, ChevronDown } from 'lucide-react';
+import { DraftBranch } from '../types';
+
+interface BranchMenuProps {
+  branches: DraftBranch[];
+  activeBranch?: DraftBranch;
+  onSwitch: (id: string | null) => void; // null switches back to main
+  onCreate: (name: string) => void;
+  onMerge: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const BranchMenu: React.FC<BranchMenuProps> = ({ branches, activeBranch, onSwitch, onCreate, onMerge, onDelete }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+
+  const run = (action: () => void) => {
+    setIsOpen(false);
+    action();
+  };
+
+  const create = () => {
+    if (!newName.trim()) return;
+    run(() => onCreate(newName.trim()));
+    setNewName('');
+  };
+
+  return (
+    <div className="relative">
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className={`flex items-center gap-1.5 px-2 py-1 rounded text-xs transition-colors ${activeBranch ? 'bg-cinematic-800 text-cinematic-gold' : 'text-cinematic-400 hover:text-white hover:bg-cinematic-800'}`}
+          title="Draft branches"
+        >
+            <GitBranch size={14} />
+            <span className="max-w-[8rem] truncate hidden sm:inline">{activeBranch ? activeBranch.name : 'Main'}</span>
+            <ChevronDown size={12} />
+        </button>
+
+        {isOpen && (
+            <>
+                <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
+                <div className="absolute right-0 top-full mt-1 z-50 w-72 bg-cinematic-900 border border-cinematic-700 rounded-lg shadow-xl text-sm overflow-hidden">
+                    <button
+                      onClick={() => run(() => onSwitch(null))}
+                      className="w-full flex items-center gap-2 px-3 py-2 text-left text-gray-200 hover:bg-cinematic-800"
+                    >
+                        <span className="w-4">{!activeBranch && <Check size={14} className="text-green-400" />}</span>
+                        <span className="flex-1 font-medium">Main</span>
+                    </button>
+
+                    {branches.map(branch => (
+                        <div key={branch.id} className="group flex items-center gap-2 px-3 py-2 hover:bg-cinematic-800">
+                            <span className="w-4">{activeBranch?.id === branch.id && <Check size={14} className="text-green-400" />}</span>
+                            <button onClick={() => run(() => onSwitch(branch.id))} className="flex-1 min-w-0 text-left text-gray-200 truncate">
+                                {branch.name}
+                            </button>
+                            <button
+                              onClick={() => run(() => onMerge(branch.id))}
+                              className="p-1 rounded text-gray-500 hover:text-white hover:bg-cinematic-700 opacity-0 group-hover:opacity-100"
+                              title="Merge into main"
+                            >
+                                <GitMerge size={13} />
+                            </button>
+                            <button
+                              onClick={() => {
+                                if (confirm(`Delete branch "${branch.name}"? Its work and history are lost unless merged.`)) run(() => onDelete(branch.id));
+                              }}
+                              className="p-1 rounded text-gray-500 hover:text-red-400 hover:bg-cinematic-700 opacity-0 group-hover:opacity-100"
+                              title="Delete branch"
+                            >
+                                <Trash2 size={13} />
+                            </button>
+                        </div>
+                    ))}
+
+                    <div className="flex items-center gap-2 p-2 border-t border-cinematic-800">
+                        <input
+                          value={newName}
+                          onChange={(e) => setNewName(e.target.value)}
+                          onKeyDown={(e) => e.key === 'Enter' && create()}
+                          placeholder={activeBranch ? 'New branch from main…' : 'New branch…'}
+                          className="flex-1 min-w-0 bg-cinematic-800 border border-cinematic-700 rounded px-2 py-1 text-xs text-white focus:outline-none focus:border-cinematic-gold"
+                        />
+                        <button
+                          onClick={create}
+                          disabled={!newName.trim()}
+                          className="flex items-center gap-1.5 px-3 py-1 bg-cinematic-800 hover:bg-cinematic-700 text-white rounded text-xs transition-colors disabled:opacity-50"
+                        >
+                            <Plus size={12} /> Branch
+                        </button>
+                    </div>
+                </div>
+            </>
+        )}
+    </div>
+  );
+};
+
+export default BranchMenu;
@@ -0,0 +1,218 @@
+import React, { useState, useMemo } from 'react';
+import { ClipboardList, Download, Sparkles, Plus, X, Check } from 'lucide-react';
+import { ProjectData, SceneBreakdown, BreakdownCategory } from '../types';
+import {
+  BREAKDOWN_CATEGORIES,
+  BreakdownTags,
+  getBreakdownScenes,
+  getSceneBreakdown,
+  setSceneBreakdown,
+  addTags,
+  removeTag,
+  untaggedSuggestions,
+  detectSceneTags,
+  suggestSceneTags,
+  breakdownToCSV,
+  renderBreakdownHTML,
+  renderBreakdownPDF,
+} from '../services/breakdownService';
+import { formatEighths } from '../services/paginationService';
+import { downloadFile, toFileBaseName } from '../services/downloadService';
+
+interface BreakdownViewProps {
+  data: ProjectData;
+  onUpdateBreakdowns: (breakdowns: SceneBreakdown[]) => void;
+  onClose: () => void;
+}
+
+const BreakdownView: React.FC<BreakdownViewProps> = ({ data, onUpdateBreakdowns, onClose }) => {
+  const scenes = useMemo(() => getBreakdownScenes(data), [data.scriptContent, data.scriptDocument]);
+  const [selectedId, setSelectedId] = useState<string | null>(scenes[0]?.id ?? null);
+  const [drafts, setDrafts] = useState<Partial<Record<BreakdownCategory, string>>>({});
+  const [aiSuggestions, setAiSuggestions] = useState<Record<string, BreakdownTags>>({});
+  const [isSuggesting, setIsSuggesting] = useState(false);
+
+  const scene = scenes.find(s => s.id === selectedId) || scenes[0];
+  const breakdown = scene ? getSceneBreakdown(data.breakdowns, scene.id) : null;
+
+  const suggestions = useMemo<BreakdownTags>(() => {
+    if (!scene || !breakdown) return {};
+    return untaggedSuggestions(breakdown, addTags({ sceneId: scene.id, tags: detectSceneTags(scene) }, aiSuggestions[scene.id] || {}).tags);
+  }, [scene, breakdown, aiSuggestions]);
+  const suggestionCount = Object.values(suggestions).reduce((sum, items) => sum + (items?.length || 0), 0);
+
+  const save = (next: SceneBreakdown) => onUpdateBreakdowns(setSceneBreakdown(data.breakdowns, next));
+
+  const addDraft = (category: BreakdownCategory) => {
+    const item = drafts[category]?.trim();
+    if (!breakdown || !item) return;
+    save(addTags(breakdown, { [category]: [item] }));
+    setDrafts(prev => ({ ...prev, [category]: '' }));
+  };
+
+  const runAISuggestions = async () => {
+    if (!scene) return;
+    setIsSuggesting(true);
+    try {
+      const tags = await suggestSceneTags(scene);
+      setAiSuggestions(prev => ({ ...prev, [scene.id]: tags }));
+    } catch (e) {
+      console.error(e);
+      alert("Could not get breakdown suggestions.");
+    } finally {
+      setIsSuggesting(false);
+    }
+  };
+
+  const tagCount = (sceneId: string) =>
+    Object.values(getSceneBreakdown(data.breakdowns, sceneId).tags).reduce((sum, items) => sum + (items?.length || 0), 0);
+
+  const baseName = toFileBaseName(data.title);
+  const exportPDF = (all: boolean) => {
+    const selection = all ? scenes : scene ? [scene] : [];
+    const suffix = all ? 'Breakdown' : `Breakdown_Sc${scene?.number}`;
+    downloadFile(renderBreakdownPDF(data.title, selection, data.breakdowns), `${baseName}_${suffix}.pdf`, 'application/pdf');
+  };
+  const exportHTML = () => downloadFile(renderBreakdownHTML(data.title, scenes, data.breakdowns), `${baseName}_Breakdown.html`, 'text/html');
+  const exportCSV = () => downloadFile(breakdownToCSV(scenes, data.breakdowns), `${baseName}_Breakdown.csv`, 'text/csv');
+
+  return (
+    <div className="fixed inset-0 z-40 bg-[#0a0a0a] flex flex-col animate-in slide-in-from-right duration-300">
+      {/* Toolbar */}
+      <div className="flex-none h-16 bg-cinematic-900 border-b border-cinematic-700 flex items-center justify-between px-4 shadow-lg">
+        <div className="flex items-center space-x-4">
+             <h2 className="text-white font-bold tracking-tight flex items-center gap-2"><ClipboardList size={18} className="text-cinematic-gold" /> Production Breakdown</h2>
+             <span className="text-cinematic-500 text-sm border-l border-cinematic-700 pl-4">{data.title}</span>
+        </div>
+        <div className="flex items-center space-x-2">
+            <button onClick={() => exportPDF(false)} disabled={!scene} className="flex items-center gap-2 px-3 py-1.5 bg-cinematic-800 hover:bg-cinematic-700 disabled:opacity-40 text-white rounded text-sm font-medium transition-colors">
+                <Download size={16} /> Sheet .pdf
+            </button>
+            <button onClick={() => exportPDF(true)} disabled={!scenes.length} className="flex items-center gap-2 px-3 py-1.5 bg-cinematic-800 hover:bg-cinematic-700 disabled:opacity-40 text-white rounded text-sm font-medium transition-colors">
+                <Download size={16} /> All .pdf
+            </button>
+            <button onClick={exportHTML} disabled={!scenes.length} className="flex items-center gap-2 px-3 py-1.5 bg-cinematic-800 hover:bg-cinematic-700 disabled:opacity-40 text-white rounded text-sm font-medium transition-colors">
+                <Download size={16} /> All .html
+            </button>
+            <button onClick={exportCSV} disabled={!scenes.length} className="flex items-center gap-2 px-3 py-1.5 bg-cinematic-800 hover:bg-cinematic-700 disabled:opacity-40 text-white rounded text-sm font-medium transition-colors">
+                <Download size={16} /> .csv
+            </button>
+            <button onClick={onClose} className="px-4 py-1.5 bg-cinematic-accent hover:bg-red-700 text-white rounded text-sm font-medium transition-colors ml-2">
+                Done
+            </button>
+        </div>
+      </div>
+
+      <div className="flex-1 flex overflow-hidden">
+         {/* Scene list */}
+         <div className="w-72 bg-cinematic-900 border-r border-cinematic-700 flex flex-col">
+             <div className="p-3 border-b border-cinematic-800">
+                 <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider">Scenes</h3>
+             </div>
+             <div className="flex-1 overflow-y-auto p-2 space-y-1">
+                 {scenes.map(s => (
+                     <button
+                        key={s.id}
+                        onClick={() => setSelectedId(s.id)}
+                        className={`w-full text-left p-2 rounded transition-colors font-mono text-xs ${s.id === scene?.id ? 'bg-cinematic-800 text-white' : 'text-gray-400 hover:text-white hover:bg-cinematic-800/60'}`}
+                     >
+                        <div className="flex justify-between gap-2">
+                            <span className="truncate"><span className="text-cinematic-gold mr-2">{s.number}</span>{s.scene.heading}</span>
+                            <span className="text-gray-500 flex-none">{formatEighths(s.eighths)}</span>
+                        </div>
+                        <div className="text-[10px] text-gray-600 mt-0.5">{tagCount(s.id)} tagged</div>
+                     </button>
+                 ))}
+                 {scenes.length === 0 && <p className="text-xs text-gray-600 p-2 italic">Write or import a script to break it down.</p>}
+             </div>
+         </div>
+
+         {/* Scene breakdown */}
+         {scene && breakdown ? (
+             <div className="flex-1 overflow-y-auto p-6">
+                 <div className="flex items-start justify-between gap-6 mb-6">
+                     <div>
+                         <div className="text-xs font-mono text-cinematic-gold">SCENE {scene.number} · {formatEighths(scene.eighths)} pgs · p.{scene.startPage}</div>
+                         <h3 className="text-white font-bold text-lg font-mono mt-1">{scene.scene.heading}</h3>
+                         {scene.synopsis && <p className="text-sm text-gray-400 mt-2 max-w-2xl">{scene.synopsis}</p>}
+                     </div>
+                     <button
+                        onClick={runAISuggestions}
+                        disabled={isSuggesting}
+                        className="flex-none flex items-center gap-2 px-3 py-1.5 bg-cinematic-800 hover:bg-cinematic-700 disabled:opacity-50 text-white rounded text-sm font-medium transition-colors"
+                     >
+                        <Sparkles size={16} className={isSuggesting ? 'animate-pulse text-cinematic-gold' : 'text-cinematic-gold'} />
+                        {isSuggesting ? 'Reading scene...' : 'Suggest with AI'}
+                     </button>
+                 </div>
+
+                 {suggestionCount > 0 && (
+                     <div className="mb-6 flex items-center justify-between bg-cinematic-900 border border-dashed border-cinematic-700 rounded-lg px-4 py-2">
+                         <span className="text-xs text-gray-400">{suggestionCount} suggested element{suggestionCount === 1 ? '' : 's'} — click one to tag it.</span>
+                         <button onClick={() => save(addTags(breakdown, suggestions))} className="flex items-center gap-1 text-xs text-green-400 hover:text-green-300">
+                             <Check size={14} /> Accept all
+                         </button>
+                     </div>
+                 )}
+
+                 <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+                     <div className="xl:col-span-2 grid grid-cols-1 md:grid-cols-2 gap-4 content-start">
+                         {BREAKDOWN_CATEGORIES.map(category => (
+                             <div key={category.id} className="bg-cinematic-900 border border-cinematic-700 rounded-lg overflow-hidden">
+                                 <div className="px-3 py-1.5 text-xs font-bold uppercase tracking-wider text-white" style={{ backgroundColor: category.color }}>
+                                     {category.label}
+                                 </div>
+                                 <div className="p-3 space-y-2">
+                                     <div className="flex flex-wrap gap-1.5">
+                                         {(breakdown.tags[category.id] || []).map(item => (
+                                             <span key={item} className="flex items-center gap-1 text-xs bg-cinematic-800 text-gray-200 border border-cinematic-700 rounded px-2 py-0.5">
+                                                 {item}
+                                                 <button onClick={() => save(removeTag(breakdown, category.id, item))} className="text-gray-500 hover:text-red-400"><X size={10} /></button>
+                                             </span>
+                                         ))}
+                                         {(suggestions[category.id] || []).map(item => (
+                                             <button
+                                                key={`suggested-${item}`}
+                                                onClick={() => save(addTags(breakdown, { [category.id]: [item] }))}
+                                                className="flex items-center gap-1 text-xs text-gray-400 border border-dashed border-cinematic-600 hover:border-cinematic-gold hover:text-white rounded px-2 py-0.5 transition-colors"
+                                             >
+                                                 <Plus size={10} /> {item}
+                                             </button>
+                                         ))}
+                                     </div>
+                                     <input
+                                        value={drafts[category.id] || ''}
+                                        onChange={(e) => setDrafts(prev => ({ ...prev, [category.id]: e.target.value }))}
+                                        onKeyDown={(e) => e.key === 'Enter' && addDraft(category.id)}
+                                        placeholder={`Add ${category.label.toLowerCase()}...`}
+                                        className="w-full bg-transparent border-b border-cinematic-800 focus:border-cinematic-600 text-xs text-white py-1 focus:outline-none"
+                                     />
+                                 </div>
+                             </div>
+                         ))}
+                         <div className="md:col-span-2 bg-cinematic-900 border border-cinematic-700 rounded-lg p-3">
+                             <label className="text-xs font-bold text-gray-500 uppercase tracking-wider block mb-2">Notes</label>
+                             <textarea
+                                value={breakdown.notes || ''}
+                                onChange={(e) => save({ ...breakdown, notes: e.target.value })}
+                                rows={3}
+                                className="w-full bg-transparent text-sm text-gray-200 focus:outline-none resize-none"
+                                placeholder="Anything the departments should know..."
+                             />
+                         </div>
+                     </div>
+
+                     <div className="bg-[#E8E8E8] text-black rounded-lg p-4 font-mono text-xs whitespace-pre-wrap overflow-y-auto max-h-[70vh]">
+                         {scene.text}
+                     </div>
+                 </div>
+             </div>
+         ) : (
+             <div className="flex-1 flex items-center justify-center text-gray-600 text-sm">No scenes to break down yet.</div>
+         )}
+      </div>
+    </div>
+  );
+};
+
+export default BreakdownView;
@@ -0,0 +1,180 @@
+import React, { useState, useMemo } from 'react';
+import { Download, FileText } from 'lucide-react';
+import { ProjectData, ShootingSchedule, CallSheetDetails, CallSheetTemplate, ScoutedLocation } from '../types';
+import { Strip, shootDayDates, formatShootDate } from '../services/scheduleService';
+import { buildCallSheet, renderCallSheetHTML, renderCallSheetPDF, findScoutedLocation, DEFAULT_GENERAL_CALL } from '../services/callSheetService';
+import { downloadFile, toFileBaseName } from '../services/downloadService';
+
+interface CallSheetEditorProps {
+  data: ProjectData;
+  strips: Strip[];
+  schedule: ShootingSchedule;
+  onUpdateSchedule: (schedule: ShootingSchedule) => void;
+  onUpdateScoutedLocations: (locations: ScoutedLocation[]) => void;
+}
+
+const inputClass = "w-full bg-cinematic-800 border border-cinematic-700 rounded px-2 py-1 text-white text-xs focus:outline-none focus:border-cinematic-500";
+
+const CallSheetEditor: React.FC<CallSheetEditorProps> = ({ data, strips, schedule, onUpdateSchedule, onUpdateScoutedLocations }) => {
+  const [dayIndex, setDayIndex] = useState(0);
+  const [isTemplateOpen, setIsTemplateOpen] = useState(false);
+  const dates = shootDayDates(schedule);
+  const index = Math.min(dayIndex, schedule.days.length - 1);
+  const day = schedule.days[index];
+  const scouted = data.scoutedLocations || [];
+
+  const sheet = useMemo(
+    () => (day ? buildCallSheet(data.title, strips, schedule, index, scouted) : null),
+    [data.title, strips, schedule, index, scouted, day]
+  );
+  const preview = useMemo(() => (sheet ? renderCallSheetHTML(data.title, [sheet]) : ''), [sheet, data.title]);
+
+  if (!day || !sheet) {
+    return (
+      <div className="flex-1 flex items-center justify-center text-gray-600 text-sm">
+        Add shoot days on the board to generate call sheets.
+      </div>
+    );
+  }
+
+  const template = schedule.callSheetTemplate || {};
+  const details = day.callSheet || {};
+
+  const updateTemplate = (changes: Partial<CallSheetTemplate>) =>
+    onUpdateSchedule({ ...schedule, callSheetTemplate: { ...template, ...changes } });
+
+  const updateDetails = (changes: Partial<CallSheetDetails>) =>
+    onUpdateSchedule({
+      ...schedule,
+      days: schedule.days.map(d => (d.id === day.id ? { ...d, callSheet: { ...details, ...changes } } : d)),
+    });
+
+  // Each set is shot at one place; picking a place for it releases any other
+  const assignPlace = (set: string, placeId: string) => {
+    const key = set.toUpperCase();
+    if (placeId === 'new') {
+      const place: ScoutedLocation = { id: crypto.randomUUID(), name: set, scriptLocation: key };
+      onUpdateScoutedLocations([...scouted.map(p => (p.scriptLocation === key ? { ...p, scriptLocation: undefined } : p)), place]);
+      return;
+    }
+    onUpdateScoutedLocations(scouted.map(p => {
+      if (p.id === placeId) return { ...p, scriptLocation: key };
+      return p.scriptLocation === key ? { ...p, scriptLocation: undefined } : p;
+    }));
+  };
+
+  const updatePlace = (id: string, changes: Partial<ScoutedLocation>) =>
+    onUpdateScoutedLocations(scouted.map(p => (p.id === id ? { ...p, ...changes } : p)));
+
+  const baseName = toFileBaseName(data.title);
+  const allSheets = () => schedule.days.map((_, i) => buildCallSheet(data.title, strips, schedule, i, scouted));
+  const exportDay = (format: 'pdf' | 'html') => {
+    const name = `${baseName}_Call_Sheet_Day${sheet.dayNumber}`;
+    if (format === 'pdf') downloadFile(renderCallSheetPDF(data.title, [sheet]), `${name}.pdf`, 'application/pdf');
+    else downloadFile(preview, `${name}.html`, 'text/html');
+  };
+  const exportAll = (format: 'pdf' | 'html') => {
+    const name = `${baseName}_Call_Sheets`;
+    if (format === 'pdf') downloadFile(renderCallSheetPDF(data.title, allSheets()), `${name}.pdf`, 'application/pdf');
+    else downloadFile(renderCallSheetHTML(data.title, allSheets()), `${name}.html`, 'text/html');
+  };
+
+  return (
+    <div className="flex-1 flex overflow-hidden">
+      {/* Days */}
+      <div className="w-48 flex-none bg-cinematic-900 border-r border-cinematic-700 overflow-y-auto p-2 space-y-1">
+          {schedule.days.map((d, i) => (
+              <button
+                key={d.id}
+                onClick={() => setDayIndex(i)}
+                className={`w-full text-left px-3 py-2 rounded text-xs transition-colors ${i === index ? 'bg-cinematic-800 text-white' : 'text-gray-400 hover:text-white hover:bg-cinematic-800/60'}`}
+              >
+                  <div className="font-bold">Day {i + 1}</div>
+                  <div className="text-[10px] text-gray-500">{dates[i] ? formatShootDate(dates[i]!) : 'No date'} · {d.sceneIds.length} sc</div>
+              </button>
+          ))}
+      </div>
+
+      {/* Editor */}
+      <div className="w-96 flex-none overflow-y-auto p-4 space-y-5 border-r border-cinematic-800">
+          <section className="space-y-2">
+              <button onClick={() => setIsTemplateOpen(!isTemplateOpen)} className="text-xs font-bold text-gray-500 uppercase tracking-wider hover:text-white">
+                  {isTemplateOpen ? '▾' : '▸'} Template (all days)
+              </button>
+              {isTemplateOpen && (
+                  <div className="space-y-2">
+                      <input value={template.production || ''} onChange={(e) => updateTemplate({ production: e.target.value })} placeholder="Production company" className={inputClass} />
+                      <textarea value={template.contacts || ''} onChange={(e) => updateTemplate({ contacts: e.target.value })} rows={3} placeholder="Key contacts, one per line" className={inputClass} />
+                      <input value={template.generalCall || ''} onChange={(e) => updateTemplate({ generalCall: e.target.value })} placeholder={`Default crew call (${DEFAULT_GENERAL_CALL})`} className={inputClass} />
+                      <textarea value={template.hospital || ''} onChange={(e) => updateTemplate({ hospital: e.target.value })} rows={2} placeholder="Nearest hospital" className={inputClass} />
+                      <textarea value={template.notes || ''} onChange={(e) => updateTemplate({ notes: e.target.value })} rows={3} placeholder="Standing notes (safety, parking...)" className={inputClass} />
+                  </div>
+              )}
+          </section>
+
+          <section className="space-y-2">
+              <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider">Day {sheet.dayNumber}</h3>
+              <label className="flex items-center gap-2 text-xs text-gray-400">
+                  <span className="w-24">Crew call</span>
+                  <input value={details.generalCall || ''} onChange={(e) => updateDetails({ generalCall: e.target.value || undefined })} placeholder={template.generalCall || DEFAULT_GENERAL_CALL} className={inputClass} />
+              </label>
+              <textarea value={details.notes || ''} onChange={(e) => updateDetails({ notes: e.target.value })} rows={3} placeholder="Notes for this day" className={inputClass} />
+          </section>
+
+          <section className="space-y-1">
+              <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider mb-2">Cast Calls</h3>
+              {sheet.cast.map(member => (
+                  <label key={member.name} className="flex items-center gap-2 text-xs text-gray-300">
+                      <span className="w-6 text-right text-cinematic-gold">{member.number ?? ''}</span>
+                      <span className="flex-1 truncate">{member.name}</span>
+                      <input
+                        value={details.castCalls?.[member.name] || ''}
+                        onChange={(e) => updateDetails({ castCalls: { ...details.castCalls, [member.name]: e.target.value } })}
+                        placeholder={sheet.generalCall}
+                        className={`${inputClass} w-20`}
+                      />
+                  </label>
+              ))}
+              {sheet.cast.length === 0 && <p className="text-xs text-gray-600 italic">No cast tagged in this day's scenes.</p>}
+          </section>
+
+          <section className="space-y-3">
+              <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider">Locations</h3>
+              {sheet.locations.map(({ set }) => {
+                  const place = findScoutedLocation(scouted, set);
+                  return (
+                      <div key={set} className="space-y-1">
+                          <div className="text-xs text-white font-mono">{set}</div>
+                          <select value={place?.id || ''} onChange={(e) => assignPlace(set, e.target.value)} className={inputClass}>
+                              <option value="" disabled>Choose a scouted location...</option>
+                              {scouted.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                              <option value="new">+ New location</option>
+                          </select>
+                          {place && (
+                              <>
+                                  <input value={place.name} onChange={(e) => updatePlace(place.id, { name: e.target.value })} placeholder="Location name" className={inputClass} />
+                                  <input value={place.address || ''} onChange={(e) => updatePlace(place.id, { address: e.target.value })} placeholder="Address" className={inputClass} />
+                              </>
+                          )}
+                      </div>
+                  );
+              })}
+          </section>
+      </div>
+
+      {/* Preview */}
+      <div className="flex-1 flex flex-col overflow-hidden">
+          <div className="flex-none flex items-center justify-end gap-2 p-2 border-b border-cinematic-800">
+              <span className="mr-auto text-xs text-gray-500 flex items-center gap-1.5"><FileText size={14} /> Preview</span>
+              <button onClick={() => exportDay('pdf')} className="flex items-center gap-1.5 px-3 py-1 bg-cinematic-800 hover:bg-cinematic-700 text-white rounded text-xs transition-colors"><Download size={14} /> Day .pdf</button>
+              <button onClick={() => exportDay('html')} className="flex items-center gap-1.5 px-3 py-1 bg-cinematic-800 hover:bg-cinematic-700 text-white rounded text-xs transition-colors"><Download size={14} /> Day .html</button>
+              <button onClick={() => exportAll('pdf')} className="flex items-center gap-1.5 px-3 py-1 bg-cinematic-800 hover:bg-cinematic-700 text-white rounded text-xs transition-colors"><Download size={14} /> All .pdf</button>
+              <button onClick={() => exportAll('html')} className="flex items-center gap-1.5 px-3 py-1 bg-cinematic-800 hover:bg-cinematic-700 text-white rounded text-xs transition-colors"><Download size={14} /> All .html</button>
+          </div>
+          <iframe title="Call sheet preview" srcDoc={preview} className="flex-1 bg-white" />
+      </div>
+    </div>
+  );
+};
+
+export default CallSheetEditor;
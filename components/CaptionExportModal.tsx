@@ -0,0 +1,156 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { Captions, Download, Upload, X } from 'lucide-react';
+import { ProjectData } from '../types';
+import { buildCaptions, toSRT, toWebVTT, formatSrtTime, CAPTION_DEFAULTS, CaptionOptions, RecordedTiming } from '../services/subtitleService';
+import { formatDuration } from '../services/avScriptService';
+import { downloadFile, toFileBaseName } from '../services/downloadService';
+
+interface CaptionExportModalProps {
+  data: ProjectData;
+  // The editor's last table read and how much of the script it covered
+  tableRead?: { src: string; scriptChars: number } | null;
+  onClose: () => void;
+}
+
+interface Recording {
+  label: string;
+  seconds: number;
+  lines?: number;
+}
+
+const inputClass = 'bg-cinematic-800 border border-cinematic-700 rounded px-3 py-2 text-sm text-white focus:outline-none focus:border-cinematic-accent';
+
+const measureAudio = (src: string): Promise<number> => new Promise((resolve, reject) => {
+  const audio = new Audio();
+  audio.preload = 'metadata';
+  audio.onloadedmetadata = () => (Number.isFinite(audio.duration) ? resolve(audio.duration) : reject(new Error('Unknown duration')));
+  audio.onerror = () => reject(new Error('Could not read audio'));
+  audio.src = src;
+});
+
+const CaptionExportModal: React.FC<CaptionExportModalProps> = ({ data, tableRead, onClose }) => {
+  const [options, setOptions] = useState<CaptionOptions>(CAPTION_DEFAULTS);
+  const [timing, setTiming] = useState<'reading' | 'recorded'>('reading');
+  const [recording, setRecording] = useState<Recording | null>(null);
+
+  // The table read only covers the top of the script; the rest stays estimated
+  useEffect(() => {
+    if (!tableRead) return;
+    measureAudio(tableRead.src)
+      .then(seconds => {
+        const lines = (data.scriptContent || '').slice(0, tableRead.scriptChars).split('\n').length;
+        setRecording({ label: 'Last table read', seconds, lines });
+        setTiming('recorded');
+      })
+      .catch(() => {});
+  }, [tableRead]);
+
+  const handleUpload = async (file: File) => {
+    const url = URL.createObjectURL(file);
+    try {
+      const seconds = await measureAudio(url);
+      setRecording({ label: file.name, seconds });
+      setTiming('recorded');
+    } catch (e) {
+      alert(`Could not read the length of "${file.name}".`);
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  };
+
+  const recorded: RecordedTiming | undefined = timing === 'recorded' && recording ? { seconds: recording.seconds, lines: recording.lines } : undefined;
+  const captions = useMemo(() => buildCaptions(data, options, recorded), [data, options, recording, timing]);
+  const runningTime = captions.length ? captions[captions.length - 1].end : 0;
+
+  const set = <K extends keyof CaptionOptions>(key: K, value: CaptionOptions[K]) => setOptions(prev => ({ ...prev, [key]: value }));
+
+  const baseName = `${toFileBaseName(data.title)}_Captions`;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-4">
+      <div className="bg-cinematic-900 border border-cinematic-700 w-full max-w-2xl rounded-xl shadow-2xl overflow-hidden flex flex-col max-h-[85vh]">
+        <div className="p-4 border-b border-cinematic-800 flex justify-between items-center bg-cinematic-800/50">
+            <h2 className="text-white font-bold flex items-center gap-2">
+                <Captions size={18} className="text-cinematic-gold"/> Export Captions
+            </h2>
+            <button onClick={onClose} className="text-gray-400 hover:text-white"><X size={20} /></button>
+        </div>
+
+        <div className="p-4 border-b border-cinematic-800 space-y-3">
+            <div className="flex flex-wrap items-end gap-3">
+                <label>
+                    <span className="text-xs text-gray-400 block mb-1">Characters per line</span>
+                    <input type="number" min={20} max={80} value={options.maxChars} onChange={(e) => set('maxChars', Math.max(20, parseInt(e.target.value, 10) || CAPTION_DEFAULTS.maxChars))} className={`w-24 ${inputClass}`} />
+                </label>
+                <label>
+                    <span className="text-xs text-gray-400 block mb-1">Lines</span>
+                    <select value={options.maxLines} onChange={(e) => set('maxLines', parseInt(e.target.value, 10))} className={inputClass}>
+                        <option value={1}>1</option>
+                        <option value={2}>2</option>
+                    </select>
+                </label>
+                <label>
+                    <span className="text-xs text-gray-400 block mb-1">Reading speed (chars/sec)</span>
+                    <input type="number" min={8} max={30} value={options.charsPerSecond} onChange={(e) => set('charsPerSecond', Math.max(8, parseInt(e.target.value, 10) || CAPTION_DEFAULTS.charsPerSecond))} className={`w-24 ${inputClass}`} />
+                </label>
+                <div className="flex flex-col gap-1 text-xs text-gray-300 pb-1">
+                    <label className="flex items-center gap-2">
+                        <input type="checkbox" checked={options.speakerLabels} onChange={(e) => set('speakerLabels', e.target.checked)} /> Speaker labels
+                    </label>
+                    <label className="flex items-center gap-2">
+                        <input type="checkbox" checked={options.includeActionTime} onChange={(e) => set('includeActionTime', e.target.checked)} /> Leave gaps for action
+                    </label>
+                </div>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3 text-xs text-gray-300">
+                <span className="text-gray-400">Timing</span>
+                <label className="flex items-center gap-1.5">
+                    <input type="radio" checked={timing === 'reading'} onChange={() => setTiming('reading')} /> Reading speed
+                </label>
+                <label className={`flex items-center gap-1.5 ${recording ? '' : 'opacity-40'}`}>
+                    <input type="radio" disabled={!recording} checked={timing === 'recorded'} onChange={() => setTiming('recorded')} />
+                    {recording ? `${recording.label} (${formatDuration(Math.round(recording.seconds))})` : 'Table read'}
+                </label>
+                <label className="flex items-center gap-1.5 px-3 py-1 bg-cinematic-800 hover:bg-cinematic-700 text-white rounded text-xs font-medium transition-colors cursor-pointer">
+                    <Upload size={12} /> Audio file...
+                    <input type="file" accept="audio/*" className="hidden" onChange={(e) => { const file = e.target.files?.[0]; if (file) handleUpload(file); e.target.value = ''; }} />
+                </label>
+            </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-2">
+            {captions.length === 0 ? (
+                <div className="text-center text-gray-500 py-8 text-sm">No dialogue to caption yet.</div>
+            ) : (
+                captions.map(caption => (
+                    <div key={caption.index} className="flex gap-3 bg-cinematic-800 rounded border border-cinematic-700 p-2 text-xs font-mono">
+                        <div className="flex-none w-28 text-gray-500">
+                            <div>{formatSrtTime(caption.start)}</div>
+                            <div>{formatSrtTime(caption.end)}</div>
+                        </div>
+                        <div className="flex-1 text-gray-200 whitespace-pre-wrap">{caption.lines.join('\n')}</div>
+                    </div>
+                ))
+            )}
+        </div>
+
+        <div className="p-4 border-t border-cinematic-800 flex items-center justify-between gap-4">
+            <p className="text-xs text-gray-500">
+                {captions.length} caption{captions.length === 1 ? '' : 's'} · runs {formatDuration(Math.round(runningTime))}
+            </p>
+            <div className="flex gap-2 flex-none">
+                <button onClick={() => downloadFile(toSRT(captions), `${baseName}.srt`, 'text/plain')} disabled={!captions.length} className="flex items-center gap-2 px-4 py-1.5 bg-cinematic-800 hover:bg-cinematic-700 disabled:opacity-40 text-white rounded text-sm font-medium transition-colors">
+                    <Download size={16} /> .srt
+                </button>
+                <button onClick={() => downloadFile(toWebVTT(captions, data.title), `${baseName}.vtt`, 'text/vtt')} disabled={!captions.length} className="flex items-center gap-2 px-4 py-1.5 bg-cinematic-accent hover:bg-red-700 disabled:opacity-40 disabled:hover:bg-cinematic-accent text-white rounded text-sm font-medium transition-colors">
+                    <Download size={16} /> .vtt
+                </button>
+            </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CaptionExportModal;
@@ -0,0 +1,141 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { UserPen, ArrowRight, X } from 'lucide-react';
+import { ProjectData } from '../types';
+import { parseFountainDocument } from '../services/fountainParser';
+import { planCharacterRename, RenameArea } from '../services/characterRenameService';
+
+interface CharacterRenameModalProps {
+  data: ProjectData;
+  initialName: string;
+  onApply: (from: string, to: string, skipped: ReadonlySet<string>) => void;
+  onClose: () => void;
+}
+
+const AREA_LABELS: Record<RenameArea, string> = {
+  cast: 'Cast List',
+  profile: 'Character Profiles',
+  cue: 'Character Cues',
+  script: 'Script Mentions',
+  beat: 'Beats',
+  logline: 'Logline',
+  asset: 'Shared Asset (if it exists)',
+};
+
+const AREA_ORDER: RenameArea[] = ['cast', 'profile', 'cue', 'script', 'beat', 'logline', 'asset'];
+
+const CharacterRenameModal: React.FC<CharacterRenameModalProps> = ({ data, initialName, onApply, onClose }) => {
+  const [from, setFrom] = useState(initialName);
+  const [to, setTo] = useState('');
+  const [skipped, setSkipped] = useState<Set<string>>(new Set());
+
+  const knownNames = useMemo(() => {
+    const cues = parseFountainDocument(data.scriptContent || '').elements
+      .filter(el => el.type === 'character' && el.character)
+      .map(el => el.character as string);
+    const names = [...data.characters, ...(data.characterProfiles || []).map(p => p.name), ...cues];
+    return Array.from(new Set(names.map(n => n.trim()).filter(Boolean)));
+  }, [data]);
+
+  const plan = useMemo(() => planCharacterRename(data, from, to), [data, from, to]);
+  const applied = plan.changes.filter(change => !skipped.has(change.id)).length;
+
+  // Unticked changes belong to the names they were unticked for
+  useEffect(() => setSkipped(new Set()), [from, to]);
+
+  const toggle = (id: string) => setSkipped(prev => {
+    const next = new Set(prev);
+    if (!next.delete(id)) next.add(id);
+    return next;
+  });
+
+  const grouped = AREA_ORDER
+    .map(area => ({ area, changes: plan.changes.filter(c => c.area === area) }))
+    .filter(group => group.changes.length > 0);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-4">
+      <div className="bg-cinematic-900 border border-cinematic-700 w-full max-w-2xl rounded-xl shadow-2xl overflow-hidden flex flex-col max-h-[85vh]">
+        <div className="p-4 border-b border-cinematic-800 flex justify-between items-center bg-cinematic-800/50">
+            <h2 className="text-white font-bold flex items-center gap-2">
+                <UserPen size={18} className="text-cinematic-gold"/> Rename Character
+            </h2>
+            <button onClick={onClose} className="text-gray-400 hover:text-white"><X size={20} /></button>
+        </div>
+
+        <div className="p-4 border-b border-cinematic-800 flex items-end gap-3">
+            <label className="flex-1">
+                <span className="text-xs text-gray-400 block mb-1">Current name</span>
+                <input
+                    list="rename-known-names"
+                    value={from}
+                    onChange={(e) => setFrom(e.target.value)}
+                    className="w-full bg-cinematic-800 border border-cinematic-700 rounded px-3 py-2 text-sm text-white focus:outline-none focus:border-cinematic-accent"
+                />
+                <datalist id="rename-known-names">
+                    {knownNames.map(name => <option key={name} value={name} />)}
+                </datalist>
+            </label>
+            <ArrowRight size={18} className="text-gray-500 mb-2.5" />
+            <label className="flex-1">
+                <span className="text-xs text-gray-400 block mb-1">New name</span>
+                <input
+                    autoFocus
+                    value={to}
+                    onChange={(e) => setTo(e.target.value)}
+                    className="w-full bg-cinematic-800 border border-cinematic-700 rounded px-3 py-2 text-sm text-white focus:outline-none focus:border-cinematic-accent"
+                    placeholder="e.g. Jack"
+                />
+            </label>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+            {grouped.length === 0 ? (
+                <div className="text-center text-gray-500 py-8 text-sm">
+                    {to.trim() ? `No occurrences of "${from}" found.` : 'Enter a new name to preview the changes.'}
+                </div>
+            ) : (
+                grouped.map(group => (
+                    <section key={group.area}>
+                        <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider mb-2">
+                            {AREA_LABELS[group.area]} <span className="text-gray-600">({group.changes.length})</span>
+                        </h3>
+                        <ul className="space-y-1">
+                            {group.changes.map(change => (
+                                <li key={change.id} className={`bg-cinematic-800 rounded border border-cinematic-700 p-2 text-xs font-mono ${skipped.has(change.id) ? 'opacity-40' : ''}`}>
+                                    <label className="flex gap-2 cursor-pointer">
+                                        <input type="checkbox" checked={!skipped.has(change.id)} onChange={() => toggle(change.id)} className="mt-0.5 flex-none" />
+                                        <div className="min-w-0">
+                                            <div className="text-gray-500 mb-1">{change.location}</div>
+                                            <div className="text-red-300 line-through break-words">{change.before}</div>
+                                            <div className="text-green-300 break-words">{change.after}</div>
+                                        </div>
+                                    </label>
+                                </li>
+                            ))}
+                        </ul>
+                    </section>
+                ))
+            )}
+        </div>
+
+        <div className="p-4 border-t border-cinematic-800 flex items-center justify-between gap-4">
+            <p className="text-xs text-gray-500">A snapshot is saved first, so the rename can be undone from Version History. Restoring it renames the shared asset back too.</p>
+            <div className="flex gap-2 flex-none">
+                <button onClick={onClose} className="px-4 py-1.5 bg-cinematic-800 hover:bg-cinematic-700 text-white rounded text-sm font-medium transition-colors">
+                    Cancel
+                </button>
+                <button
+                    onClick={() => onApply(plan.from, plan.to, skipped)}
+                    disabled={applied === 0}
+                    className="px-4 py-1.5 bg-cinematic-accent hover:bg-red-700 disabled:opacity-40 disabled:hover:bg-cinematic-accent text-white rounded text-sm font-medium transition-colors"
+                >
+                    Apply {applied} change{applied === 1 ? '' : 's'}
+                </button>
+            </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CharacterRenameModal;
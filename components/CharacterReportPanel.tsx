@@ -0,0 +1,113 @@
+import React, { useState, useMemo } from 'react';
+import { BarChart3, Download, X } from 'lucide-react';
+import { ProjectData } from '../types';
+import { buildCharacterReport, characterReportToCSV, formatShare, CharacterStats } from '../services/characterReportService';
+import { downloadFile, toFileBaseName } from '../services/downloadService';
+
+interface CharacterReportPanelProps {
+  data: ProjectData;
+  onClose: () => void;
+}
+
+type SortKey = 'words' | 'speeches' | 'scenes' | 'first';
+
+const SORTS: Record<SortKey, { label: string; compare: (a: CharacterStats, b: CharacterStats) => number }> = {
+  words: { label: 'Words', compare: (a, b) => b.words - a.words },
+  speeches: { label: 'Speeches', compare: (a, b) => b.speeches - a.speeches },
+  scenes: { label: 'Scenes', compare: (a, b) => b.scenes.length - a.scenes.length },
+  first: { label: 'Entrance', compare: (a, b) => (a.first?.page ?? Infinity) - (b.first?.page ?? Infinity) },
+};
+
+// Below this share of the dialogue a speaking character is flagged as thin
+const UNDERWRITTEN_SHARE = 0.02;
+
+const CharacterReportPanel: React.FC<CharacterReportPanelProps> = ({ data, onClose }) => {
+  const [sortKey, setSortKey] = useState<SortKey>('words');
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const report = useMemo(() => buildCharacterReport(data), [data.scriptContent, data.characters, data.characterProfiles]);
+  const characters = useMemo(() => [...report.characters].sort(SORTS[sortKey].compare), [report, sortKey]);
+  const maxShare = Math.max(0.0001, ...report.characters.map(c => c.share));
+
+  const exportCSV = () =>
+    downloadFile(characterReportToCSV(report), `${toFileBaseName(data.title)}_Character_Report.csv`, 'text/csv');
+
+  return (
+    <div className="hidden md:flex w-[26rem] flex-none flex-col bg-cinematic-900 border-l border-cinematic-700 h-full">
+      <div className="p-4 border-b border-cinematic-700 bg-cinematic-800/50 flex items-center justify-between">
+          <h2 className="text-white font-bold flex items-center gap-2 text-sm">
+              <BarChart3 size={16} className="text-cinematic-gold" /> Character Report
+          </h2>
+          <div className="flex items-center gap-1">
+              <button onClick={exportCSV} disabled={!report.characters.length} className="p-1.5 rounded text-cinematic-400 hover:text-white hover:bg-cinematic-700 disabled:opacity-40" title="Export CSV">
+                  <Download size={16} />
+              </button>
+              <button onClick={onClose} className="p-1.5 rounded text-gray-400 hover:text-white hover:bg-cinematic-700"><X size={16} /></button>
+          </div>
+      </div>
+
+      <div className="px-4 py-2 border-b border-cinematic-800 flex items-center justify-between text-[11px] text-gray-500">
+          <span>{report.totalWords} dialogue words · {report.totalScenes} scenes</span>
+          <span className="flex gap-1">
+              {(Object.keys(SORTS) as SortKey[]).map(key => (
+                  <button
+                    key={key}
+                    onClick={() => setSortKey(key)}
+                    className={`px-1.5 py-0.5 rounded ${sortKey === key ? 'bg-cinematic-700 text-white' : 'hover:text-white'}`}
+                  >
+                      {SORTS[key].label}
+                  </button>
+              ))}
+          </span>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-2">
+          {characters.map(c => {
+              const thin = c.speeches > 0 && c.share < UNDERWRITTEN_SHARE;
+              return (
+                  <div key={c.name} className="bg-cinematic-800 rounded border border-cinematic-700 p-3 text-xs">
+                      <button onClick={() => setExpanded(expanded === c.name ? null : c.name)} className="w-full text-left">
+                          <div className="flex items-center justify-between">
+                              <span className="text-white font-bold font-mono">{c.name}</span>
+                              <span className={thin ? 'text-amber-400' : 'text-cinematic-gold'} title={thin ? 'Small share of the dialogue' : undefined}>
+                                  {formatShare(c.share)}
+                              </span>
+                          </div>
+                          <div className="h-1 bg-cinematic-900 rounded mt-1.5 overflow-hidden">
+                              <div className="h-full bg-cinematic-gold" style={{ width: `${(c.share / maxShare) * 100}%` }} />
+                          </div>
+                          <div className="flex justify-between text-gray-400 mt-1.5">
+                              <span>{c.speeches} speeches</span>
+                              <span>{c.words} words</span>
+                              <span>{c.speakingScenes.length}/{c.scenes.length} scenes</span>
+                          </div>
+                      </button>
+
+                      {expanded === c.name && (
+                          <dl className="mt-3 pt-3 border-t border-cinematic-700 space-y-2 text-gray-300">
+                              <div>
+                                  <dt className="text-gray-500">First appearance</dt>
+                                  <dd className="font-mono">{c.first ? `Sc ${c.first.number} · p.${c.first.page} · ${c.first.heading}` : '—'}</dd>
+                              </div>
+                              <div>
+                                  <dt className="text-gray-500">Last appearance</dt>
+                                  <dd className="font-mono">{c.last ? `Sc ${c.last.number} · p.${c.last.page} · ${c.last.heading}` : '—'}</dd>
+                              </div>
+                              {c.longestSpeech && (
+                                  <div>
+                                      <dt className="text-gray-500">Longest speech · {c.longestSpeech.words} words · Sc {c.longestSpeech.scene.number}</dt>
+                                      <dd className="italic border-l-2 border-cinematic-600 pl-2 mt-1 line-clamp-4">{c.longestSpeech.text}</dd>
+                                  </div>
+                              )}
+                          </dl>
+                      )}
+                  </div>
+              );
+          })}
+          {characters.length === 0 && <p className="text-xs text-gray-600 italic text-center py-8">No characters in the script yet.</p>}
+      </div>
+    </div>
+  );
+};
+
+export default CharacterReportPanel;
@@ -0,0 +1,67 @@
+import React from 'react';
+import { DayOutOfDays, DoodCode, DOOD_CODE_LABELS } from '../services/dayOutOfDaysService';
+import { formatShootDate } from '../services/scheduleService';
+
+interface DayOutOfDaysGridProps {
+  dood: DayOutOfDays;
+}
+
+const CODE_STYLES: Record<DoodCode, string> = {
+  SW: 'bg-green-700/60 text-white font-bold',
+  SWF: 'bg-green-700/60 text-white font-bold',
+  W: 'bg-green-900/40 text-green-200',
+  WF: 'bg-red-800/60 text-white font-bold',
+  H: 'bg-amber-700/40 text-amber-200',
+  '': 'text-gray-700',
+};
+
+const DayOutOfDaysGrid: React.FC<DayOutOfDaysGridProps> = ({ dood }) => {
+  if (!dood.days.length) {
+    return (
+      <div className="flex-1 flex items-center justify-center text-gray-600 text-sm">
+        Assign scenes to shoot days on the board to build the Day Out of Days.
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 overflow-auto p-4">
+      <table className="border-collapse font-mono text-[11px]">
+        <thead className="sticky top-0 bg-cinematic-900 z-10">
+          <tr className="text-gray-400">
+            <th className="px-2 py-1 border border-cinematic-800 text-right">#</th>
+            <th className="px-2 py-1 border border-cinematic-800 text-left sticky left-0 bg-cinematic-900">Character</th>
+            {dood.days.map((day, i) => (
+              <th key={i} className="px-2 py-1 border border-cinematic-800 min-w-[44px]">
+                <div className="text-white">{i + 1}</div>
+                {day.date && <div className="font-normal text-[9px] text-gray-500 whitespace-nowrap">{formatShootDate(day.date)}</div>}
+              </th>
+            ))}
+            <th className="px-2 py-1 border border-cinematic-800">Work</th>
+            <th className="px-2 py-1 border border-cinematic-800">Hold</th>
+            <th className="px-2 py-1 border border-cinematic-800">Total</th>
+          </tr>
+        </thead>
+        <tbody>
+          {dood.rows.map(row => (
+            <tr key={row.name} className="text-gray-300">
+              <td className="px-2 py-1 border border-cinematic-800 text-right text-cinematic-gold">{row.number ?? ''}</td>
+              <td className="px-2 py-1 border border-cinematic-800 sticky left-0 bg-[#0a0a0a] whitespace-nowrap">{row.name}</td>
+              {row.codes.map((code, i) => (
+                <td key={i} className={`px-2 py-1 border border-cinematic-800 text-center ${CODE_STYLES[code]}`}>{code}</td>
+              ))}
+              <td className="px-2 py-1 border border-cinematic-800 text-center">{row.work}</td>
+              <td className="px-2 py-1 border border-cinematic-800 text-center">{row.hold}</td>
+              <td className="px-2 py-1 border border-cinematic-800 text-center">{row.total}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="text-[10px] text-gray-500 mt-3">
+        {Object.entries(DOOD_CODE_LABELS).map(([code, label]) => `${code} ${label}`).join('  ·  ')}
+      </p>
+    </div>
+  );
+};
+
+export default DayOutOfDaysGrid;
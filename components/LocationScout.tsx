@@ -4,7 +4,7 @@ import { scoutLocation } from '../services/geminiService';
 import { ProjectData } from '../types';
 
 interface LocationScoutProps {
-  onAddLocation: (name: string) => void;
+  onAddLocation: (name: string, mapUri?: string) => void;
   onClose: () => void;
 }
 
@@ -97,8 +97,8 @@ const LocationScout: React.FC<LocationScoutProps> = ({ onAddLocation, onClose })
                               {results.grounding.groundingChunks.map((chunk: any, i: number) => {
                                   // Depending on API version, map chunks structure varies. 
                                   // Assuming web URI format for now as per instructions.
-                                  const title = chunk.web?.title || "Location Result";
-                                  const uri = chunk.web?.uri;
+                                  const title = chunk.maps?.title || chunk.web?.title || "Location Result";
+                                  const uri = chunk.maps?.uri || chunk.web?.uri;
                                   
                                   if (!uri) return null;
 
@@ -112,7 +112,7 @@ const LocationScout: React.FC<LocationScoutProps> = ({ onAddLocation, onClose })
                                           </div>
                                           <button 
                                             onClick={() => {
-                                                onAddLocation(title);
+                                                onAddLocation(title, uri);
                                                 alert(`Added "${title}" to Project Bible`);
                                             }}
                                             className="p-2 bg-cinematic-700 hover:bg-green-600 text-white rounded-full transition-colors opacity-0 group-hover:opacity-100"
@@ -0,0 +1,102 @@
+import React, { useState, useMemo } from 'react';
+import { GitMerge, X } from 'lucide-react';
+import { ProjectData } from '../types';
+import { mergeProjects, ConflictResolution, MergeConflict } from '../services/mergeService';
+import { diffScriptLines } from '../services/snapshotDiffService';
+import { SideBySide } from './SnapshotDiffView';
+
+interface MergeViewProps {
+  branchName: string;
+  base: ProjectData;
+  main: ProjectData;
+  branch: ProjectData;
+  onMerge: (data: ProjectData) => void;
+  onClose: () => void;
+}
+
+const CHOICES: { value: ConflictResolution; label: string; sceneOnly?: boolean }[] = [
+  { value: 'ours', label: 'Keep main' },
+  { value: 'theirs', label: 'Take branch' },
+  { value: 'both', label: 'Keep both', sceneOnly: true },
+];
+
+const describe = (conflict: MergeConflict) => {
+  if (conflict.ours === undefined) return 'Cut on main, changed on the branch';
+  if (conflict.theirs === undefined) return 'Changed on main, cut on the branch';
+  if (conflict.base === undefined) return 'Added on both sides';
+  return 'Changed on both sides';
+};
+
+const MergeView: React.FC<MergeViewProps> = ({ branchName, base, main, branch, onMerge, onClose }) => {
+  const [resolutions, setResolutions] = useState<Record<string, ConflictResolution>>({});
+
+  const result = useMemo(() => mergeProjects(base, main, branch, resolutions), [base, main, branch, resolutions]);
+  const { conflicts, summary } = result;
+
+  const resolve = (key: string, value: ConflictResolution) => setResolutions(prev => ({ ...prev, [key]: value }));
+
+  return (
+    <div className="fixed inset-0 z-50 bg-[#0a0a0a] flex flex-col animate-in slide-in-from-right duration-300">
+      <div className="flex-none h-16 bg-cinematic-900 border-b border-cinematic-700 flex items-center justify-between px-4 shadow-lg">
+          <div className="flex items-center gap-3 min-w-0">
+              <h2 className="text-white font-bold tracking-tight flex items-center gap-2">
+                  <GitMerge size={18} className="text-cinematic-gold" /> Merge "{branchName}" into main
+              </h2>
+              <span className="text-xs text-gray-500">
+                  {summary.fromBranch} changed · {summary.added} added · {summary.removed} cut · {conflicts.length} conflict{conflicts.length === 1 ? '' : 's'}
+              </span>
+          </div>
+          <div className="flex items-center gap-2">
+              <button
+                onClick={() => onMerge(result.data)}
+                className="flex items-center gap-2 px-3 py-1.5 bg-cinematic-accent hover:bg-red-700 text-white rounded text-sm font-medium transition-colors"
+              >
+                  <GitMerge size={14} /> Merge
+              </button>
+              <button onClick={onClose} className="p-2 rounded text-gray-400 hover:text-white hover:bg-cinematic-700"><X size={20} /></button>
+          </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6">
+          <div className="max-w-6xl mx-auto space-y-4">
+              {conflicts.length === 0 && (
+                  <p className="text-sm text-gray-500 italic text-center py-12">No conflicts. Everything on the branch merges cleanly into main.</p>
+              )}
+
+              {conflicts.map(conflict => {
+                const chosen = resolutions[conflict.key] || 'ours';
+                return (
+                  <div key={conflict.key} className="bg-cinematic-900 border border-cinematic-800 rounded">
+                      <div className="flex items-center gap-3 px-3 py-2 border-b border-cinematic-800">
+                          <span className="text-[10px] uppercase font-bold rounded px-1.5 py-0.5 bg-amber-900/60 text-amber-300">{conflict.kind}</span>
+                          <span className="flex-1 min-w-0 text-xs font-mono text-gray-200 truncate">{conflict.label}</span>
+                          <span className="text-[11px] text-gray-500">{describe(conflict)}</span>
+                          <div className="flex bg-cinematic-800 rounded p-0.5 text-xs font-medium">
+                              {CHOICES.filter(c => !c.sceneOnly || conflict.kind === 'scene').map(c => (
+                                  <button
+                                    key={c.value}
+                                    onClick={() => resolve(conflict.key, c.value)}
+                                    className={`px-2.5 py-1 rounded transition-colors ${chosen === c.value ? 'bg-cinematic-700 text-white' : 'text-cinematic-400 hover:text-white'}`}
+                                  >
+                                      {c.label}
+                                  </button>
+                              ))}
+                          </div>
+                      </div>
+                      <div className="p-3 space-y-2">
+                          <div className="grid grid-cols-2 text-xs text-gray-500 uppercase tracking-wider">
+                              <span>Main</span>
+                              <span className="pl-3">{branchName}</span>
+                          </div>
+                          <SideBySide rows={diffScriptLines(conflict.ours ?? '', conflict.theirs ?? '', Infinity)} />
+                      </div>
+                  </div>
+                );
+              })}
+          </div>
+      </div>
+    </div>
+  );
+};
+
+export default MergeView;
@@ -0,0 +1,358 @@
+import React, { useState, useRef, useMemo } from 'react';
+import { Download, Upload, Layout, FileText, Plus, Trash2, ArrowUp, ArrowDown, ChevronsDown, Search, Mic, Film } from 'lucide-react';
+import { ProjectData, PaperEdit, PaperEditItem } from '../types';
+import { importTranscript } from '../services/scriptImportService';
+import {
+  EMPTY_PAPER_EDIT, FRAME_RATES, formatSourceTimecode, createBite, createNote, nextSegment, extendBite, itemDuration,
+  paperEditDuration, groupByBeat, moveItem, moveItemToBeat, buildRadioCut, paperEditToAVScript, renderRadioCutDocx,
+} from '../services/paperEditService';
+import { formatDuration } from '../services/avScriptService';
+import { downloadFile, toFileBaseName } from '../services/downloadService';
+
+interface PaperEditViewProps {
+  data: ProjectData;
+  onUpdatePaperEdit: (edit: PaperEdit) => void;
+  onAddBeat: (beat: string) => void;
+  onOpenBeatBoard: () => void;
+  onSendToScript: (script: string) => void;
+  onClose: () => void;
+}
+
+const NOTE_STYLES: Record<'vo' | 'broll', { label: string; className: string }> = {
+  vo: { label: 'VO', className: 'bg-blue-900/40 text-blue-300 border-blue-800' },
+  broll: { label: 'B-ROLL', className: 'bg-green-900/40 text-green-300 border-green-800' },
+};
+
+const PaperEditView: React.FC<PaperEditViewProps> = ({ data, onUpdatePaperEdit, onAddBeat, onOpenBeatBoard, onSendToScript, onClose }) => {
+  const edit = data.paperEdit || EMPTY_PAPER_EDIT;
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pendingFile, setPendingFile] = useState<File | null>(null);
+  const [speaker, setSpeaker] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+  const [transcriptId, setTranscriptId] = useState<string | null>(edit.transcripts[0]?.id || null);
+  const [query, setQuery] = useState('');
+  const [targetBeat, setTargetBeat] = useState<string>(data.beats[0] || '');
+  const [newBeat, setNewBeat] = useState('');
+
+  const transcript = edit.transcripts.find(t => t.id === transcriptId) || edit.transcripts[0];
+  const groups = groupByBeat(edit, data.beats);
+  const beat = data.beats.includes(targetBeat) ? targetBeat : data.beats[0];
+  const used = useMemo(() => new Set(edit.items.filter(i => i.type === 'bite').map(i => `${i.transcriptId}@${i.start}`)), [edit.items]);
+
+  const segments = (transcript?.segments || []).filter(segment =>
+    !query.trim() || `${segment.speaker} ${segment.text}`.toLowerCase().includes(query.trim().toLowerCase()));
+
+  const update = (items: PaperEditItem[]) => onUpdatePaperEdit({ ...edit, items });
+  const updateItem = (id: string, changes: Partial<PaperEditItem>) => update(edit.items.map(i => (i.id === id ? { ...i, ...changes } : i)));
+  const removeItem = (id: string) => update(edit.items.filter(i => i.id !== id));
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setPendingFile(file);
+    setImportError(null);
+    // Interview files are usually named after their subject: "INT_Maria_01.srt"
+    setSpeaker(file.name.replace(/\.[^.]+$/, '').replace(/^(int|interview)[\s_-]*/i, '').split(/[\s_-]+/)[0] || '');
+  };
+
+  const confirmImport = async () => {
+    if (!pendingFile) return;
+    try {
+      const imported = await importTranscript(pendingFile, speaker);
+      onUpdatePaperEdit({ ...edit, transcripts: [...edit.transcripts, imported] });
+      setTranscriptId(imported.id);
+      setPendingFile(null);
+    } catch (e) {
+      setImportError((e as Error).message);
+    }
+  };
+
+  const removeTranscript = (id: string) => {
+    const t = edit.transcripts.find(x => x.id === id);
+    if (!t || !confirm(`Remove transcript "${t.name}"? Bites already in the edit keep their words and timecodes.`)) return;
+    onUpdatePaperEdit({ ...edit, transcripts: edit.transcripts.filter(x => x.id !== id) });
+    setTranscriptId(null);
+  };
+
+  const renameSpeaker = (name: string) => {
+    if (!transcript || !name.trim() || name.trim().toUpperCase() === transcript.speaker) return;
+    const next = name.trim().toUpperCase();
+    const renamed = {
+      ...transcript,
+      speaker: next,
+      segments: transcript.segments.map(s => (s.speaker === transcript.speaker ? { ...s, speaker: next } : s)),
+    };
+    onUpdatePaperEdit({
+      ...edit,
+      transcripts: edit.transcripts.map(t => (t.id === transcript.id ? renamed : t)),
+      items: edit.items.map(i => (i.transcriptId === transcript.id && i.speaker === transcript.speaker ? { ...i, speaker: next } : i)),
+    });
+  };
+
+  const addBeat = () => {
+    if (!newBeat.trim()) return;
+    onAddBeat(newBeat.trim());
+    setTargetBeat(newBeat.trim());
+    setNewBeat('');
+  };
+
+  const sendToScript = () => {
+    if (data.scriptContent.trim() && !confirm('Replace the current script with an AV script built from this paper edit? Take a snapshot first if you want to keep it.')) return;
+    onSendToScript(paperEditToAVScript(data));
+  };
+
+  const baseName = toFileBaseName(data.title);
+
+  return (
+    <div className="fixed inset-0 z-40 bg-[#0a0a0a] flex flex-col animate-in slide-in-from-right duration-300">
+      <div className="flex-none h-16 bg-cinematic-900 border-b border-cinematic-700 flex items-center justify-between px-4 shadow-lg">
+        <div className="flex items-center space-x-4">
+             <h2 className="text-white font-bold tracking-tight">Paper Edit</h2>
+             <span className="text-cinematic-500 text-sm border-l border-cinematic-700 pl-4">{data.title}</span>
+             <span className="text-xs text-gray-400 font-mono">
+                 {edit.items.filter(i => i.type === 'bite').length} bites · about {formatDuration(paperEditDuration(edit))}
+             </span>
+             <select
+               value={edit.fps}
+               onChange={(e) => onUpdatePaperEdit({ ...edit, fps: parseFloat(e.target.value) })}
+               title="Source frame rate"
+               className="bg-cinematic-800 border border-cinematic-700 rounded px-2 py-1 text-xs text-white focus:outline-none focus:border-cinematic-accent"
+             >
+                 {FRAME_RATES.map(rate => <option key={rate} value={rate}>{rate} fps</option>)}
+             </select>
+        </div>
+
+        <div className="flex items-center space-x-2">
+            <input type="file" ref={fileInputRef} className="hidden" accept=".srt,.vtt,.txt" onChange={handleFileSelect} />
+            <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-2 px-3 py-1.5 bg-cinematic-800 hover:bg-cinematic-700 text-white rounded text-sm font-medium transition-colors">
+                <Upload size={16} /> Transcript
+            </button>
+            <button onClick={onOpenBeatBoard} className="flex items-center gap-2 px-3 py-1.5 bg-cinematic-800 hover:bg-cinematic-700 text-white rounded text-sm font-medium transition-colors">
+                <Layout size={16} /> Beats
+            </button>
+            <button onClick={() => downloadFile(buildRadioCut(data), `${baseName}_Radio_Cut.txt`, 'text/plain')} className="flex items-center gap-2 px-3 py-1.5 bg-cinematic-800 hover:bg-cinematic-700 text-white rounded text-sm font-medium transition-colors">
+                <Download size={16} /> .txt
+            </button>
+            <button onClick={() => downloadFile(renderRadioCutDocx(data), `${baseName}_Radio_Cut.docx`, 'application/vnd.openxmlformats-officedocument.wordprocessingml.document')} className="flex items-center gap-2 px-3 py-1.5 bg-cinematic-800 hover:bg-cinematic-700 text-white rounded text-sm font-medium transition-colors">
+                <Download size={16} /> .docx
+            </button>
+            <button onClick={sendToScript} disabled={!edit.items.length} className="flex items-center gap-2 px-3 py-1.5 bg-cinematic-800 hover:bg-cinematic-700 disabled:opacity-50 text-white rounded text-sm font-medium transition-colors" title="Write the cut into the script as an AV script">
+                <FileText size={16} /> To AV script
+            </button>
+            <button onClick={onClose} className="px-4 py-1.5 bg-cinematic-accent hover:bg-red-700 text-white rounded text-sm font-medium transition-colors ml-2">
+                Done
+            </button>
+        </div>
+      </div>
+
+      {pendingFile && (
+          <div className="flex-none flex items-center gap-3 px-4 py-2 bg-cinematic-800 border-b border-cinematic-700 text-sm text-white">
+              <span className="text-gray-400">Speaker in <span className="text-white font-mono">{pendingFile.name}</span></span>
+              <input
+                autoFocus
+                value={speaker}
+                onChange={(e) => setSpeaker(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && confirmImport()}
+                placeholder="e.g. Maria"
+                className="bg-cinematic-900 border border-cinematic-700 rounded px-2 py-1 text-sm w-48 focus:outline-none focus:border-cinematic-accent"
+              />
+              <button onClick={confirmImport} className="px-3 py-1 bg-cinematic-accent hover:bg-red-700 text-white rounded text-xs font-medium transition-colors">Import</button>
+              <button onClick={() => setPendingFile(null)} className="text-xs text-gray-400 hover:text-white">Cancel</button>
+              {importError && <span className="text-xs text-red-400">{importError}</span>}
+          </div>
+      )}
+
+      <div className="flex-1 flex overflow-hidden">
+          {/* Transcripts */}
+          <div className="w-[28rem] flex-none bg-cinematic-900 border-r border-cinematic-700 flex flex-col">
+              {edit.transcripts.length === 0 ? (
+                  <div className="p-6 text-center text-sm text-gray-500">
+                      <Mic size={24} className="mx-auto mb-3 text-cinematic-600" />
+                      <p>Import interview transcripts as SRT, WebVTT or timestamped text, then pick soundbites into the edit.</p>
+                  </div>
+              ) : (
+                  <>
+                      <div className="flex-none p-3 space-y-2 border-b border-cinematic-700">
+                          <div className="flex items-center gap-2">
+                              <select
+                                value={transcript?.id}
+                                onChange={(e) => setTranscriptId(e.target.value)}
+                                className="flex-1 bg-cinematic-800 border border-cinematic-700 rounded px-2 py-1 text-xs text-white focus:outline-none"
+                              >
+                                  {edit.transcripts.map(t => <option key={t.id} value={t.id}>{t.name} · {t.speaker} · {t.segments.length} lines</option>)}
+                              </select>
+                              {transcript && (
+                                  <button onClick={() => removeTranscript(transcript.id)} className="p-1 text-gray-500 hover:text-red-400" title="Remove transcript"><Trash2 size={14} /></button>
+                              )}
+                          </div>
+                          {transcript && (
+                              <div className="flex items-center gap-2 text-xs">
+                                  <span className="text-gray-500">Speaker</span>
+                                  <input
+                                    key={transcript.id + transcript.speaker}
+                                    defaultValue={transcript.speaker}
+                                    onBlur={(e) => renameSpeaker(e.target.value)}
+                                    className="flex-1 bg-cinematic-800 border border-cinematic-700 rounded px-2 py-1 text-white uppercase focus:outline-none focus:border-cinematic-accent"
+                                  />
+                              </div>
+                          )}
+                          <div className="flex items-center gap-2">
+                              <div className="flex-1 flex items-center gap-1.5 bg-cinematic-800 border border-cinematic-700 rounded px-2">
+                                  <Search size={12} className="text-gray-500" />
+                                  <input
+                                    value={query}
+                                    onChange={(e) => setQuery(e.target.value)}
+                                    placeholder="Search words"
+                                    className="flex-1 bg-transparent py-1 text-xs text-white focus:outline-none"
+                                  />
+                              </div>
+                              {data.beats.length > 0 && (
+                                  <select
+                                    value={beat}
+                                    onChange={(e) => setTargetBeat(e.target.value)}
+                                    title="Beat that picked bites go under"
+                                    className="w-40 bg-cinematic-800 border border-cinematic-700 rounded px-2 py-1 text-xs text-white focus:outline-none"
+                                  >
+                                      {data.beats.map((b, i) => <option key={i} value={b}>{i + 1}. {b}</option>)}
+                                  </select>
+                              )}
+                          </div>
+                      </div>
+                      <div className="flex-1 overflow-y-auto">
+                          {transcript && segments.map(segment => {
+                              const picked = used.has(`${transcript.id}@${segment.start}`);
+                              return (
+                                  <div key={segment.id} className="group flex items-start gap-2 px-3 py-2 border-b border-cinematic-800 hover:bg-cinematic-800/60">
+                                      <span className="font-mono text-[10px] text-gray-500 pt-0.5 w-20 flex-none">{formatSourceTimecode(segment.start, edit.fps)}</span>
+                                      <div className="flex-1 min-w-0">
+                                          <span className="block text-[10px] font-bold text-cinematic-gold">{segment.speaker}</span>
+                                          <span className={`text-xs ${picked ? 'text-gray-500' : 'text-gray-200'}`}>{segment.text}</span>
+                                      </div>
+                                      <button
+                                        onClick={() => beat && update([...edit.items, createBite(transcript, segment, beat)])}
+                                        disabled={!beat}
+                                        className="p-1 rounded text-gray-500 hover:text-white hover:bg-cinematic-700 disabled:opacity-30 opacity-0 group-hover:opacity-100 transition-opacity"
+                                        title={beat ? `Add to "${beat}"` : 'Add a beat first'}
+                                      >
+                                          <Plus size={14} />
+                                      </button>
+                                  </div>
+                              );
+                          })}
+                          {transcript && segments.length === 0 && <p className="p-4 text-xs text-gray-500 italic">No lines match.</p>}
+                      </div>
+                  </>
+              )}
+          </div>
+
+          {/* The cut */}
+          <div className="flex-1 overflow-y-auto p-6 bg-cinematic-900/50">
+              <div className="max-w-3xl mx-auto space-y-6">
+                  {data.beats.length === 0 && (
+                      <div className="text-center text-gray-500 py-10 border-2 border-dashed border-cinematic-700 rounded-xl text-sm">
+                          <p className="mb-3">The edit is built under the project's beats. Add the first one, or lay them out on the Beat Board.</p>
+                      </div>
+                  )}
+
+                  {groups.map((group, index) => (
+                      <section key={group.beat ?? 'unassigned'}>
+                          <div className="flex items-center justify-between mb-2">
+                              <h3 className="text-sm font-bold text-white flex items-center gap-2">
+                                  <span className="w-6 h-6 bg-cinematic-800 rounded-full flex items-center justify-center font-mono text-[10px] text-cinematic-gold border border-cinematic-700">
+                                      {group.beat === null ? '?' : index + 1}
+                                  </span>
+                                  {group.beat ?? 'Unassigned'}
+                                  <span className="text-[11px] font-mono font-normal text-gray-500">{formatDuration(Math.round(group.items.reduce((t, i) => t + itemDuration(i), 0)))}</span>
+                              </h3>
+                              {group.beat !== null && (
+                                  <div className="flex items-center gap-1.5">
+                                      <button onClick={() => update([...edit.items, createNote('vo', group.beat!)])} className="flex items-center gap-1.5 px-3 py-1 bg-cinematic-800 hover:bg-cinematic-700 text-white rounded text-xs transition-colors">
+                                          <Mic size={12} /> VO
+                                      </button>
+                                      <button onClick={() => update([...edit.items, createNote('broll', group.beat!)])} className="flex items-center gap-1.5 px-3 py-1 bg-cinematic-800 hover:bg-cinematic-700 text-white rounded text-xs transition-colors">
+                                          <Film size={12} /> B-roll
+                                      </button>
+                                  </div>
+                              )}
+                          </div>
+
+                          <div className="space-y-2">
+                              {group.items.length === 0 && (
+                                  <button onClick={() => setTargetBeat(group.beat!)} className={`w-full text-left text-xs italic px-4 py-3 rounded border border-dashed transition-colors ${beat === group.beat ? 'border-cinematic-accent text-gray-400' : 'border-cinematic-700 text-gray-600 hover:text-gray-400'}`}>
+                                      {beat === group.beat ? 'Picking bites into this beat.' : 'Pick bites into this beat.'}
+                                  </button>
+                              )}
+                              {group.items.map(item => (
+                                  <div key={item.id} className="group bg-cinematic-800 rounded-lg border border-cinematic-700 p-3 flex items-start gap-3">
+                                      <div className="flex-1 min-w-0">
+                                          {item.type === 'bite' ? (
+                                              <>
+                                                  <div className="flex items-center gap-2 text-[11px] mb-1">
+                                                      <span className="font-bold text-cinematic-gold">{item.speaker}</span>
+                                                      <span className="font-mono text-gray-500">{item.source} {formatSourceTimecode(item.start ?? 0, edit.fps)} - {formatSourceTimecode(item.end ?? 0, edit.fps)}</span>
+                                                      <span className="font-mono text-gray-400">{formatDuration(Math.round(itemDuration(item)))}</span>
+                                                  </div>
+                                                  <p className="text-sm text-gray-200">"{item.text}"</p>
+                                              </>
+                                          ) : (
+                                              <div className="flex items-start gap-2">
+                                                  <span className={`flex-none text-[10px] font-bold px-1.5 py-0.5 rounded border ${NOTE_STYLES[item.type].className}`}>{NOTE_STYLES[item.type].label}</span>
+                                                  <textarea
+                                                    key={item.text}
+                                                    defaultValue={item.text}
+                                                    autoFocus={!item.text}
+                                                    onBlur={(e) => e.target.value !== item.text && updateItem(item.id, { text: e.target.value })}
+                                                    placeholder={item.type === 'vo' ? 'Narration...' : 'What we see...'}
+                                                    rows={Math.max(1, Math.ceil(item.text.length / 70))}
+                                                    className="flex-1 bg-transparent text-sm text-gray-200 resize-none focus:outline-none"
+                                                  />
+                                              </div>
+                                          )}
+                                      </div>
+                                      <div className="flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity">
+                                          {item.type === 'bite' && nextSegment(edit, item) && (
+                                              <button onClick={() => updateItem(item.id, extendBite(edit, item))} className="p-1 rounded text-gray-500 hover:text-white hover:bg-cinematic-700" title="Run on into the next line"><ChevronsDown size={13} /></button>
+                                          )}
+                                          <button onClick={() => onUpdatePaperEdit(moveItem(edit, item.id, -1))} className="p-1 rounded text-gray-500 hover:text-white hover:bg-cinematic-700" title="Move up"><ArrowUp size={13} /></button>
+                                          <button onClick={() => onUpdatePaperEdit(moveItem(edit, item.id, 1))} className="p-1 rounded text-gray-500 hover:text-white hover:bg-cinematic-700" title="Move down"><ArrowDown size={13} /></button>
+                                          {data.beats.length > 1 && (
+                                              <select
+                                                value={data.beats.includes(item.beat) ? item.beat : ''}
+                                                onChange={(e) => onUpdatePaperEdit(moveItemToBeat(edit, item.id, e.target.value))}
+                                                title="Move to beat"
+                                                className="w-20 bg-cinematic-900 border border-cinematic-700 rounded px-1 py-0.5 text-[10px] text-gray-300 focus:outline-none"
+                                              >
+                                                  {!data.beats.includes(item.beat) && <option value="">Beat...</option>}
+                                                  {data.beats.map((b, i) => <option key={i} value={b}>{i + 1}. {b}</option>)}
+                                              </select>
+                                          )}
+                                          <button onClick={() => removeItem(item.id)} className="p-1 rounded text-gray-500 hover:text-red-400 hover:bg-cinematic-700" title="Remove"><Trash2 size={13} /></button>
+                                      </div>
+                                  </div>
+                              ))}
+                          </div>
+                      </section>
+                  ))}
+
+                  <div className="flex gap-3 pt-2">
+                      <input
+                        type="text"
+                        value={newBeat}
+                        onChange={(e) => setNewBeat(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && addBeat()}
+                        placeholder="Add a beat..."
+                        className="flex-1 bg-cinematic-800 border border-cinematic-700 rounded-lg px-4 py-2 text-sm text-white focus:outline-none focus:border-cinematic-500"
+                      />
+                      <button onClick={addBeat} disabled={!newBeat.trim()} className="bg-cinematic-accent hover:bg-red-700 text-white px-4 py-2 rounded-lg font-medium transition-colors disabled:opacity-50">
+                          <Plus size={18} />
+                      </button>
+                  </div>
+              </div>
+          </div>
+      </div>
+    </div>
+  );
+};
+
+export default PaperEditView;
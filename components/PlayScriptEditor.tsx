@@ -0,0 +1,281 @@
+import React, { useState, useMemo, useRef } from 'react';
+import { Download, Users, Music, UserPlus, AlertTriangle, Captions } from 'lucide-react';
+import { ProjectData } from '../types';
+import { parseStagePlay, cycleStageLine, addToCastList, renderStagePDF, renderStageDocx, StageElement } from '../services/stagePlayService';
+import { parseAudioDrama, cycleAudioLine, renderAudioPDF, renderAudioDocx, isSound, SOUND_CUE_LABELS, AudioElement } from '../services/audioDramaService';
+import { formatDuration } from '../services/avScriptService';
+import { downloadFile, toFileBaseName } from '../services/downloadService';
+import CaptionExportModal from './CaptionExportModal';
+
+interface PlayScriptEditorProps {
+  format: 'stage' | 'audio';
+  data: ProjectData;
+  onUpdateScript: (newScript: string) => void;
+  onClose: () => void;
+}
+
+// What the insert buttons add on a new line; `|` marks where the caret lands
+const INSERTS: Record<PlayScriptEditorProps['format'], { label: string; template: string }[]> = {
+  stage: [
+    { label: 'Act', template: 'ACT |' },
+    { label: 'Scene', template: 'SCENE |' },
+    { label: 'Direction', template: '(|)' },
+    { label: 'Character', template: '|' },
+  ],
+  audio: [
+    { label: 'Scene', template: 'SCENE |' },
+    { label: 'Ambience', template: 'AMBIENCE: |' },
+    { label: 'SFX', template: 'SFX: |' },
+    { label: 'Music', template: 'MUSIC: |' },
+    { label: 'Narrator', template: 'NARRATOR: |' },
+  ],
+};
+
+const StageLine: React.FC<{ el: StageElement }> = ({ el }) => {
+  switch (el.type) {
+    case 'act':
+      return <h2 className="text-center font-bold underline uppercase mt-12 mb-6">{el.text}</h2>;
+    case 'scene':
+      return <h3 className="text-center font-bold uppercase mt-8 mb-3">{el.text}</h3>;
+    case 'setting':
+    case 'direction':
+      return <p className="ml-[25%] italic my-3">{el.text}</p>;
+    case 'character':
+      return <p className="text-center uppercase mt-4">{el.text}</p>;
+    case 'parenthetical':
+      return <p className="ml-[35%] italic">{el.text}</p>;
+    case 'dialogue':
+      return <p>{el.text}</p>;
+    default:
+      return null;
+  }
+};
+
+const AudioLine: React.FC<{ el: AudioElement }> = ({ el }) => {
+  if (el.type === 'scene') return <h3 className="font-bold underline uppercase mt-8 mb-4">{el.text}</h3>;
+  const sound = isSound(el);
+  const label = el.type === 'speech' || el.type === 'narration' ? `${el.speaker}:` : sound ? `${SOUND_CUE_LABELS[el.type as keyof typeof SOUND_CUE_LABELS]}:` : '';
+  return (
+    <div className="grid grid-cols-[2.5rem_8rem_1fr] gap-2 mb-4">
+      <span className="text-gray-500">{el.cue ? `${el.cue}.` : ''}</span>
+      <span className={sound ? 'font-bold' : ''}>{label}</span>
+      <span className={`whitespace-pre-wrap ${sound ? 'uppercase underline' : ''} ${el.type === 'note' ? 'italic text-gray-600' : ''}`}>{el.text}</span>
+    </div>
+  );
+};
+
+const PlayScriptEditor: React.FC<PlayScriptEditorProps> = ({ format, data, onUpdateScript, onClose }) => {
+  const [script, setScript] = useState(data.scriptContent || '');
+  const [viewMode, setViewMode] = useState<'page' | 'text'>('text');
+  const [isCaptionsOpen, setIsCaptionsOpen] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const play = useMemo(() => (format === 'stage' ? parseStagePlay(script) : null), [format, script]);
+  const drama = useMemo(() => (format === 'audio' ? parseAudioDrama(script) : null), [format, script]);
+
+  const baseName = toFileBaseName(data.title);
+  const current = { ...data, scriptContent: script };
+
+  const lineBounds = (text: string, at: number) => {
+    const start = text.lastIndexOf('\n', at - 1) + 1;
+    const end = text.indexOf('\n', at);
+    return { start, end: end < 0 ? text.length : end };
+  };
+
+  const placeCaret = (at: number) => {
+    requestAnimationFrame(() => {
+      const textarea = textareaRef.current;
+      if (!textarea) return;
+      textarea.focus();
+      textarea.setSelectionRange(at, at);
+    });
+  };
+
+  // Tab steps the current line through the format's elements
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key !== 'Tab' || e.shiftKey) return;
+    e.preventDefault();
+    const { start, end } = lineBounds(script, e.currentTarget.selectionStart);
+    const next = (format === 'stage' ? cycleStageLine : cycleAudioLine)(script.slice(start, end));
+    setScript(script.slice(0, start) + next + script.slice(end));
+    placeCaret(start + (next.endsWith(')') ? next.length - 1 : next.length));
+  };
+
+  const insert = (template: string) => {
+    const textarea = textareaRef.current;
+    const at = textarea ? lineBounds(script, textarea.selectionStart).end : script.length;
+    const before = script.slice(0, at);
+    const lead = !before.trim() ? '' : before.endsWith('\n\n') ? '' : before.endsWith('\n') ? '\n' : '\n\n';
+    const text = template.replace('|', '');
+    setViewMode('text');
+    setScript(before + lead + text + script.slice(at));
+    placeCaret(at + lead.length + template.indexOf('|'));
+  };
+
+  const jumpTo = (line: number) => {
+    setViewMode('text');
+    const offset = script.split('\n').slice(0, line).reduce((sum, l) => sum + l.length + 1, 0);
+    placeCaret(offset);
+    requestAnimationFrame(() => {
+      const textarea = textareaRef.current;
+      if (textarea) textarea.scrollTop = Math.max(0, line * 26 - 80);
+    });
+  };
+
+  const stats = play
+    ? `${play.acts.length} acts · ${play.scenes.length} scenes · ${new Set([...play.cast.map(c => c.name), ...Object.keys(play.speeches)]).size} characters`
+    : drama
+    ? `${drama.scenes.length} scenes · ${drama.soundCues.length} sound cues · about ${formatDuration(Math.ceil(drama.seconds / 60) * 60)}`
+    : '';
+
+  return (
+    <div className="fixed inset-0 z-40 bg-[#0a0a0a] flex flex-col animate-in slide-in-from-right duration-300">
+      <div className="flex-none h-16 bg-cinematic-900 border-b border-cinematic-700 flex items-center justify-between px-4 shadow-lg">
+        <div className="flex items-center space-x-4">
+             <h2 className="text-white font-bold tracking-tight">{format === 'stage' ? 'Stage Play' : 'Audio Drama'}</h2>
+             <span className="text-cinematic-500 text-sm border-l border-cinematic-700 pl-4">{data.title}</span>
+             <div className="flex bg-cinematic-800 rounded p-0.5 text-xs font-medium">
+                 <button onClick={() => setViewMode('text')} className={`px-2.5 py-1 rounded transition-colors ${viewMode === 'text' ? 'bg-cinematic-700 text-white' : 'text-cinematic-400 hover:text-white'}`}>
+                     Text
+                 </button>
+                 <button onClick={() => setViewMode('page')} className={`px-2.5 py-1 rounded transition-colors ${viewMode === 'page' ? 'bg-cinematic-700 text-white' : 'text-cinematic-400 hover:text-white'}`}>
+                     Page
+                 </button>
+             </div>
+             <span className="text-xs text-gray-400 font-mono">{stats}</span>
+        </div>
+
+        <div className="flex items-center space-x-2">
+            <button onClick={() => setIsCaptionsOpen(true)} className="flex items-center gap-2 px-3 py-1.5 bg-cinematic-800 hover:bg-cinematic-700 text-white rounded text-sm font-medium transition-colors">
+                <Captions size={16} /> Captions
+            </button>
+            <button onClick={() => downloadFile(format === 'stage' ? renderStagePDF(current) : renderAudioPDF(current), `${baseName}_Script.pdf`, 'application/pdf')} className="flex items-center gap-2 px-3 py-1.5 bg-cinematic-800 hover:bg-cinematic-700 text-white rounded text-sm font-medium transition-colors">
+                <Download size={16} /> Export .pdf
+            </button>
+            <button onClick={() => downloadFile(format === 'stage' ? renderStageDocx(current) : renderAudioDocx(current), `${baseName}_Script.docx`, 'application/vnd.openxmlformats-officedocument.wordprocessingml.document')} className="flex items-center gap-2 px-3 py-1.5 bg-cinematic-800 hover:bg-cinematic-700 text-white rounded text-sm font-medium transition-colors">
+                <Download size={16} /> Export .docx
+            </button>
+            <button onClick={() => { onUpdateScript(script); onClose(); }} className="px-4 py-1.5 bg-cinematic-accent hover:bg-red-700 text-white rounded text-sm font-medium transition-colors ml-2">
+                Done
+            </button>
+        </div>
+      </div>
+
+      <div className="flex-1 flex overflow-hidden">
+          {/* Outline */}
+          <div className="w-60 flex-none bg-cinematic-900 border-r border-cinematic-700 overflow-y-auto p-3 space-y-1 text-sm">
+              <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider mb-2">Outline</h3>
+              {play && play.scenes.length === 0 && play.acts.length === 0 && <p className="text-xs text-gray-500 italic">Add ACT and SCENE headings to build the outline.</p>}
+              {play && play.elements.filter(el => el.type === 'act' || el.type === 'scene').map(el => {
+                  const scene = play.scenes.find(s => s.line === el.line);
+                  return (
+                      <button key={el.line} onClick={() => jumpTo(el.line)} className={`block w-full text-left rounded px-2 py-1 hover:bg-cinematic-800 transition-colors ${el.type === 'act' ? 'text-white font-bold mt-2' : 'text-gray-300 pl-4'}`}>
+                          {el.text}
+                          {scene?.setting && <span className="block text-[11px] text-gray-500 truncate">{scene.setting}</span>}
+                      </button>
+                  );
+              })}
+              {drama && drama.scenes.length === 0 && <p className="text-xs text-gray-500 italic">Start a scene with a SCENE heading to build the outline.</p>}
+              {drama && drama.scenes.map(scene => (
+                  <button key={scene.line} onClick={() => jumpTo(scene.line)} className="block w-full text-left rounded px-2 py-1 text-gray-300 hover:bg-cinematic-800 transition-colors">
+                      <span className="block truncate">{scene.title}</span>
+                      <span className="block text-[11px] text-gray-500 font-mono">{scene.cues} cues · {formatDuration(Math.round(scene.seconds))}</span>
+                  </button>
+              ))}
+          </div>
+
+          {/* Script */}
+          <div className="flex-1 flex flex-col overflow-hidden bg-[#E8E8E8] text-black">
+              {viewMode === 'text' ? (
+                  <>
+                      <div className="flex-none flex items-center gap-2 px-4 py-2 border-b border-gray-300 bg-gray-200">
+                          <span className="text-[11px] font-bold uppercase tracking-wider text-gray-500 mr-1">Insert</span>
+                          {INSERTS[format].map(item => (
+                              <button key={item.label} onClick={() => insert(item.template)} className="px-2.5 py-1 bg-white hover:bg-gray-100 border border-gray-300 rounded text-xs font-medium transition-colors">
+                                  {item.label}
+                              </button>
+                          ))}
+                          <span className="ml-auto text-[11px] text-gray-500">
+                              Tab: {format === 'stage' ? 'direction → character → text' : 'SFX → MUSIC → AMBIENCE → NARRATOR'}
+                          </span>
+                      </div>
+                      <textarea
+                        ref={textareaRef}
+                        value={script}
+                        onChange={(e) => setScript(e.target.value)}
+                        onKeyDown={handleKeyDown}
+                        spellCheck={false}
+                        placeholder={format === 'stage'
+                          ? 'CHARACTERS\nMARGARET, sixties, a retired judge.\n\nACT ONE\n\nSCENE 1\nA kitchen in Leeds. Morning.\n\nMARGARET\nYou\'re late.'
+                          : 'SCENE 1. A LIGHTHOUSE. NIGHT.\n\nAMBIENCE: Wind and heavy surf.\nNARRATOR: The keeper had not slept in three days.\nKEEPER: Who\'s there?'}
+                        className="flex-1 w-full p-8 bg-transparent font-mono text-sm leading-relaxed resize-none focus:outline-none"
+                      />
+                  </>
+              ) : (
+                  <div className="flex-1 overflow-y-auto py-8">
+                      <div className="max-w-[8.5in] mx-auto bg-white shadow-lg px-[1in] py-[1in] font-mono text-sm leading-relaxed min-h-[11in]">
+                          {play && play.elements.map(el => <StageLine key={el.line} el={el} />)}
+                          {drama && drama.elements.map(el => <AudioLine key={el.line} el={el} />)}
+                          {!script.trim() && <p className="text-gray-400 italic text-center">Nothing written yet.</p>}
+                      </div>
+                  </div>
+              )}
+          </div>
+
+          {/* Characters / cue sheet */}
+          <div className="w-72 flex-none bg-cinematic-900 border-l border-cinematic-700 overflow-y-auto p-3 text-sm text-white">
+              {play && (
+                  <>
+                      <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider mb-2 flex items-center gap-2"><Users size={14} /> Characters</h3>
+                      {play.cast.length === 0 && play.uncast.length === 0 && <p className="text-xs text-gray-500 italic">No characters yet.</p>}
+                      {play.cast.map(member => (
+                          <button key={member.line} onClick={() => jumpTo(member.line)} className="block w-full text-left rounded px-2 py-1.5 hover:bg-cinematic-800 transition-colors">
+                              <span className="flex items-center justify-between">
+                                  <span className="font-bold text-xs">{member.name}</span>
+                                  <span className="text-[11px] text-gray-500 font-mono">{play.speeches[member.name] || 0} speeches</span>
+                              </span>
+                              {member.description && <span className="block text-[11px] text-gray-400 truncate">{member.description}</span>}
+                          </button>
+                      ))}
+                      {play.uncast.length > 0 && (
+                          <div className="mt-3 rounded border border-yellow-800 bg-yellow-900/20 p-2">
+                              <p className="text-[11px] text-yellow-300 flex items-center gap-1.5 mb-1.5"><AlertTriangle size={12} /> Speak but aren't in the character list</p>
+                              {play.uncast.map(name => (
+                                  <p key={name} className="text-xs font-bold px-1 py-0.5">{name} <span className="font-normal text-gray-500 font-mono">· {play.speeches[name]}</span></p>
+                              ))}
+                              <button onClick={() => setScript(addToCastList(script, play.uncast))} className="mt-2 flex items-center gap-1.5 px-3 py-1 bg-cinematic-800 hover:bg-cinematic-700 text-white rounded text-xs transition-colors">
+                                  <UserPlus size={12} /> Add to character list
+                              </button>
+                          </div>
+                      )}
+                  </>
+              )}
+              {drama && (
+                  <>
+                      <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider mb-2 flex items-center gap-2"><Music size={14} /> Cue sheet</h3>
+                      {drama.soundCues.length === 0 && <p className="text-xs text-gray-500 italic">No SFX, MUSIC or AMBIENCE cues yet.</p>}
+                      {drama.soundCues.map(cue => (
+                          <button key={cue.line} onClick={() => jumpTo(cue.line)} className="flex w-full items-start gap-2 text-left rounded px-2 py-1 hover:bg-cinematic-800 transition-colors">
+                              <span className="font-mono text-[11px] text-gray-500 w-10 flex-none pt-0.5">{cue.scene}.{cue.cue}</span>
+                              <span className="text-[11px] font-bold w-16 flex-none pt-0.5">{SOUND_CUE_LABELS[cue.type as keyof typeof SOUND_CUE_LABELS]}</span>
+                              <span className="text-xs text-gray-300">{cue.text}</span>
+                          </button>
+                      ))}
+                      <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider mt-5 mb-2 flex items-center gap-2"><Users size={14} /> Voices</h3>
+                      {Object.entries(drama.speakers).sort((a, b) => b[1] - a[1]).map(([name, count]) => (
+                          <p key={name} className="flex items-center justify-between px-2 py-0.5 text-xs">
+                              <span className="font-bold">{name}</span>
+                              <span className="text-gray-500 font-mono">{count} lines</span>
+                          </p>
+                      ))}
+                  </>
+              )}
+          </div>
+      </div>
+
+      {isCaptionsOpen && <CaptionExportModal data={current} onClose={() => setIsCaptionsOpen(false)} />}
+    </div>
+  );
+};
+
+export default PlayScriptEditor;
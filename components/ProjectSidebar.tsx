@@ -1,15 +1,19 @@
 import React, { useRef } from 'react';
-import { ProjectData } from '../types';
-import { FileText, Users, MapPin, Activity, Film, Image as ImageIcon, Camera, Plus } from 'lucide-react';
+import { ProjectData, ScriptFormat } from '../types';
+import { SCRIPT_FORMATS } from '../services/scriptFormatService';
+import { FileText, Users, MapPin, Activity, Film, Image as ImageIcon, Camera, Plus, Pencil, BarChart3 } from 'lucide-react';
 
 interface ProjectSidebarProps {
   data: ProjectData;
   isOpen: boolean;
   toggleSidebar: () => void;
   onUpload?: (files: File[]) => void;
+  onRenameCharacter?: (name: string) => void;
+  onOpenCharacterReport?: () => void;
+  onChangeScriptFormat?: (format: ScriptFormat) => void;
 }
 
-const ProjectSidebar: React.FC<ProjectSidebarProps> = ({ data, isOpen, toggleSidebar, onUpload }) => {
+const ProjectSidebar: React.FC<ProjectSidebarProps> = ({ data, isOpen, toggleSidebar, onUpload, onRenameCharacter, onOpenCharacterReport, onChangeScriptFormat }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -46,6 +50,18 @@ const ProjectSidebar: React.FC<ProjectSidebarProps> = ({ data, isOpen, toggleSid
                         <span className="text-gray-400 text-xs block">Format</span>
                         <span className="text-white text-sm">{data.format}</span>
                     </div>
+                    {onChangeScriptFormat && (
+                        <div>
+                            <span className="text-gray-400 text-xs block">Script format</span>
+                            <select
+                                value={data.scriptFormat || 'screenplay'}
+                                onChange={(e) => onChangeScriptFormat(e.target.value as ScriptFormat)}
+                                className="mt-1 w-full bg-cinematic-800 border border-cinematic-700 rounded px-2 py-1 text-xs text-white"
+                            >
+                                {SCRIPT_FORMATS.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+                            </select>
+                        </div>
+                    )}
                     <div>
                         <span className="text-gray-400 text-xs block">Tone</span>
                         <span className="text-white text-sm">{data.tone}</span>
@@ -116,14 +132,34 @@ const ProjectSidebar: React.FC<ProjectSidebarProps> = ({ data, isOpen, toggleSid
 
             {/* Characters */}
             <section>
-                <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider mb-3 flex items-center">
-                    <Users size={14} className="mr-2" /> Cast
-                </h3>
+                <div className="flex items-center justify-between mb-3">
+                    <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider flex items-center">
+                        <Users size={14} className="mr-2" /> Cast
+                    </h3>
+                    {onOpenCharacterReport && (
+                        <button
+                            onClick={onOpenCharacterReport}
+                            className="p-1 hover:bg-cinematic-800 rounded text-cinematic-400 hover:text-white transition-colors"
+                            title="Character Report"
+                        >
+                            <BarChart3 size={14} />
+                        </button>
+                    )}
+                </div>
                 {data.characters.length > 0 ? (
                     <ul className="space-y-2">
                         {data.characters.map((char, i) => (
-                            <li key={i} className="text-sm text-gray-300 bg-cinematic-800 p-2 rounded border border-cinematic-700">
-                                {char}
+                            <li key={i} className="text-sm text-gray-300 bg-cinematic-800 p-2 rounded border border-cinematic-700 flex items-center justify-between group">
+                                <span>{char}</span>
+                                {onRenameCharacter && (
+                                    <button
+                                        onClick={() => onRenameCharacter(char)}
+                                        className="p-1 rounded text-cinematic-400 hover:text-white hover:bg-cinematic-700 opacity-0 group-hover:opacity-100 transition-opacity"
+                                        title="Rename across project"
+                                    >
+                                        <Pencil size={12} />
+                                    </button>
+                                )}
                             </li>
                         ))}
                     </ul>
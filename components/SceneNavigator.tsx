@@ -0,0 +1,132 @@
+import React, { useState, useMemo } from 'react';
+import { List, Copy, Scissors, Merge, Ban, Lock, Unlock, GripVertical, Hash } from 'lucide-react';
+import {
+  getSceneSpans, getSplitPoints, moveScene, duplicateScene, omitScene, splitScene, mergeWithNext,
+  lockSceneNumbers, unlockSceneNumbers, numberNewScenes,
+} from '../services/sceneOperationsService';
+
+interface SceneNavigatorProps {
+  script: string;
+  onChange: (script: string) => void;
+  onJump: (index: number) => void;
+}
+
+const actionClass = "p-1 rounded text-gray-500 hover:text-white hover:bg-cinematic-700 disabled:opacity-30 disabled:hover:bg-transparent";
+
+const SceneNavigator: React.FC<SceneNavigatorProps> = ({ script, onChange, onJump }) => {
+  const [splitting, setSplitting] = useState<number | null>(null);
+  const scenes = useMemo(() => getSceneSpans(script), [script]);
+  const locked = scenes.some(scene => scene.number);
+  const unnumbered = locked ? scenes.filter(scene => !scene.number).length : 0;
+
+  const apply = (next: string) => {
+    setSplitting(null);
+    if (next !== script) onChange(next);
+  };
+
+  const handleDragStart = (e: React.DragEvent<HTMLDivElement>, index: number) => {
+    e.dataTransfer.setData("text/plain", index.toString());
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>, targetIndex: number) => {
+    e.preventDefault();
+    const sourceIndex = parseInt(e.dataTransfer.getData("text/plain"));
+    if (isNaN(sourceIndex) || sourceIndex === targetIndex) return;
+    apply(moveScene(script, sourceIndex, targetIndex));
+  };
+
+  const toggleLock = () => {
+    if (!locked) {
+      apply(lockSceneNumbers(script));
+    } else if (confirm("Unlock scene numbers? All numbers and OMITTED placeholders will be removed.")) {
+      apply(unlockSceneNumbers(script));
+    }
+  };
+
+  return (
+    <div className="w-64 bg-cinematic-900 border-r border-cinematic-700 flex flex-col hidden md:flex">
+        <div className="p-3 border-b border-cinematic-800 flex items-center justify-between">
+            <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider flex items-center gap-2">
+                <List size={12} /> Scenes
+            </h3>
+            <button
+              onClick={toggleLock}
+              disabled={!scenes.length}
+              className={`flex items-center gap-1 px-2 py-0.5 rounded text-[10px] font-medium transition-colors ${locked ? 'bg-cinematic-gold/20 text-cinematic-gold' : 'text-gray-500 hover:text-white hover:bg-cinematic-800'}`}
+              title={locked ? 'Scene numbers are locked' : 'Lock production scene numbers'}
+            >
+                {locked ? <Lock size={10} /> : <Unlock size={10} />} {locked ? 'Locked' : 'Lock numbers'}
+            </button>
+        </div>
+
+        {unnumbered > 0 && (
+            <button onClick={() => apply(numberNewScenes(script))} className="mx-2 mt-2 flex items-center justify-center gap-1.5 px-2 py-1 rounded bg-cinematic-800 hover:bg-cinematic-700 text-[11px] text-cinematic-gold">
+                <Hash size={12} /> Number {unnumbered} new scene{unnumbered === 1 ? '' : 's'} (A/B)
+            </button>
+        )}
+
+        <div className="flex-1 overflow-y-auto p-2 space-y-1">
+            {scenes.map((scene, i) => (
+                <div
+                  key={`${scene.startLine}-${scene.heading}`}
+                  draggable
+                  onDragStart={(e) => handleDragStart(e, i)}
+                  onDragOver={handleDragOver}
+                  onDrop={(e) => handleDrop(e, i)}
+                  className="group rounded hover:bg-cinematic-800 transition-colors"
+                >
+                    <div className="flex items-center gap-1 pl-1">
+                        <GripVertical size={12} className="flex-none text-gray-700 group-hover:text-gray-500 cursor-grab" />
+                        <button
+                          onClick={() => onJump(i)}
+                          className={`flex-1 min-w-0 flex items-center gap-2 text-left text-xs p-2 pl-1 font-mono ${scene.omitted ? 'text-gray-600 line-through' : 'text-gray-400 group-hover:text-white'}`}
+                        >
+                            <span className={`flex-none w-8 text-right ${scene.number ? 'text-cinematic-gold' : 'text-gray-600'}`}>{scene.number || i + 1}</span>
+                            <span className="truncate">{scene.heading.toUpperCase()}</span>
+                        </button>
+                    </div>
+
+                    {!scene.omitted && (
+                        <div className="hidden group-hover:flex items-center gap-0.5 pl-12 pb-1">
+                            <button onClick={() => apply(duplicateScene(script, i))} className={actionClass} title="Duplicate scene"><Copy size={12} /></button>
+                            <button onClick={() => setSplitting(splitting === i ? null : i)} className={actionClass} title="Split scene"><Scissors size={12} /></button>
+                            <button
+                              onClick={() => apply(mergeWithNext(script, i))}
+                              disabled={!scenes[i + 1] || scenes[i + 1].omitted}
+                              className={actionClass}
+                              title="Merge with next scene"
+                            >
+                                <Merge size={12} />
+                            </button>
+                            <button onClick={() => apply(omitScene(script, i))} className={actionClass} title="Mark OMITTED (keeps the number)"><Ban size={12} /></button>
+                        </div>
+                    )}
+
+                    {splitting === i && (
+                        <div className="ml-6 mr-1 mb-2 border-l border-cinematic-700 pl-2 space-y-0.5">
+                            <p className="text-[10px] text-gray-500 uppercase tracking-wider py-1">Start new scene before...</p>
+                            {getSplitPoints(script, i).slice(1).map(point => (
+                                <button
+                                  key={point.line}
+                                  onClick={() => apply(splitScene(script, i, point.line))}
+                                  className="w-full text-left text-[11px] text-gray-400 hover:text-white hover:bg-cinematic-700 px-1.5 py-1 rounded truncate"
+                                >
+                                    {point.text}
+                                </button>
+                            ))}
+                            {getSplitPoints(script, i).length < 2 && <p className="text-[11px] text-gray-600 italic">Nothing to split.</p>}
+                        </div>
+                    )}
+                </div>
+            ))}
+            {scenes.length === 0 && <p className="text-xs text-gray-600 p-2 italic">No scene headers found.</p>}
+        </div>
+    </div>
+  );
+};
+
+export default SceneNavigator;
@@ -0,0 +1,335 @@
+import React, { useState, useRef, useLayoutEffect, useMemo } from 'react';
+import { MentionableInput } from './MentionableInput';
+import { PAGE_LAYOUT } from '../services/paginationService';
+import {
+  EditorBlock,
+  EditorSuggestion,
+  BLOCK_LAYOUT,
+  ELEMENT_LABELS,
+  UPPERCASE_TYPES,
+  blockRows,
+  createBlock,
+  cueNames,
+  cycleElementType,
+  detectElementType,
+  getSuggestions,
+  headingLocations,
+  nextElementType,
+  pasteFountain,
+} from '../services/screenplayEditorService';
+
+export interface BlockSelection {
+  blockId: string;
+  text: string;
+  start: number;
+  end: number;
+}
+
+interface ScreenplayEditorProps {
+  blocks: EditorBlock[];
+  onChange: (blocks: EditorBlock[]) => void;
+  characterNames: string[];
+  locations: string[];
+  projectId?: string;
+  onSelectText?: (selection: BlockSelection | null) => void;
+}
+
+const LINE_HEIGHT = 1.5; // In ems of the 12pt page font
+const MENTIONABLE_TYPES = ['action', 'dialogue'];
+
+export const blockElementId = (blockId: string) => `screenplay-block-${blockId}`;
+
+interface BlockRowProps {
+  block: EditorBlock;
+  isActive: boolean;
+  isTight: boolean;
+  isFirst: boolean;
+  suggestions: EditorSuggestion[];
+  suggestionIndex: number;
+  projectId?: string;
+  registerRef: (id: string, el: HTMLTextAreaElement | null) => void;
+  onFocus: () => void;
+  onTextChange: (e: React.ChangeEvent<HTMLTextAreaElement>) => void;
+  onKeyDown: (e: React.KeyboardEvent<HTMLTextAreaElement>) => void;
+  onPaste: (e: React.ClipboardEvent<HTMLTextAreaElement>) => void;
+  onSelect: (e: React.SyntheticEvent<HTMLTextAreaElement>) => void;
+  onPickSuggestion: (suggestion: EditorSuggestion) => void;
+}
+
+const BlockRow: React.FC<BlockRowProps> = ({
+  block, isActive, isTight, isFirst, suggestions, suggestionIndex, projectId,
+  registerRef, onFocus, onTextChange, onKeyDown, onPaste, onSelect, onPickSuggestion
+}) => {
+  const layout = BLOCK_LAYOUT[block.type];
+  const spacing = isFirst || isTight ? 0 : block.type === 'scene_heading' ? 2 : 1;
+
+  const renderTextarea = (mentionRef?: React.RefObject<HTMLInputElement | HTMLTextAreaElement>) => (
+    <textarea
+      id={blockElementId(block.id)}
+      ref={(el) => {
+        if (mentionRef) (mentionRef as React.MutableRefObject<HTMLInputElement | HTMLTextAreaElement | null>).current = el;
+        registerRef(block.id, el);
+      }}
+      value={block.text}
+      rows={blockRows(block)}
+      onFocus={onFocus}
+      onChange={onTextChange}
+      onKeyDown={onKeyDown}
+      onPaste={onPaste}
+      onSelect={onSelect}
+      spellCheck={block.type === 'action' || block.type === 'dialogue'}
+      className={`block bg-transparent resize-none overflow-hidden focus:outline-none ${UPPERCASE_TYPES.includes(block.type) ? 'uppercase' : ''} ${block.type === 'transition' ? 'text-right' : ''} ${block.type === 'raw' ? 'text-gray-500' : ''}`}
+      style={{ width: `${layout.width + 1}ch`, lineHeight: LINE_HEIGHT, font: 'inherit' }}
+    />
+  );
+
+  return (
+    <div className="relative" style={{ marginTop: `${spacing * LINE_HEIGHT}em` }}>
+      {isActive && (
+        <span className="absolute right-full mr-4 top-0 text-[10px] font-sans uppercase tracking-wider text-gray-400 whitespace-nowrap select-none" style={{ lineHeight: `${LINE_HEIGHT}em` }}>
+          {ELEMENT_LABELS[block.type]}
+        </span>
+      )}
+      <div style={{ marginLeft: `${layout.x - PAGE_LAYOUT.left}in` }}>
+        {MENTIONABLE_TYPES.includes(block.type) ? (
+          <MentionableInput sourceApp="script-engine" projectId={projectId} contextType="script" contextId={block.id} allowCreate={true}>
+            {(ref) => renderTextarea(ref)}
+          </MentionableInput>
+        ) : renderTextarea()}
+      </div>
+
+      {isActive && suggestions.length > 0 && (
+        <div
+          className="absolute z-30 mt-1 bg-cinematic-900 border border-cinematic-700 rounded shadow-2xl overflow-hidden font-mono text-xs min-w-[12rem]"
+          style={{ left: `${layout.x - PAGE_LAYOUT.left}in` }}
+        >
+          {suggestions.map((suggestion, i) => (
+            <button
+              key={suggestion.text}
+              onMouseDown={(e) => { e.preventDefault(); onPickSuggestion(suggestion); }}
+              className={`w-full text-left px-3 py-1.5 transition-colors ${i === suggestionIndex ? 'bg-cinematic-accent text-white' : 'text-gray-300 hover:bg-cinematic-800'}`}
+            >
+              {suggestion.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const ScreenplayEditor: React.FC<ScreenplayEditorProps> = ({ blocks, onChange, characterNames, locations, projectId, onSelectText }) => {
+  const refs = useRef(new Map<string, HTMLTextAreaElement>());
+  const pendingFocus = useRef<{ id: string; caret: number } | null>(null);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [suggestionIndex, setSuggestionIndex] = useState(0);
+
+  // Move the caret once React has rendered the blocks it was aimed at
+  useLayoutEffect(() => {
+    const target = pendingFocus.current;
+    if (!target) return;
+    const el = refs.current.get(target.id);
+    if (!el) return;
+    pendingFocus.current = null;
+    el.focus();
+    const caret = Math.min(target.caret, el.value.length);
+    el.setSelectionRange(caret, caret);
+  }, [blocks]);
+
+  const knownCharacters = useMemo(() => [...characterNames, ...cueNames(blocks)], [characterNames, blocks]);
+  const knownLocations = useMemo(() => [...locations, ...headingLocations(blocks)], [locations, blocks]);
+
+  const activeBlock = blocks.find(b => b.id === activeId);
+  const suggestions = useMemo(
+    () => (activeBlock && showSuggestions ? getSuggestions(activeBlock, knownCharacters, knownLocations) : []),
+    [activeBlock, showSuggestions, knownCharacters, knownLocations]
+  );
+
+  const registerRef = (id: string, el: HTMLTextAreaElement | null) => {
+    if (el) refs.current.set(id, el);
+    else refs.current.delete(id);
+  };
+
+  const commit = (next: EditorBlock[], focus?: { id: string; caret: number }) => {
+    if (focus) pendingFocus.current = focus;
+    onChange(next);
+  };
+
+  const patchBlock = (id: string, patch: Partial<EditorBlock>, focus?: { id: string; caret: number }) => {
+    commit(blocks.map(b => (b.id === id ? { ...b, ...patch } : b)), focus);
+  };
+
+  const applySuggestion = (block: EditorBlock, suggestion: EditorSuggestion) => {
+    patchBlock(block.id, { text: suggestion.text }, { id: block.id, caret: suggestion.text.length });
+    // Picking a location leaves the heading open for its time of day
+    setShowSuggestions(suggestion.text.endsWith(' '));
+    setSuggestionIndex(0);
+  };
+
+  const handleTextChange = (block: EditorBlock, e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    const text = e.target.value;
+    const type = detectElementType(block.type, text);
+    // A type change remounts the textarea, so carry the caret across
+    const focus = type !== block.type ? { id: block.id, caret: e.target.selectionStart } : undefined;
+    patchBlock(block.id, { text, type }, focus);
+    setShowSuggestions(true);
+    setSuggestionIndex(0);
+  };
+
+  const handleKeyDown = (block: EditorBlock, index: number, e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    const el = e.currentTarget;
+    const { selectionStart, selectionEnd } = el;
+
+    // Autocomplete takes the arrow keys, Tab and Enter while it is open
+    if (suggestions.length > 0 && activeId === block.id) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setSuggestionIndex((suggestionIndex + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === 'Tab' || e.key === 'Enter') {
+        e.preventDefault();
+        applySuggestion(block, suggestions[suggestionIndex] || suggestions[0]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setShowSuggestions(false);
+        return;
+      }
+    }
+
+    if (e.key === 'Tab') {
+      e.preventDefault();
+      if (block.type === 'raw') return;
+      const type = cycleElementType(block.type, e.shiftKey ? -1 : 1);
+      patchBlock(block.id, { type }, { id: block.id, caret: selectionStart });
+      return;
+    }
+
+    if (e.key === 'Enter' && !e.shiftKey && block.type !== 'raw') {
+      e.preventDefault();
+
+      // Enter on an empty element drops back to action
+      if (!block.text.trim() && block.type !== 'action') {
+        patchBlock(block.id, { type: 'action' }, { id: block.id, caret: 0 });
+        return;
+      }
+
+      // At the very start, push the element down instead of splitting it
+      if (selectionStart === 0 && selectionEnd === 0 && block.text) {
+        const inserted = createBlock(block.type);
+        commit([...blocks.slice(0, index), inserted, ...blocks.slice(index)], { id: block.id, caret: 0 });
+        return;
+      }
+
+      const before = block.text.slice(0, selectionStart).replace(/\s+$/, '');
+      const after = block.text.slice(selectionEnd).replace(/^\s+/, '');
+      const created = createBlock(after ? block.type : nextElementType(block.type), after);
+      commit(
+        [...blocks.slice(0, index), { ...block, text: before }, created, ...blocks.slice(index + 1)],
+        { id: created.id, caret: 0 }
+      );
+      setShowSuggestions(false);
+      return;
+    }
+
+    if (e.key === 'Backspace' && selectionStart === 0 && selectionEnd === 0 && index > 0) {
+      const previous = blocks[index - 1];
+      if (!block.text) {
+        e.preventDefault();
+        commit(blocks.filter(b => b.id !== block.id), { id: previous.id, caret: previous.text.length });
+      } else if (previous.type === block.type && block.type !== 'raw') {
+        e.preventDefault();
+        const merged = { ...previous, text: previous.text + block.text };
+        commit(
+          [...blocks.slice(0, index - 1), merged, ...blocks.slice(index + 1)],
+          { id: previous.id, caret: previous.text.length }
+        );
+      }
+      return;
+    }
+
+    if (e.key === 'ArrowUp' && selectionStart === 0 && selectionEnd === 0 && index > 0) {
+      e.preventDefault();
+      const previous = blocks[index - 1];
+      pendingFocus.current = null;
+      refs.current.get(previous.id)?.focus();
+      refs.current.get(previous.id)?.setSelectionRange(previous.text.length, previous.text.length);
+      return;
+    }
+
+    if (e.key === 'ArrowDown' && selectionStart === block.text.length && index < blocks.length - 1) {
+      e.preventDefault();
+      const next = refs.current.get(blocks[index + 1].id);
+      next?.focus();
+      next?.setSelectionRange(0, 0);
+    }
+  };
+
+  const handlePaste = (block: EditorBlock, e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const pasted = e.clipboardData.getData('text/plain');
+    if (!pasted.includes('\n') || block.type === 'raw') return;
+    e.preventDefault();
+    const { selectionStart, selectionEnd } = e.currentTarget;
+    commit(pasteFountain(blocks, block.id, selectionStart, selectionEnd, pasted.replace(/\r\n?/g, '\n')));
+  };
+
+  const handleSelect = (block: EditorBlock, e: React.SyntheticEvent<HTMLTextAreaElement>) => {
+    if (!onSelectText) return;
+    const { selectionStart, selectionEnd, value } = e.currentTarget;
+    const text = value.substring(selectionStart, selectionEnd);
+    if (selectionStart !== selectionEnd && text.trim().length > 3) {
+      onSelectText({ blockId: block.id, text, start: selectionStart, end: selectionEnd });
+    } else {
+      onSelectText(null);
+    }
+  };
+
+  return (
+    <div className="h-full overflow-y-auto py-8">
+      <div
+        className="screenplay-editor bg-white text-black"
+        style={{
+          fontFamily: "'Courier Prime', 'Courier New', monospace",
+          fontSize: `${PAGE_LAYOUT.fontSize}pt`,
+          padding: `${PAGE_LAYOUT.topMargin}in 1in ${PAGE_LAYOUT.topMargin}in ${PAGE_LAYOUT.left}in`,
+          minHeight: '11in',
+        }}
+      >
+        {blocks.map((block, index) => {
+          const previous = blocks[index - 1];
+          const isTight = !!previous
+            && ['character', 'parenthetical', 'dialogue'].includes(previous.type)
+            && (block.type === 'parenthetical' || block.type === 'dialogue');
+          return (
+            <BlockRow
+              key={block.id}
+              block={block}
+              isActive={block.id === activeId}
+              isTight={isTight}
+              isFirst={index === 0}
+              suggestions={block.id === activeId ? suggestions : []}
+              suggestionIndex={suggestionIndex}
+              projectId={projectId}
+              registerRef={registerRef}
+              onFocus={() => { setActiveId(block.id); setShowSuggestions(false); }}
+              onTextChange={(e) => handleTextChange(block, e)}
+              onKeyDown={(e) => handleKeyDown(block, index, e)}
+              onPaste={(e) => handlePaste(block, e)}
+              onSelect={(e) => handleSelect(block, e)}
+              onPickSuggestion={(suggestion) => applySuggestion(block, suggestion)}
+            />
+          );
+        })}
+      </div>
+      <p className="text-center text-[11px] text-gray-500 mt-4 font-sans">
+        Tab / Shift+Tab changes element · Enter starts the next element · Shift+Enter adds a line
+      </p>
+    </div>
+  );
+};
+
+export default ScreenplayEditor;
@@ -1,8 +1,18 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { Save, Download, Play, AlertTriangle, Eye, Mic, List, ChevronRight, Sparkles, X } from 'lucide-react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Save, Download, Play, AlertTriangle, Eye, Mic, ChevronRight, Sparkles, X, ListChecks, Wand2, Captions } from 'lucide-react';
 import { generateTableRead, checkContinuity, analyzeSubtext, punchUpScript } from '../services/geminiService';
+import { exportFDX } from '../services/fdxExportService';
+import { renderScriptPDF } from '../services/paginationService';
+import { isScriptLocked, renderRevisionPDF } from '../services/revisionService';
+import { downloadFile, toFileBaseName } from '../services/downloadService';
+import CaptionExportModal from './CaptionExportModal';
+import { parseFountainDocument } from '../services/fountainParser';
+import { EditorBlock, fountainToBlocks, blocksToFountain } from '../services/screenplayEditorService';
+import { lintScript, applyLintEdit, applyAllLintFixes, isBulkFix, LintIssue, LINT_RULE_LABELS } from '../services/scriptLintService';
 import { ProjectData } from '../types';
 import { MentionableInput } from './MentionableInput';
+import ScreenplayEditor, { blockElementId } from './ScreenplayEditor';
+import SceneNavigator from './SceneNavigator';
 
 interface ScriptEditorProps {
   data: ProjectData;
@@ -10,35 +20,106 @@ interface ScriptEditorProps {
   onClose: () => void;
 }
 
+interface NavigationItem {
+  key: string;
+  blockId?: string; // Screenplay view
+  line?: number;    // Fountain view
+}
+
+/**
+ * Pixel offset of the line starting at `offset`, measured in a hidden mirror
+ * that copies the textarea's font, padding and wrapping width
+ */
+const measureOffsetTop = (textarea: HTMLTextAreaElement, offset: number): number => {
+  const style = window.getComputedStyle(textarea);
+  const mirror = document.createElement('div');
+  mirror.style.position = 'absolute';
+  mirror.style.visibility = 'hidden';
+  mirror.style.whiteSpace = 'pre-wrap';
+  mirror.style.overflowWrap = 'break-word';
+  mirror.style.boxSizing = 'content-box';
+  mirror.style.font = style.font;
+  mirror.style.letterSpacing = style.letterSpacing;
+  mirror.style.lineHeight = style.lineHeight;
+  mirror.style.padding = style.padding;
+  mirror.style.width = `${textarea.clientWidth - parseFloat(style.paddingLeft) - parseFloat(style.paddingRight)}px`;
+
+  mirror.textContent = textarea.value.slice(0, offset);
+  const marker = document.createElement('span');
+  marker.textContent = '\u200b';
+  mirror.appendChild(marker);
+
+  document.body.appendChild(mirror);
+  const top = marker.offsetTop - parseFloat(style.paddingTop);
+  document.body.removeChild(mirror);
+  return top;
+};
+
 const ScriptEditor: React.FC<ScriptEditorProps> = ({ data, onUpdateScript, onClose }) => {
   const [script, setScript] = useState(data.scriptContent || "");
-  const [navigationItems, setNavigationItems] = useState<{line: number, text: string}[]>([]);
-  const [analysisMode, setAnalysisMode] = useState<'none' | 'subtext' | 'continuity'>('none');
+  const [blocks, setBlocks] = useState<EditorBlock[]>(() => fountainToBlocks(data.scriptContent || ""));
+  const [viewMode, setViewMode] = useState<'screenplay' | 'fountain'>('screenplay');
+  const fountainRef = useRef<HTMLTextAreaElement | null>(null);
+  const [analysisMode, setAnalysisMode] = useState<'none' | 'subtext' | 'continuity' | 'lint'>('none');
   const [analysisResult, setAnalysisResult] = useState<any>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const audioRef = useRef<HTMLAudioElement | null>(null);
+  const [lastTableRead, setLastTableRead] = useState<{ src: string; scriptChars: number } | null>(null);
+  const [isCaptionsOpen, setIsCaptionsOpen] = useState(false);
+  const pendingLine = useRef<number | null>(null);
 
   // Context Menu State
-  const [selection, setSelection] = useState<{text: string, start: number, end: number} | null>(null);
+  const [selection, setSelection] = useState<{text: string, start: number, end: number, blockId?: string} | null>(null);
   const [menuPos, setMenuPos] = useState({ top: 0, left: 0 });
   const [isPunchingUp, setIsPunchingUp] = useState(false);
 
   // Sync internal state
   useEffect(() => {
     if (data.scriptContent && data.scriptContent !== script) {
-        if (script.length === 0) setScript(data.scriptContent);
+        if (script.length === 0) {
+            setScript(data.scriptContent);
+            setBlocks(fountainToBlocks(data.scriptContent));
+        }
     }
   }, [data.scriptContent]);
 
-  // Generate Navigation
-  useEffect(() => {
-    const lines = script.split('\n');
-    const nav = lines
-      .map((text, idx) => ({ text, line: idx }))
-      .filter(item => /^(INT\.|EXT\.|I\/E\.)/.test(item.text.toUpperCase()));
-    setNavigationItems(nav);
-  }, [script]);
+  // Jump targets, one per scene in navigator order
+  const navigationItems = useMemo<NavigationItem[]>(() => {
+    if (viewMode === 'screenplay') {
+      return blocks
+        .filter(block => block.type === 'scene_heading' && block.text.trim())
+        .map(block => ({ key: block.id, blockId: block.id }));
+    }
+    return parseFountainDocument(script).scenes.map(scene => ({
+      key: String(scene.heading.startLine),
+      line: scene.heading.startLine,
+    }));
+  }, [viewMode, blocks, script]);
+
+  const lintIssues = useMemo(() => lintScript(script), [script]);
+
+  const characterNames = useMemo(
+    () => [...(data.characterProfiles || []).map(profile => profile.name), ...data.characters],
+    [data.characterProfiles, data.characters]
+  );
+
+  const handleBlocksChange = (next: EditorBlock[]) => {
+    setBlocks(next);
+    setScript(blocksToFountain(next));
+  };
+
+  const replaceScript = (next: string) => {
+    setScript(next);
+    if (viewMode === 'screenplay') setBlocks(fountainToBlocks(next));
+  };
+
+  const switchView = (mode: 'screenplay' | 'fountain') => {
+    if (mode === viewMode) return;
+    if (mode === 'screenplay') setBlocks(fountainToBlocks(script));
+    setSelection(null);
+    setViewMode(mode);
+  };
 
   // Selection Handler
   const handleSelect = (e: React.SyntheticEvent<HTMLTextAreaElement>) => {
@@ -65,6 +146,18 @@ const ScriptEditor: React.FC<ScriptEditorProps> = ({ data, onUpdateScript, onClo
       if (!selection) return;
       setIsPunchingUp(true);
       try {
+          if (selection.blockId) {
+              const idx = blocks.findIndex(b => b.id === selection.blockId);
+              if (idx < 0) return;
+              const context = blocksToFountain(blocks.slice(Math.max(0, idx - 8), idx + 9));
+              const rewritten = await punchUpScript(selection.text, instruction, context);
+              const block = blocks[idx];
+              const text = block.text.substring(0, selection.start) + rewritten + block.text.substring(selection.end);
+              handleBlocksChange(blocks.map(b => b.id === block.id ? { ...b, text } : b));
+              setSelection(null);
+              return;
+          }
+
           const context = script.slice(Math.max(0, selection.start - 500), Math.min(script.length, selection.end + 500));
           const rewritten = await punchUpScript(selection.text, instruction, context);
           
@@ -79,12 +172,20 @@ const ScriptEditor: React.FC<ScriptEditorProps> = ({ data, onUpdateScript, onClo
   };
 
   const handleExportFountain = () => {
-    const element = document.createElement("a");
-    const file = new Blob([script], {type: 'text/plain'});
-    element.href = URL.createObjectURL(file);
-    element.download = `${data.title.replace(/\s+/g, '_')}_Script.fountain`;
-    document.body.appendChild(element);
-    element.click();
+    downloadFile(script, `${toFileBaseName(data.title)}_Script.fountain`, 'text/plain');
+  };
+
+  const handleExportFDX = () => {
+    const fdx = exportFDX(script, { title: data.title, numberScenes: true });
+    downloadFile(fdx, `${toFileBaseName(data.title)}_Script.fdx`, 'application/xml');
+  };
+
+  const handleExportPDF = () => {
+    // A locked script prints with its locked page numbers and revision marks
+    const pdf = isScriptLocked(data)
+      ? renderRevisionPDF({ ...data, scriptContent: script })
+      : renderScriptPDF(script, { title: data.title, numberScenes: true });
+    downloadFile(pdf, `${toFileBaseName(data.title)}_Script.pdf`, 'application/pdf');
   };
 
   const handleTableRead = async () => {
@@ -99,6 +200,7 @@ const ScriptEditor: React.FC<ScriptEditorProps> = ({ data, onUpdateScript, onClo
         const segment = script.slice(0, 3000); 
         const base64Audio = await generateTableRead(segment);
         const audioUrl = `data:audio/mp3;base64,${base64Audio}`;
+        setLastTableRead({ src: audioUrl, scriptChars: segment.length });
         
         if (audioRef.current) {
             audioRef.current.src = audioUrl;
@@ -144,11 +246,42 @@ const ScriptEditor: React.FC<ScriptEditorProps> = ({ data, onUpdateScript, onClo
     }
   };
 
-  const scrollToLine = (lineIdx: number) => {
-    const textarea = document.querySelector('textarea');
-    if (textarea) {
-        const lineHeight = 24; 
-        textarea.scrollTop = lineIdx * lineHeight;
+  const scrollToLine = (lineIdx: number, selectLine: boolean = false) => {
+    const textarea = fountainRef.current;
+    if (!textarea) return;
+    const lines = script.split('\n');
+    const offset = lines.slice(0, lineIdx).reduce((sum, line) => sum + line.length + 1, 0);
+    textarea.scrollTop = measureOffsetTop(textarea, offset);
+    textarea.focus({ preventScroll: true });
+    textarea.setSelectionRange(offset, selectLine ? offset + (lines[lineIdx] || '').length : offset);
+  };
+
+  // Lint issues point at source lines, which only the Fountain view shows
+  const goToIssue = (issue: LintIssue) => {
+    if (viewMode === 'fountain') {
+        scrollToLine(issue.line, true);
+        return;
+    }
+    pendingLine.current = issue.line;
+    switchView('fountain');
+  };
+
+  useEffect(() => {
+    if (viewMode === 'fountain' && pendingLine.current !== null) {
+        scrollToLine(pendingLine.current, true);
+        pendingLine.current = null;
+    }
+  }, [viewMode]);
+
+  const jumpTo = (item: NavigationItem) => {
+    if (item.line !== undefined) {
+        scrollToLine(item.line);
+        return;
+    }
+    const el = item.blockId ? document.getElementById(blockElementId(item.blockId)) as HTMLTextAreaElement | null : null;
+    if (el) {
+        el.scrollIntoView({ block: 'start', behavior: 'smooth' });
+        el.focus({ preventScroll: true });
     }
   };
 
@@ -159,9 +292,23 @@ const ScriptEditor: React.FC<ScriptEditorProps> = ({ data, onUpdateScript, onClo
         <div className="flex items-center space-x-4">
              <h2 className="text-white font-bold tracking-tight">Script Editor</h2>
              <span className="text-cinematic-500 text-sm border-l border-cinematic-700 pl-4">{data.title}</span>
+             <div className="flex bg-cinematic-800 rounded p-0.5 text-xs font-medium">
+                 <button onClick={() => switchView('screenplay')} className={`px-2.5 py-1 rounded transition-colors ${viewMode === 'screenplay' ? 'bg-cinematic-700 text-white' : 'text-cinematic-400 hover:text-white'}`}>
+                     Screenplay
+                 </button>
+                 <button onClick={() => switchView('fountain')} className={`px-2.5 py-1 rounded transition-colors ${viewMode === 'fountain' ? 'bg-cinematic-700 text-white' : 'text-cinematic-400 hover:text-white'}`}>
+                     Fountain
+                 </button>
+             </div>
         </div>
         
         <div className="flex items-center space-x-2">
+            <button onClick={() => setAnalysisMode(analysisMode === 'lint' ? 'none' : 'lint')} className={`relative p-2 rounded hover:bg-cinematic-700 text-cinematic-400 hover:text-white ${analysisMode === 'lint' ? 'bg-cinematic-700 text-white' : ''}`} title="Format Check">
+                <ListChecks size={18} />
+                {lintIssues.length > 0 && (
+                    <span className="absolute -top-0.5 -right-0.5 min-w-[16px] h-4 px-1 rounded-full bg-cinematic-accent text-white text-[10px] leading-4 text-center">{lintIssues.length}</span>
+                )}
+            </button>
             <button onClick={runContinuityCheck} className={`p-2 rounded hover:bg-cinematic-700 text-cinematic-400 hover:text-white ${analysisMode === 'continuity' ? 'bg-cinematic-700 text-white' : ''}`} title="Continuity Check">
                 <AlertTriangle size={18} />
             </button>
@@ -172,9 +319,18 @@ const ScriptEditor: React.FC<ScriptEditorProps> = ({ data, onUpdateScript, onClo
             <button onClick={handleTableRead} className={`flex items-center gap-2 px-3 py-1.5 rounded text-sm font-medium transition-colors ${isPlaying ? 'bg-red-900/50 text-red-200 animate-pulse' : 'bg-cinematic-800 hover:bg-cinematic-700 text-white'}`}>
                 <Play size={16} /> {isPlaying ? 'Playing...' : 'Table Read'}
             </button>
+            <button onClick={() => setIsCaptionsOpen(true)} className="flex items-center gap-2 px-3 py-1.5 bg-cinematic-800 hover:bg-cinematic-700 text-white rounded text-sm font-medium transition-colors">
+                <Captions size={16} /> Captions
+            </button>
             <button onClick={handleExportFountain} className="flex items-center gap-2 px-3 py-1.5 bg-cinematic-800 hover:bg-cinematic-700 text-white rounded text-sm font-medium transition-colors">
                 <Download size={16} /> Export .fountain
             </button>
+            <button onClick={handleExportFDX} className="flex items-center gap-2 px-3 py-1.5 bg-cinematic-800 hover:bg-cinematic-700 text-white rounded text-sm font-medium transition-colors">
+                <Download size={16} /> Export .fdx
+            </button>
+            <button onClick={handleExportPDF} className="flex items-center gap-2 px-3 py-1.5 bg-cinematic-800 hover:bg-cinematic-700 text-white rounded text-sm font-medium transition-colors">
+                <Download size={16} /> Export .pdf
+            </button>
             <button onClick={() => { onUpdateScript(script); onClose(); }} className="px-4 py-1.5 bg-cinematic-accent hover:bg-red-700 text-white rounded text-sm font-medium transition-colors ml-2">
                 Done
             </button>
@@ -183,46 +339,42 @@ const ScriptEditor: React.FC<ScriptEditorProps> = ({ data, onUpdateScript, onClo
 
       <div className="flex-1 flex overflow-hidden relative">
          {/* Navigation Sidebar */}
-         <div className="w-64 bg-cinematic-900 border-r border-cinematic-700 flex flex-col hidden md:flex">
-             <div className="p-3 border-b border-cinematic-800">
-                 <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider flex items-center gap-2">
-                     <List size={12} /> Scenes
-                 </h3>
-             </div>
-             <div className="flex-1 overflow-y-auto p-2 space-y-1">
-                 {navigationItems.map((item, i) => (
-                     <button 
-                        key={i} 
-                        onClick={() => scrollToLine(item.line)}
-                        className="w-full text-left text-xs text-gray-400 hover:text-white hover:bg-cinematic-800 p-2 rounded truncate transition-colors font-mono"
-                     >
-                        {item.text}
-                     </button>
-                 ))}
-                 {navigationItems.length === 0 && <p className="text-xs text-gray-600 p-2 italic">No scene headers found.</p>}
-             </div>
-         </div>
+         <SceneNavigator script={script} onChange={replaceScript} onJump={(index) => navigationItems[index] && jumpTo(navigationItems[index])} />
 
          {/* Editor Area */}
          <div className="flex-1 relative bg-[#E8E8E8] text-black">
-             <MentionableInput
-                sourceApp="script-engine"
-                projectId={data.id}
-                contextType="script"
-                allowCreate={true}
-             >
-                {(ref) => (
-                    <textarea
-                        ref={ref as React.RefObject<HTMLTextAreaElement>}
-                        value={script}
-                        onChange={(e) => setScript(e.target.value)}
-                        onSelect={handleSelect}
-                        className="w-full h-full p-8 md:p-16 font-mono text-base md:text-lg focus:outline-none resize-none screenplay-editor leading-relaxed"
-                        placeholder="Start writing your masterpiece..."
-                        spellCheck={false}
-                    />
-                )}
-             </MentionableInput>
+             {viewMode === 'screenplay' ? (
+                 <ScreenplayEditor
+                    blocks={blocks}
+                    onChange={handleBlocksChange}
+                    characterNames={characterNames}
+                    locations={data.locations}
+                    projectId={data.id}
+                    onSelectText={setSelection}
+                 />
+             ) : (
+                 <MentionableInput
+                    sourceApp="script-engine"
+                    projectId={data.id}
+                    contextType="script"
+                    allowCreate={true}
+                 >
+                    {(ref) => (
+                        <textarea
+                            ref={(el) => {
+                                (ref as React.MutableRefObject<HTMLInputElement | HTMLTextAreaElement | null>).current = el;
+                                fountainRef.current = el;
+                            }}
+                            value={script}
+                            onChange={(e) => setScript(e.target.value)}
+                            onSelect={handleSelect}
+                            className="w-full h-full p-8 md:p-16 font-mono text-base md:text-lg focus:outline-none resize-none screenplay-editor leading-relaxed"
+                            placeholder="Start writing your masterpiece..."
+                            spellCheck={false}
+                        />
+                    )}
+                 </MentionableInput>
+             )}
              
              {/* Floating Context Menu for Punch-Up */}
              {selection && (
@@ -254,39 +406,76 @@ const ScriptEditor: React.FC<ScriptEditorProps> = ({ data, onUpdateScript, onClo
                  <div className="absolute top-4 right-4 w-80 bg-cinematic-900 border border-cinematic-700 text-white shadow-2xl rounded-lg overflow-hidden flex flex-col max-h-[80%] z-40">
                      <div className="bg-cinematic-800 p-3 flex justify-between items-center border-b border-cinematic-700">
                          <span className="font-bold text-sm flex items-center gap-2">
-                             {analysisMode === 'subtext' ? <Eye size={14} className="text-blue-400"/> : <AlertTriangle size={14} className="text-yellow-400"/>}
-                             {analysisMode === 'subtext' ? 'Subtext Analysis' : 'Continuity Report'}
+                             {analysisMode === 'lint' ? <ListChecks size={14} className="text-green-400"/> : analysisMode === 'subtext' ? <Eye size={14} className="text-blue-400"/> : <AlertTriangle size={14} className="text-yellow-400"/>}
+                             {analysisMode === 'lint' ? 'Format Check' : analysisMode === 'subtext' ? 'Subtext Analysis' : 'Continuity Report'}
                          </span>
                          <button onClick={() => setAnalysisMode('none')} className="text-gray-400 hover:text-white"><ChevronRight size={16}/></button>
                      </div>
-                     <div className="p-4 overflow-y-auto text-sm text-gray-300">
-                         {isAnalyzing ? (
-                             <div className="flex items-center gap-2 text-cinematic-400">
-                                 <div className="w-2 h-2 bg-cinematic-accent rounded-full animate-bounce"></div>
-                                 Analyzing script...
-                             </div>
-                         ) : (
-                             analysisMode === 'subtext' && Array.isArray(analysisResult) ? (
-                                 <div className="space-y-4">
-                                     {analysisResult.map((item: any, idx: number) => (
-                                         <div key={idx} className="border-l-2 border-blue-500 pl-3">
-                                             <div className="text-white italic mb-1">"{item.line}"</div>
-                                             <div className="text-blue-300 text-xs">{item.subtext}</div>
+                     {analysisMode === 'lint' ? (
+                         <div className="overflow-y-auto text-sm text-gray-300">
+                             {lintIssues.some(isBulkFix) && (
+                                 <button
+                                    onClick={() => replaceScript(applyAllLintFixes(script))}
+                                    className="w-full flex items-center justify-center gap-2 p-2 text-xs text-green-400 hover:text-green-300 hover:bg-cinematic-800 border-b border-cinematic-800"
+                                 >
+                                     <Wand2 size={12} /> Fix all
+                                 </button>
+                             )}
+                             {lintIssues.map(issue => (
+                                 <div key={issue.id} className="p-3 border-b border-cinematic-800 hover:bg-cinematic-800/50">
+                                     <button onClick={() => goToIssue(issue)} className="w-full text-left">
+                                         <div className="flex items-center justify-between text-[10px] uppercase tracking-wider">
+                                             <span className={issue.severity === 'error' ? 'text-red-400' : 'text-yellow-400'}>{LINT_RULE_LABELS[issue.rule]}</span>
+                                             <span className="text-gray-500 font-mono">Line {issue.line + 1}</span>
                                          </div>
-                                     ))}
-                                     {analysisResult.length === 0 && <p>No significant subtext found in this chunk.</p>}
+                                         <div className="text-xs text-gray-300 mt-1">{issue.message}</div>
+                                     </button>
+                                     {issue.fix && (
+                                         <button
+                                            onClick={() => replaceScript(applyLintEdit(script, issue.fix!.edit))}
+                                            className="mt-2 text-[11px] text-cinematic-gold hover:text-white flex items-center gap-1"
+                                         >
+                                             <Wand2 size={10} /> {issue.fix.label}
+                                         </button>
+                                     )}
                                  </div>
-                             ) : (
-                                 <div className="prose prose-invert prose-sm">
-                                     <p className="whitespace-pre-wrap">{analysisResult}</p>
+                             ))}
+                             {lintIssues.length === 0 && <p className="p-4 text-xs text-gray-500">No formatting problems found.</p>}
+                         </div>
+                     ) : (
+                         <div className="p-4 overflow-y-auto text-sm text-gray-300">
+                             {isAnalyzing ? (
+                                 <div className="flex items-center gap-2 text-cinematic-400">
+                                     <div className="w-2 h-2 bg-cinematic-accent rounded-full animate-bounce"></div>
+                                     Analyzing script...
                                  </div>
-                             )
-                         )}
-                     </div>
+                             ) : (
+                                 analysisMode === 'subtext' && Array.isArray(analysisResult) ? (
+                                     <div className="space-y-4">
+                                         {analysisResult.map((item: any, idx: number) => (
+                                             <div key={idx} className="border-l-2 border-blue-500 pl-3">
+                                                 <div className="text-white italic mb-1">"{item.line}"</div>
+                                                 <div className="text-blue-300 text-xs">{item.subtext}</div>
+                                             </div>
+                                         ))}
+                                         {analysisResult.length === 0 && <p>No significant subtext found in this chunk.</p>}
+                                     </div>
+                                 ) : (
+                                     <div className="prose prose-invert prose-sm">
+                                         <p className="whitespace-pre-wrap">{analysisResult}</p>
+                                     </div>
+                                 )
+                             )}
+                         </div>
+                     )}
                  </div>
              )}
          </div>
       </div>
+
+      {isCaptionsOpen && (
+          <CaptionExportModal data={{ ...data, scriptContent: script }} tableRead={lastTableRead} onClose={() => setIsCaptionsOpen(false)} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,284 @@
+import React, { useState, useMemo } from 'react';
+import { Tv, Plus, Trash2, ExternalLink, X } from 'lucide-react';
+import { ProjectState, SeriesPlan } from '../types';
+import { createArc, buildSeriesAppearances } from '../services/seriesService';
+
+interface SeriesViewProps {
+  title: string;
+  plan?: SeriesPlan; // Undefined while the project is a single script
+  episodes: ProjectState[];
+  activeId: string;
+  onStartSeries: () => void;
+  onUpdatePlan: (plan: SeriesPlan) => void;
+  onAddEpisode: (title: string) => void;
+  onUpdateEpisode: (id: string, patch: { title?: string; logline?: string }) => void;
+  onDeleteEpisode: (id: string) => void;
+  onOpen: (id: string | null) => void; // null opens the series bible
+  onClose: () => void;
+}
+
+type SeriesTab = 'episodes' | 'arcs' | 'appearances';
+
+const SeriesView: React.FC<SeriesViewProps> = ({
+  title, plan, episodes, activeId, onStartSeries, onUpdatePlan, onAddEpisode, onUpdateEpisode, onDeleteEpisode, onOpen, onClose,
+}) => {
+  const [tab, setTab] = useState<SeriesTab>('episodes');
+  const [newEpisode, setNewEpisode] = useState('');
+  const [newArc, setNewArc] = useState('');
+
+  const appearances = useMemo(
+    () => (tab === 'appearances' ? buildSeriesAppearances(episodes) : null),
+    [tab, episodes],
+  );
+
+  const addEpisode = () => {
+    onAddEpisode(newEpisode);
+    setNewEpisode('');
+  };
+
+  const addArc = () => {
+    if (!plan || !newArc.trim()) return;
+    onUpdatePlan({ ...plan, arcs: [...plan.arcs, createArc(plan, newArc)] });
+    setNewArc('');
+  };
+
+  const updateArc = (id: string, patch: Partial<SeriesPlan['arcs'][number]>) =>
+    plan && onUpdatePlan({ ...plan, arcs: plan.arcs.map(arc => (arc.id === id ? { ...arc, ...patch } : arc)) });
+
+  const episodeLabel = (episode: ProjectState) => `Ep ${episode.episode!.number}`;
+
+  return (
+    <div className="fixed inset-0 z-40 bg-[#0a0a0a] flex flex-col animate-in slide-in-from-right duration-300">
+      <div className="flex-none h-16 bg-cinematic-900 border-b border-cinematic-700 flex items-center justify-between px-4 shadow-lg">
+          <div className="flex items-center gap-3 min-w-0">
+              <h2 className="text-white font-bold tracking-tight flex items-center gap-2 truncate">
+                  <Tv size={18} className="text-cinematic-gold" /> {title || 'Untitled Series'}
+              </h2>
+              {plan && (
+                  <>
+                      <label className="flex items-center gap-1.5 text-xs text-gray-500">
+                          Season
+                          <input
+                            type="number"
+                            min={1}
+                            value={plan.season}
+                            onChange={(e) => onUpdatePlan({ ...plan, season: Math.max(1, Number(e.target.value) || 1) })}
+                            className="w-14 bg-cinematic-800 border border-cinematic-700 rounded px-2 py-1 text-xs text-white"
+                          />
+                      </label>
+                      <div className="flex bg-cinematic-800 rounded p-0.5 text-xs font-medium ml-2">
+                          {(['episodes', 'arcs', 'appearances'] as SeriesTab[]).map(t => (
+                              <button key={t} onClick={() => setTab(t)} className={`px-2.5 py-1 rounded capitalize transition-colors ${tab === t ? 'bg-cinematic-700 text-white' : 'text-cinematic-400 hover:text-white'}`}>
+                                  {t}
+                              </button>
+                          ))}
+                      </div>
+                  </>
+              )}
+          </div>
+          <button onClick={onClose} className="p-2 rounded text-gray-400 hover:text-white hover:bg-cinematic-700"><X size={20} /></button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6">
+          {!plan && (
+              <div className="max-w-lg mx-auto text-center py-16 space-y-4">
+                  <Tv size={40} className="mx-auto text-cinematic-600" />
+                  <p className="text-sm text-gray-400">
+                      Turn this project into a series. Characters, locations and tone become the shared series bible;
+                      the current script, beats and history become Episode 1.
+                  </p>
+                  <button
+                    onClick={onStartSeries}
+                    className="inline-flex items-center gap-2 px-3 py-1.5 bg-cinematic-800 hover:bg-cinematic-700 text-white rounded text-sm font-medium transition-colors"
+                  >
+                      <Tv size={14} /> Make it a series
+                  </button>
+              </div>
+          )}
+
+          {plan && tab === 'episodes' && (
+              <div className="max-w-4xl mx-auto space-y-2">
+                  <button
+                    onClick={() => onOpen(null)}
+                    className={`w-full flex items-center gap-3 px-4 py-3 rounded border text-left transition-colors ${episodes.some(e => e.episode!.id === activeId) ? 'bg-cinematic-900 border-cinematic-800 hover:border-cinematic-600' : 'bg-cinematic-800 border-cinematic-gold/50'}`}
+                  >
+                      <span className="text-xs font-bold text-cinematic-gold uppercase tracking-wider w-14">Bible</span>
+                      <span className="flex-1 text-sm text-gray-300">Series bible: characters, locations, tone and format shared by every episode</span>
+                  </button>
+
+                  {episodes.map(episode => {
+                    const id = episode.episode!.id;
+                    const scenes = episode.data.scriptDocument?.scenes.filter(s => s.heading).length || 0;
+                    return (
+                      <div key={id} className={`group flex items-start gap-3 px-4 py-3 rounded border ${id === activeId ? 'bg-cinematic-800 border-cinematic-gold/50' : 'bg-cinematic-900 border-cinematic-800'}`}>
+                          <span className="text-xs font-bold text-gray-500 uppercase tracking-wider w-14 pt-1.5">{episodeLabel(episode)}</span>
+                          <div className="flex-1 min-w-0 space-y-1">
+                              <input
+                                value={episode.data.title}
+                                onChange={(e) => onUpdateEpisode(id, { title: e.target.value })}
+                                className="w-full bg-transparent text-sm font-medium text-white focus:outline-none focus:bg-cinematic-800 rounded px-1 py-0.5"
+                              />
+                              <input
+                                value={episode.data.logline}
+                                onChange={(e) => onUpdateEpisode(id, { logline: e.target.value })}
+                                placeholder="Logline"
+                                className="w-full bg-transparent text-xs text-gray-400 focus:outline-none focus:bg-cinematic-800 rounded px-1 py-0.5"
+                              />
+                          </div>
+                          <span className="text-[11px] text-gray-500 pt-1.5 whitespace-nowrap">{scenes} scenes · {episode.data.beats.length} beats · {episode.data.snapshots.length} versions</span>
+                          <button
+                            onClick={() => onOpen(id)}
+                            disabled={id === activeId}
+                            className="flex items-center gap-1.5 px-3 py-1 bg-cinematic-800 hover:bg-cinematic-700 text-white rounded text-xs transition-colors disabled:opacity-40"
+                          >
+                              <ExternalLink size={12} /> {id === activeId ? 'Editing' : 'Open'}
+                          </button>
+                          <button
+                            onClick={() => confirm(`Delete ${episodeLabel(episode)} "${episode.data.title}" with its script and history?`) && onDeleteEpisode(id)}
+                            className="p-1 rounded text-gray-500 hover:text-red-400 hover:bg-cinematic-700 opacity-0 group-hover:opacity-100"
+                            title="Delete episode"
+                          >
+                              <Trash2 size={14} />
+                          </button>
+                      </div>
+                    );
+                  })}
+
+                  <div className="flex items-center gap-2 pt-2">
+                      <input
+                        value={newEpisode}
+                        onChange={(e) => setNewEpisode(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && addEpisode()}
+                        placeholder={`Episode ${Math.max(0, ...episodes.map(e => e.episode!.number)) + 1} title`}
+                        className="flex-1 bg-cinematic-800 border border-cinematic-700 rounded px-3 py-1.5 text-sm text-white focus:outline-none focus:border-cinematic-gold"
+                      />
+                      <button
+                        onClick={addEpisode}
+                        className="flex items-center gap-2 px-3 py-1.5 bg-cinematic-800 hover:bg-cinematic-700 text-white rounded text-sm font-medium transition-colors"
+                      >
+                          <Plus size={14} /> Add episode
+                      </button>
+                  </div>
+              </div>
+          )}
+
+          {plan && tab === 'arcs' && (
+              <div className="space-y-3">
+                  <div className="overflow-x-auto">
+                      <table className="text-xs border-collapse">
+                          <thead>
+                              <tr>
+                                  <th className="sticky left-0 bg-[#0a0a0a] w-48 p-2 text-left text-gray-500 uppercase tracking-wider">Arc</th>
+                                  {episodes.map(episode => (
+                                      <th key={episode.episode!.id} className="w-56 p-2 text-left text-gray-400 font-medium truncate">
+                                          {episodeLabel(episode)} · {episode.data.title}
+                                      </th>
+                                  ))}
+                              </tr>
+                          </thead>
+                          <tbody>
+                              {plan.arcs.map(arc => (
+                                  <tr key={arc.id} className="align-top">
+                                      <td className="sticky left-0 bg-[#0a0a0a] p-2">
+                                          <div className="flex items-center gap-2 group">
+                                              <span className="w-2.5 h-2.5 rounded-full flex-none" style={{ backgroundColor: arc.color }} />
+                                              <input
+                                                value={arc.name}
+                                                onChange={(e) => updateArc(arc.id, { name: e.target.value })}
+                                                className="flex-1 min-w-0 bg-transparent text-white font-medium focus:outline-none focus:bg-cinematic-800 rounded px-1"
+                                              />
+                                              <button
+                                                onClick={() => confirm(`Delete arc "${arc.name}"?`) && onUpdatePlan({ ...plan, arcs: plan.arcs.filter(a => a.id !== arc.id) })}
+                                                className="p-0.5 text-gray-600 hover:text-red-400 opacity-0 group-hover:opacity-100"
+                                              >
+                                                  <Trash2 size={12} />
+                                              </button>
+                                          </div>
+                                      </td>
+                                      {episodes.map(episode => (
+                                          <td key={episode.episode!.id} className="p-1">
+                                              <textarea
+                                                value={arc.notes[episode.episode!.id] || ''}
+                                                onChange={(e) => updateArc(arc.id, { notes: { ...arc.notes, [episode.episode!.id]: e.target.value } })}
+                                                rows={3}
+                                                className="w-full bg-cinematic-900 border border-cinematic-800 rounded p-2 text-gray-300 resize-y focus:outline-none focus:border-cinematic-600"
+                                                style={{ borderLeftColor: arc.notes[episode.episode!.id] ? arc.color : undefined }}
+                                              />
+                                          </td>
+                                      ))}
+                                  </tr>
+                              ))}
+                          </tbody>
+                      </table>
+                  </div>
+                  {!plan.arcs.length && <p className="text-sm text-gray-600 italic">No arcs yet. Add the storylines that run across the season.</p>}
+                  <div className="flex items-center gap-2 max-w-md">
+                      <input
+                        value={newArc}
+                        onChange={(e) => setNewArc(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && addArc()}
+                        placeholder="New arc, e.g. The heist"
+                        className="flex-1 bg-cinematic-800 border border-cinematic-700 rounded px-3 py-1.5 text-sm text-white focus:outline-none focus:border-cinematic-gold"
+                      />
+                      <button
+                        onClick={addArc}
+                        disabled={!newArc.trim()}
+                        className="flex items-center gap-2 px-3 py-1.5 bg-cinematic-800 hover:bg-cinematic-700 text-white rounded text-sm font-medium transition-colors disabled:opacity-50"
+                      >
+                          <Plus size={14} /> Add arc
+                      </button>
+                  </div>
+              </div>
+          )}
+
+          {plan && tab === 'appearances' && appearances && (
+              <div className="overflow-x-auto">
+                  <table className="text-xs border-collapse">
+                      <thead>
+                          <tr>
+                              <th className="sticky left-0 bg-[#0a0a0a] w-48 p-2 text-left text-gray-500 uppercase tracking-wider">Character</th>
+                              {episodes.map(episode => (
+                                  <th key={episode.episode!.id} className="w-20 p-2 text-center text-gray-400 font-medium" title={episode.data.title}>
+                                      {episodeLabel(episode)}
+                                  </th>
+                              ))}
+                              <th className="w-20 p-2 text-center text-gray-500 uppercase tracking-wider">Episodes</th>
+                          </tr>
+                      </thead>
+                      <tbody>
+                          {appearances.characters.map(name => {
+                            const cells = appearances.byCharacter[name];
+                            return (
+                              <tr key={name} className="border-t border-cinematic-800">
+                                  <td className="sticky left-0 bg-[#0a0a0a] p-2 font-mono text-gray-200 truncate">{name}</td>
+                                  {episodes.map(episode => {
+                                    const cell = cells[episode.episode!.id];
+                                    return (
+                                      <td key={episode.episode!.id} className="p-1 text-center">
+                                          {cell && (
+                                              <span
+                                                className={`inline-block w-full rounded px-1 py-1 ${cell.words ? 'bg-cinematic-gold/20 text-cinematic-gold' : 'bg-cinematic-800 text-gray-400'}`}
+                                                title={`${cell.scenes} scenes · ${cell.words} dialogue words`}
+                                              >
+                                                  {cell.scenes}
+                                              </span>
+                                          )}
+                                      </td>
+                                    );
+                                  })}
+                                  <td className="p-2 text-center text-gray-400">{Object.keys(cells).length}/{episodes.length}</td>
+                              </tr>
+                            );
+                          })}
+                      </tbody>
+                  </table>
+                  {!appearances.characters.length && <p className="text-sm text-gray-600 italic text-center py-12">No characters appear in any episode yet.</p>}
+                  <p className="text-[11px] text-gray-600 mt-3">Scenes each character appears in per episode. Highlighted cells have dialogue.</p>
+              </div>
+          )}
+      </div>
+    </div>
+  );
+};
+
+export default SeriesView;
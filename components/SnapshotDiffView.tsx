@@ -0,0 +1,202 @@
+import React, { useState, useMemo } from 'react';
+import { GitCompare, RotateCcw, X } from 'lucide-react';
+import { ProjectData, Snapshot } from '../types';
+import {
+  diffScriptLines, diffScenes, diffBible, restorePart, restoreScene,
+  SideBySideRow, ListDiff, RestorablePart, SceneChange,
+} from '../services/snapshotDiffService';
+
+interface SnapshotDiffViewProps {
+  snapshots: Snapshot[];
+  current: ProjectData;
+  base: Snapshot;
+  onApply: (data: ProjectData) => void;
+  onClose: () => void;
+}
+
+type DiffTab = 'script' | 'scenes' | 'bible';
+
+const CURRENT = 'current';
+
+const ROW_STYLES: Record<SideBySideRow['type'], { left: string; right: string }> = {
+  equal: { left: '', right: '' },
+  insert: { left: 'bg-cinematic-900/60', right: 'bg-green-900/40 text-green-100' },
+  delete: { left: 'bg-red-900/40 text-red-100', right: 'bg-cinematic-900/60' },
+  replace: { left: 'bg-red-900/30 text-red-100', right: 'bg-green-900/30 text-green-100' },
+  skip: { left: '', right: '' },
+};
+
+const SCENE_BADGES: Record<SceneChange, string> = {
+  added: 'bg-green-900/60 text-green-300',
+  removed: 'bg-red-900/60 text-red-300',
+  changed: 'bg-amber-900/60 text-amber-300',
+  unchanged: 'bg-cinematic-800 text-gray-500',
+};
+
+export const SideBySide: React.FC<{ rows: SideBySideRow[] }> = ({ rows }) => (
+  <div className="font-mono text-xs border border-cinematic-800 rounded overflow-hidden">
+      {rows.map((row, i) => row.type === 'skip' ? (
+          <div key={i} className="px-3 py-1 bg-cinematic-900 text-gray-600 text-center border-y border-cinematic-800">⋯ {row.skipped} unchanged lines</div>
+      ) : (
+          <div key={i} className="grid grid-cols-2 divide-x divide-cinematic-800">
+              {(['left', 'right'] as const).map(side => (
+                  <div key={side} className={`flex min-h-[1.25rem] ${ROW_STYLES[row.type][side]}`}>
+                      <span className="w-10 flex-none text-right pr-2 text-gray-600 select-none">{row[side] ? row[side]!.line + 1 : ''}</span>
+                      <span className="whitespace-pre-wrap break-words pr-2">{row[side]?.text}</span>
+                  </div>
+              ))}
+          </div>
+      ))}
+  </div>
+);
+
+const ListChanges: React.FC<{ diff: ListDiff }> = ({ diff }) => (
+  <div className="flex flex-wrap gap-1.5 text-xs">
+      {diff.removed.map(item => <span key={`-${item}`} className="px-2 py-0.5 rounded bg-red-900/50 text-red-200 line-through">{item}</span>)}
+      {diff.added.map(item => <span key={`+${item}`} className="px-2 py-0.5 rounded bg-green-900/50 text-green-200">{item}</span>)}
+      {diff.unchanged.map(item => <span key={item} className="px-2 py-0.5 rounded bg-cinematic-800 text-gray-400">{item}</span>)}
+      {!diff.removed.length && !diff.added.length && !diff.unchanged.length && <span className="text-gray-600 italic">None</span>}
+  </div>
+);
+
+const SnapshotDiffView: React.FC<SnapshotDiffViewProps> = ({ snapshots, current, base, onApply, onClose }) => {
+  const [baseId, setBaseId] = useState(base.id);
+  const [targetId, setTargetId] = useState(CURRENT);
+  const [tab, setTab] = useState<DiffTab>('script');
+  const [openScene, setOpenScene] = useState<string | null>(null);
+
+  const from = snapshots.find(s => s.id === baseId) || base;
+  const to = targetId === CURRENT ? null : snapshots.find(s => s.id === targetId) || null;
+  const before = from.data;
+  const after = to ? to.data : current;
+
+  const scriptRows = useMemo(() => diffScriptLines(before.scriptContent || '', after.scriptContent || ''), [before, after]);
+  const scenes = useMemo(() => diffScenes(before, after), [before, after]);
+  const bible = useMemo(() => diffBible(before, after), [before, after]);
+  const changedScenes = scenes.filter(s => s.status !== 'unchanged' || s.moved).length;
+
+  const restore = (label: string, next: ProjectData) => {
+    if (confirm(`Restore ${label} from "${from.label}" into the current project? Everything else stays as it is.`)) onApply(next);
+  };
+  const restoreButton = (part: RestorablePart, label: string) => (
+    <button
+      onClick={() => restore(label, restorePart(current, before, part))}
+      className="flex items-center gap-1.5 px-3 py-1 bg-cinematic-800 hover:bg-cinematic-700 text-white rounded text-xs transition-colors"
+    >
+        <RotateCcw size={12} /> Restore {label}
+    </button>
+  );
+
+  const versionLabel = (snap: Snapshot) => `${snap.label} · ${new Date(snap.timestamp).toLocaleString()}`;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-[#0a0a0a] flex flex-col animate-in slide-in-from-right duration-300">
+      <div className="flex-none h-16 bg-cinematic-900 border-b border-cinematic-700 flex items-center justify-between px-4 shadow-lg">
+          <div className="flex items-center gap-3 min-w-0">
+              <h2 className="text-white font-bold tracking-tight flex items-center gap-2"><GitCompare size={18} className="text-cinematic-gold" /> Compare</h2>
+              <select value={baseId} onChange={(e) => setBaseId(e.target.value)} className="bg-cinematic-800 border border-cinematic-700 rounded px-2 py-1 text-xs text-white max-w-[16rem]">
+                  {snapshots.map(s => <option key={s.id} value={s.id}>{versionLabel(s)}</option>)}
+              </select>
+              <span className="text-gray-500 text-xs">→</span>
+              <select value={targetId} onChange={(e) => setTargetId(e.target.value)} className="bg-cinematic-800 border border-cinematic-700 rounded px-2 py-1 text-xs text-white max-w-[16rem]">
+                  <option value={CURRENT}>Current project</option>
+                  {snapshots.filter(s => s.id !== baseId).map(s => <option key={s.id} value={s.id}>{versionLabel(s)}</option>)}
+              </select>
+              <div className="flex bg-cinematic-800 rounded p-0.5 text-xs font-medium ml-2">
+                  {(['script', 'scenes', 'bible'] as DiffTab[]).map(t => (
+                      <button key={t} onClick={() => setTab(t)} className={`px-2.5 py-1 rounded capitalize transition-colors ${tab === t ? 'bg-cinematic-700 text-white' : 'text-cinematic-400 hover:text-white'}`}>
+                          {t}{t === 'scenes' && changedScenes ? ` (${changedScenes})` : ''}
+                      </button>
+                  ))}
+              </div>
+          </div>
+          <button onClick={onClose} className="p-2 rounded text-gray-400 hover:text-white hover:bg-cinematic-700"><X size={20} /></button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6">
+          <div className="max-w-6xl mx-auto space-y-4">
+              <div className="grid grid-cols-2 text-xs text-gray-500 uppercase tracking-wider">
+                  <span>{from.label}</span>
+                  <span className="pl-3">{to ? to.label : 'Current project'}</span>
+              </div>
+
+              {tab === 'script' && (
+                  <>
+                      <div className="flex justify-end">{restoreButton('script', 'the whole script')}</div>
+                      {scriptRows.some(r => r.type !== 'equal' && r.type !== 'skip')
+                          ? <SideBySide rows={scriptRows} />
+                          : <p className="text-sm text-gray-600 italic text-center py-12">The scripts are identical.</p>}
+                  </>
+              )}
+
+              {tab === 'scenes' && (
+                  <div className="space-y-1.5">
+                      {scenes.map(scene => (
+                          <div key={scene.key} className="bg-cinematic-900 border border-cinematic-800 rounded">
+                              <div className="flex items-center gap-3 px-3 py-2">
+                                  <span className={`w-20 text-center text-[10px] uppercase font-bold rounded px-1.5 py-0.5 ${SCENE_BADGES[scene.status]}`}>{scene.status}</span>
+                                  {scene.moved && <span className="text-[10px] uppercase font-bold rounded px-1.5 py-0.5 bg-blue-900/60 text-blue-300">moved</span>}
+                                  <button
+                                    onClick={() => setOpenScene(openScene === scene.key ? null : scene.key)}
+                                    disabled={scene.status === 'unchanged'}
+                                    className="flex-1 min-w-0 text-left text-xs font-mono text-gray-300 hover:text-white truncate disabled:hover:text-gray-300"
+                                  >
+                                      {scene.heading}
+                                  </button>
+                                  {scene.sceneId && (scene.status !== 'unchanged' || scene.moved) && (
+                                      <button
+                                        onClick={() => restore(`scene "${scene.heading}"`, restoreScene(current, before, scene.sceneId!))}
+                                        className="flex items-center gap-1 px-2 py-0.5 rounded text-[11px] text-gray-400 hover:text-white hover:bg-cinematic-700"
+                                      >
+                                          <RotateCcw size={11} /> Restore scene
+                                      </button>
+                                  )}
+                              </div>
+                              {openScene === scene.key && (
+                                  <div className="px-3 pb-3">
+                                      <SideBySide rows={diffScriptLines(scene.before || '', scene.after || '', Infinity)} />
+                                  </div>
+                              )}
+                          </div>
+                      ))}
+                      {scenes.length === 0 && <p className="text-sm text-gray-600 italic text-center py-12">No scenes in either version.</p>}
+                  </div>
+              )}
+
+              {tab === 'bible' && (
+                  <div className="space-y-6">
+                      <section className="space-y-2">
+                          <div className="flex items-center justify-between">
+                              <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider">Characters</h3>
+                              {restoreButton('characters', 'characters')}
+                          </div>
+                          <ListChanges diff={bible.characters} />
+                          {bible.profiles.map(p => (
+                              <p key={p.name} className="text-xs text-amber-300">{p.name}: {p.fields.join(', ')} changed</p>
+                          ))}
+                      </section>
+                      <section className="space-y-2">
+                          <div className="flex items-center justify-between">
+                              <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider">Locations</h3>
+                              {restoreButton('locations', 'locations')}
+                          </div>
+                          <ListChanges diff={bible.locations} />
+                      </section>
+                      <section className="space-y-2">
+                          <div className="flex items-center justify-between">
+                              <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider">Beats{bible.beatsChanged ? '' : ' · unchanged'}</h3>
+                              {restoreButton('beats', 'beats')}
+                          </div>
+                          {bible.beats.length
+                              ? <SideBySide rows={bible.beats} />
+                              : <p className="text-xs text-gray-600 italic">No beats in either version.</p>}
+                      </section>
+                  </div>
+              )}
+          </div>
+      </div>
+    </div>
+  );
+};
+
+export default SnapshotDiffView;
@@ -0,0 +1,269 @@
+import React, { useState, useMemo } from 'react';
+import { CalendarDays, Download, Plus, Trash, Wand2, Truck } from 'lucide-react';
+import { ProjectData, ShootingSchedule, ScoutedLocation } from '../types';
+import { getBreakdownScenes } from '../services/breakdownService';
+import {
+  Strip,
+  STRIP_STYLES,
+  DEFAULT_EIGHTHS_PER_DAY,
+  buildStrips,
+  castNumbers,
+  stripCastIds,
+  normalizeSchedule,
+  unscheduledStrips,
+  moveStrip,
+  addShootDay,
+  removeShootDay,
+  shootDayDates,
+  formatShootDate,
+  getDayStats,
+  proposeSchedule,
+  scheduleToCSV,
+  renderSchedulePDF,
+} from '../services/scheduleService';
+import { buildDayOutOfDays, getDoodCharacters, dayOutOfDaysToCSV, renderDayOutOfDaysHTML } from '../services/dayOutOfDaysService';
+import { formatEighths } from '../services/paginationService';
+import { downloadFile, toFileBaseName } from '../services/downloadService';
+import DayOutOfDaysGrid from './DayOutOfDaysGrid';
+import CallSheetEditor from './CallSheetEditor';
+
+interface StripboardViewProps {
+  data: ProjectData;
+  onUpdateSchedule: (schedule: ShootingSchedule) => void;
+  onUpdateScoutedLocations: (locations: ScoutedLocation[]) => void;
+  onClose: () => void;
+}
+
+const UNSCHEDULED = 'unscheduled';
+
+type StripboardMode = 'board' | 'dood' | 'calls';
+
+const StripboardView: React.FC<StripboardViewProps> = ({ data, onUpdateSchedule, onUpdateScoutedLocations, onClose }) => {
+  const strips = useMemo(
+    () => buildStrips(getBreakdownScenes(data), data.breakdowns),
+    [data.scriptContent, data.scriptDocument, data.breakdowns]
+  );
+  const schedule = useMemo(() => normalizeSchedule(data.schedule, strips), [data.schedule, strips]);
+  const stripsById = useMemo(() => new Map(strips.map(s => [s.id, s])), [strips]);
+  const numbers = useMemo(() => castNumbers(strips), [strips]);
+  const unscheduled = unscheduledStrips(strips, schedule);
+  const dates = shootDayDates(schedule);
+  const [pagesPerDay, setPagesPerDay] = useState(DEFAULT_EIGHTHS_PER_DAY / 8);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [mode, setMode] = useState<StripboardMode>('board');
+  const dood = useMemo(
+    () => buildDayOutOfDays(getDoodCharacters(data), strips, schedule),
+    [data.scriptContent, data.characterProfiles, strips, schedule]
+  );
+
+  const handleDragStart = (e: React.DragEvent<HTMLDivElement>, sceneId: string) => {
+    e.dataTransfer.setData("text/plain", sceneId);
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>, column: string) => {
+    e.preventDefault();
+    setDropTarget(column);
+  };
+
+  // Dropping on a strip inserts before it; dropping on the column appends
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>, dayId: string | null, index?: number) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDropTarget(null);
+    const sceneId = e.dataTransfer.getData("text/plain");
+    if (!stripsById.has(sceneId)) return;
+    onUpdateSchedule(moveStrip(schedule, sceneId, dayId, index));
+  };
+
+  const autoSchedule = () => {
+    const hasWork = schedule.days.some(day => day.sceneIds.length > 0);
+    if (hasWork && !window.confirm("Replace the current schedule with a proposed one? Take a snapshot first if you want to keep it.")) return;
+    onUpdateSchedule(proposeSchedule(strips, { eighthsPerDay: Math.max(1, Math.round(pagesPerDay * 8)), startDate: schedule.startDate }));
+  };
+
+  const baseName = toFileBaseName(data.title);
+  const exportCSV = () => downloadFile(scheduleToCSV(strips, schedule), `${baseName}_Schedule.csv`, 'text/csv');
+  const exportPDF = () => downloadFile(renderSchedulePDF(data.title, strips, schedule), `${baseName}_Stripboard.pdf`, 'application/pdf');
+  const exportDoodCSV = () => downloadFile(dayOutOfDaysToCSV(dood), `${baseName}_DOOD.csv`, 'text/csv');
+  const exportDoodHTML = () => downloadFile(renderDayOutOfDaysHTML(data.title, dood), `${baseName}_DOOD.html`, 'text/html');
+
+  const renderStrip = (strip: Strip, dayId: string | null, index: number) => (
+    <div
+        key={strip.id}
+        draggable
+        onDragStart={(e) => handleDragStart(e, strip.id)}
+        onDragOver={(e) => handleDragOver(e, dayId || UNSCHEDULED)}
+        onDrop={(e) => handleDrop(e, dayId, index)}
+        className="rounded border border-black/40 px-2 py-1 text-black font-mono text-[11px] cursor-grab active:cursor-grabbing shadow-sm"
+        style={{ backgroundColor: STRIP_STYLES[strip.kind].color }}
+        title={strip.synopsis}
+    >
+        <div className="flex justify-between gap-2 font-bold">
+            <span className="truncate">{strip.number}. {strip.intExt} {strip.location}</span>
+            <span className="flex-none">{formatEighths(strip.eighths)}</span>
+        </div>
+        <div className="flex justify-between gap-2 opacity-70">
+            <span>{strip.dayNight}</span>
+            <span className="truncate">{stripCastIds(strip, numbers)}</span>
+        </div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-40 bg-[#0a0a0a] flex flex-col animate-in slide-in-from-right duration-300">
+      {/* Toolbar */}
+      <div className="flex-none h-16 bg-cinematic-900 border-b border-cinematic-700 flex items-center justify-between px-4 shadow-lg">
+        <div className="flex items-center space-x-4">
+             <h2 className="text-white font-bold tracking-tight flex items-center gap-2"><CalendarDays size={18} className="text-cinematic-gold" /> Stripboard</h2>
+             <span className="text-cinematic-500 text-sm border-l border-cinematic-700 pl-4">{schedule.days.length} days · {unscheduled.length} unscheduled</span>
+             <div className="flex bg-cinematic-800 rounded p-0.5 text-xs">
+                 <button onClick={() => setMode('board')} className={`px-3 py-1 rounded ${mode === 'board' ? 'bg-cinematic-700 text-white' : 'text-gray-400 hover:text-white'}`}>Board</button>
+                 <button onClick={() => setMode('dood')} className={`px-3 py-1 rounded ${mode === 'dood' ? 'bg-cinematic-700 text-white' : 'text-gray-400 hover:text-white'}`}>Day Out of Days</button>
+                 <button onClick={() => setMode('calls')} className={`px-3 py-1 rounded ${mode === 'calls' ? 'bg-cinematic-700 text-white' : 'text-gray-400 hover:text-white'}`}>Call Sheets</button>
+             </div>
+        </div>
+        <div className="flex items-center space-x-2">
+            <label className="flex items-center gap-2 text-xs text-gray-400">
+                Start
+                <input
+                    type="date"
+                    value={schedule.startDate || ''}
+                    onChange={(e) => onUpdateSchedule({ ...schedule, startDate: e.target.value || undefined })}
+                    className="bg-cinematic-800 border border-cinematic-700 rounded px-2 py-1 text-white text-xs focus:outline-none"
+                />
+            </label>
+            <label className="flex items-center gap-2 text-xs text-gray-400">
+                Pages/day
+                <input
+                    type="number"
+                    min={1}
+                    step={0.125}
+                    value={pagesPerDay}
+                    onChange={(e) => setPagesPerDay(Number(e.target.value) || 1)}
+                    className="w-16 bg-cinematic-800 border border-cinematic-700 rounded px-2 py-1 text-white text-xs focus:outline-none"
+                />
+            </label>
+            <button onClick={autoSchedule} disabled={!strips.length} className="flex items-center gap-2 px-3 py-1.5 bg-cinematic-800 hover:bg-cinematic-700 disabled:opacity-40 text-white rounded text-sm font-medium transition-colors">
+                <Wand2 size={16} className="text-cinematic-gold" /> Auto-schedule
+            </button>
+            <button onClick={() => onUpdateSchedule(addShootDay(schedule))} className="flex items-center gap-2 px-3 py-1.5 bg-cinematic-800 hover:bg-cinematic-700 text-white rounded text-sm font-medium transition-colors">
+                <Plus size={16} /> Day
+            </button>
+            {mode === 'board' && (
+                <>
+                    <button onClick={exportPDF} disabled={!strips.length} className="flex items-center gap-2 px-3 py-1.5 bg-cinematic-800 hover:bg-cinematic-700 disabled:opacity-40 text-white rounded text-sm font-medium transition-colors">
+                        <Download size={16} /> .pdf
+                    </button>
+                    <button onClick={exportCSV} disabled={!strips.length} className="flex items-center gap-2 px-3 py-1.5 bg-cinematic-800 hover:bg-cinematic-700 disabled:opacity-40 text-white rounded text-sm font-medium transition-colors">
+                        <Download size={16} /> .csv
+                    </button>
+                </>
+            )}
+            {mode === 'dood' && (
+                <>
+                    <button onClick={exportDoodHTML} disabled={!dood.days.length} className="flex items-center gap-2 px-3 py-1.5 bg-cinematic-800 hover:bg-cinematic-700 disabled:opacity-40 text-white rounded text-sm font-medium transition-colors">
+                        <Download size={16} /> Printable .html
+                    </button>
+                    <button onClick={exportDoodCSV} disabled={!dood.days.length} className="flex items-center gap-2 px-3 py-1.5 bg-cinematic-800 hover:bg-cinematic-700 disabled:opacity-40 text-white rounded text-sm font-medium transition-colors">
+                        <Download size={16} /> .csv
+                    </button>
+                </>
+            )}
+            <button onClick={onClose} className="px-4 py-1.5 bg-cinematic-accent hover:bg-red-700 text-white rounded text-sm font-medium transition-colors ml-2">
+                Done
+            </button>
+        </div>
+      </div>
+
+      {mode === 'dood' && <DayOutOfDaysGrid dood={dood} />}
+      {mode === 'calls' && (
+          <CallSheetEditor
+            data={data}
+            strips={strips}
+            schedule={schedule}
+            onUpdateSchedule={onUpdateSchedule}
+            onUpdateScoutedLocations={onUpdateScoutedLocations}
+          />
+      )}
+      {mode === 'board' && (
+        <>
+          {/* Legend */}
+          <div className="flex-none flex items-center gap-4 px-4 py-2 border-b border-cinematic-800 text-[11px] text-gray-400">
+              {Object.values(STRIP_STYLES).map(style => (
+                  <span key={style.label} className="flex items-center gap-1.5">
+                      <span className="w-3 h-3 rounded-sm border border-black/40" style={{ backgroundColor: style.color }} /> {style.label}
+                  </span>
+              ))}
+              <span className="ml-auto truncate">
+                  {Array.from(numbers.entries()).map(([name, n]) => `${n}. ${name}`).join('  ·  ')}
+              </span>
+          </div>
+
+          <div className="flex-1 flex overflow-x-auto overflow-y-hidden p-4 gap-4">
+              {/* Unscheduled */}
+              <div
+                onDragOver={(e) => handleDragOver(e, UNSCHEDULED)}
+                onDragLeave={() => setDropTarget(null)}
+                onDrop={(e) => handleDrop(e, null)}
+                className={`w-64 flex-none flex flex-col bg-cinematic-900 border rounded-lg ${dropTarget === UNSCHEDULED ? 'border-cinematic-gold' : 'border-cinematic-700'}`}
+              >
+                  <div className="p-3 border-b border-cinematic-800">
+                      <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider">Unscheduled</h3>
+                      <p className="text-[10px] text-gray-600 mt-0.5">{formatEighths(unscheduled.reduce((sum, s) => sum + s.eighths, 0))} pgs</p>
+                  </div>
+                  <div className="flex-1 overflow-y-auto p-2 space-y-1">
+                      {unscheduled.map(strip => renderStrip(strip, null, 0))}
+                      {strips.length === 0 && <p className="text-xs text-gray-600 p-2 italic">Write or import a script to build a stripboard.</p>}
+                  </div>
+              </div>
+
+              {/* Shoot days */}
+              {schedule.days.map((day, i) => {
+                  const stats = getDayStats(day, stripsById);
+                  return (
+                      <div
+                        key={day.id}
+                        onDragOver={(e) => handleDragOver(e, day.id)}
+                        onDragLeave={() => setDropTarget(null)}
+                        onDrop={(e) => handleDrop(e, day.id)}
+                        className={`w-64 flex-none flex flex-col bg-cinematic-900 border rounded-lg ${dropTarget === day.id ? 'border-cinematic-gold' : 'border-cinematic-700'}`}
+                      >
+                          <div className="p-3 border-b border-cinematic-800 group">
+                              <div className="flex items-center justify-between">
+                                  <h3 className="text-xs font-bold text-white uppercase tracking-wider">Day {i + 1}</h3>
+                                  <button
+                                    onClick={() => onUpdateSchedule(removeShootDay(schedule, day.id))}
+                                    className="opacity-0 group-hover:opacity-100 text-gray-500 hover:text-red-400 transition-opacity"
+                                    title="Remove day (strips go back to unscheduled)"
+                                  >
+                                      <Trash size={12} />
+                                  </button>
+                              </div>
+                              <div className="text-[10px] text-gray-500 mt-0.5 flex justify-between">
+                                  <span>{dates[i] ? formatShootDate(dates[i]!) : 'No date'}</span>
+                                  <span className={stats.eighths > pagesPerDay * 8 ? 'text-red-400' : ''}>{formatEighths(stats.eighths)} pgs</span>
+                              </div>
+                              {stats.companyMoves > 0 && (
+                                  <div className="text-[10px] text-amber-400 mt-1 flex items-center gap-1">
+                                      <Truck size={10} /> {stats.companyMoves} company move{stats.companyMoves === 1 ? '' : 's'}
+                                  </div>
+                              )}
+                          </div>
+                          <div className="flex-1 overflow-y-auto p-2 space-y-1">
+                              {day.sceneIds.map(id => stripsById.get(id)).filter((s): s is Strip => !!s).map((strip, index) => renderStrip(strip, day.id, index))}
+                              {day.sceneIds.length === 0 && <p className="text-[11px] text-gray-600 p-2 italic text-center">Drag strips here</p>}
+                          </div>
+                          <div className="p-2 border-t border-cinematic-800 bg-black text-white text-[10px] font-mono font-bold text-center rounded-b-lg">
+                              END OF DAY {i + 1}
+                          </div>
+                      </div>
+                  );
+              })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default StripboardView;
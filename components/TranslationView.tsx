@@ -0,0 +1,320 @@
+import React, { useState } from 'react';
+import { Download, Languages, RefreshCw, Trash2, AlertTriangle, Loader2, Wand2, Undo2 } from 'lucide-react';
+import { ProjectData, ScriptTranslation, TranslationScope } from '../types';
+import {
+  TRANSLATION_LANGUAGES, translateScript, translatedScript, isTranslationStale, untranslatedCount, setUnitTarget, asTranslatedProject, renderBilingualDocx,
+} from '../services/translationService';
+import { DUB_TOLERANCE, dubLines, setUnitDub, setSourceLanguage, sourceLanguageOf, dubbedScript, adaptForDubbing, buildDubSheet } from '../services/dubbingService';
+import { getScriptFormat } from '../services/scriptFormatService';
+import { renderScriptPDF } from '../services/paginationService';
+import { renderAVPDF } from '../services/avScriptService';
+import { renderStagePDF } from '../services/stagePlayService';
+import { renderAudioPDF } from '../services/audioDramaService';
+import { downloadFile, toFileBaseName } from '../services/downloadService';
+import { canEncodePdfText } from '../services/pdfWriter';
+
+interface TranslationViewProps {
+  data: ProjectData;
+  onSaveTranslation: (translation: ScriptTranslation) => void; // Adds or replaces by id
+  onRemoveTranslation: (id: string) => void;
+  onClose: () => void;
+}
+
+const SCOPE_LABELS: Record<TranslationScope, string> = {
+  dialogue: 'Dialogue only',
+  all: 'Dialogue and action',
+};
+
+const TranslationView: React.FC<TranslationViewProps> = ({ data, onSaveTranslation, onRemoveTranslation, onClose }) => {
+  const translations = data.translations || [];
+  const [selectedId, setSelectedId] = useState<string | null>(translations[0]?.id || null);
+  const [language, setLanguage] = useState('');
+  const [scope, setScope] = useState<TranslationScope>('dialogue');
+  const [mode, setMode] = useState<'translation' | 'dubbing'>('translation');
+  const [progress, setProgress] = useState<{ label: string; done: number; total: number } | null>(null);
+
+  const selected = translations.find(t => t.id === selectedId) || translations[0];
+  const stale = selected ? isTranslationStale(selected, data.scriptContent || '') : false;
+  const untranslated = selected ? untranslatedCount(selected) : 0;
+  const format = getScriptFormat(data);
+  const lines = selected && mode === 'dubbing' ? dubLines(selected) : [];
+  const misses = lines.filter(line => !line.fits).length;
+
+  const save = (translation: ScriptTranslation) => {
+    onSaveTranslation(translation);
+    setSelectedId(translation.id);
+  };
+
+  const run = async (lang: string, runScope: TranslationScope, previous?: ScriptTranslation) => {
+    setProgress({ label: 'Translating', done: 0, total: 0 });
+    try {
+      save(await translateScript(data, lang, runScope, previous, (done, total) => setProgress({ label: 'Translating', done, total })));
+    } catch (e) {
+      console.error(e);
+      alert('Translation failed. Lines already translated are kept; try updating again.');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const startTranslation = () => {
+    const lang = language.trim();
+    if (!lang || !(data.scriptContent || '').trim()) return;
+    const existing = translations.find(t => t.language.toLowerCase() === lang.toLowerCase());
+    if (existing && !confirm(`There is already a ${existing.language} translation. Update it (${SCOPE_LABELS[scope].toLowerCase()})? Lines already translated are kept.`)) return;
+    setLanguage('');
+    run(existing?.language || lang, scope, existing);
+  };
+
+  const adapt = async (translation: ScriptTranslation) => {
+    setProgress({ label: 'Adapting', done: 0, total: 0 });
+    try {
+      save(await adaptForDubbing(data, translation, false, (done, total) => setProgress({ label: 'Adapting', done, total })));
+    } catch (e) {
+      console.error(e);
+      alert('Adaptation failed. Lines already adapted are kept.');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const removeTranslation = (translation: ScriptTranslation) => {
+    if (!confirm(`Delete the ${translation.language} translation?`)) return;
+    onRemoveTranslation(translation.id);
+    setSelectedId(null);
+  };
+
+  // In dubbing mode the exports are the dub script
+  const exportedScript = (translation: ScriptTranslation) => (mode === 'dubbing' ? dubbedScript(translation) : translatedScript(translation));
+  const exportName = (translation: ScriptTranslation) => `${baseName}_${toFileBaseName(translation.language)}_${mode === 'dubbing' ? 'Dub' : 'Script'}`;
+
+  const exportPDF = (translation: ScriptTranslation) => {
+    const project = {
+      ...asTranslatedProject(data, translation),
+      title: `${data.title} (${translation.language}${mode === 'dubbing' ? ' dub' : ''})`,
+      scriptContent: exportedScript(translation),
+    };
+    const pdf = format === 'av' ? renderAVPDF(project)
+      : format === 'stage' ? renderStagePDF(project)
+      : format === 'audio' ? renderAudioPDF(project)
+      : renderScriptPDF(project.scriptContent, { title: project.title, numberScenes: true });
+    downloadFile(pdf, `${exportName(translation)}.pdf`, 'application/pdf');
+  };
+
+  const baseName = toFileBaseName(data.title);
+  // The PDF fonts stop at Western European text; other scripts would print as "?"
+  const pdfSupported = selected ? canEncodePdfText(exportedScript(selected)) : true;
+  const inputClass = 'bg-cinematic-800 border border-cinematic-700 rounded px-2 py-1 text-xs text-white focus:outline-none focus:border-cinematic-accent';
+
+  return (
+    <div className="fixed inset-0 z-40 bg-[#0a0a0a] flex flex-col animate-in slide-in-from-right duration-300">
+      <div className="flex-none h-16 bg-cinematic-900 border-b border-cinematic-700 flex items-center justify-between px-4 shadow-lg">
+        <div className="flex items-center space-x-4">
+             <h2 className="text-white font-bold tracking-tight">Translations</h2>
+             <span className="text-cinematic-500 text-sm border-l border-cinematic-700 pl-4">{data.title}</span>
+             {translations.length > 0 && (
+                 <select value={selected?.id} onChange={(e) => setSelectedId(e.target.value)} className={inputClass}>
+                     {translations.map(t => <option key={t.id} value={t.id}>{t.language} · {SCOPE_LABELS[t.scope]}</option>)}
+                 </select>
+             )}
+             {selected && (
+                 <div className="flex bg-cinematic-800 rounded p-0.5 text-xs font-medium">
+                     <button onClick={() => setMode('translation')} className={`px-2.5 py-1 rounded transition-colors ${mode === 'translation' ? 'bg-cinematic-700 text-white' : 'text-cinematic-400 hover:text-white'}`}>
+                         Translation
+                     </button>
+                     <button onClick={() => setMode('dubbing')} className={`px-2.5 py-1 rounded transition-colors ${mode === 'dubbing' ? 'bg-cinematic-700 text-white' : 'text-cinematic-400 hover:text-white'}`}>
+                         Dubbing
+                     </button>
+                 </div>
+             )}
+        </div>
+
+        <div className="flex items-center space-x-2">
+            <input
+              list="translation-languages"
+              value={language}
+              onChange={(e) => setLanguage(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && startTranslation()}
+              placeholder="Language"
+              className={`w-36 ${inputClass}`}
+            />
+            <datalist id="translation-languages">
+                {TRANSLATION_LANGUAGES.map(name => <option key={name} value={name} />)}
+            </datalist>
+            <select value={scope} onChange={(e) => setScope(e.target.value as TranslationScope)} className={inputClass}>
+                {(Object.keys(SCOPE_LABELS) as TranslationScope[]).map(key => <option key={key} value={key}>{SCOPE_LABELS[key]}</option>)}
+            </select>
+            <button onClick={startTranslation} disabled={!language.trim() || !!progress} className="flex items-center gap-2 px-3 py-1.5 bg-cinematic-800 hover:bg-cinematic-700 disabled:opacity-50 text-white rounded text-sm font-medium transition-colors">
+                <Languages size={16} /> Translate
+            </button>
+            {selected && (
+                <>
+                    <div className="h-6 w-[1px] bg-cinematic-700 mx-2"></div>
+                    <button onClick={() => exportPDF(selected)} disabled={!pdfSupported} className="flex items-center gap-2 px-3 py-1.5 bg-cinematic-800 hover:bg-cinematic-700 disabled:opacity-50 text-white rounded text-sm font-medium transition-colors" title={pdfSupported ? undefined : `PDF export can't show ${selected.language} characters; use the ${mode === 'dubbing' ? `.${format === 'screenplay' ? 'fountain' : 'txt'}` : 'Bilingual .docx'} export instead`}>
+                        <Download size={16} /> .pdf
+                    </button>
+                    <button onClick={() => downloadFile(exportedScript(selected), `${exportName(selected)}.${format === 'screenplay' ? 'fountain' : 'txt'}`, 'text/plain')} className="flex items-center gap-2 px-3 py-1.5 bg-cinematic-800 hover:bg-cinematic-700 text-white rounded text-sm font-medium transition-colors">
+                        <Download size={16} /> .{format === 'screenplay' ? 'fountain' : 'txt'}
+                    </button>
+                    {mode === 'dubbing' ? (
+                        <button onClick={() => downloadFile(buildDubSheet(selected), `${exportName(selected)}_Sheet.csv`, 'text/csv')} className="flex items-center gap-2 px-3 py-1.5 bg-cinematic-800 hover:bg-cinematic-700 text-white rounded text-sm font-medium transition-colors" title="Every spoken line with its length against the original">
+                            <Download size={16} /> Dub sheet .csv
+                        </button>
+                    ) : (
+                        <button onClick={() => downloadFile(renderBilingualDocx(data, selected), `${baseName}_${toFileBaseName(selected.language)}_Bilingual.docx`, 'application/vnd.openxmlformats-officedocument.wordprocessingml.document')} className="flex items-center gap-2 px-3 py-1.5 bg-cinematic-800 hover:bg-cinematic-700 text-white rounded text-sm font-medium transition-colors" title="Original and translation side by side">
+                            <Download size={16} /> Bilingual .docx
+                        </button>
+                    )}
+                    <button onClick={() => removeTranslation(selected)} className="p-2 rounded hover:bg-cinematic-700 text-cinematic-400 hover:text-red-400" title="Delete translation">
+                        <Trash2 size={16} />
+                    </button>
+                </>
+            )}
+            <button onClick={onClose} className="px-4 py-1.5 bg-cinematic-accent hover:bg-red-700 text-white rounded text-sm font-medium transition-colors ml-2">
+                Done
+            </button>
+        </div>
+      </div>
+
+      {progress && (
+          <div className="flex-none flex items-center gap-2 px-4 py-2 bg-cinematic-800 border-b border-cinematic-700 text-sm text-white">
+              <Loader2 size={14} className="animate-spin text-cinematic-gold" />
+              {progress.label}{progress.total ? ` (part ${Math.min(progress.done + 1, progress.total)} of ${progress.total})` : ''}...
+          </div>
+      )}
+
+      {selected && !progress && (stale || untranslated > 0) && (
+          <div className="flex-none flex items-center gap-3 px-4 py-2 bg-amber-900/30 border-b border-amber-800 text-sm text-amber-200">
+              <AlertTriangle size={14} />
+              <span>
+                  {stale ? 'The script has changed since this translation.' : `${untranslated} line${untranslated === 1 ? ' reads' : 's read'} the same as the original.`}
+                  {' '}Updating translates new and changed lines only; lines already translated (and your edits) are kept.
+              </span>
+              <button onClick={() => run(selected.language, selected.scope, selected)} className="flex items-center gap-1.5 px-3 py-1 bg-cinematic-800 hover:bg-cinematic-700 text-white rounded text-xs font-medium transition-colors">
+                  <RefreshCw size={12} /> Update
+              </button>
+          </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto">
+          {!selected ? (
+              <div className="max-w-md mx-auto mt-24 text-center text-sm text-gray-500">
+                  <Languages size={28} className="mx-auto mb-3 text-cinematic-600" />
+                  <p>Pick a language and translate the script. Scene headings, character cues and other structure stay as they are, so the translation is still a working script.</p>
+              </div>
+          ) : mode === 'dubbing' ? (
+              <>
+                  <div className="sticky top-0 z-10 flex items-center gap-3 px-4 py-2 bg-cinematic-900 border-b border-cinematic-700 text-xs">
+                      <label className="flex items-center gap-1.5 text-gray-400" title="Syllables of the original are counted in this language">
+                          Original in
+                          <input
+                            list="translation-languages"
+                            value={selected.sourceLanguage ?? ''}
+                            onChange={(e) => save(setSourceLanguage(selected, e.target.value))}
+                            placeholder="English"
+                            className="w-28 bg-cinematic-800 border border-cinematic-700 rounded px-2 py-0.5 text-xs text-white focus:outline-none focus:border-cinematic-accent"
+                          />
+                      </label>
+                      <span className={misses ? 'text-red-300' : 'text-green-300'}>
+                          {lines.length - misses} of {lines.length} lines fit
+                      </span>
+                      <span className="text-gray-500">
+                          Within {DUB_TOLERANCE.syllables} syllables of the original, or {Math.round(DUB_TOLERANCE.ratio * 100)}% on long lines
+                      </span>
+                      <button onClick={() => adapt(selected)} disabled={!misses || !!progress} className="ml-auto flex items-center gap-1.5 px-3 py-1 bg-cinematic-800 hover:bg-cinematic-700 disabled:opacity-50 text-white rounded text-xs font-medium transition-colors" title="Rewrite the lines that miss to the original's length">
+                          <Wand2 size={12} /> Adapt {misses} line{misses === 1 ? '' : 's'}
+                      </button>
+                  </div>
+                  {lines.length === 0 ? (
+                      <div className="text-center text-gray-500 py-12 text-sm space-y-3">
+                          <p>No spoken lines found. Translations made before dubbing need one update to pick up their speakers from the script.</p>
+                          <button onClick={() => run(selected.language, selected.scope, selected)} disabled={!!progress} className="inline-flex items-center gap-1.5 px-3 py-1 bg-cinematic-800 hover:bg-cinematic-700 disabled:opacity-50 text-white rounded text-xs font-medium transition-colors">
+                              <RefreshCw size={12} /> Update
+                          </button>
+                      </div>
+                  ) : (
+                      <table className="w-full table-fixed text-sm">
+                          <thead className="bg-cinematic-900 text-xs uppercase tracking-wider text-gray-500">
+                              <tr>
+                                  <th className="w-32 text-left font-bold px-4 py-2 border-b border-cinematic-700">Character</th>
+                                  <th className="text-left font-bold px-4 py-2 border-b border-cinematic-700">{sourceLanguageOf(selected)} original</th>
+                                  <th className="w-12 text-right font-bold px-2 py-2 border-b border-cinematic-700">Syl</th>
+                                  <th className="text-left font-bold px-4 py-2 border-b border-cinematic-700">{selected.language} dub</th>
+                                  <th className="w-12 text-right font-bold px-2 py-2 border-b border-cinematic-700">Syl</th>
+                                  <th className="w-20 text-right font-bold px-4 py-2 border-b border-cinematic-700">Delta</th>
+                              </tr>
+                          </thead>
+                          <tbody>
+                              {lines.map(line => (
+                                  <tr key={line.index} className={`align-top border-b border-cinematic-800 ${line.fits ? '' : 'bg-red-900/10'}`}>
+                                      <td className="px-4 py-1.5 font-mono text-xs font-bold text-gray-400">{line.speaker}</td>
+                                      <td className="px-4 py-1.5 font-mono text-xs text-gray-300">{line.original}</td>
+                                      <td className="px-2 py-1.5 font-mono text-xs text-right text-gray-500">{line.originalSyllables}</td>
+                                      <td className="px-4 py-1">
+                                          <div className="flex items-start gap-1">
+                                              <textarea
+                                                value={line.words}
+                                                onChange={(e) => save(setUnitDub(selected, line.index, e.target.value))}
+                                                rows={Math.max(1, Math.ceil(line.words.length / 50))}
+                                                className="flex-1 resize-none bg-transparent border border-transparent hover:border-cinematic-700 rounded px-2 py-0.5 font-mono text-xs text-white focus:outline-none focus:border-cinematic-accent"
+                                              />
+                                              {line.adapted && (
+                                                  <button onClick={() => save(setUnitDub(selected, line.index, null))} className="p-1 rounded text-gray-500 hover:text-white hover:bg-cinematic-700" title="Back to the translation">
+                                                      <Undo2 size={12} />
+                                                  </button>
+                                              )}
+                                          </div>
+                                      </td>
+                                      <td className="px-2 py-1.5 font-mono text-xs text-right text-gray-500">{line.syllables}</td>
+                                      <td className={`px-4 py-1.5 font-mono text-xs text-right ${line.fits ? 'text-green-400' : 'text-red-400 font-bold'}`}>
+                                          {!line.fits && <AlertTriangle size={11} className="inline mr-1 -mt-0.5" />}
+                                          {line.delta > 0 ? `+${line.delta}` : line.delta}
+                                      </td>
+                                  </tr>
+                              ))}
+                          </tbody>
+                      </table>
+                  )}
+              </>
+          ) : (
+              <table className="w-full table-fixed text-sm">
+                  <thead className="sticky top-0 bg-cinematic-900 text-xs uppercase tracking-wider text-gray-500">
+                      <tr>
+                          <th className="text-left font-bold px-4 py-2 border-b border-cinematic-700">Original</th>
+                          <th className="text-left font-bold px-4 py-2 border-b border-cinematic-700">{selected.language}</th>
+                      </tr>
+                  </thead>
+                  <tbody>
+                      {selected.units.map((unit, index) => {
+                          if (!unit.source.trim()) return null;
+                          if (!unit.kind) {
+                              return (
+                                  <tr key={index}>
+                                      <td colSpan={2} className="px-4 pt-3 pb-1 font-mono text-xs font-bold text-gray-400 whitespace-pre-wrap">{unit.source.trim()}</td>
+                                  </tr>
+                              );
+                          }
+                          const same = unit.target === unit.source;
+                          return (
+                              <tr key={index} className="align-top">
+                                  <td className={`px-4 py-1 font-mono text-xs whitespace-pre-wrap ${unit.kind === 'action' ? 'text-gray-500 italic' : 'text-gray-300'}`}>{unit.source.trim()}</td>
+                                  <td className="px-4 py-1">
+                                      <textarea
+                                        value={unit.target}
+                                        onChange={(e) => save(setUnitTarget(selected, index, e.target.value))}
+                                        rows={Math.max(unit.target.split('\n').length, Math.ceil(unit.target.length / 60))}
+                                        className={`w-full resize-none bg-transparent border rounded px-2 py-0.5 font-mono text-xs focus:outline-none focus:border-cinematic-accent ${same ? 'border-amber-800' : 'border-transparent hover:border-cinematic-700'} ${unit.kind === 'action' ? 'italic' : ''} ${same ? 'text-amber-200' : unit.kind === 'action' ? 'text-gray-400' : 'text-white'}`}
+                                      />
+                                  </td>
+                              </tr>
+                          );
+                      })}
+                  </tbody>
+              </table>
+          )}
+      </div>
+    </div>
+  );
+};
+
+export default TranslationView;
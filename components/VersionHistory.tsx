@@ -1,15 +1,43 @@
-import React from 'react';
-import { Clock, RotateCcw, Trash2, X } from 'lucide-react';
-import { Snapshot } from '../types';
+import React, { useState, useMemo } from 'react';
+import { Clock, RotateCcw, Trash2, X, Lock, Download, FileDiff, GitCompare } from 'lucide-react';
+import { ProjectData, Snapshot } from '../types';
+import { getRevisionState, revisionColor, renderRevisionPDF } from '../services/revisionService';
+import { downloadFile, toFileBaseName } from '../services/downloadService';
+import SnapshotDiffView from './SnapshotDiffView';
 
 interface VersionHistoryProps {
+  data: ProjectData;
   snapshots: Snapshot[];
   onRestore: (snapshot: Snapshot) => void;
+  onRestorePart: (data: ProjectData) => void; // Selective restore: current data with part of a snapshot
   onDelete: (id: string) => void;
+  onIssueRevision: () => void;
   onClose: () => void;
 }
 
-const VersionHistory: React.FC<VersionHistoryProps> = ({ snapshots, onRestore, onDelete, onClose }) => {
+const VersionHistory: React.FC<VersionHistoryProps> = ({ data, snapshots, onRestore, onRestorePart, onDelete, onIssueRevision, onClose }) => {
+  const [comparing, setComparing] = useState<Snapshot | null>(null);
+  const revisions = useMemo(() => getRevisionState(data), [data.scriptContent, data.snapshots]);
+  const next = revisionColor(revisions ? revisions.sets.length : 0);
+  const latest = revisions ? revisionColor(revisions.sets.length - 1) : null;
+
+  const exportRevision = (changedOnly: boolean) => {
+    const name = `${toFileBaseName(data.title)}_${changedOnly ? `${revisionColor(revisions!.current).name}_Pages` : 'Revised_Script'}`;
+    downloadFile(renderRevisionPDF(data, { changedOnly }), `${name.replace(/\s+/g, '_')}.pdf`, 'application/pdf');
+  };
+
+  if (comparing) {
+    return (
+      <SnapshotDiffView
+        snapshots={snapshots}
+        current={data}
+        base={comparing}
+        onApply={(next) => { onRestorePart(next); setComparing(null); }}
+        onClose={() => setComparing(null)}
+      />
+    );
+  }
+
   return (
     <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-4">
       <div className="bg-cinematic-900 border border-cinematic-700 w-full max-w-lg rounded-xl shadow-2xl overflow-hidden flex flex-col max-h-[80vh]">
@@ -20,6 +48,43 @@ const VersionHistory: React.FC<VersionHistoryProps> = ({ snapshots, onRestore, o
             <button onClick={onClose} className="text-gray-400 hover:text-white"><X size={20} /></button>
         </div>
         
+        {/* Production revisions */}
+        <div className="p-4 border-b border-cinematic-800 space-y-3">
+            {!revisions ? (
+                <div className="flex items-center justify-between gap-3">
+                    <p className="text-xs text-gray-500">Lock the script to fix its page and scene breaks and start tracking revisions.</p>
+                    <button onClick={onIssueRevision} disabled={!data.scriptContent?.trim()} className="flex-none flex items-center gap-2 px-3 py-1.5 bg-cinematic-800 hover:bg-cinematic-700 disabled:opacity-40 text-white rounded text-sm font-medium transition-colors">
+                        <Lock size={14} /> Lock Script
+                    </button>
+                </div>
+            ) : (
+                <>
+                    <div className="flex items-center justify-between gap-3">
+                        <div className="text-xs">
+                            <div className="flex items-center gap-2 text-white font-medium">
+                                <span className="w-3 h-3 rounded-sm border border-cinematic-600" style={{ backgroundColor: latest!.hex }} />
+                                Locked · {latest!.name} pages issued
+                            </div>
+                            <div className="text-gray-500 mt-1">
+                                {revisions.pending ? `Unissued changes will go out as ${next.name}` : 'No changes since the last set'}
+                            </div>
+                        </div>
+                        <button onClick={onIssueRevision} disabled={!revisions.pending} className="flex-none flex items-center gap-2 px-3 py-1.5 bg-cinematic-800 hover:bg-cinematic-700 disabled:opacity-40 text-white rounded text-sm font-medium transition-colors">
+                            <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: next.hex }} /> Issue {next.name}
+                        </button>
+                    </div>
+                    <div className="flex gap-2">
+                        <button onClick={() => exportRevision(false)} className="flex items-center gap-1.5 px-3 py-1 bg-cinematic-800 hover:bg-cinematic-700 text-white rounded text-xs transition-colors">
+                            <Download size={14} /> Revised script .pdf
+                        </button>
+                        <button onClick={() => exportRevision(true)} disabled={revisions.current === 0} className="flex items-center gap-1.5 px-3 py-1 bg-cinematic-800 hover:bg-cinematic-700 disabled:opacity-40 text-white rounded text-xs transition-colors">
+                            <FileDiff size={14} /> {revisionColor(revisions.current).name} pages only .pdf
+                        </button>
+                    </div>
+                </>
+            )}
+        </div>
+
         <div className="flex-1 overflow-y-auto p-4 space-y-3">
             {snapshots.length === 0 ? (
                 <div className="text-center text-gray-500 py-8">
@@ -29,12 +94,24 @@ const VersionHistory: React.FC<VersionHistoryProps> = ({ snapshots, onRestore, o
                 snapshots.slice().reverse().map((snap) => (
                     <div key={snap.id} className="bg-cinematic-800 p-3 rounded-lg border border-cinematic-700 flex justify-between items-center group">
                         <div>
-                            <div className="text-white font-medium text-sm">{snap.label}</div>
+                            <div className="text-white font-medium text-sm flex items-center gap-2">
+                                {snap.revision && (
+                                    <span className="w-3 h-3 rounded-sm border border-cinematic-600" style={{ backgroundColor: revisionColor(snap.revision.index).hex }} title="Revision set" />
+                                )}
+                                {snap.label}
+                            </div>
                             <div className="text-xs text-gray-500 font-mono">
                                 {new Date(snap.timestamp).toLocaleString()} • {snap.data.scenesWritten} scenes
                             </div>
                         </div>
                         <div className="flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                            <button
+                                onClick={() => setComparing(snap)}
+                                className="p-2 bg-cinematic-700 hover:bg-cinematic-600 rounded text-blue-300"
+                                title="Compare and restore parts"
+                            >
+                                <GitCompare size={16} />
+                            </button>
                             <button 
                                 onClick={() => onRestore(snap)}
                                 className="p-2 bg-cinematic-700 hover:bg-cinematic-600 rounded text-green-400"
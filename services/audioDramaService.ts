@@ -0,0 +1,310 @@
+/**
+ * SCRIPT ENGINE - Audio Drama Service
+ *
+ * Audio dramas and fiction podcasts, kept as plain text in `scriptContent`:
+ *
+ *   SCENE 1. A LIGHTHOUSE. NIGHT.
+ *
+ *   AMBIENCE: Wind and heavy surf.
+ *   MUSIC: Theme, then under.
+ *   NARRATOR: The keeper had not slept in three days.
+ *   SFX: Iron door scrapes open.
+ *   KEEPER: (breathless) Who's there?
+ *
+ * A "SCENE ..." line (or a screenplay-style INT./EXT. heading, or `#`)
+ * starts a scene. SFX:/FX:, MUSIC:/GRAMS: and AMBIENCE:/ATMOS: lines are
+ * sound cues; NARRATOR:/NARR: lines narration; any other "NAME: line" is
+ * a speech, as is a name in capitals on its own line with the speech
+ * below it. Lines in parentheses are production notes. Following radio
+ * practice, every speech and sound cue is numbered, restarting each scene.
+ */
+
+import { createPdfDocument, POINTS_PER_INCH, textWidth, PdfPageBuilder } from './pdfWriter';
+import { wrapText } from './paginationService';
+import { createDocx, DocxBlock, DocxCell, DocxRun } from './docxWriter';
+import { formatDuration } from './avScriptService';
+import { countWords, isParenthesized } from './textUtils';
+import type { ProjectData } from '../types';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type SoundCueType = 'sfx' | 'music' | 'ambience';
+
+export type AudioElementType = 'scene' | SoundCueType | 'narration' | 'speech' | 'note';
+
+export interface AudioElement {
+  type: AudioElementType;
+  text: string;
+  line: number;     // 0-based, first line of the element
+  cue?: number;     // Numbered within the scene
+  speaker?: string; // Speech and narration
+  scene: number;    // 0 before the first scene heading
+}
+
+export interface AudioScene {
+  number: number;
+  title: string;
+  line: number;
+  cues: number;
+  speakers: string[];
+  seconds: number; // Estimated from spoken words
+}
+
+export interface AudioDrama {
+  elements: AudioElement[];
+  scenes: AudioScene[];
+  speakers: Record<string, number>; // Lines per speaker, narrator included
+  soundCues: AudioElement[];
+  seconds: number;
+}
+
+const SOUND_LABELS: Record<string, SoundCueType> = {
+  SFX: 'sfx', FX: 'sfx', SOUND: 'sfx',
+  MUSIC: 'music', GRAMS: 'music',
+  AMBIENCE: 'ambience', AMBIENT: 'ambience', ATMOS: 'ambience', BACKGROUND: 'ambience', BG: 'ambience',
+};
+const NARRATOR_LABELS = ['NARRATOR', 'NARR', 'ANNOUNCER'];
+
+export const SOUND_CUE_LABELS: Record<SoundCueType, string> = { sfx: 'SFX', music: 'MUSIC', ambience: 'AMBIENCE' };
+
+// Uppercase only: dialogue may well start "Scene 2 was..." or "Int."
+const SCENE_HEADING = /^(#+\s*|SCENE\s+[A-Z0-9]+\b|INT\.|EXT\.|INT\/EXT\.)/;
+const LABELLED = /^([A-Z][A-Z0-9 .'&-]{0,30}?)\s*(\([^)]*\))?\s*:\s*(.*)$/;
+const CUE_LINE = /^[A-Z][A-Z0-9 .'&-]*(\s*\([^)]*\))?$/;
+
+// Audio drama plays a little slower than a straight read
+export const AUDIO_WORDS_PER_MINUTE = 140;
+
+// ============================================
+// PARSE
+// ============================================
+
+export const isSound = (el: Pick<AudioElement, 'type'>) => el.type === 'sfx' || el.type === 'music' || el.type === 'ambience';
+
+export const parseAudioDrama = (text: string): AudioDrama => {
+  const lines = text.split('\n').map(line => line.trim());
+  const elements: AudioElement[] = [];
+  const scenes: AudioScene[] = [];
+  const speakers: Record<string, number> = {};
+  let cue = 0;
+  let words = 0;
+  let speech: AudioElement | null = null; // Open speech that following lines continue
+
+  const scene = () => scenes[scenes.length - 1];
+  const push = (el: Omit<AudioElement, 'scene'>) => {
+    const element = { ...el, scene: scene()?.number || 0 };
+    elements.push(element);
+    return element;
+  };
+  const speak = (type: 'speech' | 'narration', speaker: string, textOf: string, line: number) => {
+    cue++;
+    speakers[speaker] = (speakers[speaker] || 0) + 1;
+    const current = scene();
+    if (current) {
+      current.cues = cue;
+      if (!current.speakers.includes(speaker)) current.speakers.push(speaker);
+    }
+    return push({ type, text: textOf, line, cue, speaker });
+  };
+  const spoken = (textOf: string) => {
+    const count = countWords(textOf.replace(/\([^)]*\)/g, ''));
+    words += count;
+    const current = scene();
+    if (current) current.seconds += (count / AUDIO_WORDS_PER_MINUTE) * 60;
+  };
+
+  lines.forEach((line, index) => {
+    if (!line) {
+      speech = null;
+      return;
+    }
+
+    if (!speech && SCENE_HEADING.test(line)) {
+      const title = line.replace(/^#+\s*/, '');
+      scenes.push({ number: scenes.length + 1, title, line: index, cues: 0, speakers: [], seconds: 0 });
+      cue = 0;
+      speech = null;
+      push({ type: 'scene', text: title, line: index });
+      return;
+    }
+
+    const labelled = line.match(LABELLED);
+    if (labelled) {
+      const label = labelled[1].trim();
+      const body = [labelled[2], labelled[3]].filter(Boolean).join(' ');
+      const sound = SOUND_LABELS[label];
+      if (sound) {
+        cue++;
+        if (scene()) scene().cues = cue;
+        push({ type: sound, text: body, line: index, cue });
+        speech = null;
+        return;
+      }
+      speech = speak(NARRATOR_LABELS.includes(label) ? 'narration' : 'speech', label, body, index);
+      spoken(body);
+      return;
+    }
+
+    if (speech) {
+      speech.text = speech.text ? `${speech.text}\n${line}` : line;
+      spoken(line);
+      return;
+    }
+
+    if (CUE_LINE.test(line) && lines[index + 1]?.trim()) {
+      const speaker = line.replace(/\s*\([^)]*\)\s*$/, '').trim();
+      const note = line.match(/\(([^)]*)\)\s*$/)?.[0] || '';
+      speech = speak(NARRATOR_LABELS.includes(speaker) ? 'narration' : 'speech', speaker, note, index);
+      return;
+    }
+
+    push({ type: 'note', text: isParenthesized(line) ? line : `(${line})`, line: index });
+  });
+
+  return {
+    elements,
+    scenes,
+    speakers,
+    soundCues: elements.filter(isSound),
+    seconds: Math.round((words / AUDIO_WORDS_PER_MINUTE) * 60),
+  };
+};
+
+// ============================================
+// EDITING
+// ============================================
+
+const CYCLE = ['SFX', 'MUSIC', 'AMBIENCE', 'NARRATOR'];
+
+/**
+ * Tab in the editor steps a line through SFX:, MUSIC:, AMBIENCE: and
+ * NARRATOR:, then back to unlabelled
+ */
+export const cycleAudioLine = (line: string): string => {
+  const text = line.trim();
+  const labelled = text.match(/^([A-Z]+)\s*:\s*(.*)$/);
+  const at = labelled ? CYCLE.indexOf(labelled[1]) : -1;
+  if (labelled && at < 0) return text;
+  const body = labelled ? labelled[2] : text;
+  const next = CYCLE[at + 1];
+  return next ? `${next}: ${body}` : body;
+};
+
+// ============================================
+// PDF
+// ============================================
+
+// Radio drama layout: cue numbers in the margin, names in capitals, the
+// words in a column of their own; sound cues in capitals and underlined
+const PDF = {
+  fontSize: 12,
+  lineHeight: 14,
+  top: 1,
+  bottom: 10,
+  cue: 1,
+  name: 1.5,
+  text: 3,
+  right: 7.5,
+};
+
+const textChars = Math.floor(((PDF.right - PDF.text) * POINTS_PER_INCH) / (PDF.fontSize * 0.6));
+
+const labelFor = (el: AudioElement) =>
+  el.type === 'speech' || el.type === 'narration' ? `${el.speaker}:` : el.type === 'note' || el.type === 'scene' ? '' : `${SOUND_CUE_LABELS[el.type]}:`;
+
+const metaLine = (data: ProjectData, drama: AudioDrama) =>
+  [data.format && data.format !== 'Pending...' ? data.format : '', `Running time about ${formatDuration(Math.ceil(drama.seconds / 60) * 60)}`]
+    .filter(Boolean)
+    .join('  ·  ');
+
+export const renderAudioPDF = (data: ProjectData): Blob => {
+  const drama = parseAudioDrama(data.scriptContent || '');
+  const pdf = createPdfDocument();
+  const bottom = PDF.bottom * POINTS_PER_INCH;
+  const at = (inches: number) => inches * POINTS_PER_INCH;
+  let page: PdfPageBuilder;
+  let y = 0;
+  let pageNumber = 0;
+
+  const newPage = () => {
+    page = pdf.addPage();
+    pageNumber++;
+    y = at(PDF.top);
+    if (pageNumber === 1) {
+      page.text(at(PDF.cue), y, (data.title || 'Untitled').toUpperCase(), { font: 'bold', size: 14 });
+      y += 18;
+      page.text(at(PDF.cue), y, metaLine(data, drama), { size: PDF.fontSize - 2 });
+      y += PDF.lineHeight * 2;
+    } else {
+      const label = `${pageNumber}.`;
+      page.text(at(PDF.right) - textWidth(label, PDF.fontSize), at(0.5), label, { size: PDF.fontSize });
+    }
+  };
+
+  newPage();
+
+  drama.elements.forEach(el => {
+    if (el.type === 'scene') {
+      if (y + PDF.lineHeight * 4 > bottom) newPage();
+      else y += PDF.lineHeight;
+      page.text(at(PDF.cue), y, el.text.toUpperCase(), { font: 'bold', size: PDF.fontSize, underline: true });
+      y += PDF.lineHeight * 2;
+      return;
+    }
+
+    const body = isSound(el) ? el.text.toUpperCase() : el.text;
+    const wrapped = body.split('\n').flatMap(part => wrapText(part, textChars).map(w => w.text));
+    if (!wrapped.length) wrapped.push('');
+    if (y + wrapped.length * PDF.lineHeight > bottom) newPage();
+
+    if (el.cue) page.text(at(PDF.cue), y, `${el.cue}.`, { size: PDF.fontSize });
+    const label = labelFor(el);
+    if (label) page.text(at(PDF.name), y, label, { size: PDF.fontSize, font: isSound(el) ? 'bold' : 'regular' });
+    wrapped.forEach(line => {
+      page.text(at(PDF.text), y, line, { size: PDF.fontSize, font: el.type === 'note' ? 'italic' : 'regular', underline: isSound(el) });
+      y += PDF.lineHeight;
+    });
+    y += PDF.lineHeight;
+  });
+
+  return pdf.toBlob();
+};
+
+// ============================================
+// DOCX
+// ============================================
+
+const cell = (runs: DocxRun[]): DocxCell => ({ paragraphs: [{ type: 'paragraph', runs, spaceAfter: 12 }] });
+
+export const renderAudioDocx = (data: ProjectData): Blob => {
+  const drama = parseAudioDrama(data.scriptContent || '');
+  const blocks: DocxBlock[] = [
+    { type: 'paragraph', runs: [{ text: (data.title || 'Untitled').toUpperCase(), bold: true }], size: 14, spaceAfter: 4 },
+    { type: 'paragraph', runs: [{ text: metaLine(data, drama) }], spaceAfter: 12 },
+  ];
+
+  // Each scene is a borderless three-column table: cue, name, words
+  let rows: DocxCell[][] = [];
+  const flush = () => {
+    if (rows.length) blocks.push({ type: 'table', columns: [PDF.name - PDF.cue, PDF.text - PDF.name, PDF.right - PDF.text], rows, borders: false });
+    rows = [];
+  };
+
+  drama.elements.forEach(el => {
+    if (el.type === 'scene') {
+      flush();
+      blocks.push({ type: 'paragraph', runs: [{ text: el.text.toUpperCase(), bold: true, underline: true }], spaceAfter: 12 });
+      return;
+    }
+    rows.push([
+      cell([{ text: el.cue ? `${el.cue}.` : '' }]),
+      cell([{ text: labelFor(el), bold: isSound(el) }]),
+      cell([{ text: isSound(el) ? el.text.toUpperCase() : el.text, underline: isSound(el), italic: el.type === 'note' }]),
+    ]);
+  });
+  flush();
+
+  return createDocx(blocks, { font: 'Courier New', size: 12, margins: 1 });
+};
@@ -0,0 +1,356 @@
+/**
+ * SCRIPT ENGINE - AV Script Service
+ *
+ * Two-column audio/visual scripts for commercials and corporate films.
+ * The script stays plain text in `scriptContent`, one shot per paragraph:
+ *
+ *   # OPENING
+ *
+ *   VIDEO: Wide on the city at dawn. [0:05]
+ *   SUPER: Every day starts somewhere.
+ *   AUDIO: MUSIC: Soft piano builds.
+ *   VO: It starts with a single step.
+ *
+ * VIDEO:/V: and SUPER: lines fill the video column; AUDIO:/A:, VO:, SFX:,
+ * MUSIC: and SYNC: lines the audio column; unlabelled lines continue the
+ * column above. `[5s]` or `[0:05]` sets the shot's duration, otherwise it
+ * is estimated line by line (see TIMING_RULES). A paragraph starting with
+ * `#` is a section heading. Shots are numbered in order and carry a
+ * running timecode.
+ */
+
+import { createPdfDocument, POINTS_PER_INCH, textWidth, PdfPageBuilder } from './pdfWriter';
+import { wrapText } from './paginationService';
+import { createDocx, textParagraph, DocxBlock, DocxCell } from './docxWriter';
+import { countWords } from './textUtils';
+import type { ProjectData } from '../types';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type AVColumn = 'video' | 'audio';
+
+export interface AVShot {
+  kind: 'shot';
+  number: number;
+  video: string[];
+  audio: string[];
+  duration: number;  // seconds
+  timed: boolean;    // Duration set explicitly rather than estimated
+  estimate: number;  // What the lines need, whether or not a duration is set
+  start: number;     // Running time at the top of the shot, seconds
+  startLine: number; // 0-based, inclusive
+  endLine: number;   // 0-based, inclusive
+}
+
+export interface AVSection {
+  kind: 'section';
+  title: string;
+  startLine: number;
+  endLine: number;
+}
+
+export type AVRow = AVShot | AVSection;
+
+export interface AVScript {
+  rows: AVRow[];
+  shots: AVShot[];
+  duration: number;
+}
+
+// Labels kept in the text of their column
+const VIDEO_LABELS = ['SUPER'];
+const AUDIO_LABELS = ['VO', 'MVO', 'FVO', 'SFX', 'MUSIC', 'SYNC'];
+// Labels that only say which column a line is in
+const COLUMN_PREFIX = /^(VIDEO|V|AUDIO|A)\s*:\s*/i;
+const LABEL_PATTERN = /^([A-Z]+)\s*(?:\([^)]*\))?\s*:/;
+const DURATION_PATTERN = /\s*\[(?:(\d+):(\d{1,2})|(\d+(?:\.\d+)?)\s*s)\]\s*/i;
+
+export interface TimingRules {
+  voWordsPerSecond: number;     // Voice-over and sync read rate
+  actionWordsPerSecond: number; // How long described action takes to play
+  superWordsPerSecond: number;  // On-screen text needs time to be read
+  minShotSeconds: number;       // No cut shorter than this
+}
+
+// 150 wpm VO, the broadcast norm for a clear, unhurried read
+export const TIMING_RULES: TimingRules = {
+  voWordsPerSecond: 2.5,
+  actionWordsPerSecond: 3,
+  superWordsPerSecond: 3,
+  minShotSeconds: 2,
+};
+
+export interface LineTiming {
+  column: AVColumn;
+  text: string;
+  seconds: number; // 0 for music and effects, which play under
+}
+
+// ============================================
+// PARSE
+// ============================================
+
+/**
+ * Which column a line opens, or null when it continues the one above
+ */
+export const columnOf = (line: string): AVColumn | null => {
+  const prefix = line.match(COLUMN_PREFIX);
+  if (prefix) return /^V/i.test(prefix[1]) ? 'video' : 'audio';
+  const label = line.match(LABEL_PATTERN)?.[1];
+  if (label && VIDEO_LABELS.includes(label)) return 'video';
+  if (label && AUDIO_LABELS.includes(label)) return 'audio';
+  return null;
+};
+
+const roundUpToHalf = (seconds: number) => Math.ceil(seconds * 2) / 2;
+
+/**
+ * Time one line of a column needs: VO and sync at the read rate, action
+ * beats at the action rate, supers long enough to read. Music and effects
+ * play under everything else and add nothing.
+ */
+export const estimateLine = (line: string, column: AVColumn, rules: TimingRules = TIMING_RULES): number => {
+  const label = line.match(LABEL_PATTERN)?.[1];
+  const words = countWords(line.replace(LABEL_PATTERN, ''));
+  if (column === 'audio') {
+    if (label === 'SFX' || label === 'MUSIC') return 0;
+    return words / rules.voWordsPerSecond;
+  }
+  return words / (label === 'SUPER' ? rules.superWordsPerSecond : rules.actionWordsPerSecond);
+};
+
+export const lineTimings = (shot: Pick<AVShot, 'video' | 'audio'>, rules: TimingRules = TIMING_RULES): LineTiming[] => [
+  ...shot.video.map(text => ({ column: 'video' as const, text, seconds: estimateLine(text, 'video', rules) })),
+  ...shot.audio.map(text => ({ column: 'audio' as const, text, seconds: estimateLine(text, 'audio', rules) })),
+];
+
+/**
+ * A shot lasts as long as the longer of its columns: the VO read end to
+ * end, or the action beats (supers overlap the action), never under the
+ * minimum shot length
+ */
+export const estimateShot = (shot: Pick<AVShot, 'video' | 'audio'>, rules: TimingRules = TIMING_RULES): number => {
+  const sum = (lines: string[], column: AVColumn) => lines.reduce((total, line) => total + estimateLine(line, column, rules), 0);
+  const supers = shot.video.filter(line => line.match(LABEL_PATTERN)?.[1] === 'SUPER');
+  const action = shot.video.filter(line => !supers.includes(line));
+  const video = Math.max(sum(action, 'video'), sum(supers, 'video'));
+  return roundUpToHalf(Math.max(rules.minShotSeconds, sum(shot.audio, 'audio'), video));
+};
+
+export const parseAVScript = (text: string, rules: TimingRules = TIMING_RULES): AVScript => {
+  const lines = text.split('\n');
+  const rows: AVRow[] = [];
+  let block: { line: string; index: number }[] = [];
+
+  const flush = () => {
+    if (!block.length) return;
+    const startLine = block[0].index;
+    const endLine = block[block.length - 1].index;
+
+    if (block[0].line.startsWith('#')) {
+      rows.push({ kind: 'section', title: block.map(b => b.line.replace(/^#+\s*/, '')).join(' ').trim(), startLine, endLine });
+      block = [];
+      return;
+    }
+
+    const shot: AVShot = { kind: 'shot', number: 0, video: [], audio: [], duration: 0, timed: false, estimate: 0, start: 0, startLine, endLine };
+    let column: AVColumn = 'video';
+    block.forEach(({ line }) => {
+      let content = line;
+      const duration = content.match(DURATION_PATTERN);
+      if (duration) {
+        shot.duration = duration[3] !== undefined ? parseFloat(duration[3]) : parseInt(duration[1], 10) * 60 + parseInt(duration[2], 10);
+        shot.timed = true;
+        content = content.replace(DURATION_PATTERN, ' ').trim();
+      }
+      column = columnOf(content) || column;
+      content = content.replace(COLUMN_PREFIX, '');
+      if (content) shot[column].push(content);
+    });
+    rows.push(shot);
+    block = [];
+  };
+
+  lines.forEach((line, index) => {
+    if (line.trim()) block.push({ line: line.trim(), index });
+    else flush();
+  });
+  flush();
+
+  const shots = rows.filter((row): row is AVShot => row.kind === 'shot');
+  let clock = 0;
+  shots.forEach((shot, i) => {
+    shot.number = i + 1;
+    shot.estimate = estimateShot(shot, rules);
+    if (!shot.timed) shot.duration = shot.estimate;
+    shot.start = clock;
+    clock += shot.duration;
+  });
+
+  return { rows, shots, duration: clock };
+};
+
+// ============================================
+// SERIALIZE
+// ============================================
+
+export const formatDuration = (seconds: number): string => {
+  if (Number.isInteger(seconds) || seconds >= 60) {
+    const whole = Math.round(seconds);
+    return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+  }
+  return `${seconds}s`;
+};
+
+/**
+ * Running timecode, HH:MM:SS
+ */
+export const formatTimecode = (seconds: number): string => {
+  const whole = Math.floor(seconds);
+  return [Math.floor(whole / 3600), Math.floor(whole / 60) % 60, whole % 60].map(n => String(n).padStart(2, '0')).join(':');
+};
+
+const columnText = (lines: string[], column: AVColumn): string[] =>
+  lines.map((line, i) => {
+    if (i === 0) return `${column === 'video' ? 'VIDEO' : 'AUDIO'}: ${line}`;
+    // A continuation that reads as another label needs its column spelled out
+    const reads = columnOf(line);
+    return reads && reads !== column ? `${column === 'video' ? 'VIDEO' : 'AUDIO'}: ${line}` : line;
+  });
+
+export const shotToText = (shot: Pick<AVShot, 'video' | 'audio' | 'duration' | 'timed'>): string => {
+  const video = columnText(shot.video.length ? shot.video : [''], 'video');
+  if (shot.timed) video[0] = `${video[0]} [${formatDuration(shot.duration)}]`;
+  return [...video, ...columnText(shot.audio, 'audio')].map(line => line.trimEnd()).join('\n');
+};
+
+export const avRowsToText = (rows: AVRow[]): string =>
+  rows.map(row => (row.kind === 'section' ? `# ${row.title}` : shotToText(row))).join('\n\n') + '\n';
+
+// ============================================
+// PDF
+// ============================================
+
+const PDF = {
+  fontSize: 10,
+  lineHeight: 12,
+  top: 0.75,
+  bottom: 10.25,
+  left: 0.6,
+  columns: { shot: 0.5, time: 0.8, video: 3.0, audio: 3.0 }, // inches
+  padding: 4, // points
+};
+
+const charsFor = (inches: number) => Math.floor((inches * POINTS_PER_INCH - PDF.padding * 2) / (PDF.fontSize * 0.6));
+
+const wrapColumn = (lines: string[], inches: number) => lines.flatMap(line => wrapText(line, charsFor(inches)).map(w => w.text));
+
+export const renderAVPDF = (data: ProjectData): Blob => {
+  const script = parseAVScript(data.scriptContent || '');
+  const pdf = createPdfDocument();
+  const { columns } = PDF;
+  const x = {
+    shot: PDF.left * POINTS_PER_INCH,
+    time: (PDF.left + columns.shot) * POINTS_PER_INCH,
+    video: (PDF.left + columns.shot + columns.time) * POINTS_PER_INCH,
+    audio: (PDF.left + columns.shot + columns.time + columns.video) * POINTS_PER_INCH,
+    end: (PDF.left + columns.shot + columns.time + columns.video + columns.audio) * POINTS_PER_INCH,
+  };
+  const grey: [number, number, number] = [0.6, 0.6, 0.6];
+  let page: PdfPageBuilder;
+  let y = 0;
+  let pageNumber = 0;
+
+  const rule = (at: number) => page.line(x.shot, at, x.end, at, grey);
+  const newPage = () => {
+    page = pdf.addPage();
+    pageNumber++;
+    y = PDF.top * POINTS_PER_INCH;
+    if (pageNumber === 1) {
+      page.text(x.shot, y, (data.title || 'Untitled').toUpperCase(), { font: 'bold', size: 14 });
+      y += 18;
+      const meta = [data.format && data.format !== 'Pending...' ? data.format : '', `Running time ${formatDuration(script.duration)}`].filter(Boolean).join('  ·  ');
+      page.text(x.shot, y, meta, { size: PDF.fontSize });
+      y += 20;
+    } else {
+      const label = `${pageNumber}.`;
+      page.text(x.end - textWidth(label, PDF.fontSize), y, label, { size: PDF.fontSize });
+      y += 16;
+    }
+    // Column heads repeat on every page
+    page.rect(x.shot, y, x.end - x.shot, PDF.lineHeight + PDF.padding * 2, [0.9, 0.9, 0.9], grey);
+    const headY = y + PDF.padding + PDF.fontSize;
+    page.text(x.shot + PDF.padding, headY, 'SHOT', { font: 'bold', size: PDF.fontSize });
+    page.text(x.time + PDF.padding, headY, 'TIME', { font: 'bold', size: PDF.fontSize });
+    page.text(x.video + PDF.padding, headY, 'VIDEO', { font: 'bold', size: PDF.fontSize });
+    page.text(x.audio + PDF.padding, headY, 'AUDIO', { font: 'bold', size: PDF.fontSize });
+    y += PDF.lineHeight + PDF.padding * 2;
+  };
+
+  newPage();
+  const bottom = PDF.bottom * POINTS_PER_INCH;
+
+  script.rows.forEach(row => {
+    if (row.kind === 'section') {
+      const height = PDF.lineHeight + PDF.padding * 2;
+      if (y + height > bottom) newPage();
+      page.rect(x.shot, y, x.end - x.shot, height, [0.96, 0.96, 0.96], grey);
+      page.text(x.shot + PDF.padding, y + PDF.padding + PDF.fontSize, row.title.toUpperCase(), { font: 'bold', size: PDF.fontSize });
+      y += height;
+      return;
+    }
+
+    const video = wrapColumn(row.video, columns.video);
+    const audio = wrapColumn(row.audio, columns.audio);
+    const lineCount = Math.max(video.length, audio.length, 2);
+    const height = lineCount * PDF.lineHeight + PDF.padding * 2;
+    if (y + height > bottom && y > (PDF.top + 1) * POINTS_PER_INCH) newPage();
+
+    const textY = (i: number) => y + PDF.padding + PDF.fontSize + i * PDF.lineHeight;
+    page.text(x.shot + PDF.padding, textY(0), String(row.number), { font: 'bold', size: PDF.fontSize });
+    page.text(x.time + PDF.padding, textY(0), formatTimecode(row.start).slice(3), { size: PDF.fontSize });
+    page.text(x.time + PDF.padding, textY(1), formatDuration(row.duration), { size: PDF.fontSize - 2, color: [0.4, 0.4, 0.4] });
+    video.forEach((line, i) => page.text(x.video + PDF.padding, textY(i), line, { size: PDF.fontSize }));
+    audio.forEach((line, i) => page.text(x.audio + PDF.padding, textY(i), line, { size: PDF.fontSize }));
+
+    [x.shot, x.time, x.video, x.audio, x.end].forEach(at => page.line(at, y, at, y + height, grey));
+    y += height;
+    rule(y);
+  });
+
+  return pdf.toBlob();
+};
+
+// ============================================
+// DOCX
+// ============================================
+
+export const renderAVDocx = (data: ProjectData): Blob => {
+  const script = parseAVScript(data.scriptContent || '');
+  const { columns } = PDF;
+  const head = (text: string): DocxCell => ({ paragraphs: [{ type: 'paragraph', runs: [{ text, bold: true }] }], shade: '#E6E6E6' });
+
+  const rows: DocxCell[][] = [[head('SHOT'), head('TIME'), head('VIDEO'), head('AUDIO')]];
+  script.rows.forEach(row => {
+    if (row.kind === 'section') {
+      rows.push([{ paragraphs: [{ type: 'paragraph', runs: [{ text: row.title.toUpperCase(), bold: true }] }], span: 4, shade: '#F5F5F5' }]);
+      return;
+    }
+    rows.push([
+      { paragraphs: [{ type: 'paragraph', runs: [{ text: String(row.number), bold: true }] }] },
+      { paragraphs: [textParagraph(formatTimecode(row.start).slice(3)), textParagraph(formatDuration(row.duration), { size: 8 })] },
+      { paragraphs: row.video.map(line => textParagraph(line)) },
+      { paragraphs: row.audio.map(line => textParagraph(line)) },
+    ]);
+  });
+
+  const meta = [data.format && data.format !== 'Pending...' ? data.format : '', `Running time ${formatDuration(script.duration)}`].filter(Boolean).join('  ·  ');
+  const blocks: DocxBlock[] = [
+    { type: 'paragraph', runs: [{ text: (data.title || 'Untitled').toUpperCase(), bold: true }], size: 14, spaceAfter: 4 },
+    textParagraph(meta, { spaceAfter: 12 }),
+    { type: 'table', columns: [columns.shot, columns.time, columns.video, columns.audio], rows, headerRows: 1 },
+  ];
+  return createDocx(blocks, { font: 'Courier New', size: 10, margins: 0.6 });
+};
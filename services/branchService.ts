@@ -0,0 +1,85 @@
+/**
+ * SCRIPT ENGINE - Branch Service
+ *
+ * Named draft branches of a project. The active workspace (main or a
+ * branch) is the ProjectState the app edits; the others wait in a local
+ * stash keyed by project row ID until switched to. Each branch keeps its
+ * own snapshot history and syncs as its own project row.
+ */
+
+import type { ProjectState, ProjectData, DraftBranch } from '../types';
+
+const STASH_KEY = 'cc_branch_states';
+
+export type BranchStash = Record<string, ProjectState>;
+
+// ============================================
+// LOCAL STASH
+// ============================================
+
+export const loadBranchStash = (): BranchStash => {
+  try {
+    return JSON.parse(localStorage.getItem(STASH_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const saveBranchStash = (stash: BranchStash) => {
+  localStorage.setItem(STASH_KEY, JSON.stringify(stash));
+};
+
+// ============================================
+// BRANCHES
+// ============================================
+
+// The merge base only needs the writing, not history or images
+const mergeBase = (data: ProjectData): ProjectData => ({ ...data, snapshots: [], visuals: [] });
+
+/**
+ * Cut a new branch from main. It starts with main's work and an empty history.
+ */
+export const createBranch = (mainId: string, main: ProjectState, name: string): ProjectState => ({
+  currentPhase: main.currentPhase,
+  data: { ...main.data, snapshots: [] },
+  branch: {
+    id: crypto.randomUUID(),
+    parentId: mainId,
+    name: name.trim() || 'Untitled branch',
+    createdAt: Date.now(),
+    base: mergeBase(main.data),
+  },
+});
+
+/**
+ * Every branch of the project, oldest first, whether active or stashed
+ */
+export const listBranches = (active: ProjectState, stash: BranchStash): DraftBranch[] =>
+  [active, ...Object.values(stash)]
+    .map(state => state.branch)
+    .filter((branch): branch is DraftBranch => !!branch)
+    .sort((a, b) => a.createdAt - b.createdAt);
+
+/**
+ * Swap the active workspace for a stashed one. Returns null if `targetId`
+ * is not in the stash.
+ */
+export const switchWorkspace = (
+  activeId: string,
+  active: ProjectState,
+  stash: BranchStash,
+  targetId: string,
+): { state: ProjectState; stash: BranchStash } | null => {
+  const target = stash[targetId];
+  if (!target || targetId === activeId) return null;
+  const next = { ...stash, [activeId]: active };
+  delete next[targetId];
+  return { state: target, stash: next };
+};
+
+/**
+ * After a merge the branch as merged becomes its new base, so merging it
+ * again later only brings over what changed on it since
+ */
+export const rebaseBranch = (branch: ProjectState): ProjectState =>
+  branch.branch ? { ...branch, branch: { ...branch.branch, base: mergeBase(branch.data) } } : branch;
@@ -0,0 +1,358 @@
+/**
+ * SCRIPT ENGINE - Breakdown Service
+ *
+ * Production breakdown: cast, extras, props, wardrobe and the other
+ * departments' elements tagged per scene. Scenes come from the importer's
+ * ParsedScene list and are keyed by their ScriptDocument scene id, so tags
+ * stay attached while the script is rewritten around them.
+ *
+ * Exports standard breakdown sheets as PDF, printable HTML and CSV.
+ */
+
+import { parseFountain, ParsedScene } from './scriptImportService';
+import { parseFountainDocument, stripInlineMarkup, FountainElement } from './fountainParser';
+import { ensureScriptDocument } from './scriptDocumentService';
+import { isOmittedHeading } from './sceneOperationsService';
+import { measureScenes, formatEighths, wrapText } from './paginationService';
+import { createPdfDocument, hexToPdfColor, textWidth, PdfPageBuilder, US_LETTER, charsInWidth, FORM_MARGIN, BLACK, WHITE, GREY } from './pdfWriter';
+import { escapeHtml, renderPrintableHtml } from './htmlExportService';
+import { toCsv } from './downloadService';
+import { suggestBreakdown } from './geminiService';
+import type { ProjectData, SceneBreakdown, BreakdownCategory } from '../types';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface BreakdownCategoryInfo {
+  id: BreakdownCategory;
+  label: string;
+  color: string; // Industry colour code for the category
+}
+
+export type BreakdownTags = Partial<Record<BreakdownCategory, string[]>>;
+
+export interface BreakdownScene {
+  id: string;         // ScriptSceneNode id
+  number: string;     // Production number (#12A#) or running order
+  scene: ParsedScene;
+  eighths: number;    // Length in eighths of a page
+  startPage: number;
+  synopsis: string;
+  text: string;       // Fountain source of the scene
+}
+
+export const BREAKDOWN_CATEGORIES: BreakdownCategoryInfo[] = [
+  { id: 'cast', label: 'Cast Members', color: '#d32f2f' },
+  { id: 'extras', label: 'Extras', color: '#388e3c' },
+  { id: 'props', label: 'Props', color: '#7b1fa2' },
+  { id: 'wardrobe', label: 'Wardrobe', color: '#00838f' },
+  { id: 'vehicles', label: 'Vehicles', color: '#c2185b' },
+  { id: 'animals', label: 'Animals', color: '#ad1457' },
+  { id: 'sfx', label: 'Special Effects', color: '#1976d2' },
+  { id: 'vfx', label: 'Visual Effects', color: '#303f9f' },
+  { id: 'makeup', label: 'Makeup / Hair', color: '#ef6c00' },
+  { id: 'set_dressing', label: 'Set Dressing', color: '#6d4c41' },
+];
+
+const CATEGORY_IDS = BREAKDOWN_CATEGORIES.map(c => c.id);
+
+// ============================================
+// SCENES
+// ============================================
+
+const SYNOPSIS_LENGTH = 140;
+
+const sceneSynopsis = (elements: FountainElement[]): string => {
+  const synopsis = elements.find(el => el.type === 'synopsis');
+  if (synopsis) return synopsis.text;
+
+  const action = elements.find(el => el.type === 'action');
+  const plain = action ? stripInlineMarkup(action.text).replace(/\s+/g, ' ').trim() : '';
+  return plain.length > SYNOPSIS_LENGTH ? `${plain.slice(0, SYNOPSIS_LENGTH - 3).trimEnd()}...` : plain;
+};
+
+/**
+ * Scenes of the project's script with their ids, page lengths and synopses
+ */
+export const getBreakdownScenes = (data: ProjectData): BreakdownScene[] => {
+  const script = data.scriptContent || '';
+  if (!script.trim()) return [];
+
+  const doc = ensureScriptDocument(data).scriptDocument!;
+  const fountain = parseFountainDocument(script);
+  const parsed = parseFountain(script).scenes;
+  const measures = measureScenes(script);
+  const lines = script.split('\n');
+
+  // The importer adds an OPENING scene for anything before the first heading
+  const hasOpening = parsed.length > fountain.scenes.length;
+  const headed = doc.scenes.filter(s => s.heading);
+  const opening = doc.scenes.find(s => !s.heading);
+
+  // Omitted scenes keep their number in the script but have nothing to shoot
+  const scenes: BreakdownScene[] = parsed.map((scene, i) => {
+    const idx = hasOpening ? i - 1 : i;
+
+    if (idx < 0) {
+      const end = fountain.scenes[0]?.startLine ?? lines.length;
+      const elements = fountain.elements.filter(el => el.startLine < end);
+      return {
+        id: opening?.id || 'opening',
+        number: '0',
+        scene,
+        eighths: 1,
+        startPage: 1,
+        synopsis: sceneSynopsis(elements),
+        text: lines.slice(elements[0]?.startLine ?? 0, end).join('\n').trim(),
+      };
+    }
+
+    const source = fountain.scenes[idx];
+    return {
+      id: headed[idx]?.id || `scene-${idx + 1}`,
+      number: scene.sceneNumberLabel || String(idx + 1),
+      scene,
+      eighths: measures[idx]?.eighths ?? 1,
+      startPage: measures[idx]?.startPage ?? 1,
+      synopsis: sceneSynopsis(source.elements),
+      text: lines.slice(source.startLine, source.endLine + 1).join('\n').trim(),
+    };
+  });
+  return scenes.filter(s => s.number === '0' || !isOmittedHeading(s.scene.heading));
+};
+
+// ============================================
+// TAGGING
+// ============================================
+
+/**
+ * Breakdown for a scene, empty when nothing has been tagged yet
+ */
+export const getSceneBreakdown = (breakdowns: SceneBreakdown[] | undefined, sceneId: string): SceneBreakdown =>
+  breakdowns?.find(b => b.sceneId === sceneId) || { sceneId, tags: {} };
+
+/**
+ * Replace one scene's breakdown, dropping it again once it is empty
+ */
+export const setSceneBreakdown = (breakdowns: SceneBreakdown[] | undefined, breakdown: SceneBreakdown): SceneBreakdown[] => {
+  const others = (breakdowns || []).filter(b => b.sceneId !== breakdown.sceneId);
+  const isEmpty = !breakdown.notes?.trim() && Object.values(breakdown.tags).every(items => !items?.length);
+  return isEmpty ? others : [...others, breakdown];
+};
+
+/**
+ * Add tags to a breakdown, ignoring blanks and case-insensitive duplicates
+ */
+export const addTags = (breakdown: SceneBreakdown, tags: BreakdownTags): SceneBreakdown => {
+  const next: BreakdownTags = { ...breakdown.tags };
+  (Object.keys(tags) as BreakdownCategory[]).forEach(category => {
+    const items = [...(next[category] || [])];
+    const seen = new Set(items.map(item => item.toLowerCase()));
+    (tags[category] || []).forEach(raw => {
+      const item = raw.trim();
+      if (!item || seen.has(item.toLowerCase())) return;
+      seen.add(item.toLowerCase());
+      items.push(item);
+    });
+    next[category] = items;
+  });
+  return { ...breakdown, tags: next };
+};
+
+export const removeTag = (breakdown: SceneBreakdown, category: BreakdownCategory, item: string): SceneBreakdown => ({
+  ...breakdown,
+  tags: { ...breakdown.tags, [category]: (breakdown.tags[category] || []).filter(existing => existing !== item) },
+});
+
+/**
+ * Suggestions the breakdown does not already contain
+ */
+export const untaggedSuggestions = (breakdown: SceneBreakdown, suggestions: BreakdownTags): BreakdownTags => {
+  const result: BreakdownTags = {};
+  (Object.keys(suggestions) as BreakdownCategory[]).forEach(category => {
+    const existing = new Set((breakdown.tags[category] || []).map(item => item.toLowerCase()));
+    const fresh = (suggestions[category] || []).filter(item => !existing.has(item.toLowerCase()));
+    if (fresh.length) result[category] = fresh;
+  });
+  return result;
+};
+
+/**
+ * Cast found in the scene itself: everyone with a dialogue cue
+ */
+export const detectSceneTags = (scene: BreakdownScene): BreakdownTags => {
+  const speakers = scene.scene.content
+    .filter(el => el.type === 'character')
+    .map(el => el.content.replace(/\(.*$/, '').replace(/\^$/, '').trim())
+    .filter(Boolean);
+  return { cast: Array.from(new Set(speakers)) };
+};
+
+/**
+ * Ask Gemini for breakdown suggestions for one scene
+ */
+export const suggestSceneTags = async (scene: BreakdownScene): Promise<BreakdownTags> => {
+  const json = await suggestBreakdown(scene.text);
+  try {
+    const raw = JSON.parse(json) as Record<string, unknown>;
+    const tags: BreakdownTags = {};
+    CATEGORY_IDS.forEach(category => {
+      const items = raw[category];
+      if (Array.isArray(items)) {
+        tags[category] = items.filter((item): item is string => typeof item === 'string' && item.trim() !== '');
+      }
+    });
+    return tags;
+  } catch (error) {
+    console.error('Breakdown suggestions were not valid JSON:', error);
+    return {};
+  }
+};
+
+// ============================================
+// EXPORT - CSV
+// ============================================
+
+/**
+ * INT, EXT or INT/EXT as printed on sheets and strips
+ */
+export const intExt = (scene: ParsedScene) => {
+  if (/^(?:INT\.?\/EXT|INT\/EXT|I\/E)/i.test(scene.heading)) return 'INT/EXT';
+  return scene.interior ? 'INT' : 'EXT';
+};
+
+/**
+ * One row per scene with a column per category
+ */
+export const breakdownToCSV = (scenes: BreakdownScene[], breakdowns: SceneBreakdown[] | undefined): string => {
+  const header = ['Scene', 'Heading', 'INT/EXT', 'Location', 'Time', 'Pages', 'Synopsis', ...BREAKDOWN_CATEGORIES.map(c => c.label), 'Notes'];
+  const rows = scenes.map(scene => {
+    const breakdown = getSceneBreakdown(breakdowns, scene.id);
+    return [
+      scene.number,
+      scene.scene.heading,
+      intExt(scene.scene),
+      scene.scene.location,
+      scene.scene.timeOfDay,
+      formatEighths(scene.eighths),
+      scene.synopsis,
+      ...BREAKDOWN_CATEGORIES.map(c => (breakdown.tags[c.id] || []).join('; ')),
+      breakdown.notes || '',
+    ];
+  });
+  return toCsv([header, ...rows]);
+};
+
+// ============================================
+// EXPORT - HTML
+// ============================================
+
+const SHEET_CSS = `
+  .sheet-title { display: flex; justify-content: space-between; align-items: baseline; margin-bottom: 8px; }
+  .sheet-title h1 { font-size: 18px; letter-spacing: 2px; }
+  .label { display: block; font-size: 8px; text-transform: uppercase; color: #555; }
+  .value { font-weight: bold; font-size: 12px; }
+  .categories { display: grid; grid-template-columns: 1fr 1fr; gap: 8px; margin-top: 8px; }
+  .category { border: 1px solid #222; min-height: 90px; }
+  .category h3 { color: #fff; font-size: 10px; padding: 3px 6px; text-transform: uppercase; }
+  .category ul { margin: 4px 0; padding-left: 20px; }
+  .notes { border: 1px solid #222; margin-top: 8px; padding: 4px 6px; min-height: 60px; }
+`;
+
+const renderSheetHtml = (title: string, scene: BreakdownScene, breakdown: SceneBreakdown): string => {
+  const cell = (label: string, value: string) =>
+    `<td><span class="label">${label}</span><span class="value">${escapeHtml(value)}</span></td>`;
+  const categories = BREAKDOWN_CATEGORIES.map(category => {
+    const items = breakdown.tags[category.id] || [];
+    return `<div class="category"><h3 style="background:${category.color}">${category.label}</h3><ul>${
+      items.map(item => `<li>${escapeHtml(item)}</li>`).join('')
+    }</ul></div>`;
+  }).join('');
+
+  return `<section class="sheet">
+  <div class="sheet-title"><h1>BREAKDOWN SHEET</h1><span>${escapeHtml(title)}</span></div>
+  <table>
+    <tr>${cell('Scene', scene.number)}${cell('Int/Ext', intExt(scene.scene))}${cell('Day/Night', scene.scene.timeOfDay)}${cell('Pages', formatEighths(scene.eighths))}${cell('Script Page', String(scene.startPage))}</tr>
+    <tr><td colspan="5"><span class="label">Set / Location</span><span class="value">${escapeHtml(scene.scene.heading)}</span></td></tr>
+    <tr><td colspan="5"><span class="label">Synopsis</span>${escapeHtml(scene.synopsis)}</td></tr>
+  </table>
+  <div class="categories">${categories}</div>
+  <div class="notes"><span class="label">Notes</span>${escapeHtml(breakdown.notes || '')}</div>
+</section>`;
+};
+
+/**
+ * Printable breakdown sheets, one page per scene
+ */
+export const renderBreakdownHTML = (title: string, scenes: BreakdownScene[], breakdowns: SceneBreakdown[] | undefined): string =>
+  renderPrintableHtml(
+    `${title} - Breakdown Sheets`,
+    scenes.map(scene => renderSheetHtml(title, scene, getSceneBreakdown(breakdowns, scene.id))).join('\n'),
+    SHEET_CSS
+  );
+
+// ============================================
+// EXPORT - PDF
+// ============================================
+
+const SHEET_WIDTH = 540;
+
+const drawCell = (page: PdfPageBuilder, x: number, y: number, w: number, h: number, label: string, value: string, valueSize: number = 11) => {
+  page.rect(x, y, w, h, WHITE, BLACK);
+  page.text(x + 4, y + 9, label.toUpperCase(), { size: 7, color: GREY });
+  wrapText(value, charsInWidth(w - 8, valueSize))
+    .slice(0, Math.max(1, Math.floor((h - 12) / (valueSize + 2))))
+    .forEach((line, i) => page.text(x + 4, y + 12 + (i + 1) * (valueSize + 1), line.text, { size: valueSize, font: 'bold' }));
+};
+
+const drawSheet = (page: PdfPageBuilder, title: string, scene: BreakdownScene, breakdown: SceneBreakdown) => {
+  page.text(FORM_MARGIN, FORM_MARGIN + 12, 'BREAKDOWN SHEET', { font: 'bold', size: 14 });
+  page.text(FORM_MARGIN + SHEET_WIDTH - textWidth(title, 10), FORM_MARGIN + 12, title, { size: 10 });
+
+  // Header cells
+  const top = FORM_MARGIN + 24;
+  const cellWidth = SHEET_WIDTH / 5;
+  [
+    ['Scene', scene.number],
+    ['Int/Ext', intExt(scene.scene)],
+    ['Day/Night', scene.scene.timeOfDay],
+    ['Pages', formatEighths(scene.eighths)],
+    ['Script Page', String(scene.startPage)],
+  ].forEach(([label, value], i) => drawCell(page, FORM_MARGIN + i * cellWidth, top, cellWidth, 32, label, value));
+  drawCell(page, FORM_MARGIN, top + 32, SHEET_WIDTH, 32, 'Set / Location', scene.scene.heading);
+  drawCell(page, FORM_MARGIN, top + 64, SHEET_WIDTH, 52, 'Synopsis', scene.synopsis, 9);
+
+  // Category boxes, two columns
+  const gridTop = top + 124;
+  const gap = 8;
+  const boxWidth = (SHEET_WIDTH - gap) / 2;
+  const boxHeight = 92;
+  const itemSize = 9;
+  const maxLines = Math.floor((boxHeight - 20) / (itemSize + 2));
+
+  BREAKDOWN_CATEGORIES.forEach((category, i) => {
+    const x = FORM_MARGIN + (i % 2) * (boxWidth + gap);
+    const y = gridTop + Math.floor(i / 2) * (boxHeight + gap);
+    page.rect(x, y, boxWidth, boxHeight, WHITE, BLACK);
+    page.rect(x, y, boxWidth, 14, hexToPdfColor(category.color));
+    page.text(x + 4, y + 10, category.label.toUpperCase(), { font: 'bold', size: 8, color: WHITE });
+
+    const lines = (breakdown.tags[category.id] || [])
+      .flatMap(item => wrapText(item, charsInWidth(boxWidth - 16, itemSize)).map((line, n) => `${n ? '  ' : '- '}${line.text}`));
+    const shown = lines.length > maxLines ? [...lines.slice(0, maxLines - 1), `+${lines.length - maxLines + 1} more lines`] : lines;
+    shown.forEach((line, n) => page.text(x + 6, y + 14 + (n + 1) * (itemSize + 2), line, { size: itemSize }));
+  });
+
+  const notesTop = gridTop + 5 * (boxHeight + gap);
+  drawCell(page, FORM_MARGIN, notesTop, SHEET_WIDTH, US_LETTER.height - FORM_MARGIN - notesTop, 'Notes', breakdown.notes || '', 9);
+};
+
+/**
+ * Breakdown sheets as PDF, one page per scene
+ */
+export const renderBreakdownPDF = (title: string, scenes: BreakdownScene[], breakdowns: SceneBreakdown[] | undefined): Blob => {
+  const pdf = createPdfDocument();
+  scenes.forEach(scene => drawSheet(pdf.addPage(), title, scene, getSceneBreakdown(breakdowns, scene.id)));
+  return pdf.toBlob();
+};
@@ -0,0 +1,288 @@
+/**
+ * SCRIPT ENGINE - Call Sheet Service
+ *
+ * Daily call sheets built from the shooting schedule: the day's scenes with
+ * headings and synopses, the cast called (from the breakdown), the sets with
+ * their real-world places and addresses from Location Scout, and notes.
+ *
+ * Every sheet is filled from the schedule's call sheet template (production,
+ * contacts, default call, hospital, standing notes) plus the day's own
+ * details. Exports as printable HTML and PDF.
+ */
+
+import { Strip, castNumbers, shootDayDates, formatShootDate, getDayStats } from './scheduleService';
+import { formatEighths, wrapText } from './paginationService';
+import { createPdfDocument, textWidth, PdfPageBuilder, US_LETTER, charsInWidth, FORM_MARGIN, BLACK, WHITE, GREY } from './pdfWriter';
+import { escapeHtml, renderPrintableHtml } from './htmlExportService';
+import type { CallSheetTemplate, ScoutedLocation, ShootingSchedule } from '../types';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface CallSheetCast {
+  number?: number;
+  name: string;
+  scenes: string[]; // Scene numbers
+  call: string;
+}
+
+export interface CallSheetLocation {
+  set: string;              // Script location
+  place?: ScoutedLocation;  // Where it is shot
+}
+
+export interface CallSheet {
+  title: string;
+  dayNumber: number;
+  totalDays: number;
+  date?: string;
+  generalCall: string;
+  template: CallSheetTemplate;
+  scenes: Strip[];
+  cast: CallSheetCast[];
+  locations: CallSheetLocation[];
+  eighths: number;
+  notes: string;
+}
+
+export const DEFAULT_GENERAL_CALL = '07:00';
+
+// ============================================
+// BUILD
+// ============================================
+
+/**
+ * Scouted place assigned to a script location, if any
+ */
+export const findScoutedLocation = (scouted: ScoutedLocation[] | undefined, set: string): ScoutedLocation | undefined =>
+  (scouted || []).find(place => place.scriptLocation?.toUpperCase() === set.toUpperCase());
+
+export const buildCallSheet = (
+  title: string,
+  strips: Strip[],
+  schedule: ShootingSchedule,
+  dayIndex: number,
+  scouted: ScoutedLocation[] | undefined
+): CallSheet => {
+  const day = schedule.days[dayIndex];
+  const stripsById = new Map(strips.map(s => [s.id, s]));
+  const scenes = day.sceneIds.map(id => stripsById.get(id)).filter((s): s is Strip => !!s);
+  const stats = getDayStats(day, stripsById);
+  const numbers = castNumbers(strips);
+  const template = schedule.callSheetTemplate || {};
+  const generalCall = day.callSheet?.generalCall || template.generalCall || DEFAULT_GENERAL_CALL;
+
+  const cast = stats.cast
+    .map(name => ({
+      number: numbers.get(name),
+      name,
+      scenes: scenes.filter(s => s.cast.some(c => c.toUpperCase() === name)).map(s => s.number),
+      call: day.callSheet?.castCalls?.[name] || generalCall,
+    }))
+    .sort((a, b) => (a.number ?? Infinity) - (b.number ?? Infinity) || a.name.localeCompare(b.name));
+
+  return {
+    title,
+    dayNumber: dayIndex + 1,
+    totalDays: schedule.days.length,
+    date: shootDayDates(schedule)[dayIndex],
+    generalCall,
+    template,
+    scenes,
+    cast,
+    locations: stats.locations.map(set => ({ set, place: findScoutedLocation(scouted, set) })),
+    eighths: stats.eighths,
+    notes: day.callSheet?.notes || '',
+  };
+};
+
+const dayLine = (sheet: CallSheet) =>
+  `Day ${sheet.dayNumber} of ${sheet.totalDays}${sheet.date ? ` - ${formatShootDate(sheet.date)}` : ''}`;
+
+// ============================================
+// EXPORT - HTML
+// ============================================
+
+const SHEET_CSS = `
+  .header { display: grid; grid-template-columns: 1fr auto 1fr; gap: 12px; align-items: start; margin-bottom: 10px; }
+  .header h1 { font-size: 18px; letter-spacing: 2px; text-align: center; }
+  .header .call { text-align: center; border: 2px solid #111; padding: 6px 12px; }
+  .header .call strong { display: block; font-size: 22px; }
+  .right { text-align: right; }
+  h2 { font-size: 11px; text-transform: uppercase; letter-spacing: 1px; background: #111; color: #fff; padding: 3px 6px; margin-top: 10px; }
+  .pre { white-space: pre-wrap; }
+  .synopsis { font-size: 10px; color: #333; }
+`;
+
+const renderSheetHtml = (sheet: CallSheet): string => {
+  const { template } = sheet;
+  const scenes = sheet.scenes.map(s =>
+    `<tr><td>${escapeHtml(s.number)}</td><td><b>${escapeHtml(s.heading)}</b><div class="synopsis">${escapeHtml(s.synopsis)}</div></td><td>${s.dayNight}</td><td>${escapeHtml(s.cast.join(', '))}</td><td>${formatEighths(s.eighths)}</td></tr>`
+  ).join('');
+  const cast = sheet.cast.map(c =>
+    `<tr><td>${c.number ?? ''}</td><td>${escapeHtml(c.name)}</td><td>${escapeHtml(c.scenes.join(', '))}</td><td><b>${escapeHtml(c.call)}</b></td></tr>`
+  ).join('');
+  const locations = sheet.locations.map(l => {
+    const map = l.place?.mapUri ? `<br><a href="${escapeHtml(l.place.mapUri)}">${escapeHtml(l.place.mapUri)}</a>` : '';
+    return `<tr><td>${escapeHtml(l.set)}</td><td>${escapeHtml(l.place?.name || 'TBC')}</td><td>${escapeHtml(l.place?.address || '')}${map}</td></tr>`;
+  }).join('');
+  const notes = [sheet.notes, template.notes].filter(Boolean).map(n => escapeHtml(n!)).join('\n\n');
+
+  return `<section class="sheet">
+  <div class="header">
+    <div><b>${escapeHtml(template.production || sheet.title)}</b><div class="pre">${escapeHtml(template.contacts || '')}</div></div>
+    <div><h1>CALL SHEET</h1><div class="call">GENERAL CREW CALL<strong>${escapeHtml(sheet.generalCall)}</strong></div></div>
+    <div class="right"><b>${escapeHtml(sheet.title)}</b><br>${escapeHtml(dayLine(sheet))}<br>${formatEighths(sheet.eighths)} pages</div>
+  </div>
+  <h2>Scenes</h2>
+  <table><tr><th>Sc</th><th>Set / Synopsis</th><th>D/N</th><th>Cast</th><th>Pgs</th></tr>${scenes}</table>
+  <h2>Cast</h2>
+  <table><tr><th>#</th><th>Character</th><th>Scenes</th><th>Call</th></tr>${cast}</table>
+  <h2>Locations</h2>
+  <table><tr><th>Set</th><th>Location</th><th>Address</th></tr>${locations}</table>
+  ${template.hospital ? `<h2>Nearest Hospital</h2><div class="pre">${escapeHtml(template.hospital)}</div>` : ''}
+  ${notes ? `<h2>Notes</h2><div class="pre">${notes}</div>` : ''}
+</section>`;
+};
+
+/**
+ * Printable call sheets, one page per day
+ */
+export const renderCallSheetHTML = (title: string, sheets: CallSheet[]): string =>
+  renderPrintableHtml(`${title} - Call Sheets`, sheets.map(renderSheetHtml).join('\n'), SHEET_CSS);
+
+// ============================================
+// EXPORT - PDF
+// ============================================
+
+const WIDTH = US_LETTER.width - 2 * FORM_MARGIN;
+const BOTTOM = US_LETTER.height - FORM_MARGIN;
+const SIZE = 9;
+const LEADING = 11;
+
+interface PdfColumn {
+  label: string;
+  width: number;
+}
+
+/**
+ * Writes a call sheet top to bottom, continuing on a new page when full
+ */
+const createSheetWriter = (addPage: () => PdfPageBuilder, sheet: CallSheet) => {
+  let page = addPage();
+  let y = FORM_MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height <= BOTTOM) return;
+    page = addPage();
+    y = FORM_MARGIN;
+    page.text(FORM_MARGIN, y + 10, `CALL SHEET (cont'd) - ${sheet.title} - ${dayLine(sheet)}`, { font: 'bold', size: SIZE });
+    y += 18;
+  };
+
+  const section = (label: string) => {
+    ensureSpace(30);
+    y += 6;
+    page.rect(FORM_MARGIN, y, WIDTH, 14, BLACK);
+    page.text(FORM_MARGIN + 4, y + 10, label.toUpperCase(), { font: 'bold', size: SIZE, color: WHITE });
+    y += 18;
+  };
+
+  const paragraph = (text: string) => {
+    wrapText(text, charsInWidth(WIDTH, SIZE)).forEach(line => {
+      ensureSpace(LEADING);
+      page.text(FORM_MARGIN, y + SIZE, line.text, { size: SIZE });
+      y += LEADING;
+    });
+  };
+
+  const table = (columns: PdfColumn[], rows: string[][], boldColumn: number = -1) => {
+    ensureSpace(LEADING * 2);
+    let x = FORM_MARGIN;
+    columns.forEach(col => {
+      page.text(x, y + SIZE, col.label.toUpperCase(), { font: 'bold', size: 7, color: GREY });
+      x += col.width;
+    });
+    y += LEADING;
+
+    rows.forEach(row => {
+      const cells = row.map((value, i) => wrapText(value, charsInWidth(columns[i].width - 6, SIZE)).map(l => l.text));
+      const height = Math.max(1, ...cells.map(lines => lines.length)) * LEADING + 2;
+      ensureSpace(height);
+      page.line(FORM_MARGIN, y, FORM_MARGIN + WIDTH, y, [0.7, 0.7, 0.7]);
+      let cx = FORM_MARGIN;
+      cells.forEach((lines, i) => {
+        lines.forEach((line, n) => page.text(cx, y + SIZE + 1 + n * LEADING, line, { size: SIZE, font: i === boldColumn ? 'bold' : 'regular' }));
+        cx += columns[i].width;
+      });
+      y += height;
+    });
+  };
+
+  const header = () => {
+    const { template } = sheet;
+    const third = WIDTH / 3;
+    page.text(FORM_MARGIN, y + 10, template.production || sheet.title, { font: 'bold', size: 10 });
+    (template.contacts || '').split('\n').filter(Boolean).slice(0, 5).forEach((line, i) =>
+      page.text(FORM_MARGIN, y + 22 + i * 10, line.slice(0, charsInWidth(third, 8)), { size: 8 })
+    );
+
+    page.text(FORM_MARGIN + third + (third - textWidth('CALL SHEET', 16)) / 2, y + 14, 'CALL SHEET', { font: 'bold', size: 16 });
+    page.rect(FORM_MARGIN + third + 20, y + 22, third - 40, 40, WHITE, BLACK);
+    page.text(FORM_MARGIN + third + (third - textWidth('GENERAL CREW CALL', 7)) / 2, y + 32, 'GENERAL CREW CALL', { size: 7, color: GREY });
+    page.text(FORM_MARGIN + third + (third - textWidth(sheet.generalCall, 18)) / 2, y + 54, sheet.generalCall, { font: 'bold', size: 18 });
+
+    [sheet.title, dayLine(sheet), `${formatEighths(sheet.eighths)} pages`].forEach((line, i) => {
+      const text = line.slice(0, charsInWidth(third, 9));
+      page.text(FORM_MARGIN + WIDTH - textWidth(text, 9), y + 10 + i * 12, text, { size: 9, font: i === 0 ? 'bold' : 'regular' });
+    });
+    y += 72;
+  };
+
+  return { header, section, paragraph, table };
+};
+
+/**
+ * Call sheets as PDF, each day starting on a new page
+ */
+export const renderCallSheetPDF = (title: string, sheets: CallSheet[]): Blob => {
+  const pdf = createPdfDocument();
+
+  sheets.forEach(sheet => {
+    const writer = createSheetWriter(pdf.addPage, sheet);
+    writer.header();
+
+    writer.section('Scenes');
+    writer.table(
+      [{ label: 'Sc', width: 40 }, { label: 'Set / Synopsis', width: 290 }, { label: 'D/N', width: 44 }, { label: 'Cast', width: 116 }, { label: 'Pgs', width: 50 }],
+      sheet.scenes.map(s => [s.number, `${s.heading}${s.synopsis ? `\n${s.synopsis}` : ''}`, s.dayNight, s.cast.join(', '), formatEighths(s.eighths)])
+    );
+
+    writer.section('Cast');
+    writer.table(
+      [{ label: '#', width: 30 }, { label: 'Character', width: 210 }, { label: 'Scenes', width: 220 }, { label: 'Call', width: 80 }],
+      sheet.cast.map(c => [c.number !== undefined ? String(c.number) : '', c.name, c.scenes.join(', '), c.call]),
+      3
+    );
+
+    writer.section('Locations');
+    writer.table(
+      [{ label: 'Set', width: 150 }, { label: 'Location', width: 150 }, { label: 'Address', width: 240 }],
+      sheet.locations.map(l => [l.set, l.place?.name || 'TBC', [l.place?.address, l.place?.mapUri].filter(Boolean).join('\n')])
+    );
+
+    if (sheet.template.hospital) {
+      writer.section('Nearest Hospital');
+      writer.paragraph(sheet.template.hospital);
+    }
+
+    const notes = [sheet.notes, sheet.template.notes].filter(Boolean).join('\n\n');
+    if (notes) {
+      writer.section('Notes');
+      writer.paragraph(notes);
+    }
+  });
+
+  return pdf.toBlob();
+};
@@ -4,6 +4,8 @@
  * Enables data export to Director
  */
 
+import { countPages } from './paginationService';
+
 export const CC_EXPORT_VERSION = '1.0.0';
 
 export interface CCScriptExport {
@@ -144,6 +146,7 @@ export const exportToDirector = (projectData: any): CCScriptExport => {
       title: title || 'Untitled',
       rawContent: scriptContent || '',
       format: 'custom',
+      pageCount: countPages(scriptContent || ''),
     },
     characters: ccCharacters,
     locations: ccLocations,
@@ -0,0 +1,196 @@
+/**
+ * SCRIPT ENGINE - Character Rename Service
+ *
+ * Renames a character everywhere it appears in a project: the cast list,
+ * character profiles, cues (extensions such as V.O., O.S. and CONT'D are
+ * kept), mentions in the script, beats and logline, @mentions, and the
+ * matching shared_assets entry.
+ *
+ * Planning is pure so the UI can preview every change before applying it,
+ * and any change the writer unticks is left out.
+ */
+
+import { parseFountainDocument, FountainElementType } from './fountainParser';
+import { withScriptContent } from './scriptDocumentService';
+import { mentionService, SharedAsset } from './mentionService';
+import type { ProjectData } from '../types';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type RenameArea = 'cast' | 'profile' | 'cue' | 'script' | 'beat' | 'logline' | 'asset';
+
+export interface RenameChange {
+  id: string; // Stable across plans for the same names, for unticking
+  area: RenameArea;
+  location: string; // "Line 42", "Beat 3"...
+  before: string;
+  after: string;
+}
+
+export interface RenamePlan {
+  from: string;
+  to: string;
+  changes: RenameChange[];
+  data: ProjectData; // Project with the rename applied
+}
+
+// ============================================
+// TEXT REPLACEMENT
+// ============================================
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const toTitleCase = (name: string) => name.toLowerCase().replace(/(^|[\s'-])(\w)/g, (_, sep: string, c: string) => sep + c.toUpperCase());
+
+/**
+ * Whole-word occurrences of a name written as a name: as given, in
+ * capitals or capitalised (RAY, Ray). Lowercase words don't match, so WILL
+ * isn't found in "he will go". Null when the name has no such form.
+ */
+export const createNamePattern = (name: string, flags = 'g'): RegExp | null => {
+  const forms = Array.from(new Set([name, name.toUpperCase(), toTitleCase(name)]))
+    .filter(form => form !== form.toLowerCase())
+    .sort((a, b) => b.length - a.length);
+  return forms.length ? new RegExp(`(?<![\\w@])(?:${forms.map(escapeRegExp).join('|')})(?!\\w)`, flags) : null;
+};
+
+/**
+ * Replacer for the name forms `createNamePattern` finds, keeping capitals
+ * (RAY -> JACK, Ray -> Jack)
+ */
+const createNameReplacer = (from: string, to: string) => {
+  const pattern = createNamePattern(from);
+  const mixedCase = to === to.toUpperCase() ? toTitleCase(to) : to;
+
+  return (text: string) => (pattern ? text.replace(pattern, match => (match === match.toUpperCase() ? to.toUpperCase() : mixedCase)) : text);
+};
+
+const createHandleReplacer = (from: string, to: string) => {
+  const pattern = new RegExp(`@${escapeRegExp(from)}(?![\\w-])`, 'g');
+  return (text: string) => (from === to ? text : text.replace(pattern, `@${to}`));
+};
+
+/**
+ * shared_assets handles for the old and new name
+ */
+export const renameHandles = (from: string, to: string) => ({
+  from: mentionService.generateHandle(from),
+  to: mentionService.generateHandle(to),
+});
+
+// ============================================
+// PLANNING
+// ============================================
+
+// Id of the shared asset change; unticked, the asset keeps its name
+export const RENAME_ASSET_CHANGE = 'asset';
+
+/**
+ * Work out every change a rename makes, without touching anything. Changes
+ * whose ids are in `skipped` are listed but not applied.
+ */
+export const planCharacterRename = (data: ProjectData, fromName: string, toName: string, skipped: ReadonlySet<string> = new Set()): RenamePlan => {
+  const from = fromName.trim();
+  const to = toName.trim();
+  if (!from || !to || from === to) return { from, to, changes: [], data };
+
+  const handles = renameHandles(from, to);
+  const replaceName = createNameReplacer(from, to);
+  const replaceHandle = createHandleReplacer(handles.from, handles.to);
+  const replace = (text: string) => replaceName(replaceHandle(text));
+  const changes: RenameChange[] = [];
+  // Records a change and returns the text the project keeps
+  const change = (entry: RenameChange): string => {
+    changes.push(entry);
+    return skipped.has(entry.id) ? entry.before : entry.after;
+  };
+
+  // Cast list, merging with an existing entry for the new name
+  const seen = new Set<string>();
+  const characters: string[] = [];
+  data.characters.forEach((character, i) => {
+    let renamed = replace(character);
+    if (renamed !== character) renamed = change({ id: `cast:${i}`, area: 'cast', location: `Cast ${i + 1}`, before: character, after: renamed });
+    const key = renamed.toUpperCase();
+    if (!seen.has(key)) {
+      seen.add(key);
+      characters.push(renamed);
+    }
+  });
+
+  const characterProfiles = (data.characterProfiles || []).map((profile, i) => {
+    const renamed = {
+      ...profile,
+      name: replace(profile.name),
+      archetype: profile.archetype !== undefined ? replace(profile.archetype) : undefined,
+      dialogueDNA: profile.dialogueDNA !== undefined ? replace(profile.dialogueDNA) : undefined,
+    };
+    if (JSON.stringify(renamed) === JSON.stringify(profile)) return profile;
+    const id = `profile:${i}`;
+    change({ id, area: 'profile', location: profile.name, before: profile.name, after: renamed.name });
+    return skipped.has(id) ? profile : renamed;
+  });
+
+  // Script, line by line so the preview can point at each change
+  const script = data.scriptContent || '';
+  const lineTypes: (FountainElementType | undefined)[] = [];
+  parseFountainDocument(script).elements.forEach(el => {
+    for (let line = el.startLine; line <= el.endLine; line++) lineTypes[line] = el.type;
+  });
+  const scriptLines = script.split('\n').map((line, i) => {
+    const renamed = replace(line);
+    if (renamed === line) return line;
+    const id = `line:${i}`;
+    change({
+      id,
+      area: lineTypes[i] === 'character' ? 'cue' : 'script',
+      location: `Line ${i + 1}`,
+      before: line.trim(),
+      after: renamed.trim(),
+    });
+    return skipped.has(id) ? line : renamed;
+  });
+
+  const beats = data.beats.map((beat, i) => {
+    const renamed = replace(beat);
+    return renamed === beat ? beat : change({ id: `beat:${i}`, area: 'beat', location: `Beat ${i + 1}`, before: beat, after: renamed });
+  });
+
+  let logline = replace(data.logline || '');
+  if (logline !== (data.logline || '')) {
+    logline = change({ id: 'logline', area: 'logline', location: 'Logline', before: data.logline, after: logline });
+  }
+
+  if (handles.from !== handles.to) {
+    change({ id: RENAME_ASSET_CHANGE, area: 'asset', location: 'Shared asset', before: `@${handles.from}`, after: `@${handles.to}` });
+  }
+
+  const renamedData = withScriptContent(
+    { ...data, characters, characterProfiles, beats, logline },
+    scriptLines.join('\n')
+  );
+  return { from, to, changes, data: renamedData };
+};
+
+// ============================================
+// SHARED ASSET
+// ============================================
+
+/**
+ * Move the character's shared_assets entry to the new handle and name.
+ * Resolves to null when there is no matching character asset, and
+ * rejects when there is one but it could not be renamed.
+ */
+export const renameCharacterAsset = async (from: string, to: string): Promise<SharedAsset | null> => {
+  const handles = renameHandles(from, to);
+  if (handles.from === handles.to) return null;
+
+  const asset = await mentionService.getByHandle(handles.from);
+  if (!asset || asset.asset_type !== 'character') return null;
+
+  const renamed = await mentionService.rename(asset.id, handles.to, to.trim());
+  if (!renamed) throw new Error(`Could not rename shared asset @${handles.from}`);
+  return renamed;
+};
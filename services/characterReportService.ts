@@ -0,0 +1,160 @@
+/**
+ * SCRIPT ENGINE - Character Report Service
+ *
+ * Per-character dialogue and presence statistics from the parsed script:
+ * speeches, dialogue words and share, scenes spoken in and present in
+ * (named in the action), first and last appearance, and the longest speech.
+ * Helps spot underwritten characters and see who carries the script.
+ */
+
+import { getBreakdownScenes, BreakdownScene } from './breakdownService';
+import { parseFountain } from './scriptImportService';
+import { createNamePattern } from './characterRenameService';
+import { toCsv } from './downloadService';
+import { countWords } from './textUtils';
+import type { ProjectData } from '../types';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface SceneRef {
+  number: string;
+  heading: string;
+  page: number;
+}
+
+export interface LongestSpeech {
+  words: number;
+  text: string;
+  scene: SceneRef;
+}
+
+export interface CharacterStats {
+  name: string;
+  speeches: number;         // Dialogue blocks (one per cue)
+  words: number;            // Dialogue words, parentheticals excluded
+  share: number;            // Fraction of all dialogue words, 0-1
+  speakingScenes: string[]; // Scene numbers
+  scenes: string[];         // Scene numbers spoken in or named in the action
+  first?: SceneRef;
+  last?: SceneRef;
+  longestSpeech?: LongestSpeech;
+}
+
+export interface CharacterReport {
+  characters: CharacterStats[];
+  totalWords: number;
+  totalScenes: number;
+}
+
+// ============================================
+// REPORT
+// ============================================
+
+const sceneRef = (scene: BreakdownScene): SceneRef => ({ number: scene.number, heading: scene.scene.heading, page: scene.startPage });
+
+interface Speech {
+  character: string;
+  text: string;
+}
+
+/**
+ * Speeches of a scene: each cue with the dialogue that follows it
+ */
+const sceneSpeeches = (scene: BreakdownScene): Speech[] => {
+  const speeches: Speech[] = [];
+  scene.scene.content.forEach(el => {
+    if (el.type === 'character' && el.character) {
+      speeches.push({ character: el.character.toUpperCase(), text: '' });
+    } else if (el.type === 'dialogue' && el.character) {
+      const speech = [...speeches].reverse().find(s => s.character === el.character!.toUpperCase());
+      if (speech) speech.text = speech.text ? `${speech.text} ${el.content}` : el.content;
+    }
+  });
+  return speeches;
+};
+
+/**
+ * Everyone with a cue, a profile or a cast list entry, one per name
+ */
+export const getReportCharacters = (data: ProjectData): string[] => {
+  const names = [
+    ...parseFountain(data.scriptContent || '').characters,
+    ...(data.characterProfiles || []).map(p => p.name),
+    ...data.characters,
+  ];
+  return Array.from(new Set(names.map(name => name.trim().toUpperCase()).filter(Boolean)));
+};
+
+export const buildCharacterReport = (data: ProjectData): CharacterReport => {
+  const scenes = getBreakdownScenes(data);
+  const names = getReportCharacters(data);
+  const perScene = scenes.map(scene => ({
+    scene,
+    speeches: sceneSpeeches(scene),
+    action: scene.scene.content.filter(el => el.type === 'action').map(el => el.content).join('\n'),
+  }));
+
+  const characters = names.map(name => {
+    const mention = createNamePattern(name, '');
+    const stats: CharacterStats = { name, speeches: 0, words: 0, share: 0, speakingScenes: [], scenes: [] };
+
+    perScene.forEach(({ scene, speeches, action }) => {
+      const own = speeches.filter(s => s.character === name);
+      const present = own.length > 0 || !!mention?.test(action);
+      if (!present) return;
+
+      stats.scenes.push(scene.number);
+      if (own.length) stats.speakingScenes.push(scene.number);
+      if (!stats.first) stats.first = sceneRef(scene);
+      stats.last = sceneRef(scene);
+
+      own.forEach(speech => {
+        const words = countWords(speech.text);
+        stats.speeches++;
+        stats.words += words;
+        if (!stats.longestSpeech || words > stats.longestSpeech.words) {
+          stats.longestSpeech = { words, text: speech.text, scene: sceneRef(scene) };
+        }
+      });
+    });
+    return stats;
+  });
+
+  const totalWords = characters.reduce((sum, c) => sum + c.words, 0);
+  characters.forEach(c => {
+    c.share = totalWords ? c.words / totalWords : 0;
+  });
+  characters.sort((a, b) => b.words - a.words || b.scenes.length - a.scenes.length || a.name.localeCompare(b.name));
+
+  return { characters, totalWords, totalScenes: scenes.length };
+};
+
+export const formatShare = (share: number) => `${(share * 100).toFixed(1)}%`;
+
+const formatRef = (ref?: SceneRef) => (ref ? `Sc ${ref.number} (p.${ref.page}) ${ref.heading}` : '');
+
+// ============================================
+// EXPORT
+// ============================================
+
+export const characterReportToCSV = (report: CharacterReport): string => {
+  const header = [
+    'Character', 'Speeches', 'Words', 'Share of Dialogue', 'Speaking Scenes', 'Scenes Present',
+    'First Appearance', 'Last Appearance', 'Longest Speech (words)', 'Longest Speech',
+  ];
+  const rows = report.characters.map(c => [
+    c.name,
+    c.speeches,
+    c.words,
+    formatShare(c.share),
+    c.speakingScenes.length,
+    c.scenes.length,
+    formatRef(c.first),
+    formatRef(c.last),
+    c.longestSpeech?.words ?? 0,
+    c.longestSpeech?.text ?? '',
+  ]);
+  return toCsv([header, ...rows]);
+};
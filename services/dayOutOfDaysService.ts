@@ -0,0 +1,171 @@
+/**
+ * SCRIPT ENGINE - Day Out of Days Service
+ *
+ * Cast Day-Out-of-Days (DOOD) matrix built from the shooting schedule:
+ * one row per character, one column per shoot day, coded
+ *   SW  - start work (first day)      W  - work
+ *   WF  - work finish (last day)      H  - hold (paid, not working)
+ *   SWF - start and finish on the same day
+ * with work, hold and total day counts. Exports as CSV and a printable grid.
+ */
+
+import { parseFountain } from './scriptImportService';
+import { Strip, castNumbers, shootDayDates, formatShootDate } from './scheduleService';
+import { escapeHtml, renderPrintableHtml } from './htmlExportService';
+import { toCsv } from './downloadService';
+import type { ProjectData, ShootingSchedule } from '../types';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type DoodCode = 'SW' | 'W' | 'WF' | 'SWF' | 'H' | '';
+
+export interface DoodRow {
+  name: string;
+  number?: number;  // Cast number from the stripboard
+  codes: DoodCode[]; // One per shoot day
+  work: number;
+  hold: number;
+  total: number;    // Start to finish, inclusive
+  start?: number;   // Index of the first work day
+  finish?: number;  // Index of the last work day
+}
+
+export interface DayOutOfDays {
+  days: { label: string; date?: string }[];
+  rows: DoodRow[];
+}
+
+export const DOOD_CODE_LABELS: Record<Exclude<DoodCode, ''>, string> = {
+  SW: 'Start Work',
+  W: 'Work',
+  WF: 'Work Finish',
+  SWF: 'Start / Work / Finish',
+  H: 'Hold',
+};
+
+// ============================================
+// MATRIX
+// ============================================
+
+/**
+ * Characters from the script's cues and the character profiles, one per
+ * name regardless of case
+ */
+export const getDoodCharacters = (data: ProjectData): string[] => {
+  const names = [
+    ...parseFountain(data.scriptContent || '').characters,
+    ...(data.characterProfiles || []).map(p => p.name),
+  ];
+  return Array.from(new Set(names.map(name => name.trim().toUpperCase()).filter(Boolean)));
+};
+
+const codeFor = (day: number, start: number, finish: number, works: boolean): DoodCode => {
+  if (day < start || day > finish) return '';
+  if (start === finish) return 'SWF';
+  if (day === start) return 'SW';
+  if (day === finish) return 'WF';
+  return works ? 'W' : 'H';
+};
+
+export const buildDayOutOfDays = (characters: string[], strips: Strip[], schedule: ShootingSchedule): DayOutOfDays => {
+  const stripsById = new Map(strips.map(s => [s.id, s]));
+  const numbers = castNumbers(strips);
+  const dates = shootDayDates(schedule);
+
+  // Characters working each day
+  const working = schedule.days.map(day => new Set(
+    day.sceneIds.flatMap(id => stripsById.get(id)?.cast.map(name => name.toUpperCase()) || [])
+  ));
+
+  const rows = characters.map(name => {
+    const key = name.toUpperCase();
+    const workDays = working.map((cast, i) => (cast.has(key) ? i : -1)).filter(i => i !== -1);
+    if (!workDays.length) {
+      return { name, number: numbers.get(key), codes: working.map(() => '' as DoodCode), work: 0, hold: 0, total: 0 };
+    }
+
+    const start = workDays[0];
+    const finish = workDays[workDays.length - 1];
+    const codes = working.map((cast, i) => codeFor(i, start, finish, cast.has(key)));
+    return {
+      name,
+      number: numbers.get(key),
+      codes,
+      work: workDays.length,
+      hold: codes.filter(code => code === 'H').length,
+      total: finish - start + 1,
+      start,
+      finish,
+    };
+  });
+
+  // Numbered cast first, in board order, then anyone who never works
+  rows.sort((a, b) => (a.number ?? Infinity) - (b.number ?? Infinity) || a.name.localeCompare(b.name));
+
+  return {
+    days: schedule.days.map((_, i) => ({ label: `Day ${i + 1}`, date: dates[i] })),
+    rows,
+  };
+};
+
+// ============================================
+// EXPORT
+// ============================================
+
+const dayHeading = (day: { label: string; date?: string }) => (day.date ? `${day.label} (${day.date})` : day.label);
+
+export const dayOutOfDaysToCSV = (dood: DayOutOfDays): string => {
+  const header = ['#', 'Character', ...dood.days.map(dayHeading), 'Work', 'Hold', 'Total', 'Start', 'Finish'];
+  const rows = dood.rows.map(row => [
+    row.number ?? '',
+    row.name,
+    ...row.codes,
+    row.work,
+    row.hold,
+    row.total,
+    row.start !== undefined ? dood.days[row.start].label : '',
+    row.finish !== undefined ? dood.days[row.finish].label : '',
+  ]);
+  return toCsv([header, ...rows]);
+};
+
+const GRID_CSS = `
+  @page { size: letter landscape; }
+  h1 { font-size: 16px; letter-spacing: 2px; margin-bottom: 8px; }
+  th, td { text-align: center; padding: 2px 4px; }
+  th.name, td.name { text-align: left; white-space: nowrap; }
+  th small { display: block; font-weight: normal; font-size: 8px; }
+  td.code-SW, td.code-SWF { background: #c8e6c9; font-weight: bold; }
+  td.code-W { background: #e8f5e9; }
+  td.code-WF { background: #ffcdd2; font-weight: bold; }
+  td.code-H { background: #fff9c4; }
+  .key { margin-top: 8px; font-size: 9px; }
+`;
+
+/**
+ * Printable DOOD grid (landscape)
+ */
+export const renderDayOutOfDaysHTML = (title: string, dood: DayOutOfDays): string => {
+  const head = dood.days.map(day =>
+    `<th>${escapeHtml(day.label.replace('Day ', ''))}${day.date ? `<small>${escapeHtml(formatShootDate(day.date))}</small>` : ''}</th>`
+  ).join('');
+  const body = dood.rows.map(row =>
+    `<tr><td>${row.number ?? ''}</td><td class="name">${escapeHtml(row.name)}</td>${
+      row.codes.map(code => `<td class="code-${code}">${code}</td>`).join('')
+    }<td>${row.work}</td><td>${row.hold}</td><td>${row.total}</td></tr>`
+  ).join('\n');
+  const key = Object.entries(DOOD_CODE_LABELS).map(([code, label]) => `<b>${code}</b> ${label}`).join(' &middot; ');
+
+  return renderPrintableHtml(
+    `${title} - Day Out of Days`,
+    `<h1>DAY OUT OF DAYS - ${escapeHtml(title)}</h1>
+<table>
+<tr><th>#</th><th class="name">Character</th>${head}<th>Work</th><th>Hold</th><th>Total</th></tr>
+${body}
+</table>
+<p class="key">${key}</p>`,
+    GRID_CSS
+  );
+};
@@ -0,0 +1,148 @@
+/**
+ * SCRIPT ENGINE - Diff Service
+ *
+ * Line-level diff (Myers' O(ND) algorithm) shared by revision tracking,
+ * snapshot comparison and draft merging. Common leading and trailing
+ * lines are trimmed first, so typical script edits diff in a few
+ * milliseconds even on feature-length scripts.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export type DiffOpType = 'equal' | 'insert' | 'delete' | 'replace';
+
+/**
+ * One run of the diff. Ranges are half-open line indexes:
+ * a[aStart, aEnd) in the old text became b[bStart, bEnd) in the new one.
+ */
+export interface DiffOp {
+  type: DiffOpType;
+  aStart: number;
+  aEnd: number;
+  bStart: number;
+  bEnd: number;
+}
+
+// ============================================
+// DIFF
+// ============================================
+
+/**
+ * Matched (aIndex, bIndex) pairs of a longest common subsequence, in order
+ */
+const myersMatches = (a: string[], b: string[]): [number, number][] => {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  if (!max) return [];
+
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    let done = false;
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        done = true;
+        break;
+      }
+    }
+    // Only diagonals -d..d are live at step d
+    trace.push(v.slice(offset - d, offset + d + 1));
+    if (done) break;
+  }
+
+  const matches: [number, number][] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d > 0; d--) {
+    const prev = trace[d - 1];
+    const at = (k: number) => prev[k + d - 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      matches.push([--x, --y]);
+    }
+    x = prevX;
+    y = prevY;
+  }
+  while (x > 0 && y > 0) matches.push([--x, --y]);
+
+  return matches.reverse();
+};
+
+/**
+ * Diff two lists of lines into equal / insert / delete / replace runs
+ */
+export const diffLines = (a: string[], b: string[]): DiffOp[] => {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const middle = myersMatches(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix))
+    .map(([i, j]) => [i + prefix, j + prefix] as [number, number]);
+  const matches: [number, number][] = [
+    ...Array.from({ length: prefix }, (_, i) => [i, i] as [number, number]),
+    ...middle,
+    ...Array.from({ length: suffix }, (_, i) => [a.length - suffix + i, b.length - suffix + i] as [number, number]),
+  ];
+
+  const ops: DiffOp[] = [];
+  const push = (type: DiffOpType, aStart: number, aEnd: number, bStart: number, bEnd: number) => {
+    const last = ops[ops.length - 1];
+    if (last && last.type === type && last.aEnd === aStart && last.bEnd === bStart) {
+      last.aEnd = aEnd;
+      last.bEnd = bEnd;
+    } else {
+      ops.push({ type, aStart, aEnd, bStart, bEnd });
+    }
+  };
+
+  let ai = 0;
+  let bi = 0;
+  [...matches, [a.length, b.length] as [number, number]].forEach(([am, bm]) => {
+    if (am > ai && bm > bi) push('replace', ai, am, bi, bm);
+    else if (am > ai) push('delete', ai, am, bi, bi);
+    else if (bm > bi) push('insert', ai, ai, bi, bm);
+    if (am < a.length && bm < b.length) push('equal', am, am + 1, bm, bm + 1);
+    ai = am + 1;
+    bi = bm + 1;
+  });
+  return ops;
+};
+
+export const diffText = (a: string, b: string): DiffOp[] => diffLines(a.split('\n'), b.split('\n'));
+
+/**
+ * Where each old line ended up in the new text. Removed lines map to the
+ * line that now follows the gap and rewritten lines to the start of their
+ * replacement, so positions anchored to them still land in the right place.
+ */
+export const mapLinesForward = (ops: DiffOp[], aLength: number): number[] => {
+  const map = new Array<number>(aLength);
+  ops.forEach(op => {
+    for (let i = op.aStart; i < op.aEnd; i++) {
+      map[i] = op.type === 'equal' ? op.bStart + (i - op.aStart) : op.bStart;
+    }
+  });
+  return map;
+};
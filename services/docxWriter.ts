@@ -0,0 +1,269 @@
+/**
+ * SCRIPT ENGINE - DOCX Writer
+ *
+ * Minimal Word (.docx) generator for paragraphs and tables: just enough
+ * WordprocessingML to open cleanly in Word, Pages and Google Docs. The
+ * package is a ZIP written uncompressed ("stored"), so no deflate code is
+ * needed.
+ *
+ * Sizes are in points; widths in inches.
+ */
+
+import { escapeXml } from './fdxExportService';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface DocxRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+}
+
+export interface DocxParagraph {
+  type: 'paragraph';
+  runs: DocxRun[];
+  align?: 'left' | 'center' | 'right';
+  size?: number;
+  spaceAfter?: number; // points
+  indent?: number;     // Left indent, inches
+  pageBreakBefore?: boolean;
+}
+
+export interface DocxCell {
+  paragraphs: DocxParagraph[];
+  span?: number;  // Columns this cell covers
+  shade?: string; // #rrggbb background
+}
+
+export interface DocxTable {
+  type: 'table';
+  columns: number[];   // Column widths, inches
+  rows: DocxCell[][];
+  headerRows?: number; // Leading rows repeated on every page
+  borders?: boolean;   // Defaults to true; false lays text out in columns
+}
+
+export type DocxBlock = DocxParagraph | DocxTable;
+
+export interface DocxOptions {
+  font?: string;
+  size?: number;    // Default text size, points
+  margins?: number; // inches
+}
+
+const TWIPS_PER_INCH = 1440;
+
+// ============================================
+// ZIP (STORED)
+// ============================================
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const zipStored = (files: { name: string; content: string }[]): Uint8Array => {
+  const encoder = new TextEncoder();
+  const local: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  files.forEach(file => {
+    const name = encoder.encode(file.name);
+    const data = encoder.encode(file.content);
+    const crc = crc32(data);
+
+    const header = new Uint8Array(30 + name.length);
+    const h = new DataView(header.buffer);
+    h.setUint32(0, 0x04034b50, true);
+    h.setUint16(4, 20, true);         // Version needed
+    h.setUint16(8, 0, true);          // Stored
+    h.setUint16(12, 0x21, true);      // 1980-01-01
+    h.setUint32(14, crc, true);
+    h.setUint32(18, data.length, true);
+    h.setUint32(22, data.length, true);
+    h.setUint16(26, name.length, true);
+    header.set(name, 30);
+    local.push(header, data);
+
+    const entry = new Uint8Array(46 + name.length);
+    const e = new DataView(entry.buffer);
+    e.setUint32(0, 0x02014b50, true);
+    e.setUint16(4, 20, true);
+    e.setUint16(6, 20, true);
+    e.setUint16(14, 0x21, true);
+    e.setUint32(16, crc, true);
+    e.setUint32(20, data.length, true);
+    e.setUint32(24, data.length, true);
+    e.setUint16(28, name.length, true);
+    e.setUint32(42, offset, true);
+    entry.set(name, 46);
+    central.push(entry);
+
+    offset += header.length + data.length;
+  });
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+  const end = new Uint8Array(22);
+  const d = new DataView(end.buffer);
+  d.setUint32(0, 0x06054b50, true);
+  d.setUint16(8, files.length, true);
+  d.setUint16(10, files.length, true);
+  d.setUint32(12, centralSize, true);
+  d.setUint32(16, offset, true);
+
+  const parts = [...local, ...central, end];
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let at = 0;
+  parts.forEach(part => {
+    out.set(part, at);
+    at += part.length;
+  });
+  return out;
+};
+
+// ============================================
+// WORDPROCESSINGML
+// ============================================
+
+const runXml = (run: DocxRun, size?: number): string => {
+  const props = [
+    run.bold ? '<w:b/>' : '',
+    run.italic ? '<w:i/>' : '',
+    run.underline ? '<w:u w:val="single"/>' : '',
+    size ? `<w:sz w:val="${size * 2}"/>` : '',
+  ].join('');
+  // Line breaks inside a run become <w:br/>
+  const text = run.text.split('\n').map(part => `<w:t xml:space="preserve">${escapeXml(part)}</w:t>`).join('<w:br/>');
+  return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}${text}</w:r>`;
+};
+
+const paragraphXml = (p: DocxParagraph): string => {
+  const props = [
+    p.pageBreakBefore ? '<w:pageBreakBefore/>' : '',
+    `<w:spacing w:after="${Math.round((p.spaceAfter ?? 0) * 20)}"/>`,
+    p.indent ? `<w:ind w:left="${Math.round(p.indent * TWIPS_PER_INCH)}"/>` : '',
+    p.align && p.align !== 'left' ? `<w:jc w:val="${p.align}"/>` : '',
+  ].join('');
+  return `<w:p><w:pPr>${props}</w:pPr>${p.runs.map(run => runXml(run, p.size)).join('')}</w:p>`;
+};
+
+const tableXml = (table: DocxTable): string => {
+  const widths = table.columns.map(w => Math.round(w * TWIPS_PER_INCH));
+  const border = (side: string) =>
+    table.borders === false ? `<w:${side} w:val="nil"/>` : `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="999999"/>`;
+  const rows = table.rows.map((row, r) => {
+    let column = 0;
+    const cells = row.map(cell => {
+      const span = cell.span || 1;
+      const width = widths.slice(column, column + span).reduce((sum, w) => sum + w, 0);
+      column += span;
+      const props = [
+        `<w:tcW w:w="${width}" w:type="dxa"/>`,
+        span > 1 ? `<w:gridSpan w:val="${span}"/>` : '',
+        cell.shade ? `<w:shd w:val="clear" w:color="auto" w:fill="${cell.shade.replace('#', '')}"/>` : '',
+      ].join('');
+      // A cell must hold at least one paragraph
+      const paragraphs = cell.paragraphs.length ? cell.paragraphs : [{ type: 'paragraph' as const, runs: [] }];
+      return `<w:tc><w:tcPr>${props}</w:tcPr>${paragraphs.map(paragraphXml).join('')}</w:tc>`;
+    });
+    const header = r < (table.headerRows || 0) ? '<w:trPr><w:tblHeader/><w:cantSplit/></w:trPr>' : '<w:trPr><w:cantSplit/></w:trPr>';
+    return `<w:tr>${header}${cells.join('')}</w:tr>`;
+  });
+
+  return [
+    '<w:tbl><w:tblPr>',
+    `<w:tblW w:w="${widths.reduce((sum, w) => sum + w, 0)}" w:type="dxa"/>`,
+    `<w:tblBorders>${['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(border).join('')}</w:tblBorders>`,
+    '<w:tblLayout w:type="fixed"/>',
+    '<w:tblCellMar><w:left w:w="80" w:type="dxa"/><w:right w:w="80" w:type="dxa"/></w:tblCellMar>',
+    '</w:tblPr>',
+    `<w:tblGrid>${widths.map(w => `<w:gridCol w:w="${w}"/>`).join('')}</w:tblGrid>`,
+    ...rows,
+    '</w:tbl>',
+  ].join('');
+};
+
+const NS = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+
+const documentXml = (blocks: DocxBlock[], options: DocxOptions): string => {
+  const margin = Math.round((options.margins ?? 1) * TWIPS_PER_INCH);
+  const body = blocks.map(block => (block.type === 'table' ? tableXml(block) : paragraphXml(block))).join('');
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    `<w:document ${NS}><w:body>`,
+    body,
+    // Word needs a paragraph after a trailing table
+    blocks[blocks.length - 1]?.type === 'table' ? '<w:p/>' : '',
+    `<w:sectPr><w:pgSz w:w="${8.5 * TWIPS_PER_INCH}" w:h="${11 * TWIPS_PER_INCH}"/>`,
+    `<w:pgMar w:top="${margin}" w:right="${margin}" w:bottom="${margin}" w:left="${margin}" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr>`,
+    '</w:body></w:document>',
+  ].join('');
+};
+
+const stylesXml = (options: DocxOptions): string => {
+  const font = escapeXml(options.font || 'Courier New');
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    `<w:styles ${NS}><w:docDefaults><w:rPrDefault><w:rPr>`,
+    `<w:rFonts w:ascii="${font}" w:hAnsi="${font}" w:cs="${font}"/>`,
+    `<w:sz w:val="${(options.size || 12) * 2}"/>`,
+    '</w:rPr></w:rPrDefault></w:docDefaults></w:styles>',
+  ].join('');
+};
+
+// ============================================
+// DOCUMENT
+// ============================================
+
+/**
+ * A paragraph of one plain (or italic) run
+ */
+export const textParagraph = (text: string, extra: Partial<DocxParagraph> = {}, italic = false): DocxParagraph =>
+  ({ type: 'paragraph', runs: [italic ? { text, italic } : { text }], ...extra });
+
+export const createDocx = (blocks: DocxBlock[], options: DocxOptions = {}): Blob => {
+  const files = [
+    {
+      name: '[Content_Types].xml',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+        '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>' +
+        '</Types>',
+    },
+    {
+      name: '_rels/.rels',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>' +
+        '</Relationships>',
+    },
+    {
+      name: 'word/_rels/document.xml.rels',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+        '</Relationships>',
+    },
+    { name: 'word/document.xml', content: documentXml(blocks, options) },
+    { name: 'word/styles.xml', content: stylesXml(options) },
+  ];
+  return new Blob([zipStored(files)], { type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' });
+};
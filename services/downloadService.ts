@@ -0,0 +1,39 @@
+/**
+ * SCRIPT ENGINE - Download Service
+ *
+ * Saves generated exports (scripts, reports, sheets) to the user's machine.
+ */
+
+/**
+ * Build a filesystem-friendly base name from a project title
+ */
+export const toFileBaseName = (title: string): string =>
+  (title || 'Untitled').trim().replace(/[\\/:*?"<>|]+/g, '').replace(/\s+/g, '_');
+
+/**
+ * Trigger a browser download for generated content
+ */
+export const downloadFile = (content: BlobPart, filename: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Serialise rows as RFC 4180 CSV, quoting only where needed
+ */
+export const toCsv = (rows: (string | number)[][]): string =>
+  rows
+    .map(row => row
+      .map(cell => {
+        const value = String(cell);
+        return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+      })
+      .join(','))
+    .join('\r\n') + '\r\n';
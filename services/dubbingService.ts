@@ -0,0 +1,227 @@
+/**
+ * SCRIPT ENGINE - Dubbing Service
+ *
+ * Dubbing and ADR adaptation of a translation. A dubbed line has to fit
+ * the mouth movements of the original performance, so each spoken line
+ * of the translation (the dialogue units, with their speakers taken from
+ * the parsed script) is measured against the original in syllables.
+ * Lines that miss by more than DUB_TOLERANCE are flagged, and an
+ * adaptation pass through Gemini rewrites them to length.
+ *
+ * Adaptations are kept on the unit next to the translation (`dub`), so
+ * the faithful translation survives for subtitles and the bilingual
+ * export while the dub script is built from the fitted lines.
+ */
+
+import { adaptDubbingLines } from './geminiService';
+import { translationContext } from './translationService';
+import { toCsv } from './downloadService';
+import type { ProjectData, ScriptTranslation, TranslationUnit } from '../types';
+
+// A line fits when it is within this many syllables of the original, or
+// this share of its length on long lines
+export const DUB_TOLERANCE = { syllables: 2, ratio: 0.1 };
+
+const BATCH_LINES = 30;
+
+export interface DubLine {
+  index: number; // Unit in the translation
+  speaker: string;
+  original: string;
+  originalSyllables: number;
+  line: string; // Adaptation if there is one, otherwise the translation
+  words: string; // The same as written, for editing
+  syllables: number;
+  delta: number; // Syllables over (+) or under (-) the original
+  fits: boolean;
+  adapted: boolean;
+}
+
+// ============================================
+// SYLLABLES
+// ============================================
+
+// Han characters and Hangul blocks are a syllable each; kana a mora each,
+// except the small kana that join the one before
+const CJK = /[㐀-鿿豈-﫿가-힯]/g;
+const KANA = /[ぁ-ゖァ-ヺー]/g;
+const SMALL_KANA = /[ぁぃぅぇぉゃゅょゎァィゥェォャュョヮ]/g;
+const VOWEL_GROUPS = /[aeiouyàáâãäåæèéêëìíîïıòóôõöøùúûüýÿœąęěůиаеёоуыэюяіїєαεηιουωάέήίόύώ]+/g;
+// Devanagari: an akshara is a consonant or an independent vowel, and a
+// virama joins its consonant into the next one
+const AKSHARA = /[\u0904-\u0939\u0958-\u0961\u0972-\u097F]/g;
+const VIRAMA = /\u094D/g;
+// Arabic and Hebrew leave most vowels unwritten, so count a syllable for
+// every two letters: كتاب and שלום both come out at two
+const ABJAD = /[\u05D0-\u05EA\u0620-\u064A\u066E-\u06D3]/g;
+
+const silentEndings = (language: string): RegExp | null => {
+  if (/english/i.test(language)) return /(?:[^l]e|[^aeiouy]es|[^td]ed)$/;
+  if (/french/i.test(language)) return /(?:e|es|ent)$/;
+  return null;
+};
+
+/**
+ * Rough syllable count of a line. Good enough to compare a dub with its
+ * original, not a phonetic analysis: vowel groups, less the endings that
+ * go unspoken in English and French, with estimates for the scripts that
+ * don't write their vowels as letters.
+ */
+export const countSyllables = (text: string, language = 'English'): number => {
+  const silent = silentEndings(language);
+  const words: string[] = text.toLowerCase().match(/[\p{L}\p{M}\p{N}']+/gu) || [];
+  return words.reduce((total, word) => {
+    const cjk = (word.match(CJK) || []).length;
+    const kana = (word.match(KANA) || []).length - (word.match(SMALL_KANA) || []).length;
+    if (cjk || kana) return total + cjk + kana;
+    const aksharas = (word.match(AKSHARA) || []).length;
+    if (aksharas) return total + Math.max(1, aksharas - (word.match(VIRAMA) || []).length);
+    const abjad = (word.match(ABJAD) || []).length;
+    if (abjad) return total + Math.ceil(abjad / 2);
+    if (/^\d+$/.test(word)) return total + word.length;
+    const groups = (word.match(VOWEL_GROUPS) || []).length;
+    if (!groups) return total;
+    return total + Math.max(1, groups - (groups > 1 && silent?.test(word) ? 1 : 0));
+  }, 0);
+};
+
+/**
+ * A unit's text without the label or brackets carried around it
+ */
+const unitWords = (unit: TranslationUnit, text: string): string => {
+  let words = text;
+  if (unit.prefix && words.startsWith(unit.prefix)) words = words.slice(unit.prefix.length);
+  if (unit.suffix && words.endsWith(unit.suffix)) words = words.slice(0, -unit.suffix.length);
+  return words;
+};
+
+/**
+ * The words a unit's text says aloud: without its label or brackets,
+ * asides in parentheses, notes or emphasis markup
+ */
+export const spokenText = (unit: TranslationUnit, text: string): string =>
+  unitWords(unit, text)
+    .replace(/\[\[[\s\S]*?\]\]/g, ' ')
+    .replace(/\([^)]*\)/g, ' ')
+    .replace(/[*_~]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+export const sourceLanguageOf = (translation: ScriptTranslation): string => translation.sourceLanguage?.trim() || 'English';
+
+export const fitsOriginal = (originalSyllables: number, syllables: number): boolean =>
+  Math.abs(syllables - originalSyllables) <= Math.max(DUB_TOLERANCE.syllables, Math.round(originalSyllables * DUB_TOLERANCE.ratio));
+
+// ============================================
+// LINES
+// ============================================
+
+export const dubLines = (translation: ScriptTranslation): DubLine[] =>
+  translation.units.flatMap((unit, index): DubLine[] => {
+    if (unit.kind !== 'dialogue' || !unit.speaker) return [];
+    const original = spokenText(unit, unit.source);
+    if (!original) return [];
+    const words = unitWords(unit, unit.dub ?? unit.target);
+    const line = spokenText(unit, words);
+    const originalSyllables = countSyllables(original, sourceLanguageOf(translation));
+    const syllables = countSyllables(line, translation.language);
+    return [{
+      index,
+      speaker: unit.speaker,
+      original,
+      originalSyllables,
+      line,
+      words,
+      syllables,
+      delta: syllables - originalSyllables,
+      fits: fitsOriginal(originalSyllables, syllables),
+      adapted: unit.dub !== undefined,
+    }];
+  });
+
+/**
+ * Sets (or, given null, drops) the adaptation of a unit. The unit's label
+ * and brackets go back around the words; a dubbed line stays one line.
+ */
+export const setUnitDub = (translation: ScriptTranslation, index: number, words: string | null): ScriptTranslation => ({
+  ...translation,
+  units: translation.units.map((unit, i) => {
+    if (i !== index) return unit;
+    const { dub, ...rest } = unit;
+    return words === null ? rest : { ...rest, dub: `${unit.prefix || ''}${words.replace(/\s*\n\s*/g, ' ')}${unit.suffix || ''}` };
+  }),
+  updatedAt: Date.now(),
+});
+
+export const setSourceLanguage = (translation: ScriptTranslation, language: string): ScriptTranslation => ({
+  ...translation,
+  sourceLanguage: language,
+  updatedAt: Date.now(),
+});
+
+export const dubbedScript = (translation: ScriptTranslation): string => translation.units.map(u => u.dub ?? u.target).join('\n');
+
+// ============================================
+// ADAPTATION
+// ============================================
+
+/**
+ * Rewrites spoken lines to the original's length: the lines that miss, or
+ * every spoken line when `all` is set
+ */
+export const adaptForDubbing = async (
+  data: ProjectData,
+  translation: ScriptTranslation,
+  all = false,
+  onProgress?: (done: number, total: number) => void,
+): Promise<ScriptTranslation> => {
+  const lines = dubLines(translation).filter(line => all || !line.fits);
+  const batches: DubLine[][] = [];
+  for (let i = 0; i < lines.length; i += BATCH_LINES) batches.push(lines.slice(i, i + BATCH_LINES));
+
+  let adapted = translation;
+  const context = translationContext(data);
+  onProgress?.(0, batches.length);
+  for (let b = 0; b < batches.length; b++) {
+    const json = await adaptDubbingLines(
+      batches[b].map(line => ({ id: String(line.index), original: line.original, translation: line.line, syllables: line.originalSyllables })),
+      translation.language,
+      context,
+    );
+    let result: Record<string, unknown> = {};
+    try {
+      result = JSON.parse(json);
+    } catch (e) {
+      console.error('Unreadable adaptation batch', e);
+    }
+    batches[b].forEach(line => {
+      const text = result[String(line.index)];
+      if (typeof text === 'string' && text.trim()) adapted = setUnitDub(adapted, line.index, text.trim());
+    });
+    onProgress?.(b + 1, batches.length);
+  }
+  return adapted;
+};
+
+// ============================================
+// DUB SHEET
+// ============================================
+
+/**
+ * Every spoken line with its length against the original, for the
+ * dubbing studio
+ */
+export const buildDubSheet = (translation: ScriptTranslation): string => {
+  const header = ['#', 'Character', `Original (${sourceLanguageOf(translation)})`, 'Syllables', translation.language, 'Syllables', 'Delta', 'Fits'];
+  const rows = dubLines(translation).map((line, i) => [
+    i + 1,
+    line.speaker,
+    line.original,
+    line.originalSyllables,
+    line.line,
+    line.syllables,
+    line.delta > 0 ? `+${line.delta}` : String(line.delta),
+    line.fits ? 'yes' : 'MISS',
+  ]);
+  return toCsv([header, ...rows]);
+};
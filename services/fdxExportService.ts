@@ -0,0 +1,175 @@
+/**
+ * SCRIPT ENGINE - Final Draft Export Service
+ *
+ * Writes Fountain script content as a Final Draft (.fdx) document:
+ * title page, scene numbers, emphasis runs and dual dialogue.
+ * Output round-trips through parseFDX in scriptImportService.
+ */
+
+import {
+  parseFountainDocument,
+  parseInlineMarkup,
+  stripInlineMarkup,
+  getTitlePageValue,
+  FountainDocument,
+  FountainElement,
+} from './fountainParser';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface FDXExportOptions {
+  title?: string; // Used when the script has no Fountain title page
+  authors?: string[];
+  numberScenes?: boolean; // Number scenes sequentially when the script has no #numbers#
+}
+
+const PARAGRAPH_TYPES: Partial<Record<FountainElement['type'], string>> = {
+  scene_heading: 'Scene Heading',
+  action: 'Action',
+  character: 'Character',
+  dialogue: 'Dialogue',
+  parenthetical: 'Parenthetical',
+  transition: 'Transition',
+  centered: 'Action',
+  lyrics: 'Dialogue',
+};
+
+// ============================================
+// XML HELPERS
+// ============================================
+
+export const escapeXml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const textRuns = (text: string): string =>
+  parseInlineMarkup(text)
+    .map(span => {
+      const styles = [span.bold && 'Bold', span.italic && 'Italic', span.underline && 'Underline'].filter(Boolean);
+      const styleAttr = styles.length ? ` Style="${styles.join('+')}"` : '';
+      return `<Text${styleAttr}>${escapeXml(span.text)}</Text>`;
+    })
+    .join('');
+
+const paragraph = (type: string, text: string, attrs: Record<string, string | undefined> = {}): string => {
+  const attrText = Object.entries({ ...attrs, Type: type })
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ` ${key}="${escapeXml(value!)}"`)
+    .join('');
+  return `    <Paragraph${attrText}>${textRuns(text)}</Paragraph>`;
+};
+
+// ============================================
+// TITLE PAGE
+// ============================================
+
+const buildTitlePage = (doc: FountainDocument, options: FDXExportOptions): string => {
+  const title = getTitlePageValue(doc, 'Title') || options.title;
+  if (!title) return '';
+
+  const centered = (text: string) => `      <Paragraph Alignment="Center" Type="Action"><Text>${escapeXml(stripInlineMarkup(text))}</Text></Paragraph>`;
+  const left = (text: string) => `      <Paragraph Alignment="Left" Type="Action"><Text>${escapeXml(stripInlineMarkup(text))}</Text></Paragraph>`;
+  const blank = '      <Paragraph Type="Action"><Text></Text></Paragraph>';
+
+  const authorValue = getTitlePageValue(doc, 'Author', 'Authors');
+  const authors = authorValue ? authorValue.split('\n') : options.authors || [];
+  const rows: string[] = [];
+
+  title.split('\n').forEach(line => rows.push(centered(line)));
+  if (authors.length) {
+    rows.push(blank);
+    rows.push(centered(getTitlePageValue(doc, 'Credit') || 'Written by'));
+    authors.forEach(author => rows.push(centered(author)));
+  }
+
+  const source = getTitlePageValue(doc, 'Source');
+  if (source) {
+    rows.push(blank);
+    source.split('\n').forEach(line => rows.push(centered(line)));
+  }
+
+  ['Draft date', 'Contact', 'Copyright', 'Notes'].forEach(key => {
+    const value = getTitlePageValue(doc, key);
+    if (!value) return;
+    rows.push(blank);
+    value.split('\n').forEach(line => rows.push(left(line)));
+  });
+
+  return ['  <TitlePage>', '    <Content>', ...rows, '    </Content>', '  </TitlePage>'].join('\n');
+};
+
+// ============================================
+// BODY
+// ============================================
+
+const buildParagraph = (element: FountainElement, sceneIndex: number, options: FDXExportOptions, newPage: boolean): string => {
+  const type = PARAGRAPH_TYPES[element.type]!;
+  const attrs: Record<string, string | undefined> = {};
+
+  if (newPage) attrs.StartsNewPage = 'Yes';
+  if (element.type === 'centered') attrs.Alignment = 'Center';
+  if (element.type === 'scene_heading') {
+    attrs.Number = element.sceneNumber || (options.numberScenes ? String(sceneIndex) : undefined);
+  }
+
+  // Final Draft has no lyrics element: they go out as dialogue with the ~ kept, so import can read them back
+  const text = element.type === 'lyrics' ? element.text.split('\n').map(line => `~${line}`).join('\n') : element.text;
+  return paragraph(type, text, attrs);
+};
+
+/**
+ * Convert Fountain script content to a Final Draft XML document
+ */
+export const exportFDX = (script: string, options: FDXExportOptions = {}): string => {
+  const doc = parseFountainDocument(script);
+  const body: string[] = [];
+  let sceneIndex = 0;
+  let pendingPageBreak = false;
+  let dualGroup: string[] | null = null;
+
+  const flushDual = () => {
+    if (!dualGroup) return;
+    body.push('    <Paragraph>', '      <DualDialogue>', ...dualGroup.map(p => '    ' + p), '      </DualDialogue>', '    </Paragraph>');
+    dualGroup = null;
+  };
+
+  doc.elements.forEach(element => {
+    if (element.type === 'page_break') {
+      pendingPageBreak = true;
+      return;
+    }
+    if (!PARAGRAPH_TYPES[element.type]) return; // Non-printing
+
+    if (element.type === 'scene_heading') sceneIndex++;
+    const xml = buildParagraph(element, sceneIndex, options, pendingPageBreak);
+    pendingPageBreak = false;
+
+    if (element.dual) {
+      // A left-hand cue opens the next pair
+      if (element.type === 'character' && element.dual === 'left') flushDual();
+      if (!dualGroup) dualGroup = [];
+      dualGroup.push(xml);
+      return;
+    }
+
+    flushDual();
+    body.push(xml);
+  });
+  flushDual();
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="no" ?>',
+    '<FinalDraft DocumentType="Script" Template="No" Version="5">',
+    '  <Content>',
+    ...body,
+    '  </Content>',
+    buildTitlePage(doc, options),
+    '</FinalDraft>',
+  ].filter(Boolean).join('\n') + '\n';
+};
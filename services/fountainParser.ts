@@ -0,0 +1,470 @@
+/**
+ * SCRIPT ENGINE - Fountain Parser
+ *
+ * Fountain 1.1 parser (https://fountain.io/syntax) producing a typed
+ * screenplay AST. Every node carries the source line range it came from,
+ * so the editor, exports and analysis tools can share one model instead
+ * of regex-scanning scriptContent themselves.
+ */
+
+import { isParenthesized } from './textUtils';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type FountainElementType =
+  | 'scene_heading'
+  | 'action'
+  | 'character'
+  | 'dialogue'
+  | 'parenthetical'
+  | 'lyrics'
+  | 'transition'
+  | 'centered'
+  | 'section'
+  | 'synopsis'
+  | 'note'
+  | 'boneyard'
+  | 'page_break';
+
+export interface SourceRange {
+  startLine: number; // Zero-based, inclusive
+  endLine: number;   // Zero-based, inclusive
+}
+
+export interface FountainElement extends SourceRange {
+  type: FountainElementType;
+  text: string; // Emphasis markup preserved, forcing sigils removed
+  forced?: boolean;
+  sceneNumber?: string; // From a trailing #12A# on a scene heading
+  depth?: number; // Section level (count of leading #)
+  character?: string; // Speaker name for cues, dialogue, parentheticals and sung lyrics
+  extensions?: string[]; // V.O., O.S., CONT'D...
+  dual?: 'left' | 'right';
+  notes?: string[]; // Inline [[notes]] found inside this element
+}
+
+export interface TitlePageEntry extends SourceRange {
+  key: string;
+  value: string;
+}
+
+export interface FountainScene extends SourceRange {
+  index: number; // 1-based order in the script
+  heading: FountainElement;
+  elements: FountainElement[]; // Everything after the heading up to the next one
+}
+
+export interface FountainDocument {
+  titlePage: TitlePageEntry[];
+  elements: FountainElement[];
+  scenes: FountainScene[];
+  lineCount: number;
+}
+
+export interface InlineSpan {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+}
+
+// Non-printing elements never reach the page
+export const NON_PRINTING_TYPES: FountainElementType[] = ['section', 'synopsis', 'note', 'boneyard'];
+
+const SCENE_HEADING_PATTERN = /^(?:INT\.?\/EXT|INT\/EXT|I\/E|INT|EXT|EST)[.\s]/i;
+const SCENE_NUMBER_PATTERN = /\s*#([^#\s]+)#\s*$/;
+const TITLE_KEY_PATTERN = /^([A-Za-z][A-Za-z ]*):\s*(.*)$/;
+
+// ============================================
+// NON-PRINTING EXTRACTION
+// ============================================
+
+interface ExtractedBlock extends SourceRange {
+  text: string;
+}
+
+const countNewlines = (text: string) => (text.match(/\n/g) || []).length;
+
+/**
+ * Remove every match of `pattern` from `source`, keeping its newlines so
+ * line numbers of the remaining text stay aligned with the original.
+ */
+const extractBlocks = (source: string, pattern: RegExp): { text: string; blocks: ExtractedBlock[] } => {
+  const blocks: ExtractedBlock[] = [];
+  const text = source.replace(pattern, (match: string, inner: string, offset: number) => {
+    const startLine = countNewlines(source.slice(0, offset));
+    blocks.push({ text: inner.trim(), startLine, endLine: startLine + countNewlines(match) });
+    return match.replace(/[^\n]/g, '');
+  });
+  return { text, blocks };
+};
+
+// ============================================
+// LINE CLASSIFIERS
+// ============================================
+
+const splitCue = (cue: string): { name: string; extensions: string[] } => {
+  const extensions = Array.from(cue.matchAll(/\(([^)]*)\)/g)).map(m => m[1].trim());
+  const name = cue.replace(/\(.*$/, '').trim();
+  return { name, extensions };
+};
+
+export const isCharacterCue = (line: string): boolean => {
+  const { name } = splitCue(line.replace(/\s*\^$/, ''));
+  return /[A-Z]/.test(name) && name === name.toUpperCase() && !/^[!#=~>.]/.test(name);
+};
+
+// ============================================
+// DOCUMENT PARSER
+// ============================================
+
+const parseTitlePage = (lines: string[]): { entries: TitlePageEntry[]; bodyStart: number } => {
+  const entries: TitlePageEntry[] = [];
+  if (!lines.length || !TITLE_KEY_PATTERN.test(lines[0])) return { entries, bodyStart: 0 };
+
+  let i = 0;
+  for (; i < lines.length && lines[i].trim() !== ''; i++) {
+    const keyMatch = lines[i].match(TITLE_KEY_PATTERN);
+    const current = entries[entries.length - 1];
+
+    if (keyMatch && !/^(\s{3,}|\t)/.test(lines[i])) {
+      entries.push({ key: keyMatch[1].trim(), value: keyMatch[2].trim(), startLine: i, endLine: i });
+    } else if (current) {
+      // Indented continuation line
+      current.value = current.value ? `${current.value}\n${lines[i].trim()}` : lines[i].trim();
+      current.endLine = i;
+    }
+  }
+  return { entries, bodyStart: i };
+};
+
+/**
+ * Parse Fountain source into a FountainDocument.
+ *
+ * Scene headings are accepted without a trailing blank line, which model
+ * output appended through scriptAppend frequently omits.
+ */
+export const parseFountainDocument = (source: string): FountainDocument => {
+  const normalized = source.replace(/\r\n?/g, '\n');
+  const boneyard = extractBlocks(normalized, /\/\*([\s\S]*?)(?:\*\/|$)/g);
+  // A note may not span a blank line (a line of exactly two spaces is allowed),
+  // so a stray [[ can't swallow the paragraphs after it
+  const notes = extractBlocks(boneyard.text, /\[\[((?:(?!\n(?! {2}\n)[ \t]*\n)[\s\S])*?)\]\]/g);
+  const lines = notes.text.split('\n');
+  const sourceLines = normalized.split('\n');
+
+  const { entries: titlePage, bodyStart } = parseTitlePage(lines);
+  const elements: FountainElement[] = [];
+
+  // A line that held only a note or boneyard is skipped over, not a break:
+  // a whole-line note between a cue and its dialogue keeps them together
+  const isEmptied = (idx: number) => idx >= bodyStart && idx < lines.length && !lines[idx].trim() && lines[idx] !== sourceLines[idx];
+  // A line holding exactly two spaces is an intentional blank that does not end a block
+  const isBreak = (idx: number) =>
+    idx < bodyStart || idx >= lines.length || (lines[idx].trim() === '' && lines[idx] !== '  ' && !isEmptied(idx));
+  const step = (idx: number, by: 1 | -1) => {
+    let k = idx + by;
+    while (isEmptied(k)) k += by;
+    return k;
+  };
+
+  const push = (element: FountainElement) => {
+    elements.push(element);
+    return element;
+  };
+
+  let i = bodyStart;
+  while (i < lines.length) {
+    if (isBreak(i) || isEmptied(i)) { i++; continue; }
+
+    const line = lines[i].trim();
+    const prevBreak = isBreak(step(i, -1));
+    const nextBreak = isBreak(step(i, 1));
+
+    // Page break
+    if (/^={3,}$/.test(line)) {
+      push({ type: 'page_break', text: '', startLine: i, endLine: i });
+      i++;
+      continue;
+    }
+
+    // Section
+    const sectionMatch = line.match(/^(#+)\s*(.*)$/);
+    if (sectionMatch) {
+      push({ type: 'section', text: sectionMatch[2], depth: sectionMatch[1].length, startLine: i, endLine: i });
+      i++;
+      continue;
+    }
+
+    // Synopsis
+    if (/^=(?!=)/.test(line)) {
+      push({ type: 'synopsis', text: line.slice(1).trim(), startLine: i, endLine: i });
+      i++;
+      continue;
+    }
+
+    // Centered text
+    const centeredMatch = line.match(/^>\s*(.*?)\s*<$/);
+    if (centeredMatch) {
+      push({ type: 'centered', text: centeredMatch[1], startLine: i, endLine: i });
+      i++;
+      continue;
+    }
+
+    // Forced transition
+    if (line.startsWith('>')) {
+      push({ type: 'transition', text: line.slice(1).trim(), forced: true, startLine: i, endLine: i });
+      i++;
+      continue;
+    }
+
+    // Scene heading (forced with a single leading period)
+    const forcedHeading = /^\.[^.]/.test(line);
+    if (prevBreak && (forcedHeading || SCENE_HEADING_PATTERN.test(line))) {
+      let text = forcedHeading ? line.slice(1).trim() : line;
+      const numberMatch = text.match(SCENE_NUMBER_PATTERN);
+      if (numberMatch) text = text.slice(0, numberMatch.index).trim();
+      push({
+        type: 'scene_heading',
+        text,
+        forced: forcedHeading || undefined,
+        sceneNumber: numberMatch?.[1],
+        startLine: i,
+        endLine: i,
+      });
+      i++;
+      continue;
+    }
+
+    // Transition
+    if (prevBreak && nextBreak && line === line.toUpperCase() && /TO:$/.test(line)) {
+      push({ type: 'transition', text: line, startLine: i, endLine: i });
+      i++;
+      continue;
+    }
+
+    // Lyrics
+    if (line.startsWith('~')) {
+      const lyric = push({ type: 'lyrics', text: line.slice(1).trim(), forced: true, startLine: i, endLine: i });
+      for (i++; i < lines.length && !isBreak(i) && (isEmptied(i) || lines[i].trim().startsWith('~')); i++) {
+        if (isEmptied(i)) continue;
+        lyric.text += '\n' + lines[i].trim().slice(1).trim();
+        lyric.endLine = i;
+      }
+      continue;
+    }
+
+    // Character cue + dialogue block
+    const forcedCue = line.startsWith('@');
+    if (prevBreak && !nextBreak && !line.startsWith('!') && (forcedCue || isCharacterCue(line))) {
+      let cue = forcedCue ? line.slice(1).trim() : line;
+      const isDual = /\^$/.test(cue);
+      if (isDual) cue = cue.replace(/\s*\^$/, '');
+      const { name, extensions } = splitCue(cue);
+
+      const blockStart = elements.length;
+      push({
+        type: 'character',
+        text: cue,
+        character: name,
+        extensions: extensions.length ? extensions : undefined,
+        forced: forcedCue || undefined,
+        startLine: i,
+        endLine: i,
+      });
+
+      let j = i + 1;
+      for (; j < lines.length && !isBreak(j); j++) {
+        if (isEmptied(j)) continue;
+        const dialogueLine = lines[j].trim();
+        const last = elements[elements.length - 1];
+
+        if (isParenthesized(dialogueLine)) {
+          push({ type: 'parenthetical', text: dialogueLine, character: name, startLine: j, endLine: j });
+        } else if (dialogueLine.startsWith('~')) {
+          push({ type: 'lyrics', text: dialogueLine.slice(1).trim(), character: name, forced: true, startLine: j, endLine: j });
+        } else if (last.type === 'dialogue' && last.endLine === step(j, -1)) {
+          last.text += '\n' + dialogueLine;
+          last.endLine = j;
+        } else {
+          push({ type: 'dialogue', text: dialogueLine, character: name, startLine: j, endLine: j });
+        }
+      }
+
+      if (isDual) {
+        // The previous speaker becomes the left column
+        let k = blockStart - 1;
+        while (k >= 0 && ['dialogue', 'parenthetical', 'lyrics'].includes(elements[k].type)) k--;
+        if (k >= 0 && elements[k].type === 'character') {
+          for (let m = k; m < blockStart; m++) elements[m].dual = 'left';
+          for (let m = blockStart; m < elements.length; m++) elements[m].dual = 'right';
+        }
+      }
+
+      i = j;
+      continue;
+    }
+
+    // Action paragraph (leading whitespace is significant in action)
+    const action = push({ type: 'action', text: '', startLine: i, endLine: i });
+    const actionLines: string[] = [];
+    for (; i < lines.length && !isBreak(i); i++) {
+      if (isEmptied(i)) continue;
+      const raw = lines[i].replace(/\s+$/, '');
+      if (raw.trimStart().startsWith('!')) {
+        if (i === action.startLine) action.forced = true;
+        actionLines.push(raw.trimStart().slice(1));
+      } else {
+        actionLines.push(raw);
+      }
+      action.endLine = i;
+    }
+    action.text = actionLines.join('\n');
+  }
+
+  // Notes inside a printed element stay attached to it, others stand alone
+  const standaloneNotes: FountainElement[] = [];
+  notes.blocks.forEach(note => {
+    const host = elements.find(el => el.startLine <= note.startLine && el.endLine >= note.startLine);
+    if (host) {
+      host.notes = [...(host.notes || []), note.text];
+    } else {
+      standaloneNotes.push({ type: 'note', text: note.text, startLine: note.startLine, endLine: note.endLine });
+    }
+  });
+
+  const boneyards: FountainElement[] = boneyard.blocks.map(block => ({
+    type: 'boneyard',
+    text: block.text,
+    startLine: block.startLine,
+    endLine: block.endLine,
+  }));
+
+  const ordered = [...elements, ...standaloneNotes, ...boneyards].sort((a, b) => a.startLine - b.startLine);
+
+  return {
+    titlePage,
+    elements: ordered,
+    scenes: groupScenes(ordered),
+    lineCount: lines.length,
+  };
+};
+
+const groupScenes = (elements: FountainElement[]): FountainScene[] => {
+  const scenes: FountainScene[] = [];
+  elements.forEach(element => {
+    if (element.type === 'scene_heading') {
+      scenes.push({
+        index: scenes.length + 1,
+        heading: element,
+        elements: [],
+        startLine: element.startLine,
+        endLine: element.endLine,
+      });
+      return;
+    }
+    const current = scenes[scenes.length - 1];
+    if (current) {
+      current.elements.push(element);
+      current.endLine = Math.max(current.endLine, element.endLine);
+    }
+  });
+  return scenes;
+};
+
+// ============================================
+// INLINE MARKUP
+// ============================================
+
+type InlineToken = { kind: 'text'; value: string } | { kind: 'marker'; value: '***' | '**' | '*' | '_' };
+
+const tokenizeInline = (text: string): InlineToken[] => {
+  const tokens: InlineToken[] = [];
+  let buffer = '';
+  const flush = () => {
+    if (buffer) tokens.push({ kind: 'text', value: buffer });
+    buffer = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '\\' && i + 1 < text.length) {
+      buffer += text[++i];
+    } else if (ch === '*') {
+      const marker = text.startsWith('***', i) ? '***' : text.startsWith('**', i) ? '**' : '*';
+      flush();
+      tokens.push({ kind: 'marker', value: marker });
+      i += marker.length - 1;
+    } else if (ch === '_') {
+      flush();
+      tokens.push({ kind: 'marker', value: '_' });
+    } else {
+      buffer += ch;
+    }
+  }
+  flush();
+  return tokens;
+};
+
+/**
+ * Split text into styled spans. Emphasis must open and close on the same
+ * line; unmatched markers are kept as literal characters.
+ */
+export const parseInlineMarkup = (text: string): InlineSpan[] => {
+  const tokens = tokenizeInline(text);
+
+  // Pair each marker with the next identical marker on the same line
+  const paired = new Set<number>();
+  tokens.forEach((token, idx) => {
+    if (token.kind !== 'marker' || paired.has(idx)) return;
+    for (let k = idx + 1; k < tokens.length; k++) {
+      const next = tokens[k];
+      if (next.kind === 'text' && next.value.includes('\n')) break;
+      if (next.kind === 'marker' && next.value === token.value && !paired.has(k)) {
+        paired.add(idx);
+        paired.add(k);
+        break;
+      }
+    }
+  });
+
+  const spans: InlineSpan[] = [];
+  const style = { bold: false, italic: false, underline: false };
+  tokens.forEach((token, idx) => {
+    if (token.kind === 'marker' && paired.has(idx)) {
+      if (token.value === '***') { style.bold = !style.bold; style.italic = !style.italic; }
+      if (token.value === '**') style.bold = !style.bold;
+      if (token.value === '*') style.italic = !style.italic;
+      if (token.value === '_') style.underline = !style.underline;
+      return;
+    }
+    const span: InlineSpan = { text: token.value };
+    if (style.bold) span.bold = true;
+    if (style.italic) span.italic = true;
+    if (style.underline) span.underline = true;
+
+    const last = spans[spans.length - 1];
+    if (last && !!last.bold === !!span.bold && !!last.italic === !!span.italic && !!last.underline === !!span.underline) {
+      last.text += span.text;
+    } else {
+      spans.push(span);
+    }
+  });
+  return spans;
+};
+
+/**
+ * Plain text with emphasis markup and escapes removed
+ */
+export const stripInlineMarkup = (text: string): string =>
+  parseInlineMarkup(text).map(span => span.text).join('');
+
+/**
+ * Look up a title page value by key (case-insensitive)
+ */
+export const getTitlePageValue = (doc: FountainDocument, ...keys: string[]): string | undefined => {
+  const wanted = keys.map(k => k.toLowerCase());
+  return doc.titlePage.find(entry => wanted.includes(entry.key.toLowerCase()))?.value;
+};
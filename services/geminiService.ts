@@ -1,9 +1,22 @@
 import { GoogleGenAI, GenerateContentResponse, Chat } from "@google/genai";
-import { SYSTEM_INSTRUCTION } from "../constants";
+import { SYSTEM_INSTRUCTION, AV_SYSTEM_INSTRUCTION, STAGE_SYSTEM_INSTRUCTION, AUDIO_SYSTEM_INSTRUCTION } from "../constants";
+import type { ScriptFormat } from "../types";
 
 let chatSession: Chat | null = null;
 let genAI: GoogleGenAI | null = null;
 
+// The chat writes in the project's script format
+let systemInstruction = SYSTEM_INSTRUCTION;
+
+const INSTRUCTIONS: Record<ScriptFormat, string> = {
+  screenplay: SYSTEM_INSTRUCTION,
+  av: AV_SYSTEM_INSTRUCTION,
+  stage: STAGE_SYSTEM_INSTRUCTION,
+  audio: AUDIO_SYSTEM_INSTRUCTION,
+};
+
+const instructionFor = (scriptFormat?: ScriptFormat) => INSTRUCTIONS[scriptFormat || 'screenplay'];
+
 // Detect if we're in production (Vercel) or development
 const isProduction = typeof window !== 'undefined' && 
   !window.location.hostname.includes('localhost') && 
@@ -50,15 +63,16 @@ async function callGeminiProxy(action: string, model: string, contents: any, con
 // Chat history for proxy mode
 let chatHistory: Array<{ role: string; parts: Array<{ text: string }> }> = [];
 
-export const initializeChat = async (): Promise<void> => {
+export const initializeChat = async (scriptFormat?: ScriptFormat): Promise<void> => {
   const client = getClient();
+  systemInstruction = instructionFor(scriptFormat);
   
   if (client) {
     // Direct SDK mode (development)
     chatSession = client.chats.create({
       model: "gemini-3-flash-preview",
       config: {
-        systemInstruction: SYSTEM_INSTRUCTION,
+        systemInstruction,
         temperature: 0.8,
         maxOutputTokens: 8192,
       },
@@ -70,6 +84,30 @@ export const initializeChat = async (): Promise<void> => {
   }
 };
 
+/**
+ * Switch the chat to another script format's instructions, keeping the
+ * conversation so far
+ */
+export const setChatScriptFormat = (scriptFormat?: ScriptFormat): void => {
+  const next = instructionFor(scriptFormat);
+  if (next === systemInstruction) return;
+  systemInstruction = next;
+
+  const client = getClient();
+  if (client && chatSession) {
+    chatSession = client.chats.create({
+      model: "gemini-3-flash-preview",
+      config: {
+        systemInstruction,
+        temperature: 0.8,
+        maxOutputTokens: 8192,
+      },
+      history: chatSession.getHistory(),
+    });
+  }
+  // Proxy mode sends the instruction with every request
+};
+
 export const sendMessageToGemini = async (
   userMessage: string,
   imageParts?: { inlineData: { data: string; mimeType: string } }[]
@@ -119,7 +157,7 @@ export const sendMessageToGemini = async (
         temperature: 0.8,
         maxOutputTokens: 8192,
       },
-      SYSTEM_INSTRUCTION
+      systemInstruction
     );
     
     responseText = result.candidates?.[0]?.content?.parts?.[0]?.text || "";
@@ -331,3 +369,118 @@ export const punchUpScript = async (selection: string, instruction: string, cont
     return result.candidates?.[0]?.content?.parts?.[0]?.text || selection;
   }
 };
+
+// Production Breakdown
+export const suggestBreakdown = async (sceneText: string): Promise<string> => {
+  const client = getClient();
+  const prompt = `
+    ROLE: First Assistant Director preparing a production breakdown.
+    SCENE: ${sceneText}
+    
+    TASK: List the production elements this scene needs.
+    Format as JSON with any of these keys (omit empty ones):
+    {
+      "cast": [], "extras": [], "props": [], "wardrobe": [], "vehicles": [],
+      "animals": [], "sfx": [], "vfx": [], "makeup": [], "set_dressing": []
+    }
+    Use short item names as they would appear on a breakdown sheet.
+    Only return the JSON.
+  `;
+  
+  let text: string;
+  
+  if (client) {
+    const response = await client.models.generateContent({
+      model: "gemini-3-flash-preview",
+      contents: prompt
+    });
+    text = response.text || "";
+  } else {
+    const result = await callGeminiProxy(
+      'generateContent',
+      'gemini-3-flash-preview',
+      [{ role: 'user', parts: [{ text: prompt }] }]
+    );
+    text = result.candidates?.[0]?.content?.parts?.[0]?.text || "";
+  }
+  
+  const jsonMatch = text.match(/\{[\s\S]*\}/);
+  return jsonMatch ? jsonMatch[0] : "{}";
+};
+
+// Script Translation
+export const translateScriptLines = async (lines: { id: string; text: string }[], language: string, context: string): Promise<string> => {
+  const client = getClient();
+  const prompt = `
+    ROLE: Literary translator for film, stage and audio scripts.
+    TARGET LANGUAGE: ${language}
+    CONTEXT: ${context}
+    LINES: ${JSON.stringify(lines)}
+    
+    TASK: Translate the text of every line into ${language}.
+    Lines are in script order; read them as one scene, not as isolated sentences.
+    Keep each character's voice and register, adapt idioms rather than translating them literally,
+    and leave character names as they are. Keep *emphasis* and _underline_ markers, and keep a
+    line break wherever the original has one.
+    Format as JSON: { "<id>": "<translated text>" } with an entry for every id.
+    Only return the JSON.
+  `;
+  
+  let text: string;
+  
+  if (client) {
+    const response = await client.models.generateContent({
+      model: "gemini-3-flash-preview",
+      contents: prompt
+    });
+    text = response.text || "";
+  } else {
+    const result = await callGeminiProxy(
+      'generateContent',
+      'gemini-3-flash-preview',
+      [{ role: 'user', parts: [{ text: prompt }] }]
+    );
+    text = result.candidates?.[0]?.content?.parts?.[0]?.text || "";
+  }
+  
+  const jsonMatch = text.match(/\{[\s\S]*\}/);
+  return jsonMatch ? jsonMatch[0] : "{}";
+};
+
+// Dubbing Adaptation
+export const adaptDubbingLines = async (lines: { id: string; original: string; translation: string; syllables: number }[], language: string, context: string): Promise<string> => {
+  const client = getClient();
+  const prompt = `
+    ROLE: Dubbing adapter writing ${language} lines to be lip-synced over the original performance.
+    CONTEXT: ${context}
+    LINES: ${JSON.stringify(lines)}
+    
+    TASK: Rewrite each translation so it can be spoken in the time of the original line.
+    "syllables" is the syllable count of the original; the new line must land as close to it as possible,
+    within two syllables. Keep the meaning and the character's voice; cut or expand rather than paraphrase
+    freely, and where you can, keep words that open or close the mouth (m, b, p, open vowels) near
+    where the original has them. Leave character names as they are.
+    Format as JSON: { "<id>": "<adapted line>" } with an entry for every id.
+    Only return the JSON.
+  `;
+  
+  let text: string;
+  
+  if (client) {
+    const response = await client.models.generateContent({
+      model: "gemini-3-flash-preview",
+      contents: prompt
+    });
+    text = response.text || "";
+  } else {
+    const result = await callGeminiProxy(
+      'generateContent',
+      'gemini-3-flash-preview',
+      [{ role: 'user', parts: [{ text: prompt }] }]
+    );
+    text = result.candidates?.[0]?.content?.parts?.[0]?.text || "";
+  }
+  
+  const jsonMatch = text.match(/\{[\s\S]*\}/);
+  return jsonMatch ? jsonMatch[0] : "{}";
+};
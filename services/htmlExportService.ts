@@ -0,0 +1,41 @@
+/**
+ * SCRIPT ENGINE - HTML Export Service
+ *
+ * Wraps generated sheets and reports in a standalone, print-ready HTML page.
+ * Pages open in any browser and print to PDF with the browser's own dialog.
+ */
+
+export const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const BASE_CSS = `
+  * { box-sizing: border-box; }
+  body { font-family: 'Courier Prime', 'Courier New', monospace; font-size: 11px; color: #111; margin: 0; padding: 24px; }
+  h1, h2, h3 { margin: 0; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border: 1px solid #222; padding: 4px 6px; text-align: left; vertical-align: top; }
+  .sheet { page-break-after: always; break-after: page; margin-bottom: 32px; }
+  .sheet:last-child { page-break-after: auto; break-after: auto; }
+  @page { size: letter; margin: 0.5in; }
+  @media print { body { padding: 0; } .sheet { margin-bottom: 0; } }
+`;
+
+/**
+ * Standalone HTML document around a rendered body
+ */
+export const renderPrintableHtml = (title: string, body: string, css: string = ''): string => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${BASE_CSS}${css}</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
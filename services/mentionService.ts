@@ -238,6 +238,38 @@ export const mentionService = {
     }
   },
 
+  /**
+   * Change an asset's handle and display name in place
+   */
+  async rename(id: string, handle: string, name: string): Promise<SharedAsset | null> {
+    if (!supabase) return null;
+
+    try {
+      const normalizedHandle = handle.startsWith('@') ? handle.slice(1) : handle;
+
+      const { data, error } = await supabase
+        .from('shared_assets')
+        .update({
+          handle: normalizedHandle,
+          name,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Failed to rename asset:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Failed to rename asset:', error);
+      return null;
+    }
+  },
+
   /**
    * Delete an asset
    */
@@ -0,0 +1,276 @@
+/**
+ * SCRIPT ENGINE - Merge Service
+ *
+ * Three-way merge of a draft branch back into main, using the project as
+ * it was when the branch was cut as the common base.
+ *
+ * The script merges scene by scene: a branch and main share scene IDs from
+ * the fork, so a scene only one side touched takes that side's version,
+ * scenes added on either side are kept in place, and a scene both sides
+ * changed (or one changed and the other cut) is a conflict the writer
+ * resolves. Characters, locations and beats merge as lists the same way;
+ * title, logline, tone and format as single values. Production data
+ * (breakdowns, schedule, visuals) stays as it is on main.
+ */
+
+import { ensureScriptDocument, documentToFountain, sceneText, withTrailingBlank } from './scriptDocumentService';
+import { stripInlineMarkup } from './fountainParser';
+import type { ProjectData, ScriptDocument, ScriptSceneNode, CharacterProfile } from '../types';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type MergeSide = 'ours' | 'theirs';
+export type ConflictResolution = MergeSide | 'both';
+export type ConflictKind = 'scene' | 'character' | 'field';
+
+export interface MergeConflict {
+  key: string;
+  kind: ConflictKind;
+  label: string;
+  base?: string;
+  ours?: string;   // Main; undefined when main cut it
+  theirs?: string; // Branch; undefined when the branch cut it
+}
+
+export interface MergeSummary {
+  fromBranch: number; // Scenes taken from the branch's version
+  added: number;      // Scenes new on the branch
+  removed: number;    // Scenes the branch cut
+}
+
+export interface MergeResult {
+  data: ProjectData;
+  conflicts: MergeConflict[];
+  summary: MergeSummary;
+}
+
+// ============================================
+// SEQUENCE MERGE
+// ============================================
+
+interface SequenceConflict<T> {
+  key: string;
+  base?: T;
+  ours?: T;
+  theirs?: T;
+}
+
+interface SequenceMerge<T> {
+  items: T[];
+  conflicts: SequenceConflict<T>[];
+  taken: string[];   // Keys resolved to the branch's changed version
+  added: string[];   // Keys only the branch has
+  removed: string[]; // Keys the branch cut
+}
+
+const orderChanged = (base: string[], side: string[]) => {
+  const common = side.filter(key => base.includes(key));
+  const baseOrder = base.filter(key => common.includes(key));
+  return common.some((key, i) => key !== baseOrder[i]);
+};
+
+/**
+ * Three-way merge of keyed lists. Order follows main unless only the
+ * branch reordered; items new on the other side go in after the item that
+ * preceded them there.
+ */
+const mergeSequence = <T>(
+  base: T[],
+  ours: T[],
+  theirs: T[],
+  keyOf: (item: T) => string,
+  same: (a: T, b: T) => boolean,
+  resolve: (conflict: SequenceConflict<T>) => T[],
+): SequenceMerge<T> => {
+  const index = (items: T[]) => new Map(items.map(item => [keyOf(item), item]));
+  const b = index(base);
+  const o = index(ours);
+  const t = index(theirs);
+  const result: SequenceMerge<T> = { items: [], conflicts: [], taken: [], added: [], removed: [] };
+
+  const decide = (key: string): T[] => {
+    const bi = b.get(key);
+    const oi = o.get(key);
+    const ti = t.get(key);
+    const conflict = () => {
+      const c = { key, base: bi, ours: oi, theirs: ti };
+      result.conflicts.push(c);
+      return resolve(c);
+    };
+
+    if (bi !== undefined) {
+      if (oi !== undefined && ti !== undefined) {
+        if (same(oi, bi)) {
+          if (!same(ti, bi)) result.taken.push(key);
+          return [ti];
+        }
+        if (same(ti, bi) || same(oi, ti)) return [oi];
+        return conflict();
+      }
+      if (oi !== undefined) {
+        if (same(oi, bi)) {
+          result.removed.push(key);
+          return [];
+        }
+        return conflict();
+      }
+      if (ti !== undefined) return same(ti, bi) ? [] : conflict();
+      return [];
+    }
+    if (oi !== undefined && ti !== undefined) return same(oi, ti) ? [oi] : conflict();
+    if (ti !== undefined) result.added.push(key);
+    return oi !== undefined ? [oi] : ti !== undefined ? [ti] : [];
+  };
+
+  const baseKeys = base.map(keyOf);
+  const oursKeys = ours.map(keyOf);
+  const theirsKeys = theirs.map(keyOf);
+  const useTheirs = orderChanged(baseKeys, theirsKeys) && !orderChanged(baseKeys, oursKeys);
+  const primary = useTheirs ? theirsKeys : oursKeys;
+  const secondary = useTheirs ? oursKeys : theirsKeys;
+
+  // Anything the primary side cut but the other still has keeps its slot
+  // near its predecessor, so conflicts have somewhere to land
+  const order = [...primary];
+  const placeAfter = (keys: string[]) => keys.forEach((key, i) => {
+    if (order.includes(key)) return;
+    const previous = keys.slice(0, i).reverse().find(k => order.includes(k));
+    order.splice(previous ? order.indexOf(previous) + 1 : 0, 0, key);
+  });
+  placeAfter(secondary);
+  placeAfter(baseKeys);
+
+  order.forEach(key => result.items.push(...decide(key)));
+  return result;
+};
+
+// ============================================
+// SCRIPT
+// ============================================
+
+const sceneLabel = (scene?: ScriptSceneNode) =>
+  scene?.heading ? stripInlineMarkup(scene.heading.text).toUpperCase() : 'OPENING';
+
+const sameScene = (a: ScriptSceneNode, b: ScriptSceneNode) => sceneText(a).trim() === sceneText(b).trim();
+
+// A second copy of a scene, distinct from the first down to its lines
+const copyScene = (scene: ScriptSceneNode): ScriptSceneNode => ({
+  id: crypto.randomUUID(),
+  heading: scene.heading && { ...scene.heading, id: crypto.randomUUID() },
+  elements: scene.elements.map(el => ({ ...el, id: crypto.randomUUID() })),
+});
+
+// ============================================
+// MERGE
+// ============================================
+
+const sameList = <T>(a: T, b: T) => JSON.stringify(a) === JSON.stringify(b);
+
+const pick = <T>(resolution: ConflictResolution, ours: T | undefined, theirs: T | undefined): T[] => {
+  if (resolution === 'both') return [ours, theirs].filter((v): v is T => v !== undefined);
+  const value = resolution === 'theirs' ? theirs : ours;
+  return value !== undefined ? [value] : [];
+};
+
+/**
+ * Merge `theirs` (the branch) into `ours` (main) from their common `base`.
+ * Unresolved conflicts keep main's version.
+ */
+export const mergeProjects = (
+  base: ProjectData,
+  ours: ProjectData,
+  theirs: ProjectData,
+  resolutions: Record<string, ConflictResolution> = {},
+): MergeResult => {
+  const conflicts: MergeConflict[] = [];
+  const resolution = (key: string): ConflictResolution => resolutions[key] || 'ours';
+
+  // Script, scene by scene
+  const baseDoc = ensureScriptDocument(base).scriptDocument!;
+  const oursDoc = ensureScriptDocument(ours).scriptDocument!;
+  const theirsDoc = ensureScriptDocument(theirs).scriptDocument!;
+
+  const scenes = mergeSequence(
+    baseDoc.scenes,
+    oursDoc.scenes,
+    theirsDoc.scenes,
+    scene => scene.id,
+    sameScene,
+    c => {
+      const key = `scene:${c.key}`;
+      // Keeping both needs fresh IDs so the copies stay distinct scenes
+      const theirsCopy = c.theirs && resolution(key) === 'both' ? copyScene(c.theirs) : c.theirs;
+      return pick(resolution(key), c.ours, theirsCopy);
+    },
+  );
+  scenes.conflicts.forEach(c => conflicts.push({
+    key: `scene:${c.key}`,
+    kind: 'scene',
+    label: sceneLabel(c.ours || c.theirs || c.base),
+    base: c.base && sceneText(c.base),
+    ours: c.ours && sceneText(c.ours),
+    theirs: c.theirs && sceneText(c.theirs),
+  }));
+
+  const basePreamble = baseDoc.preamble ?? '';
+  const preamble = (oursDoc.preamble ?? '') === basePreamble ? theirsDoc.preamble : oursDoc.preamble;
+  const merged = scenes.items.map((scene, i) => (i < scenes.items.length - 1 ? withTrailingBlank(scene) : scene));
+  // The document is the merged scenes themselves: re-deriving it from the
+  // text against main's document would give the branch's scenes new IDs
+  const scriptDocument: ScriptDocument = { version: 1, scenes: merged };
+  if (preamble !== undefined) scriptDocument.preamble = preamble;
+  let data: ProjectData = { ...ours, scriptContent: documentToFountain(scriptDocument), scriptDocument };
+
+  // Bible lists
+  const upper = (value: string) => value.trim().toUpperCase();
+  const mergeStrings = (field: 'characters' | 'locations' | 'beats') =>
+    mergeSequence(base[field] || [], ours[field] || [], theirs[field] || [], field === 'beats' ? (v: string) => v : upper, (a, b) => a === b, c => pick('ours', c.ours, c.theirs)).items;
+
+  const profiles = mergeSequence<CharacterProfile>(
+    base.characterProfiles || [],
+    ours.characterProfiles || [],
+    theirs.characterProfiles || [],
+    p => upper(p.name),
+    sameList,
+    c => pick(resolution(`character:${c.key}`), c.ours, c.theirs).slice(0, 1),
+  );
+  profiles.conflicts.forEach(c => conflicts.push({
+    key: `character:${c.key}`,
+    kind: 'character',
+    label: (c.ours || c.theirs)!.name,
+    base: c.base && JSON.stringify(c.base, null, 2),
+    ours: c.ours && JSON.stringify(c.ours, null, 2),
+    theirs: c.theirs && JSON.stringify(c.theirs, null, 2),
+  }));
+
+  data = {
+    ...data,
+    characters: mergeStrings('characters'),
+    locations: mergeStrings('locations'),
+    beats: mergeStrings('beats'),
+    characterProfiles: profiles.items,
+  };
+
+  // Single values
+  (['title', 'logline', 'tone', 'format'] as const).forEach(field => {
+    const b = base[field] || '';
+    const o = ours[field] || '';
+    const t = theirs[field] || '';
+    if (o === t || t === b) return;
+    if (o === b) {
+      data = { ...data, [field]: t };
+      return;
+    }
+    const key = `field:${field}`;
+    conflicts.push({ key, kind: 'field', label: field, base: b, ours: o, theirs: t });
+    if (resolution(key) === 'theirs') data = { ...data, [field]: t };
+  });
+
+  return {
+    data,
+    conflicts,
+    summary: { fromBranch: scenes.taken.length, added: scenes.added.length, removed: scenes.removed.length },
+  };
+};
@@ -0,0 +1,527 @@
+/**
+ * SCRIPT ENGINE - Pagination Service
+ *
+ * Lays Fountain script content out on US Letter pages the way a
+ * screenplay is typed: Courier 12pt, 10 characters and 6 lines per inch,
+ * standard element indents. Handles (MORE)/(CONT'D) at dialogue breaks,
+ * keeps scene headings with the text that follows, and prints scene
+ * numbers in both margins and page numbers top right.
+ */
+
+import {
+  parseFountainDocument,
+  parseInlineMarkup,
+  getTitlePageValue,
+  FountainDocument,
+  FountainElement,
+  FountainElementType,
+  InlineSpan,
+  TitlePageEntry,
+} from './fountainParser';
+import { createPdfDocument, PdfPageBuilder, POINTS_PER_INCH, textWidth, PdfFont } from './pdfWriter';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type PageLineKind = FountainElementType | 'more' | 'contd';
+
+export interface PageLine {
+  kind: PageLineKind;
+  text: string;       // Plain text for this printed line
+  spans: InlineSpan[]; // Same text with emphasis
+  x: number;          // Left edge, inches from the page edge
+  sourceLine?: number; // Line in scriptContent this text came from
+  sceneNumber?: string; // Set on scene heading lines
+}
+
+export interface ScriptPage {
+  number: number;
+  rows: PageLine[][]; // One entry per typed line; dual dialogue puts two lines in a row
+}
+
+export interface PaginatedScript {
+  titlePage: TitlePageEntry[];
+  pages: ScriptPage[];
+}
+
+export interface PaginationOptions {
+  numberScenes?: boolean; // Number scenes sequentially when the script has no #numbers#
+  pageStarts?: number[];  // Source lines that must open a new page (locked pagination), ascending
+}
+
+// ============================================
+// LAYOUT CONSTANTS
+// ============================================
+
+export const PAGE_LAYOUT = {
+  fontSize: 12,
+  lineHeight: 12,        // points (6 lines per inch)
+  charsPerInch: 10,
+  topMargin: 1,          // inches
+  linesPerPage: 54,      // 9 inches of body between 1" top and bottom margins
+  left: 1.5,
+  right: 7.5,
+  pageNumberTop: 0.5,
+  leftSceneNumberX: 0.75,
+  rightSceneNumberX: 7.6,
+};
+
+interface ElementLayout {
+  x: number;
+  width: number; // characters
+}
+
+export const ELEMENT_LAYOUT: Record<'action' | 'character' | 'parenthetical' | 'dialogue', ElementLayout> = {
+  action: { x: 1.5, width: 60 },
+  character: { x: 3.7, width: 38 },
+  parenthetical: { x: 3.1, width: 25 },
+  dialogue: { x: 2.5, width: 35 },
+};
+
+// Dual dialogue runs in two narrower columns
+const DUAL_LAYOUT: Record<'left' | 'right', Record<'character' | 'parenthetical' | 'dialogue', ElementLayout>> = {
+  left: {
+    character: { x: 2.3, width: 20 },
+    parenthetical: { x: 1.9, width: 22 },
+    dialogue: { x: 1.5, width: 28 },
+  },
+  right: {
+    character: { x: 5.3, width: 20 },
+    parenthetical: { x: 4.9, width: 22 },
+    dialogue: { x: 4.6, width: 28 },
+  },
+};
+
+// ============================================
+// TEXT WRAPPING
+// ============================================
+
+export interface WrappedLine {
+  text: string;
+  start: number; // Offset into the plain text
+}
+
+export const wrapText = (text: string, width: number): WrappedLine[] => {
+  const lines: WrappedLine[] = [];
+  let offset = 0;
+
+  text.split('\n').forEach(hardLine => {
+    let rest = hardLine;
+    let start = offset;
+    if (rest.length === 0) lines.push({ text: '', start });
+
+    while (rest.length > 0) {
+      if (rest.length <= width) {
+        lines.push({ text: rest, start });
+        break;
+      }
+      let breakAt = rest.lastIndexOf(' ', width);
+      if (breakAt <= 0) breakAt = width; // Hard-split a single long word
+      lines.push({ text: rest.slice(0, breakAt).trimEnd(), start });
+
+      const consumed = rest.slice(breakAt).length - rest.slice(breakAt).trimStart().length;
+      start += breakAt + consumed;
+      rest = rest.slice(breakAt + consumed);
+    }
+    offset += hardLine.length + 1;
+  });
+  return lines;
+};
+
+const sliceSpans = (spans: InlineSpan[], start: number, end: number): InlineSpan[] => {
+  const result: InlineSpan[] = [];
+  let pos = 0;
+  spans.forEach(span => {
+    const spanStart = pos;
+    const spanEnd = pos + span.text.length;
+    pos = spanEnd;
+    const from = Math.max(start, spanStart);
+    const to = Math.min(end, spanEnd);
+    if (to > from) result.push({ ...span, text: span.text.slice(from - spanStart, to - spanStart) });
+  });
+  return result;
+};
+
+const layoutText = (
+  kind: PageLineKind,
+  markup: string,
+  layout: ElementLayout,
+  sourceLine: number | undefined,
+  align: 'left' | 'right' | 'center' = 'left'
+): PageLine[] => {
+  const spans = parseInlineMarkup(markup);
+  const plain = spans.map(s => s.text).join('');
+
+  return wrapText(plain, layout.width).map(wrapped => {
+    const lineSpans = sliceSpans(spans, wrapped.start, wrapped.start + wrapped.text.length);
+    const widthInches = wrapped.text.length / PAGE_LAYOUT.charsPerInch;
+    const x = align === 'right'
+      ? PAGE_LAYOUT.right - widthInches
+      : align === 'center'
+        ? (PAGE_LAYOUT.left + PAGE_LAYOUT.right - widthInches) / 2
+        : layout.x;
+
+    // Hard line breaks inside an element map back to their own source lines
+    const hardBreaksBefore = plain.slice(0, wrapped.start).split('\n').length - 1;
+    return {
+      kind,
+      text: wrapped.text,
+      spans: lineSpans.length ? lineSpans : [{ text: wrapped.text }],
+      x,
+      sourceLine: sourceLine !== undefined ? sourceLine + hardBreaksBefore : undefined,
+    };
+  });
+};
+
+// Lyrics print in italics, one emphasis run per line
+const lyricMarkup = (text: string) => text.split('\n').map(line => `*${line}*`).join('\n');
+
+const plainLine = (kind: PageLineKind, text: string, x: number): PageLine => ({ kind, text, spans: [{ text }], x });
+
+// ============================================
+// BLOCK BUILDING
+// ============================================
+
+interface LayoutBlock {
+  kind: 'heading' | 'action' | 'dialogue' | 'transition' | 'page_break';
+  rows: PageLine[][];
+  spaceBefore: number;
+  speaker?: string; // Dialogue blocks: cue used for (CONT'D)
+  cueX?: number;
+}
+
+const dialogueRows = (elements: FountainElement[], side?: 'left' | 'right'): { rows: PageLine[][]; cueX: number } => {
+  const layouts = side ? DUAL_LAYOUT[side] : ELEMENT_LAYOUT;
+  const rows: PageLine[][] = [];
+
+  elements.forEach(element => {
+    const type = element.type === 'character' ? 'character' : element.type === 'parenthetical' ? 'parenthetical' : 'dialogue';
+    const kind = element.type === 'lyrics' ? 'lyrics' : type;
+    const markup = element.type === 'lyrics' ? lyricMarkup(element.text) : element.text;
+    layoutText(kind, markup, layouts[type], element.startLine).forEach(line => rows.push([line]));
+  });
+  return { rows, cueX: layouts.character.x };
+};
+
+const zipRows = (left: PageLine[][], right: PageLine[][]): PageLine[][] =>
+  Array.from({ length: Math.max(left.length, right.length) }, (_, i) => [...(left[i] || []), ...(right[i] || [])]);
+
+const buildBlocks = (elements: FountainElement[], options: PaginationOptions): LayoutBlock[] => {
+  const blocks: LayoutBlock[] = [];
+  let sceneIndex = 0;
+  let i = 0;
+
+  while (i < elements.length) {
+    const element = elements[i];
+
+    switch (element.type) {
+      case 'scene_heading': {
+        sceneIndex++;
+        const sceneNumber = element.sceneNumber || (options.numberScenes ? String(sceneIndex) : undefined);
+        const rows = layoutText('scene_heading', element.text, ELEMENT_LAYOUT.action, element.startLine).map(line => [line]);
+        if (sceneNumber) rows[0][0].sceneNumber = sceneNumber;
+        blocks.push({ kind: 'heading', rows, spaceBefore: 1 });
+        i++;
+        break;
+      }
+
+      case 'character': {
+        // Collect this speaker's block
+        const collect = (from: number) => {
+          let end = from + 1;
+          while (end < elements.length && ['dialogue', 'parenthetical', 'lyrics'].includes(elements[end].type) && elements[end].character) end++;
+          return end;
+        };
+        const end = collect(i);
+        const speaker = element.character || element.text;
+
+        if (element.dual === 'left' && elements[end]?.type === 'character' && elements[end].dual === 'right') {
+          const rightEnd = collect(end);
+          const left = dialogueRows(elements.slice(i, end), 'left');
+          const right = dialogueRows(elements.slice(end, rightEnd), 'right');
+          blocks.push({ kind: 'dialogue', rows: zipRows(left.rows, right.rows), spaceBefore: 1 });
+          i = rightEnd;
+        } else {
+          const { rows, cueX } = dialogueRows(elements.slice(i, end));
+          blocks.push({ kind: 'dialogue', rows, spaceBefore: 1, speaker, cueX });
+          i = end;
+        }
+        break;
+      }
+
+      case 'transition':
+        blocks.push({
+          kind: 'transition',
+          rows: layoutText('transition', element.text, ELEMENT_LAYOUT.action, element.startLine, 'right').map(line => [line]),
+          spaceBefore: 1,
+        });
+        i++;
+        break;
+
+      case 'centered':
+        blocks.push({
+          kind: 'action',
+          rows: layoutText('centered', element.text, ELEMENT_LAYOUT.action, element.startLine, 'center').map(line => [line]),
+          spaceBefore: 1,
+        });
+        i++;
+        break;
+
+      case 'action':
+      case 'lyrics':
+        blocks.push({
+          kind: 'action',
+          rows: layoutText(element.type, element.type === 'lyrics' ? lyricMarkup(element.text) : element.text, ELEMENT_LAYOUT.action, element.startLine)
+            .map(line => [line]),
+          spaceBefore: 1,
+        });
+        i++;
+        break;
+
+      case 'page_break':
+        blocks.push({ kind: 'page_break', rows: [], spaceBefore: 0 });
+        i++;
+        break;
+
+      default:
+        // Sections, synopses, notes and boneyard do not print
+        i++;
+    }
+  }
+  return blocks;
+};
+
+// ============================================
+// PAGINATION
+// ============================================
+
+const isOnlyParenthetical = (row: PageLine[]) => row.length === 1 && row[0].kind === 'parenthetical';
+
+/**
+ * Lay script content out into numbered pages
+ */
+export const paginateScript = (script: string, options: PaginationOptions = {}): PaginatedScript => {
+  const doc = parseFountainDocument(script);
+  const blocks = buildBlocks(doc.elements, options);
+  const pages: ScriptPage[] = [];
+  const { linesPerPage } = PAGE_LAYOUT;
+
+  let rows: PageLine[][] = [];
+  const newPage = () => {
+    if (rows.length) pages.push({ number: pages.length + 1, rows });
+    rows = [];
+  };
+  const remaining = () => linesPerPage - rows.length;
+  const spacing = (block: LayoutBlock) => (rows.length ? block.spaceBefore : 0);
+  const place = (block: LayoutBlock, blockRows: PageLine[][]) => {
+    for (let s = 0; s < spacing(block); s++) rows.push([]);
+    rows.push(...blockRows);
+  };
+  const pageStarts = options.pageStarts || [];
+  let nextStart = 0;
+
+  blocks.forEach((block, idx) => {
+    if (block.kind === 'page_break') {
+      newPage();
+      return;
+    }
+
+    // A locked page begins with the first block at or past its start line
+    const firstLine = block.rows[0]?.[0]?.sourceLine;
+    if (firstLine !== undefined && nextStart < pageStarts.length && pageStarts[nextStart] <= firstLine) {
+      while (nextStart < pageStarts.length && pageStarts[nextStart] <= firstLine) nextStart++;
+      newPage();
+    }
+
+    let pending = block.rows;
+
+    // Scene headings never sit alone at the bottom of a page
+    if (block.kind === 'heading') {
+      const next = blocks[idx + 1];
+      const keepWith = next && next.kind !== 'page_break' && next.kind !== 'heading'
+        ? next.spaceBefore + Math.min(next.rows.length, 2)
+        : 0;
+      if (spacing(block) + pending.length + keepWith > remaining()) newPage();
+      place(block, pending);
+      return;
+    }
+
+    while (pending.length) {
+      const room = remaining() - spacing(block);
+      if (pending.length <= room) {
+        place(block, pending);
+        return;
+      }
+
+      if (block.kind === 'action' && room >= 2 && pending.length - room >= 2) {
+        place(block, pending.slice(0, room));
+        pending = pending.slice(room);
+        newPage();
+        continue;
+      }
+
+      if (block.kind === 'dialogue' && block.speaker && block.cueX !== undefined) {
+        // Leave room for (MORE); keep at least cue + 2 lines and never end on a parenthetical
+        let split = room - 1;
+        while (split > 1 && isOnlyParenthetical(pending[split - 1])) split--;
+        if (split >= 3 && pending.length - split >= 1) {
+          place(block, [...pending.slice(0, split), [plainLine('more', '(MORE)', block.cueX)]]);
+          const cue = plainLine('contd', `${block.speaker} (CONT'D)`, block.cueX);
+          cue.sourceLine = pending[0][0]?.sourceLine;
+          pending = [[cue], ...pending.slice(split)];
+          newPage();
+          continue;
+        }
+      }
+
+      if (!rows.length) {
+        // Larger than a whole page and unsplittable: let it run over
+        place(block, pending);
+        return;
+      }
+      newPage();
+    }
+  });
+  newPage();
+
+  return { titlePage: doc.titlePage, pages };
+};
+
+/**
+ * Number of script pages (title page excluded)
+ */
+export const countPages = (script: string): number =>
+  script.trim() ? paginateScript(script).pages.length : 0;
+
+export interface SceneMeasure {
+  startPage: number;
+  eighths: number; // Length in eighths of a page, never less than 1
+}
+
+/**
+ * Start page and length of every scene heading's scene, in script order.
+ * A scene runs from its heading to the next heading, so space left at the
+ * foot of a page counts towards the scene that ends there.
+ */
+export const measureScenes = (script: string): SceneMeasure[] => {
+  const { pages } = paginateScript(script);
+  const { linesPerPage } = PAGE_LAYOUT;
+  const starts: { page: number; position: number }[] = [];
+  const seen = new Set<number>();
+
+  pages.forEach((page, p) => page.rows.forEach((row, r) => {
+    const line = row[0];
+    if (line?.kind !== 'scene_heading' || line.sourceLine === undefined || seen.has(line.sourceLine)) return;
+    seen.add(line.sourceLine);
+    starts.push({ page: page.number, position: p * linesPerPage + r });
+  }));
+
+  const end = pages.length ? (pages.length - 1) * linesPerPage + pages[pages.length - 1].rows.length : 0;
+  return starts.map((start, i) => {
+    const length = (i + 1 < starts.length ? starts[i + 1].position : end) - start.position;
+    return { startPage: start.page, eighths: Math.max(1, Math.round(length / (linesPerPage / 8))) };
+  });
+};
+
+/**
+ * Page count in the schedule's "1 3/8" notation
+ */
+export const formatEighths = (eighths: number): string => {
+  const whole = Math.floor(eighths / 8);
+  const rest = eighths % 8;
+  if (!rest) return String(whole);
+  return whole ? `${whole} ${rest}/8` : `${rest}/8`;
+};
+
+// ============================================
+// PDF RENDERING
+// ============================================
+
+const spanFont = (span: InlineSpan): PdfFont =>
+  span.bold && span.italic ? 'boldItalic' : span.bold ? 'bold' : span.italic ? 'italic' : 'regular';
+
+const drawSpans = (page: PdfPageBuilder, spans: InlineSpan[], xInches: number, y: number) => {
+  let x = xInches * POINTS_PER_INCH;
+  spans.forEach(span => {
+    page.text(x, y, span.text, { font: spanFont(span), size: PAGE_LAYOUT.fontSize, underline: span.underline });
+    x += textWidth(span.text, PAGE_LAYOUT.fontSize);
+  });
+};
+
+export const rowY = (row: number) =>
+  PAGE_LAYOUT.topMargin * POINTS_PER_INCH + (row + 1) * PAGE_LAYOUT.lineHeight;
+
+export const drawTitlePage = (page: PdfPageBuilder, entries: TitlePageEntry[], fallbackTitle?: string) => {
+  const doc: FountainDocument = { titlePage: entries, elements: [], scenes: [], lineCount: 0 };
+  const centerX = (text: string) => ((PAGE_LAYOUT.left + PAGE_LAYOUT.right) / 2) - text.length / PAGE_LAYOUT.charsPerInch / 2;
+  const lines: string[] = [];
+
+  const title = getTitlePageValue(doc, 'Title') || fallbackTitle || '';
+  title.split('\n').forEach(line => lines.push(line));
+  const authors = getTitlePageValue(doc, 'Author', 'Authors');
+  if (authors) {
+    lines.push('', '', getTitlePageValue(doc, 'Credit') || 'Written by', '');
+    authors.split('\n').forEach(line => lines.push(line));
+  }
+  const source = getTitlePageValue(doc, 'Source');
+  if (source) lines.push('', '', ...source.split('\n'));
+
+  lines.forEach((line, i) => {
+    const spans = parseInlineMarkup(line);
+    const plain = spans.map(s => s.text).join('');
+    drawSpans(page, spans, centerX(plain), rowY(18 + i));
+  });
+
+  const footer = ['Draft date', 'Contact']
+    .map(key => getTitlePageValue(doc, key))
+    .filter((value): value is string => !!value)
+    .flatMap(value => [...value.split('\n'), '']);
+  footer.forEach((line, i) => {
+    page.text(PAGE_LAYOUT.left * POINTS_PER_INCH, rowY(PAGE_LAYOUT.linesPerPage - footer.length + i), line);
+  });
+};
+
+export interface ScriptPdfOptions extends PaginationOptions {
+  title?: string; // Title page fallback when the script has none
+}
+
+/**
+ * Render a paginated script to PDF page builders. Exposed so other
+ * renderers (revision pages) can reuse the exact same drawing.
+ */
+export const drawScriptPage = (page: PdfPageBuilder, scriptPage: ScriptPage, pageLabel: string = String(scriptPage.number)) => {
+  // Page one is never numbered
+  if (pageLabel !== '1') {
+    const label = `${pageLabel}.`;
+    page.text(PAGE_LAYOUT.right * POINTS_PER_INCH - textWidth(label, PAGE_LAYOUT.fontSize), PAGE_LAYOUT.pageNumberTop * POINTS_PER_INCH, label);
+  }
+
+  scriptPage.rows.forEach((row, rowIdx) => {
+    row.forEach(line => {
+      const y = rowY(rowIdx);
+      drawSpans(page, line.spans, line.x, y);
+
+      if (line.sceneNumber) {
+        const left = PAGE_LAYOUT.leftSceneNumberX * POINTS_PER_INCH;
+        page.text(left, y, line.sceneNumber);
+        page.text(PAGE_LAYOUT.rightSceneNumberX * POINTS_PER_INCH, y, line.sceneNumber);
+      }
+    });
+  });
+};
+
+/**
+ * Render script content as an industry-format PDF
+ */
+export const renderScriptPDF = (script: string, options: ScriptPdfOptions = {}): Blob => {
+  const paginated = paginateScript(script, options);
+  const pdf = createPdfDocument();
+
+  if (paginated.titlePage.length || options.title) {
+    drawTitlePage(pdf.addPage(), paginated.titlePage, options.title);
+  }
+  paginated.pages.forEach(scriptPage => drawScriptPage(pdf.addPage(), scriptPage));
+
+  return pdf.toBlob();
+};
@@ -0,0 +1,231 @@
+/**
+ * SCRIPT ENGINE - Paper Edit Service
+ *
+ * Documentary paper edits: soundbites picked from interview transcripts,
+ * ordered under the project's beats, with VO and B-roll notes between
+ * them. The edit lives in `ProjectData.paperEdit`; the beats are the same
+ * `ProjectData.beats` the Beat Board arranges, so restructuring the film
+ * there reorders the cut here.
+ *
+ * Output is a radio cut (the story told in sound, with source timecodes
+ * for the editor) as text or Word, or an AV script for the script editor.
+ */
+
+import { createDocx, textParagraph, DocxBlock, DocxCell } from './docxWriter';
+import { avRowsToText, formatDuration, AVRow, TIMING_RULES } from './avScriptService';
+import { countWords } from './textUtils';
+import type { PaperEdit, PaperEditItem, ProjectData, Transcript, TranscriptSegment } from '../types';
+
+export const EMPTY_PAPER_EDIT: PaperEdit = { transcripts: [], items: [], fps: 25 };
+
+export const FRAME_RATES = [23.976, 24, 25, 29.97, 30];
+
+// ============================================
+// TIMECODE
+// ============================================
+
+/**
+ * Source timecode, HH:MM:SS:FF
+ */
+export const formatSourceTimecode = (seconds: number, fps: number): string => {
+  const whole = Math.floor(seconds);
+  const frames = Math.floor((seconds - whole) * Math.round(fps));
+  return [Math.floor(whole / 3600), Math.floor(whole / 60) % 60, whole % 60, frames].map(n => String(n).padStart(2, '0')).join(':');
+};
+
+// ============================================
+// ITEMS
+// ============================================
+
+export const createBite = (transcript: Transcript, segment: TranscriptSegment, beat: string): PaperEditItem => ({
+  id: crypto.randomUUID(),
+  type: 'bite',
+  beat,
+  text: segment.text,
+  transcriptId: transcript.id,
+  source: transcript.name,
+  speaker: segment.speaker,
+  start: segment.start,
+  end: segment.end,
+});
+
+export const createNote = (type: 'vo' | 'broll', beat: string, text = ''): PaperEditItem => ({
+  id: crypto.randomUUID(),
+  type,
+  beat,
+  text,
+});
+
+/**
+ * The transcript line straight after a bite, if the bite can run on into it
+ */
+export const nextSegment = (edit: PaperEdit, item: PaperEditItem): TranscriptSegment | null => {
+  const transcript = edit.transcripts.find(t => t.id === item.transcriptId);
+  if (!transcript || item.end === undefined) return null;
+  return transcript.segments.find(segment => segment.start >= item.end! - 0.01) || null;
+};
+
+/**
+ * Runs a bite on through the next transcript line
+ */
+export const extendBite = (edit: PaperEdit, item: PaperEditItem): PaperEditItem => {
+  const next = nextSegment(edit, item);
+  if (!next) return item;
+  return { ...item, text: `${item.text} ${next.text}`, end: next.end };
+};
+
+export const itemDuration = (item: PaperEditItem): number => {
+  if (item.type === 'bite') return Math.max(0, (item.end ?? 0) - (item.start ?? 0));
+  if (item.type === 'vo') return countWords(item.text) / TIMING_RULES.voWordsPerSecond;
+  return 0; // B-roll plays under the sound
+};
+
+export const paperEditDuration = (edit: PaperEdit): number =>
+  Math.round(edit.items.reduce((total, item) => total + itemDuration(item), 0));
+
+/**
+ * Items in cut order, grouped under the beats; items whose beat has gone
+ * (deleted or renamed outside the app) come last, unassigned
+ */
+export const groupByBeat = (edit: PaperEdit, beats: string[]): { beat: string | null; items: PaperEditItem[] }[] => {
+  const groups: { beat: string | null; items: PaperEditItem[] }[] = beats.map(beat => ({ beat, items: edit.items.filter(item => item.beat === beat) }));
+  const orphans = edit.items.filter(item => !beats.includes(item.beat));
+  if (orphans.length) groups.push({ beat: null, items: orphans });
+  return groups;
+};
+
+/**
+ * Keeps items with their beat when the Beat Board edits a beat's text
+ * in place (same position, new wording)
+ */
+export const remapBeats = (edit: PaperEdit, before: string[], after: string[]): PaperEdit => {
+  const renames = new Map<string, string>();
+  before.forEach((beat, i) => {
+    if (!after.includes(beat) && after[i] !== undefined && !before.includes(after[i])) renames.set(beat, after[i]);
+  });
+  if (!renames.size) return edit;
+  return { ...edit, items: edit.items.map(item => (renames.has(item.beat) ? { ...item, beat: renames.get(item.beat)! } : item)) };
+};
+
+/**
+ * Moves an item up or down within its beat
+ */
+export const moveItem = (edit: PaperEdit, id: string, by: number): PaperEdit => {
+  const item = edit.items.find(i => i.id === id);
+  if (!item) return edit;
+  const siblings = edit.items.filter(i => i.beat === item.beat);
+  const target = siblings[siblings.indexOf(item) + by];
+  if (!target) return edit;
+  const items = [...edit.items];
+  const a = items.indexOf(item);
+  const b = items.indexOf(target);
+  [items[a], items[b]] = [items[b], items[a]];
+  return { ...edit, items };
+};
+
+/**
+ * Moves an item to the end of another beat
+ */
+export const moveItemToBeat = (edit: PaperEdit, id: string, beat: string): PaperEdit => {
+  const item = edit.items.find(i => i.id === id);
+  if (!item) return edit;
+  return { ...edit, items: [...edit.items.filter(i => i.id !== id), { ...item, beat }] };
+};
+
+// ============================================
+// RADIO CUT
+// ============================================
+
+const biteSource = (item: PaperEditItem, fps: number) =>
+  `${item.source} ${formatSourceTimecode(item.start ?? 0, fps)} - ${formatSourceTimecode(item.end ?? 0, fps)}`;
+
+const itemLine = (item: PaperEditItem, fps: number): string => {
+  switch (item.type) {
+    case 'bite':
+      return `${item.speaker}  [${biteSource(item, fps)}]\n"${item.text}"`;
+    case 'vo':
+      return `VO: ${item.text}`;
+    case 'broll':
+      return `B-ROLL: ${item.text}`;
+  }
+};
+
+export const buildRadioCut = (data: ProjectData): string => {
+  const edit = data.paperEdit || EMPTY_PAPER_EDIT;
+  const lines = [
+    `${(data.title || 'Untitled').toUpperCase()} - RADIO CUT`,
+    `Running time about ${formatDuration(paperEditDuration(edit))}  ·  Source timecode at ${edit.fps} fps`,
+    '',
+  ];
+  groupByBeat(edit, data.beats).forEach((group, i) => {
+    if (!group.items.length) return;
+    lines.push(group.beat === null ? 'UNASSIGNED' : `${i + 1}. ${group.beat.toUpperCase()}`, '');
+    group.items.forEach(item => lines.push(itemLine(item, edit.fps), ''));
+  });
+  return lines.join('\n').trimEnd() + '\n';
+};
+
+/**
+ * The cut as an AV script: beats become sections, bites SYNC lines with
+ * B-roll (or the interview itself) in the video column
+ */
+export const paperEditToAVScript = (data: ProjectData): string => {
+  const edit = data.paperEdit || EMPTY_PAPER_EDIT;
+  const rows: AVRow[] = [];
+  groupByBeat(edit, data.beats).forEach(group => {
+    if (!group.items.length) return;
+    rows.push({ kind: 'section', title: (group.beat ?? 'Unassigned').toUpperCase(), startLine: 0, endLine: 0 });
+    let broll: string[] = [];
+    group.items.forEach(item => {
+      if (item.type === 'broll') {
+        broll.push(item.text);
+        return;
+      }
+      const video = broll.length ? broll : item.type === 'bite' ? [`${item.speaker} interview (${biteSource(item, edit.fps)})`] : [];
+      const audio = item.type === 'bite' ? [`SYNC: ${item.speaker}: ${item.text}`] : [`VO: ${item.text}`];
+      const duration = item.type === 'bite' ? Math.round(itemDuration(item) * 2) / 2 : 0;
+      rows.push({ kind: 'shot', number: 0, video, audio, duration, timed: duration > 0, estimate: 0, start: 0, startLine: 0, endLine: 0 });
+      broll = [];
+    });
+    if (broll.length) rows.push({ kind: 'shot', number: 0, video: broll, audio: [], duration: 0, timed: false, estimate: 0, start: 0, startLine: 0, endLine: 0 });
+  });
+  return avRowsToText(rows);
+};
+
+// ============================================
+// DOCX
+// ============================================
+
+export const renderRadioCutDocx = (data: ProjectData): Blob => {
+  const edit = data.paperEdit || EMPTY_PAPER_EDIT;
+  const head = (text: string): DocxCell => ({ paragraphs: [{ type: 'paragraph', runs: [{ text, bold: true }] }], shade: '#E6E6E6' });
+  const blocks: DocxBlock[] = [
+    { type: 'paragraph', runs: [{ text: `${(data.title || 'Untitled').toUpperCase()} - RADIO CUT`, bold: true }], size: 14, spaceAfter: 4 },
+    textParagraph(`Running time about ${formatDuration(paperEditDuration(edit))}  ·  Source timecode at ${edit.fps} fps`, { spaceAfter: 12 }),
+  ];
+
+  groupByBeat(edit, data.beats).forEach((group, i) => {
+    if (!group.items.length) return;
+    blocks.push({ type: 'paragraph', runs: [{ text: group.beat === null ? 'UNASSIGNED' : `${i + 1}. ${group.beat.toUpperCase()}`, bold: true }], spaceAfter: 6 });
+    const rows: DocxCell[][] = [[head('SOURCE'), head('IN / OUT'), head('SPEAKER'), head('WORDS')]];
+    group.items.forEach(item => {
+      if (item.type === 'bite') {
+        rows.push([
+          { paragraphs: [textParagraph(item.source || '')] },
+          { paragraphs: [textParagraph(formatSourceTimecode(item.start ?? 0, edit.fps)), textParagraph(formatSourceTimecode(item.end ?? 0, edit.fps))] },
+          { paragraphs: [textParagraph(item.speaker || '')] },
+          { paragraphs: [textParagraph(`"${item.text}"`)] },
+        ]);
+      } else {
+        rows.push([
+          { paragraphs: [{ type: 'paragraph', runs: [{ text: item.type === 'vo' ? 'VO' : 'B-ROLL', bold: true }] }], span: 3, shade: '#F5F5F5' },
+          { paragraphs: [{ type: 'paragraph', runs: [{ text: item.text, italic: item.type === 'broll' }] }], shade: '#F5F5F5' },
+        ]);
+      }
+    });
+    blocks.push({ type: 'table', columns: [1.4, 1.2, 1.1, 3.3], rows, headerRows: 1 });
+    blocks.push(textParagraph('', { spaceAfter: 6 }));
+  });
+
+  return createDocx(blocks, { font: 'Courier New', size: 10, margins: 0.75 });
+};
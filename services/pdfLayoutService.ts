@@ -0,0 +1,310 @@
+/**
+ * SCRIPT ENGINE - PDF Layout Import
+ *
+ * Rebuilds Fountain text from a screenplay PDF using the x/y position of
+ * every text run reported by pdf.js getTextContent. Elements are
+ * classified by the column they start in (action, dialogue,
+ * parenthetical, cue, transition), the way screenplay pages are typed.
+ *
+ * Running headers, page numbers, (MORE)/(CONT'D) and revision asterisks
+ * are dropped, and dialogue split across a page break is merged back.
+ */
+
+import { PAGE_LAYOUT, ELEMENT_LAYOUT } from './paginationService';
+import { POINTS_PER_INCH } from './pdfWriter';
+
+// ============================================
+// TYPES
+// ============================================
+
+// The subset of the pdf.js API we rely on
+interface PdfJsTextItem {
+  str: string;
+  transform: number[];
+  width: number;
+}
+
+interface PdfJsPage {
+  getViewport: (params: { scale: number }) => { width: number; height: number };
+  getTextContent: () => Promise<{ items: Array<PdfJsTextItem | { type: string }> }>;
+}
+
+export interface PdfJsDocument {
+  numPages: number;
+  getPage: (pageNumber: number) => Promise<PdfJsPage>;
+}
+
+export interface PositionedLine {
+  page: number;
+  x: number; // Inches from the left edge of the page
+  y: number; // Inches from the top edge of the page
+  text: string;
+  sceneNumber?: string;
+}
+
+type LineKind = 'heading' | 'action' | 'character' | 'parenthetical' | 'dialogue' | 'transition';
+
+const SAME_LINE_TOLERANCE = 2 / POINTS_PER_INCH;
+const LINE_SPACING = PAGE_LAYOUT.lineHeight / POINTS_PER_INCH;
+const HEADER_ZONE = 0.8; // inches from the top
+const FOOTER_ZONE = 0.6; // inches from the bottom
+
+const SCENE_HEADING_PATTERN = /^(?:INT\.?\/EXT|INT\/EXT|I\/E|INT|EXT|EST)[.\s]/i;
+const SCENE_NUMBER_PATTERN = /^[A-Z]?\d+[A-Z]{0,2}\.?$/;
+const PAGE_NUMBER_PATTERN = /^(?:page\s+)?\d+[A-Z]{0,2}\.?$/i;
+
+// Column offsets relative to the action margin, in inches
+const COLUMN_OFFSETS: Array<{ kind: LineKind; offset: number }> = [
+  { kind: 'action', offset: 0 },
+  { kind: 'dialogue', offset: ELEMENT_LAYOUT.dialogue.x - ELEMENT_LAYOUT.action.x },
+  { kind: 'parenthetical', offset: ELEMENT_LAYOUT.parenthetical.x - ELEMENT_LAYOUT.action.x },
+  { kind: 'character', offset: ELEMENT_LAYOUT.character.x - ELEMENT_LAYOUT.action.x },
+];
+
+// ============================================
+// TEXT POSITION EXTRACTION
+// ============================================
+
+const isTextItem = (item: PdfJsTextItem | { type: string }): item is PdfJsTextItem => 'str' in item;
+
+/**
+ * Group pdf.js text runs into visual lines, top to bottom
+ */
+export const extractPositionedLines = async (pdf: PdfJsDocument): Promise<{ lines: PositionedLine[]; pageHeight: number }> => {
+  const lines: PositionedLine[] = [];
+  let pageHeight = 11;
+
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const viewport = page.getViewport({ scale: 1 });
+    pageHeight = viewport.height / POINTS_PER_INCH;
+    const content = await page.getTextContent();
+
+    const runs = content.items
+      .filter(isTextItem)
+      .filter(item => item.str.trim() !== '' || item.str === ' ')
+      .map(item => ({
+        x: item.transform[4] / POINTS_PER_INCH,
+        y: (viewport.height - item.transform[5]) / POINTS_PER_INCH,
+        width: item.width / POINTS_PER_INCH,
+        str: item.str,
+      }))
+      .sort((a, b) => a.y - b.y || a.x - b.x);
+
+    const pageLines: Array<{ y: number; runs: typeof runs }> = [];
+    runs.forEach(run => {
+      const line = pageLines.find(l => Math.abs(l.y - run.y) <= SAME_LINE_TOLERANCE);
+      if (line) line.runs.push(run);
+      else pageLines.push({ y: run.y, runs: [run] });
+    });
+
+    pageLines.forEach(line => {
+      const sorted = line.runs.sort((a, b) => a.x - b.x);
+      const textRuns = sorted.filter(r => r.str.trim() !== '');
+      if (!textRuns.length) return;
+
+      // Scene numbers sit alone in the margins either side of the heading
+      let sceneNumber: string | undefined;
+      const body = textRuns.filter(run => {
+        const token = run.str.trim();
+        if (run.x < PAGE_LAYOUT.left - 0.2 && SCENE_NUMBER_PATTERN.test(token)) {
+          sceneNumber = token.replace(/\.$/, '');
+          return false;
+        }
+        if (run.x > PAGE_LAYOUT.right - 0.1 && (SCENE_NUMBER_PATTERN.test(token) || /^\*+$/.test(token))) return false;
+        return true;
+      });
+      if (!body.length) return;
+
+      // Re-insert the spaces pdf.js drops between positioned runs
+      let text = '';
+      let cursor = body[0].x;
+      body.forEach(run => {
+        const gap = run.x - cursor;
+        if (text && gap > 0.05 && !text.endsWith(' ') && !run.str.startsWith(' ')) {
+          text += ' '.repeat(Math.max(1, Math.round(gap * PAGE_LAYOUT.charsPerInch)));
+        }
+        text += run.str;
+        cursor = run.x + run.width;
+      });
+
+      lines.push({
+        page: pageNumber,
+        x: body[0].x,
+        y: line.y,
+        text: text.replace(/\s+\*+\s*$/, '').replace(/\s+$/, ''),
+        sceneNumber,
+      });
+    });
+  }
+
+  return { lines, pageHeight };
+};
+
+// ============================================
+// CLEANUP
+// ============================================
+
+const normalizeForRepeat = (text: string) => text.replace(/\d+/g, '#').replace(/\s+/g, ' ').trim().toUpperCase();
+
+/**
+ * Drop page numbers, running headers/footers and (MORE) markers
+ */
+const stripPageFurniture = (lines: PositionedLine[], pageHeight: number): PositionedLine[] => {
+  const pageCount = new Set(lines.map(l => l.page)).size;
+  const marginCounts = new Map<string, Set<number>>();
+
+  const inMargin = (line: PositionedLine) => line.y < HEADER_ZONE || line.y > pageHeight - FOOTER_ZONE;
+  lines.filter(inMargin).forEach(line => {
+    const key = normalizeForRepeat(line.text);
+    if (!marginCounts.has(key)) marginCounts.set(key, new Set());
+    marginCounts.get(key)!.add(line.page);
+  });
+
+  return lines.filter(line => {
+    const text = line.text.trim();
+    if (text === '(MORE)') return false;
+    if (!inMargin(line)) return true;
+    if (PAGE_NUMBER_PATTERN.test(text)) return false;
+    const repeats = marginCounts.get(normalizeForRepeat(text))?.size || 0;
+    return !(pageCount > 2 && repeats >= Math.ceil(pageCount / 2));
+  });
+};
+
+// ============================================
+// CLASSIFICATION
+// ============================================
+
+const isUpper = (text: string) => /[A-Z]/.test(text) && text === text.toUpperCase();
+
+/**
+ * The action margin is the most common left edge on the page
+ */
+const findActionMargin = (lines: PositionedLine[]): number => {
+  const counts = new Map<number, number>();
+  lines.forEach(line => {
+    const bucket = Math.round(line.x * 10) / 10;
+    counts.set(bucket, (counts.get(bucket) || 0) + 1);
+  });
+  const candidates = Array.from(counts.entries()).filter(([x]) => x < PAGE_LAYOUT.left + 0.6);
+  const best = (candidates.length ? candidates : Array.from(counts.entries())).sort((a, b) => b[1] - a[1])[0];
+  return best ? best[0] : PAGE_LAYOUT.left;
+};
+
+const classifyLine = (line: PositionedLine, margin: number, previous: LineKind | null, openParen: boolean): LineKind => {
+  const text = line.text.trim();
+  const offset = line.x - margin;
+
+  if (offset > 3.2 && isUpper(text)) return 'transition';
+  if (openParen) return 'parenthetical';
+
+  const nearest = COLUMN_OFFSETS.reduce((best, col) =>
+    Math.abs(col.offset - offset) < Math.abs(best.offset - offset) ? col : best
+  ).kind;
+
+  if (nearest === 'action') {
+    return SCENE_HEADING_PATTERN.test(text) || line.sceneNumber ? 'heading' : 'action';
+  }
+  if (nearest === 'character') {
+    return isUpper(text.replace(/\(.*?\)/g, '')) ? 'character' : 'dialogue';
+  }
+  if (nearest === 'parenthetical') {
+    if (text.startsWith('(')) return 'parenthetical';
+    return previous === 'character' || previous === 'dialogue' || previous === 'parenthetical' ? 'dialogue' : 'action';
+  }
+  return previous === null || previous === 'action' || previous === 'heading' || previous === 'transition' ? 'action' : 'dialogue';
+};
+
+// ============================================
+// FOUNTAIN REBUILD
+// ============================================
+
+const CONTD_PATTERN = /\s*\((?:CONT'D|CONT’D|CONTINUED|CONT)\)\s*$/i;
+
+const cueName = (text: string) => text.replace(/\(.*$/, '').trim();
+
+/**
+ * Turn positioned lines into Fountain text
+ */
+export const positionedLinesToFountain = (allLines: PositionedLine[], pageHeight: number = 11): string => {
+  const lines = stripPageFurniture(allLines, pageHeight);
+  const margin = findActionMargin(lines);
+
+  const paragraphs: Array<{ kind: LineKind; text: string; sceneNumber?: string }> = [];
+  let previous: LineKind | null = null;
+  let prevLine: PositionedLine | null = null;
+  let lastCue = '';
+  let openParen = false;
+  let mergeNextDialogue = false;
+
+  lines.forEach(line => {
+    const text = line.text.trim();
+    const kind = classifyLine(line, margin, previous, openParen);
+    const newPage = !!prevLine && prevLine.page !== line.page;
+    const sameParagraph = !!prevLine && !newPage && line.y - prevLine.y < LINE_SPACING * 1.5;
+    const current = paragraphs[paragraphs.length - 1];
+
+    // "NAME (CONT'D)" opening a page continues the speech cut off by (MORE)
+    const speechWasCut = newPage && (previous === 'dialogue' || previous === 'parenthetical');
+    if (speechWasCut && kind === 'character' && CONTD_PATTERN.test(text) && cueName(text) === cueName(lastCue)) {
+      mergeNextDialogue = true;
+      prevLine = line;
+      return;
+    }
+
+    if (kind === 'parenthetical') openParen = !text.includes(')');
+
+    let continues = false;
+    if (current && current.kind === kind) {
+      if (kind === 'action') continues = sameParagraph;
+      if (kind === 'dialogue') continues = sameParagraph || mergeNextDialogue;
+      if (kind === 'parenthetical') continues = sameParagraph && !text.startsWith('(');
+    }
+    mergeNextDialogue = false;
+
+    if (continues) {
+      current.text += ' ' + text;
+    } else {
+      paragraphs.push({ kind, text, sceneNumber: line.sceneNumber });
+    }
+
+    if (kind === 'character') lastCue = text;
+    previous = kind;
+    prevLine = line;
+  });
+
+  // Serialize, forcing anything Fountain would not infer on its own
+  const out: string[] = [];
+  paragraphs.forEach((para, idx) => {
+    const prev = paragraphs[idx - 1];
+    const inDialogue = para.kind === 'dialogue' || para.kind === 'parenthetical';
+    const prevInBlock = prev && (prev.kind === 'character' || prev.kind === 'dialogue' || prev.kind === 'parenthetical');
+    if (out.length && !(inDialogue && prevInBlock)) out.push('');
+
+    switch (para.kind) {
+      case 'heading': {
+        const forced = SCENE_HEADING_PATTERN.test(para.text) ? '' : '.';
+        out.push(forced + para.text + (para.sceneNumber ? ` #${para.sceneNumber}#` : ''));
+        break;
+      }
+      case 'character':
+        out.push((isUpper(cueName(para.text)) ? '' : '@') + para.text);
+        break;
+      case 'transition':
+        out.push((/TO:$/.test(para.text) ? '' : '> ') + para.text);
+        break;
+      default:
+        out.push(para.text);
+    }
+  });
+
+  return out.join('\n') + '\n';
+};
+
+/**
+ * Extract a screenplay from a pdf.js document as Fountain text
+ */
+export const extractScreenplayFromPDF = async (pdf: PdfJsDocument): Promise<string> => {
+  const { lines, pageHeight } = await extractPositionedLines(pdf);
+  return positionedLinesToFountain(lines, pageHeight);
+};
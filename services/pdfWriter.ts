@@ -0,0 +1,201 @@
+/**
+ * SCRIPT ENGINE - PDF Writer
+ *
+ * Minimal PDF 1.4 generator for text-and-box documents (scripts, sheets,
+ * stripboards). Uses the built-in Courier family so nothing is embedded,
+ * which keeps every glyph exactly 0.6em wide for layout maths.
+ *
+ * Coordinates are in points from the TOP-LEFT corner of the page.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export type PdfFont = 'regular' | 'bold' | 'italic' | 'boldItalic';
+
+export interface PdfTextOptions {
+  font?: PdfFont;
+  size?: number;
+  underline?: boolean;
+  color?: PdfColor;
+}
+
+export type PdfColor = [number, number, number]; // 0-1 RGB
+
+export interface PdfPageBuilder {
+  text: (x: number, y: number, text: string, options?: PdfTextOptions) => void;
+  rect: (x: number, y: number, width: number, height: number, fill: PdfColor, stroke?: PdfColor) => void;
+  line: (x1: number, y1: number, x2: number, y2: number, color?: PdfColor, width?: number) => void;
+}
+
+export interface PdfDocumentBuilder {
+  width: number;
+  height: number;
+  addPage: () => PdfPageBuilder;
+  pageCount: () => number;
+  toBytes: () => Uint8Array;
+  toBlob: () => Blob;
+}
+
+export const POINTS_PER_INCH = 72;
+export const US_LETTER = { width: 8.5 * POINTS_PER_INCH, height: 11 * POINTS_PER_INCH };
+export const COURIER_CHAR_WIDTH = 0.6; // em
+
+// Production forms (breakdown sheets, call sheets): half-inch margins,
+// black rules on white, grey labels
+export const FORM_MARGIN = 36;
+export const BLACK: PdfColor = [0, 0, 0];
+export const WHITE: PdfColor = [1, 1, 1];
+export const GREY: PdfColor = [0.35, 0.35, 0.35];
+
+const FONT_NAMES: Record<PdfFont, string> = {
+  regular: 'Courier',
+  bold: 'Courier-Bold',
+  italic: 'Courier-Oblique',
+  boldItalic: 'Courier-BoldOblique',
+};
+const FONT_KEYS: Record<PdfFont, string> = { regular: 'F1', bold: 'F2', italic: 'F3', boldItalic: 'F4' };
+
+// Characters outside Latin-1 that WinAnsiEncoding still covers
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94,
+  '–': 0x96, '—': 0x97, '…': 0x85, '•': 0x95, '€': 0x80,
+};
+
+// ============================================
+// ENCODING HELPERS
+// ============================================
+
+const toWinAnsi = (text: string): string =>
+  Array.from(text)
+    .map(ch => {
+      if (WIN_ANSI_EXTRAS[ch]) return String.fromCharCode(WIN_ANSI_EXTRAS[ch]);
+      return ch.charCodeAt(0) < 256 ? ch : '?';
+    })
+    .join('');
+
+const escapePdfString = (text: string): string =>
+  toWinAnsi(text).replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)');
+
+const num = (n: number) => (Math.round(n * 100) / 100).toString();
+
+const colorOp = (color: PdfColor, op: 'rg' | 'RG') => `${color.map(num).join(' ')} ${op}`;
+
+/**
+ * Whether the standard Courier fonts can show every character of the text;
+ * anything else would print as "?"
+ */
+export const canEncodePdfText = (text: string) =>
+  Array.from(text).every(ch => !!WIN_ANSI_EXTRAS[ch] || ch.charCodeAt(0) < 256);
+
+export const textWidth = (text: string, size: number) => text.length * size * COURIER_CHAR_WIDTH;
+
+// Whole characters of a given size that fit in a width
+export const charsInWidth = (width: number, size: number) => Math.floor(width / textWidth('M', size));
+
+/**
+ * Convert a #rrggbb colour to PDF 0-1 RGB
+ */
+export const hexToPdfColor = (hex: string): PdfColor => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [((value >> 16) & 255) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255];
+};
+
+// ============================================
+// DOCUMENT BUILDER
+// ============================================
+
+export const createPdfDocument = (size: { width: number; height: number } = US_LETTER): PdfDocumentBuilder => {
+  const pages: string[][] = [];
+  const { width, height } = size;
+
+  const addPage = (): PdfPageBuilder => {
+    const ops: string[] = [];
+    pages.push(ops);
+
+    return {
+      text: (x, y, text, options = {}) => {
+        const fontSize = options.size ?? 12;
+        const baseline = height - y;
+        ops.push(
+          'BT',
+          colorOp(options.color ?? [0, 0, 0], 'rg'),
+          `/${FONT_KEYS[options.font ?? 'regular']} ${num(fontSize)} Tf`,
+          `${num(x)} ${num(baseline)} Td`,
+          `(${escapePdfString(text)}) Tj`,
+          'ET'
+        );
+        if (options.underline) {
+          const underlineY = baseline - fontSize * 0.15;
+          ops.push(
+            colorOp(options.color ?? [0, 0, 0], 'RG'),
+            `${num(fontSize * 0.05)} w`,
+            `${num(x)} ${num(underlineY)} m ${num(x + textWidth(text, fontSize))} ${num(underlineY)} l S`
+          );
+        }
+      },
+      rect: (x, y, w, h, fill, stroke) => {
+        ops.push(colorOp(fill, 'rg'));
+        if (stroke) ops.push(colorOp(stroke, 'RG'), '0.5 w');
+        ops.push(`${num(x)} ${num(height - y - h)} ${num(w)} ${num(h)} re ${stroke ? 'B' : 'f'}`);
+      },
+      line: (x1, y1, x2, y2, color = [0, 0, 0], lineWidth = 0.5) => {
+        ops.push(colorOp(color, 'RG'), `${num(lineWidth)} w`, `${num(x1)} ${num(height - y1)} m ${num(x2)} ${num(height - y2)} l S`);
+      },
+    };
+  };
+
+  const toBytes = (): Uint8Array => {
+    // Object layout: 1 catalog, 2 pages tree, 3-6 fonts, then content + page pairs
+    const objects: string[] = [];
+    const fontObjects = (Object.keys(FONT_NAMES) as PdfFont[]).map(
+      font => `<< /Type /Font /Subtype /Type1 /BaseFont /${FONT_NAMES[font]} /Encoding /WinAnsiEncoding >>`
+    );
+    const fontResources = (Object.keys(FONT_KEYS) as PdfFont[]).map((font, i) => `/${FONT_KEYS[font]} ${3 + i} 0 R`).join(' ');
+    const firstPageObj = 3 + fontObjects.length;
+    const pageRefs = pages.map((_, i) => `${firstPageObj + i * 2 + 1} 0 R`);
+
+    objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+    objects.push(`<< /Type /Pages /Kids [${pageRefs.join(' ')}] /Count ${pages.length} >>`);
+    objects.push(...fontObjects);
+
+    pages.forEach((ops, i) => {
+      const stream = ops.join('\n');
+      const contentObj = firstPageObj + i * 2;
+      objects.push(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(width)} ${num(height)}] ` +
+        `/Resources << /Font << ${fontResources} >> >> /Contents ${contentObj} 0 R >>`
+      );
+    });
+
+    let output = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    objects.forEach((body, i) => {
+      offsets.push(output.length);
+      output += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    });
+
+    const xrefOffset = output.length;
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    offsets.forEach(offset => {
+      output += `${offset.toString().padStart(10, '0')} 00000 n \n`;
+    });
+    output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    // Every character is already single-byte WinAnsi
+    const bytes = new Uint8Array(output.length);
+    for (let i = 0; i < output.length; i++) bytes[i] = output.charCodeAt(i) & 0xff;
+    return bytes;
+  };
+
+  return {
+    width,
+    height,
+    addPage,
+    pageCount: () => pages.length,
+    toBytes,
+    toBlob: () => new Blob([toBytes()], { type: 'application/pdf' }),
+  };
+};
@@ -0,0 +1,293 @@
+/**
+ * SCRIPT ENGINE - Revision Service
+ *
+ * Production revisions on top of snapshots. Locking the script saves a
+ * White revision set with its page breaks; each later set (Blue, Pink,
+ * Yellow...) is a snapshot baseline that the next round of changes is
+ * diffed against.
+ *
+ * From the chain of sets every current line knows the revision that last
+ * touched it. That drives margin asterisks for the current revision, page
+ * colors, locked pagination with A-pages (12A, 12B) and 12-13 for pages
+ * whose content is gone, and the changed-pages-only export.
+ */
+
+import { paginateScript, drawScriptPage, drawTitlePage, rowY, ScriptPage, PAGE_LAYOUT } from './paginationService';
+import { parseFountainDocument } from './fountainParser';
+import { diffText, mapLinesForward } from './diffService';
+import { createPdfDocument, hexToPdfColor, textWidth, POINTS_PER_INCH, US_LETTER } from './pdfWriter';
+import type { ProjectData, Snapshot, LockedPageStart } from '../types';
+
+// ============================================
+// REVISION COLORS
+// ============================================
+
+export interface RevisionColor {
+  name: string;
+  hex: string;
+}
+
+// Standard WGA-style order; after Cherry the cycle repeats as Double White, Double Blue...
+export const REVISION_COLORS: RevisionColor[] = [
+  { name: 'White', hex: '#ffffff' },
+  { name: 'Blue', hex: '#a9c8f0' },
+  { name: 'Pink', hex: '#f4b6c8' },
+  { name: 'Yellow', hex: '#f6e58d' },
+  { name: 'Green', hex: '#a8e0a0' },
+  { name: 'Goldenrod', hex: '#e6b84c' },
+  { name: 'Buff', hex: '#f0dcb4' },
+  { name: 'Salmon', hex: '#f5a58c' },
+  { name: 'Cherry', hex: '#e0607a' },
+];
+
+const CYCLE_PREFIXES = ['', 'Double ', 'Triple ', 'Quadruple '];
+
+export const revisionColor = (index: number): RevisionColor => {
+  const base = REVISION_COLORS[index % REVISION_COLORS.length];
+  const cycle = Math.floor(index / REVISION_COLORS.length);
+  const prefix = CYCLE_PREFIXES[cycle] ?? `${cycle + 1}x `;
+  return { name: `${prefix}${base.name}`, hex: base.hex };
+};
+
+// ============================================
+// REVISION SETS
+// ============================================
+
+/**
+ * Issued revision sets, White first
+ */
+export const getRevisionSets = (snapshots: Snapshot[] = []): Snapshot[] =>
+  snapshots.filter(s => s.revision).sort((a, b) => a.revision!.index - b.revision!.index);
+
+export const isScriptLocked = (data: ProjectData) => getRevisionSets(data.snapshots).length > 0;
+
+/**
+ * Where each page of the script begins, for locking
+ */
+const lockedPageStarts = (script: string): LockedPageStart[] => {
+  const { pages } = paginateScript(script, { numberScenes: true });
+  const elementStarts = new Set(parseFountainDocument(script).elements.map(el => el.startLine));
+
+  return pages.map((page, p) => {
+    const first = page.rows.flat().find(line => line.sourceLine !== undefined);
+    const line = first?.sourceLine ?? 0;
+    const continued = p > 0 && pages[p - 1].rows.some(row => row.some(l => l.sourceLine === line));
+    return { line, blockStart: !!first && first.kind !== 'contd' && elementStarts.has(line) && !continued };
+  });
+};
+
+/**
+ * Snapshot for the next revision set: White (locking the script) if there
+ * is none yet, otherwise the next color in the sequence
+ */
+export const createRevisionSet = (data: ProjectData): Snapshot => {
+  const index = getRevisionSets(data.snapshots).length;
+  const color = revisionColor(index).name;
+  const timestamp = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    timestamp,
+    label: index === 0 ? 'White (Locked)' : `${color} Revision`,
+    // Sets are baselines for the script, not for the history they sit in
+    data: { ...data, snapshots: [] },
+    revision: {
+      index,
+      color,
+      ...(index === 0 ? { pageStarts: lockedPageStarts(data.scriptContent || '') } : {}),
+    },
+  };
+};
+
+// ============================================
+// LINE REVISIONS
+// ============================================
+
+export interface RevisionState {
+  sets: Snapshot[];
+  lineRevisions: number[]; // Per line of the current script: index of the set that last changed it
+  current: number;         // Revision whose changes get asterisks
+  pending: boolean;        // Current script has changes not yet issued as a set
+}
+
+const nextPrinting = (lines: string[], from: number) => {
+  let i = from;
+  while (i < lines.length && !lines[i].trim()) i++;
+  return i;
+};
+
+/**
+ * Carry per-line revisions from one text to the next; changed lines and
+ * the line after a cut take `index`
+ */
+const advance = (before: string, revisions: number[], after: string, index: number): number[] => {
+  const lines = after.split('\n');
+  const next = new Array<number>(lines.length).fill(index);
+  const ops = diffText(before, after);
+  ops.forEach(op => {
+    if (op.type === 'equal') {
+      for (let i = op.aStart; i < op.aEnd; i++) next[op.bStart + i - op.aStart] = revisions[i];
+    }
+  });
+  ops.forEach(op => {
+    if (op.type !== 'delete') return;
+    const at = nextPrinting(lines, op.bStart);
+    if (at < lines.length) next[at] = index;
+  });
+  return next;
+};
+
+export const getRevisionState = (data: ProjectData): RevisionState | null => {
+  const sets = getRevisionSets(data.snapshots);
+  if (!sets.length) return null;
+
+  let text = sets[0].data.scriptContent || '';
+  let revisions = text.split('\n').map(() => 0);
+  sets.slice(1).forEach((set, i) => {
+    const nextText = set.data.scriptContent || '';
+    revisions = advance(text, revisions, nextText, i + 1);
+    text = nextText;
+  });
+
+  const script = data.scriptContent || '';
+  const pending = script !== text;
+  if (pending) revisions = advance(text, revisions, script, sets.length);
+
+  return { sets, lineRevisions: revisions, current: pending ? sets.length : sets.length - 1, pending };
+};
+
+// ============================================
+// LOCKED PAGINATION
+// ============================================
+
+export interface RevisedPage {
+  page: ScriptPage;
+  label: string;        // Locked page number: "12", "12A", "12-13"
+  revision: number;     // Latest revision on the page, 0 for unchanged White
+  markedRows: number[]; // Rows changed in the current revision
+}
+
+const letterSuffix = (n: number) => {
+  let label = '';
+  let i = n;
+  do {
+    label = String.fromCharCode(65 + (i % 26)) + label;
+    i = Math.floor(i / 26) - 1;
+  } while (i >= 0);
+  return label;
+};
+
+/**
+ * Paginate the current script against the White set's locked pages
+ */
+export const paginateRevised = (data: ProjectData): RevisedPage[] => {
+  const script = data.scriptContent || '';
+  const state = getRevisionState(data);
+  if (!state) {
+    return paginateScript(script, { numberScenes: true }).pages.map(page => ({
+      page, label: String(page.number), revision: 0, markedRows: [],
+    }));
+  }
+
+  const white = state.sets[0];
+  const starts = white.revision!.pageStarts || [];
+  const map = mapLinesForward(diffText(white.data.scriptContent || '', script), (white.data.scriptContent || '').split('\n').length);
+  const mapped = starts.map(start => ({ line: map[start.line] ?? script.split('\n').length, blockStart: start.blockStart }));
+
+  const { pages } = paginateScript(script, {
+    numberScenes: true,
+    pageStarts: mapped.filter((s, i) => i > 0 && s.blockStart).map(s => s.line),
+  });
+
+  const result: RevisedPage[] = [];
+  let lastNumber = 0;
+  let suffix = 0;
+  pages.forEach(page => {
+    const first = page.rows.flat().find(line => line.sourceLine !== undefined)?.sourceLine ?? 0;
+    const locked = Math.max(1, mapped.filter(s => s.line <= first).length);
+
+    let label: string;
+    if (locked > lastNumber) {
+      // Locked pages with nothing left fold into the page before: 12-13
+      const previous = result[result.length - 1];
+      if (previous && /^\d+$/.test(previous.label) && locked > lastNumber + 1) {
+        previous.label = `${previous.label}-${locked - 1}`;
+      }
+      label = String(locked);
+      lastNumber = locked;
+      suffix = 0;
+    } else {
+      label = `${lastNumber}${letterSuffix(suffix++)}`;
+    }
+
+    let revision = 0;
+    const markedRows: number[] = [];
+    page.rows.forEach((row, r) => {
+      const lineRevisions = row
+        .map(line => line.sourceLine)
+        .filter((line): line is number => line !== undefined)
+        .map(line => state.lineRevisions[line] ?? 0);
+      lineRevisions.forEach(rev => { revision = Math.max(revision, rev); });
+      if (state.current > 0 && lineRevisions.includes(state.current)) markedRows.push(r);
+    });
+
+    result.push({ page, label, revision, markedRows });
+  });
+  return result;
+};
+
+// ============================================
+// EXPORT
+// ============================================
+
+const formatRevisionDate = (timestamp: number) => {
+  const d = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${pad(d.getMonth() + 1)}/${pad(d.getDate())}/${String(d.getFullYear()).slice(-2)}`;
+};
+
+/**
+ * Header text for a page of a given revision, e.g. "Blue Rev. 10/18/26"
+ */
+export const revisionHeader = (state: RevisionState, revision: number): string => {
+  const set = state.sets[revision];
+  return `${revisionColor(revision).name} Rev. ${formatRevisionDate(set ? set.timestamp : Date.now())}`;
+};
+
+export interface RevisionPdfOptions {
+  changedOnly?: boolean; // Only pages carrying changes from the current revision
+}
+
+/**
+ * Locked-page PDF with revision headers, a color edge per page and
+ * asterisks in the right margin beside changed lines
+ */
+export const renderRevisionPDF = (data: ProjectData, options: RevisionPdfOptions = {}): Blob => {
+  const state = getRevisionState(data);
+  const revised = paginateRevised(data);
+  const pages = options.changedOnly ? revised.filter(p => p.markedRows.length) : revised;
+  const pdf = createPdfDocument();
+
+  if (!options.changedOnly) {
+    const { titlePage } = paginateScript(data.scriptContent || '');
+    drawTitlePage(pdf.addPage(), titlePage, data.title);
+  }
+
+  pages.forEach(({ page: scriptPage, label, revision, markedRows }) => {
+    const page = pdf.addPage();
+    drawScriptPage(page, scriptPage, label);
+
+    if (state && revision > 0) {
+      const header = revisionHeader(state, revision);
+      page.text(PAGE_LAYOUT.left * POINTS_PER_INCH, PAGE_LAYOUT.pageNumberTop * POINTS_PER_INCH, header, { size: 10 });
+      page.rect(US_LETTER.width - 8, 0, 8, US_LETTER.height, hexToPdfColor(revisionColor(revision).hex));
+    }
+    markedRows.forEach(row => {
+      page.text(US_LETTER.width - 0.35 * POINTS_PER_INCH - textWidth('*', PAGE_LAYOUT.fontSize), rowY(row), '*');
+    });
+  });
+
+  if (!pages.length) {
+    pdf.addPage().text(PAGE_LAYOUT.left * POINTS_PER_INCH, rowY(0), 'No pages changed in this revision.');
+  }
+  return pdf.toBlob();
+};
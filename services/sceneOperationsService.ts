@@ -0,0 +1,263 @@
+/**
+ * SCRIPT ENGINE - Scene Operations Service
+ *
+ * Whole-scene edits on Fountain text for the scene navigator: reorder,
+ * duplicate, omit, split and merge, plus locked production numbering.
+ *
+ * Numbering is locked once headings carry Fountain scene numbers (#12#).
+ * From then on numbers travel with their scenes, omitted scenes keep a
+ * numbered OMITTED heading, and new scenes get A/B inserts (12A, 12B)
+ * instead of renumbering everything after them.
+ */
+
+import { parseFountainDocument, stripInlineMarkup, FountainElementType } from './fountainParser';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface SceneSpan {
+  index: number;      // 0-based order in the script
+  heading: string;    // Heading text without forcing sigil or number
+  number?: string;    // Production number from #12A#
+  omitted: boolean;
+  startLine: number;  // Heading line
+  endLine: number;    // Exclusive: the next heading, or the end of the script
+}
+
+export interface SplitPoint {
+  line: number;
+  type: FountainElementType;
+  text: string;
+}
+
+const SCENE_NUMBER_PATTERN = /\s*#([^#\s]+)#\s*$/;
+const OMITTED_PATTERN = /^OMITTED\b/i;
+const SPLIT_TYPES: FountainElementType[] = ['action', 'character', 'transition', 'centered'];
+const LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'.split('');
+
+// ============================================
+// SCENES
+// ============================================
+
+export const isOmittedHeading = (heading: string) => OMITTED_PATTERN.test(heading.trim());
+
+export const getSceneSpans = (script: string): SceneSpan[] => {
+  const doc = parseFountainDocument(script);
+  return doc.scenes.map((scene, i) => {
+    const heading = stripInlineMarkup(scene.heading.text);
+    return {
+      index: i,
+      heading,
+      number: scene.heading.sceneNumber,
+      omitted: isOmittedHeading(heading),
+      startLine: scene.heading.startLine,
+      endLine: doc.scenes[i + 1]?.heading.startLine ?? doc.lineCount,
+    };
+  });
+};
+
+export const isNumberingLocked = (script: string) => getSceneSpans(script).some(scene => scene.number);
+
+/**
+ * Where a scene can be split: before any action, cue or transition after its heading
+ */
+export const getSplitPoints = (script: string, index: number): SplitPoint[] => {
+  const scene = parseFountainDocument(script).scenes[index];
+  if (!scene) return [];
+  return scene.elements
+    .filter(el => SPLIT_TYPES.includes(el.type))
+    .map(el => ({ line: el.startLine, type: el.type, text: stripInlineMarkup(el.text) }));
+};
+
+interface SceneBlocks {
+  preamble: string[];
+  scenes: string[][];
+}
+
+const toBlocks = (script: string): SceneBlocks => {
+  const lines = script.split('\n');
+  const spans = getSceneSpans(script);
+  return {
+    preamble: lines.slice(0, spans[0]?.startLine ?? lines.length),
+    scenes: spans.map(span => lines.slice(span.startLine, span.endLine)),
+  };
+};
+
+const endsWithBreak = (lines: string[]) => !lines.length || lines[lines.length - 1].trim() === '';
+
+// A heading only parses after a blank line, so every block but the last ends with one
+const fromBlocks = ({ preamble, scenes }: SceneBlocks): string => {
+  const out = [...preamble];
+  scenes.forEach((lines, i) => {
+    if (out.length && !endsWithBreak(out)) out.push('');
+    out.push(...lines);
+    if (i < scenes.length - 1 && !endsWithBreak(lines)) out.push('');
+  });
+  return out.join('\n');
+};
+
+// ============================================
+// NUMBERING
+// ============================================
+
+/**
+ * Replace (or with undefined, remove) the #number# on a heading line
+ */
+export const setHeadingNumber = (line: string, number?: string): string => {
+  const bare = line.replace(SCENE_NUMBER_PATTERN, '').trimEnd();
+  return number ? `${bare} #${number}#` : bare;
+};
+
+/**
+ * First free insert number after `previous`: 12 -> 12A, 12A -> 12B.
+ * Scenes ahead of the first numbered one count down from it: A1, B1.
+ */
+export const nextInsertNumber = (previous: string | undefined, next: string | undefined, taken: Set<string>): string => {
+  const candidates: string[] = [];
+  if (previous) {
+    const match = previous.match(/^(.*?)([A-Z]*)$/);
+    const base = match ? match[1] : previous;
+    const suffix = match ? match[2] : '';
+    if (suffix) {
+      const stem = `${base}${suffix.slice(0, -1)}`;
+      LETTERS.filter(l => l > suffix[suffix.length - 1]).forEach(l => candidates.push(`${stem}${l}`));
+    }
+    LETTERS.forEach(l => candidates.push(`${previous}${l}`));
+  } else {
+    LETTERS.forEach(l => candidates.push(`${l}${next || '1'}`));
+  }
+  const free = candidates.find(c => !taken.has(c));
+  if (free) return free;
+  let n = 2;
+  while (taken.has(`${previous || next || '1'}-${n}`)) n++;
+  return `${previous || next || '1'}-${n}`;
+};
+
+/**
+ * Number every heading 1..n in script order, replacing any existing numbers
+ */
+export const lockSceneNumbers = (script: string): string => {
+  const lines = script.split('\n');
+  getSceneSpans(script).forEach((span, i) => {
+    lines[span.startLine] = setHeadingNumber(lines[span.startLine], String(i + 1));
+  });
+  return lines.join('\n');
+};
+
+/**
+ * Drop all scene numbers. Omitted placeholders go with them.
+ */
+export const unlockSceneNumbers = (script: string): string => {
+  const blocks = toBlocks(script);
+  const spans = getSceneSpans(script);
+  blocks.scenes = blocks.scenes
+    .filter((_, i) => !spans[i].omitted)
+    .map(lines => [setHeadingNumber(lines[0]), ...lines.slice(1)]);
+  return fromBlocks(blocks);
+};
+
+/**
+ * In a locked script, give each unnumbered heading an insert number after
+ * the nearest numbered scene before it
+ */
+export const numberNewScenes = (script: string): string => {
+  const spans = getSceneSpans(script);
+  if (!spans.some(span => span.number)) return script;
+
+  const lines = script.split('\n');
+  const taken = new Set(spans.map(span => span.number).filter((n): n is string => !!n));
+  const numbers = spans.map(span => span.number);
+
+  spans.forEach((span, i) => {
+    if (numbers[i]) return;
+    const previous = [...numbers.slice(0, i)].reverse().find(Boolean);
+    const next = numbers.slice(i + 1).find(Boolean);
+    const number = nextInsertNumber(previous, next, taken);
+    taken.add(number);
+    numbers[i] = number;
+    lines[span.startLine] = setHeadingNumber(lines[span.startLine], number);
+  });
+  return lines.join('\n');
+};
+
+const omittedBlock = (number: string) => [`.OMITTED #${number}#`, ''];
+
+// ============================================
+// OPERATIONS
+// ============================================
+
+// Locked scripts never end an operation with an unnumbered scene
+const finish = (script: string) => numberNewScenes(script);
+
+/**
+ * Move the scene at `from` so it ends up at index `to`
+ */
+export const moveScene = (script: string, from: number, to: number): string => {
+  const blocks = toBlocks(script);
+  if (from === to || !blocks.scenes[from] || to < 0 || to >= blocks.scenes.length) return script;
+  const [scene] = blocks.scenes.splice(from, 1);
+  blocks.scenes.splice(to, 0, scene);
+  return finish(fromBlocks(blocks));
+};
+
+/**
+ * Insert a copy of a scene right after it. The copy never shares the original's number.
+ */
+export const duplicateScene = (script: string, index: number): string => {
+  const blocks = toBlocks(script);
+  const scene = blocks.scenes[index];
+  if (!scene) return script;
+  const copy = [setHeadingNumber(scene[0]), ...scene.slice(1)];
+  blocks.scenes.splice(index + 1, 0, copy);
+  return finish(fromBlocks(blocks));
+};
+
+/**
+ * Replace a scene with a numbered OMITTED heading. Numbering is locked first
+ * if it is not already, since the point is to keep the number.
+ */
+export const omitScene = (script: string, index: number): string => {
+  const locked = isNumberingLocked(script) ? numberNewScenes(script) : lockSceneNumbers(script);
+  const span = getSceneSpans(locked)[index];
+  if (!span || span.omitted) return locked;
+  const blocks = toBlocks(locked);
+  blocks.scenes[index] = omittedBlock(span.number!);
+  return fromBlocks(blocks);
+};
+
+/**
+ * Start a new scene at `line`, inside scene `index`, under a CONTINUOUS
+ * version of its heading
+ */
+export const splitScene = (script: string, index: number, line: number): string => {
+  const span = getSceneSpans(script)[index];
+  if (!span || line <= span.startLine || line >= span.endLine) return script;
+
+  const lines = script.split('\n');
+  const heading = setHeadingNumber(lines[span.startLine]).replace(/\s+-\s+[^-]*$/, '');
+  const before = lines.slice(0, line);
+  if (!endsWithBreak(before)) before.push('');
+  return finish([...before, `${heading} - CONTINUOUS`, '', ...lines.slice(line)].join('\n'));
+};
+
+/**
+ * Fold the following scene into this one by dropping its heading. In a
+ * locked script the absorbed number stays behind as an OMITTED scene.
+ */
+export const mergeWithNext = (script: string, index: number): string => {
+  const spans = getSceneSpans(script);
+  const next = spans[index + 1];
+  if (!spans[index] || !next) return script;
+
+  const blocks = toBlocks(script);
+  const body = blocks.scenes[index + 1].slice(1);
+  while (body.length && body[0].trim() === '') body.shift();
+
+  const merged = [...blocks.scenes[index]];
+  if (!endsWithBreak(merged)) merged.push('');
+  merged.push(...body);
+
+  blocks.scenes.splice(index, 2, merged, ...(next.number ? [omittedBlock(next.number)] : []));
+  return fromBlocks(blocks);
+};
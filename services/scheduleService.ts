@@ -0,0 +1,466 @@
+/**
+ * SCRIPT ENGINE - Schedule Service
+ *
+ * Stripboard and shooting schedule. Every scene becomes a strip coloured by
+ * INT/EXT and DAY/NIGHT; strips are ordered into shoot days, either by hand
+ * or by an automatic proposal that keeps locations and cast together to cut
+ * down company moves and hold days.
+ *
+ * Scenes are keyed by their ScriptDocument scene id (see breakdownService),
+ * so the schedule survives rewrites. Exports as CSV and a stripboard PDF.
+ */
+
+import { BreakdownScene, detectSceneTags, getSceneBreakdown, intExt } from './breakdownService';
+import { formatEighths } from './paginationService';
+import { createPdfDocument, hexToPdfColor, textWidth, PdfPageBuilder, PdfColor, US_LETTER } from './pdfWriter';
+import { toCsv } from './downloadService';
+import type { SceneBreakdown, ShootDay, ShootingSchedule } from '../types';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type StripKind = 'int_day' | 'ext_day' | 'int_night' | 'ext_night';
+
+export interface StripStyle {
+  label: string;
+  color: string; // Traditional stripboard colour
+}
+
+export interface Strip {
+  id: string;         // ScriptSceneNode id
+  number: string;
+  kind: StripKind;
+  intExt: string;     // INT, EXT or INT/EXT
+  dayNight: 'DAY' | 'NIGHT';
+  heading: string;
+  location: string;
+  eighths: number;
+  cast: string[];
+  synopsis: string;
+}
+
+export interface ShootDayStats {
+  eighths: number;
+  locations: string[];
+  companyMoves: number; // Location changes within the day
+  cast: string[];
+}
+
+export interface ProposeOptions {
+  eighthsPerDay?: number;
+  startDate?: string;
+}
+
+export const STRIP_STYLES: Record<StripKind, StripStyle> = {
+  int_day: { label: 'INT / DAY', color: '#ffffff' },
+  ext_day: { label: 'EXT / DAY', color: '#fff176' },
+  int_night: { label: 'INT / NIGHT', color: '#64b5f6' },
+  ext_night: { label: 'EXT / NIGHT', color: '#81c784' },
+};
+
+export const DEFAULT_EIGHTHS_PER_DAY = 40; // Five pages
+
+const NIGHT_TIMES = /NIGHT|EVENING|DUSK|MIDNIGHT/i;
+
+// ============================================
+// STRIPS
+// ============================================
+
+/**
+ * One strip per scene. Cast comes from the breakdown, falling back to the
+ * characters who speak in the scene.
+ */
+export const buildStrips = (scenes: BreakdownScene[], breakdowns: SceneBreakdown[] | undefined): Strip[] =>
+  scenes.map(scene => {
+    const night = NIGHT_TIMES.test(scene.scene.timeOfDay);
+    const tagged = getSceneBreakdown(breakdowns, scene.id).tags.cast;
+    return {
+      id: scene.id,
+      number: scene.number,
+      kind: `${scene.scene.interior ? 'int' : 'ext'}_${night ? 'night' : 'day'}` as StripKind,
+      intExt: intExt(scene.scene),
+      dayNight: night ? 'NIGHT' : 'DAY',
+      heading: scene.scene.heading,
+      location: scene.scene.location.toUpperCase(),
+      eighths: scene.eighths,
+      cast: tagged?.length ? tagged : detectSceneTags(scene).cast || [],
+      synopsis: scene.synopsis,
+    };
+  });
+
+/**
+ * Cast numbers as used on the board: most scenes first
+ */
+export const castNumbers = (strips: Strip[]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  strips.forEach(strip => strip.cast.forEach(name => counts.set(name.toUpperCase(), (counts.get(name.toUpperCase()) || 0) + 1)));
+  const ordered = Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+  return new Map(ordered.map(([name], i) => [name, i + 1]));
+};
+
+export const stripCastIds = (strip: Strip, numbers: Map<string, number>): string =>
+  strip.cast
+    .map(name => numbers.get(name.toUpperCase()))
+    .filter((n): n is number => n !== undefined)
+    .sort((a, b) => a - b)
+    .join(', ');
+
+// ============================================
+// SCHEDULE EDITING
+// ============================================
+
+const newDayId = () => crypto.randomUUID();
+
+export const emptySchedule = (): ShootingSchedule => ({ days: [] });
+
+/**
+ * Drop scenes that no longer exist and any scene listed twice
+ */
+export const normalizeSchedule = (schedule: ShootingSchedule | undefined, strips: Strip[]): ShootingSchedule => {
+  const known = new Set(strips.map(s => s.id));
+  const seen = new Set<string>();
+  const source = schedule || emptySchedule();
+  return {
+    ...source,
+    days: source.days.map(day => ({
+      ...day,
+      sceneIds: day.sceneIds.filter(id => {
+        if (!known.has(id) || seen.has(id)) return false;
+        seen.add(id);
+        return true;
+      }),
+    })),
+  };
+};
+
+/**
+ * Strips not in any shoot day, in script order
+ */
+export const unscheduledStrips = (strips: Strip[], schedule: ShootingSchedule): Strip[] => {
+  const scheduled = new Set(schedule.days.flatMap(day => day.sceneIds));
+  return strips.filter(strip => !scheduled.has(strip.id));
+};
+
+/**
+ * Move a strip into a day (null = back to unscheduled) at an index,
+ * appending when no index is given
+ */
+export const moveStrip = (schedule: ShootingSchedule, sceneId: string, dayId: string | null, index?: number): ShootingSchedule => ({
+  ...schedule,
+  days: schedule.days.map(day => {
+    const sceneIds = day.sceneIds.filter(id => id !== sceneId);
+    if (day.id !== dayId) return sceneIds.length === day.sceneIds.length ? day : { ...day, sceneIds };
+
+    // Indexes are taken against the day as displayed, including the moving strip
+    const from = day.sceneIds.indexOf(sceneId);
+    let at = index ?? sceneIds.length;
+    if (from !== -1 && from < at) at -= 1;
+    sceneIds.splice(Math.max(0, Math.min(at, sceneIds.length)), 0, sceneId);
+    return { ...day, sceneIds };
+  }),
+});
+
+export const addShootDay = (schedule: ShootingSchedule): ShootingSchedule => ({
+  ...schedule,
+  days: [...schedule.days, { id: newDayId(), sceneIds: [] }],
+});
+
+/**
+ * Remove a day; its strips go back to unscheduled
+ */
+export const removeShootDay = (schedule: ShootingSchedule, dayId: string): ShootingSchedule => ({
+  ...schedule,
+  days: schedule.days.filter(day => day.id !== dayId),
+});
+
+// ============================================
+// DATES & STATS
+// ============================================
+
+const parseIsoDate = (iso: string) => new Date(`${iso}T00:00:00Z`);
+
+const nextWorkingDay = (iso: string): string => {
+  const date = parseIsoDate(iso);
+  do {
+    date.setUTCDate(date.getUTCDate() + 1);
+  } while (date.getUTCDay() === 0 || date.getUTCDay() === 6);
+  return date.toISOString().slice(0, 10);
+};
+
+/**
+ * Date of each shoot day: its own date, or the next working day after the
+ * previous one, counting from the schedule's start date
+ */
+export const shootDayDates = (schedule: ShootingSchedule): (string | undefined)[] => {
+  let cursor: string | undefined;
+  return schedule.days.map((day, i) => {
+    if (day.date) cursor = day.date;
+    else if (cursor) cursor = nextWorkingDay(cursor);
+    else if (i === 0 && schedule.startDate) cursor = schedule.startDate;
+    return cursor;
+  });
+};
+
+export const formatShootDate = (iso: string): string =>
+  parseIsoDate(iso).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+export const getDayStats = (day: ShootDay, stripsById: Map<string, Strip>): ShootDayStats => {
+  const strips = day.sceneIds.map(id => stripsById.get(id)).filter((s): s is Strip => !!s);
+  const locations: string[] = [];
+  let companyMoves = 0;
+  strips.forEach((strip, i) => {
+    if (!locations.includes(strip.location)) locations.push(strip.location);
+    if (i > 0 && strips[i - 1].location !== strip.location) companyMoves++;
+  });
+  return {
+    eighths: strips.reduce((sum, s) => sum + s.eighths, 0),
+    locations,
+    companyMoves,
+    cast: Array.from(new Set(strips.flatMap(s => s.cast.map(name => name.toUpperCase())))),
+  };
+};
+
+// ============================================
+// AUTO SCHEDULE
+// ============================================
+
+interface LocationGroup {
+  location: string;
+  strips: Strip[];
+  eighths: number;
+  cast: Set<string>;
+}
+
+const sharedCast = (a: Set<string>, b: Set<string>) => {
+  let count = 0;
+  a.forEach(name => b.has(name) && count++);
+  return count;
+};
+
+/**
+ * Group strips by location, order each group day-before-night and then by
+ * cast, and chain the groups so each is followed by the one sharing the
+ * most cast with it.
+ */
+const orderStrips = (strips: Strip[]): Strip[] => {
+  const groups = new Map<string, LocationGroup>();
+  strips.forEach(strip => {
+    const group = groups.get(strip.location) || { location: strip.location, strips: [], eighths: 0, cast: new Set<string>() };
+    group.strips.push(strip);
+    group.eighths += strip.eighths;
+    strip.cast.forEach(name => group.cast.add(name.toUpperCase()));
+    groups.set(strip.location, group);
+  });
+
+  const castKey = (strip: Strip) => strip.cast.map(n => n.toUpperCase()).sort().join('|');
+  groups.forEach(group => {
+    group.strips = group.strips
+      .map((strip, order) => ({ strip, order }))
+      .sort((a, b) =>
+        Number(a.strip.dayNight === 'NIGHT') - Number(b.strip.dayNight === 'NIGHT') ||
+        castKey(a.strip).localeCompare(castKey(b.strip)) ||
+        a.order - b.order
+      )
+      .map(({ strip }) => strip);
+  });
+
+  const remaining = Array.from(groups.values()).sort((a, b) => b.eighths - a.eighths);
+  const ordered: LocationGroup[] = [];
+  while (remaining.length) {
+    const previous = ordered[ordered.length - 1];
+    let best = 0;
+    if (previous) {
+      remaining.forEach((group, i) => {
+        if (sharedCast(previous.cast, group.cast) > sharedCast(previous.cast, remaining[best].cast)) best = i;
+      });
+    }
+    ordered.push(remaining.splice(best, 1)[0]);
+  }
+
+  return ordered.flatMap(group => group.strips);
+};
+
+/**
+ * Propose a full schedule. Days are filled up to the page target; a new day
+ * starts rather than splitting a location that would fit in a day of its
+ * own, and after night work so day scenes get their turnaround.
+ */
+export const proposeSchedule = (strips: Strip[], options: ProposeOptions = {}): ShootingSchedule => {
+  const capacity = options.eighthsPerDay || DEFAULT_EIGHTHS_PER_DAY;
+  const ordered = orderStrips(strips);
+  const locationEighths = new Map<string, number>();
+  ordered.forEach(s => locationEighths.set(s.location, (locationEighths.get(s.location) || 0) + s.eighths));
+
+  const days: ShootDay[] = [];
+  let current: ShootDay | null = null;
+  let used = 0;
+  let last: Strip | null = null;
+
+  ordered.forEach(strip => {
+    let startNewDay = !current;
+    if (current && last) {
+      const movesLocation = last.location !== strip.location;
+      const groupEighths = locationEighths.get(strip.location) || 0;
+      if (used + strip.eighths > capacity) startNewDay = true;
+      else if (movesLocation && used + groupEighths > capacity && groupEighths <= capacity && used >= capacity / 2) startNewDay = true;
+      else if (last.dayNight === 'NIGHT' && strip.dayNight === 'DAY') startNewDay = true;
+    }
+
+    if (startNewDay) {
+      current = { id: newDayId(), sceneIds: [] };
+      days.push(current);
+      used = 0;
+    }
+    current!.sceneIds.push(strip.id);
+    used += strip.eighths;
+    last = strip;
+  });
+
+  return { days, startDate: options.startDate };
+};
+
+// ============================================
+// EXPORT - CSV
+// ============================================
+
+export const scheduleToCSV = (strips: Strip[], schedule: ShootingSchedule): string => {
+  const stripsById = new Map(strips.map(s => [s.id, s]));
+  const dates = shootDayDates(schedule);
+  const row = (day: string, date: string, strip: Strip) => [
+    day,
+    date,
+    strip.number,
+    strip.intExt,
+    strip.dayNight,
+    strip.heading,
+    strip.location,
+    formatEighths(strip.eighths),
+    strip.cast.join('; '),
+    strip.synopsis,
+  ];
+
+  const rows = schedule.days.flatMap((day, i) =>
+    day.sceneIds
+      .map(id => stripsById.get(id))
+      .filter((s): s is Strip => !!s)
+      .map(strip => row(String(i + 1), dates[i] || '', strip))
+  );
+  unscheduledStrips(strips, schedule).forEach(strip => rows.push(row('Unscheduled', '', strip)));
+
+  return toCsv([['Day', 'Date', 'Scene', 'INT/EXT', 'Day/Night', 'Heading', 'Location', 'Pages', 'Cast', 'Synopsis'], ...rows]);
+};
+
+// ============================================
+// EXPORT - PDF
+// ============================================
+
+const LANDSCAPE = { width: US_LETTER.height, height: US_LETTER.width };
+const MARGIN = 36;
+const ROW_HEIGHT = 24;
+const BAR_HEIGHT = 16;
+const BLACK: PdfColor = [0, 0, 0];
+const WHITE: PdfColor = [1, 1, 1];
+const GREY: PdfColor = [0.4, 0.4, 0.4];
+
+const COLUMNS = [
+  { label: 'SC', width: 40 },
+  { label: 'I/E', width: 48 },
+  { label: 'D/N', width: 48 },
+  { label: 'SET / SYNOPSIS', width: 330 },
+  { label: 'PGS', width: 40 },
+  { label: 'CAST', width: 214 },
+];
+
+const fit = (text: string, width: number, size: number) => {
+  const max = Math.floor(width / textWidth('M', size));
+  return text.length > max ? `${text.slice(0, Math.max(0, max - 3))}...` : text;
+};
+
+/**
+ * Stripboard PDF (landscape): a coloured strip per scene, a black banner
+ * closing each day, unscheduled strips at the end and the cast key last.
+ */
+export const renderSchedulePDF = (title: string, strips: Strip[], schedule: ShootingSchedule): Blob => {
+  const pdf = createPdfDocument(LANDSCAPE);
+  const stripsById = new Map(strips.map(s => [s.id, s]));
+  const numbers = castNumbers(strips);
+  const dates = shootDayDates(schedule);
+  const bottom = LANDSCAPE.height - MARGIN;
+
+  let page: PdfPageBuilder;
+  let y = 0;
+
+  const newPage = () => {
+    page = pdf.addPage();
+    page.text(MARGIN, MARGIN + 12, 'SHOOTING SCHEDULE', { font: 'bold', size: 14 });
+    const right = `${title} - Page ${pdf.pageCount()}`;
+    page.text(LANDSCAPE.width - MARGIN - textWidth(right, 10), MARGIN + 12, right, { size: 10 });
+
+    let x = MARGIN;
+    COLUMNS.forEach(col => {
+      page.text(x + 3, MARGIN + 32, col.label, { font: 'bold', size: 8, color: GREY });
+      x += col.width;
+    });
+    page.line(MARGIN, MARGIN + 36, LANDSCAPE.width - MARGIN, MARGIN + 36);
+    y = MARGIN + 40;
+  };
+
+  const ensureSpace = (height: number) => {
+    if (y + height > bottom) newPage();
+  };
+
+  const drawStrip = (strip: Strip) => {
+    ensureSpace(ROW_HEIGHT);
+    const width = LANDSCAPE.width - 2 * MARGIN;
+    page.rect(MARGIN, y, width, ROW_HEIGHT, hexToPdfColor(STRIP_STYLES[strip.kind].color), BLACK);
+
+    const cells = [strip.number, strip.intExt, strip.dayNight, strip.heading, formatEighths(strip.eighths), stripCastIds(strip, numbers)];
+    let x = MARGIN;
+    cells.forEach((value, i) => {
+      const col = COLUMNS[i];
+      page.text(x + 3, y + 10, fit(value, col.width - 6, 8), { font: i === 3 ? 'bold' : 'regular', size: 8 });
+      if (i === 3 && strip.synopsis) page.text(x + 3, y + 20, fit(strip.synopsis, col.width - 6, 7), { size: 7 });
+      x += col.width;
+    });
+    y += ROW_HEIGHT;
+  };
+
+  const drawBar = (label: string, fill: PdfColor) => {
+    ensureSpace(BAR_HEIGHT);
+    page.rect(MARGIN, y, LANDSCAPE.width - 2 * MARGIN, BAR_HEIGHT, fill);
+    page.text(MARGIN + 6, y + 11, label, { font: 'bold', size: 9, color: WHITE });
+    y += BAR_HEIGHT + 4;
+  };
+
+  newPage();
+
+  schedule.days.forEach((day, i) => {
+    const dayStrips = day.sceneIds.map(id => stripsById.get(id)).filter((s): s is Strip => !!s);
+    dayStrips.forEach(drawStrip);
+    const stats = getDayStats(day, stripsById);
+    const date = dates[i] ? ` - ${formatShootDate(dates[i]!)}` : '';
+    drawBar(`END OF DAY ${i + 1}${date} - ${formatEighths(stats.eighths)} pgs`, BLACK);
+  });
+
+  const unscheduled = unscheduledStrips(strips, schedule);
+  if (unscheduled.length) {
+    drawBar(`UNSCHEDULED - ${unscheduled.length} scene${unscheduled.length === 1 ? '' : 's'}`, GREY);
+    unscheduled.forEach(drawStrip);
+  }
+
+  // Cast key
+  if (numbers.size) {
+    y += 8;
+    ensureSpace(28);
+    page!.text(MARGIN, y + 10, 'CAST', { font: 'bold', size: 10 });
+    y += 18;
+    Array.from(numbers.entries()).forEach(([name, n]) => {
+      ensureSpace(12);
+      page.text(MARGIN, y + 9, `${String(n).padStart(3, ' ')}. ${name}`, { size: 9 });
+      y += 12;
+    });
+  }
+
+  return pdf.toBlob();
+};
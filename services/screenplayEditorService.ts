@@ -0,0 +1,343 @@
+/**
+ * SCRIPT ENGINE - Screenplay Editor Service
+ *
+ * Block model behind the screenplay editor. Each block is one printed
+ * element (scene heading, action, cue, parenthetical, dialogue, transition);
+ * anything the editor does not format itself (title page, notes, sections,
+ * boneyard, lyrics...) is carried as a raw block.
+ *
+ * Blocks remember the Fountain they were parsed from, so untouched parts of
+ * a script serialise back byte for byte and only edited blocks are
+ * re-rendered.
+ */
+
+import { parseFountainDocument, FountainElementType } from './fountainParser';
+import { fountainToDocument } from './scriptDocumentService';
+import { ELEMENT_LAYOUT, wrapText } from './paginationService';
+import { parseSceneHeading } from './scriptImportService';
+
+export type EditorElementType =
+  | 'scene_heading'
+  | 'action'
+  | 'character'
+  | 'parenthetical'
+  | 'dialogue'
+  | 'transition'
+  | 'raw';
+
+interface BlockOrigin {
+  type: EditorElementType;
+  text: string;
+  body: string;    // Source lines without trailing blanks
+  gap: number;     // Blank lines that followed in the source
+  nextId?: string; // Block that followed in the source
+}
+
+export interface EditorBlock {
+  id: string;
+  type: EditorElementType;
+  text: string; // Forcing sigils removed
+  origin?: BlockOrigin;
+}
+
+export interface EditorSuggestion {
+  label: string;
+  text: string; // Replacement for the whole block
+}
+
+const EDITABLE_TYPES: FountainElementType[] = ['scene_heading', 'action', 'character', 'parenthetical', 'dialogue', 'transition'];
+
+/** Element types shown and stored in capitals */
+export const UPPERCASE_TYPES: EditorElementType[] = ['scene_heading', 'character', 'transition'];
+
+export const ELEMENT_LABELS: Record<EditorElementType, string> = {
+  scene_heading: 'Scene Heading',
+  action: 'Action',
+  character: 'Character',
+  parenthetical: 'Parenthetical',
+  dialogue: 'Dialogue',
+  transition: 'Transition',
+  raw: 'Fountain',
+};
+
+/** Indent (inches from the page edge) and width (characters) of each block type */
+export const BLOCK_LAYOUT: Record<EditorElementType, { x: number; width: number }> = {
+  scene_heading: ELEMENT_LAYOUT.action,
+  action: ELEMENT_LAYOUT.action,
+  character: ELEMENT_LAYOUT.character,
+  parenthetical: ELEMENT_LAYOUT.parenthetical,
+  dialogue: ELEMENT_LAYOUT.dialogue,
+  transition: ELEMENT_LAYOUT.action,
+  raw: ELEMENT_LAYOUT.action,
+};
+
+const TAB_ORDER: EditorElementType[] = ['action', 'character', 'parenthetical', 'dialogue', 'transition', 'scene_heading'];
+
+const ENTER_NEXT: Record<EditorElementType, EditorElementType> = {
+  scene_heading: 'action',
+  action: 'action',
+  character: 'dialogue',
+  parenthetical: 'dialogue',
+  dialogue: 'action',
+  transition: 'scene_heading',
+  raw: 'action',
+};
+
+const TIMES_OF_DAY = ['DAY', 'NIGHT', 'MORNING', 'AFTERNOON', 'EVENING', 'DAWN', 'DUSK', 'CONTINUOUS', 'LATER', 'MOMENTS LATER'];
+const HEADING_PREFIXES = ['INT. ', 'EXT. ', 'INT./EXT. '];
+const HEADING_PREFIX_PATTERN = /^((?:INT\.?\/EXT|INT\/EXT|I\/E|INT|EXT|EST)\.?\s+)(.*)$/i;
+const MAX_SUGGESTIONS = 6;
+
+export const createBlock = (type: EditorElementType, text: string = ''): EditorBlock => ({
+  id: crypto.randomUUID(),
+  type,
+  text,
+});
+
+// ============================================
+// PARSE
+// ============================================
+
+const splitTrailingBlanks = (source: string) => {
+  const lines = source.split('\n');
+  let end = lines.length;
+  while (end > 0 && lines[end - 1].trim() === '') end--;
+  return { body: lines.slice(0, end).join('\n'), gap: lines.length - end };
+};
+
+const editableText = (type: EditorElementType, body: string): string => {
+  switch (type) {
+    case 'scene_heading':
+      return body.trim().replace(/^\.(?!\.)/, '').trim();
+    case 'transition':
+      return body.trim().replace(/^>/, '').trim();
+    case 'character':
+      return body.trim().replace(/^@/, '').trim();
+    case 'parenthetical':
+    case 'dialogue':
+      return body.split('\n').map(line => line.trim()).join('\n');
+    case 'action':
+      return body.replace(/^(\s*)!/, '$1');
+    default:
+      return body;
+  }
+};
+
+/**
+ * Split Fountain text into editor blocks
+ */
+export const fountainToBlocks = (script: string): EditorBlock[] => {
+  const doc = fountainToDocument(script);
+  const segments: { id: string; type: EditorElementType; source: string }[] = [];
+
+  if (doc.preamble !== undefined && doc.preamble.trim()) {
+    segments.push({ id: crypto.randomUUID(), type: 'raw', source: doc.preamble });
+  }
+  doc.scenes.forEach(scene => {
+    const nodes = [...(scene.heading ? [scene.heading] : []), ...scene.elements];
+    nodes.forEach(node => segments.push({
+      id: node.id,
+      type: EDITABLE_TYPES.includes(node.type) ? node.type as EditorElementType : 'raw',
+      source: node.source,
+    }));
+  });
+
+  if (!segments.length) return [createBlock('scene_heading')];
+
+  return segments.map((segment, i) => {
+    const { body, gap } = splitTrailingBlanks(segment.source);
+    const text = editableText(segment.type, body);
+    return {
+      id: segment.id,
+      type: segment.type,
+      text,
+      origin: { type: segment.type, text, body, gap, nextId: segments[i + 1]?.id },
+    };
+  });
+};
+
+// ============================================
+// SERIALISE
+// ============================================
+
+const parsesAs = (candidate: string, type: FountainElementType, following: string = '') =>
+  parseFountainDocument(`\n${candidate}${following}\n`).elements[0]?.type === type;
+
+const isUnchanged = (block: EditorBlock) =>
+  !!block.origin && block.origin.type === block.type && block.origin.text === block.text;
+
+/**
+ * Fountain for one block, adding a forcing sigil only when the text would
+ * otherwise be read as a different element
+ */
+const renderBlock = (block: EditorBlock): string => {
+  const text = UPPERCASE_TYPES.includes(block.type)
+    ? block.text.replace(/\s*\n\s*/g, ' ').trim().toUpperCase()
+    : block.text;
+
+  switch (block.type) {
+    case 'scene_heading':
+      return parsesAs(text, 'scene_heading') ? text : `.${text}`;
+    case 'transition':
+      return parsesAs(text, 'transition') ? text : `> ${text}`;
+    case 'character':
+      return parsesAs(text, 'character', '\n.') ? text : `@${text}`;
+    case 'parenthetical': {
+      const inner = text.trim().replace(/^\(/, '').replace(/\)$/, '');
+      return `(${inner})`;
+    }
+    case 'dialogue':
+      // A truly blank line would end the dialogue block; Fountain keeps it with two spaces
+      return text.split('\n').map(line => line.trim() || '  ').join('\n');
+    case 'action':
+      return parsesAs(text, 'action') ? text : `!${text}`;
+    default:
+      return text;
+  }
+};
+
+const SPEECH_TYPES: EditorElementType[] = ['character', 'parenthetical', 'dialogue'];
+
+const belongsToSpeech = (block: EditorBlock, next: EditorBlock) =>
+  SPEECH_TYPES.includes(block.type) && (next.type === 'parenthetical' || next.type === 'dialogue');
+
+/**
+ * Serialise blocks back to Fountain text
+ */
+export const blocksToFountain = (blocks: EditorBlock[]): string => {
+  const written = blocks.filter(block => block.text.trim() !== '');
+  const parts: string[] = [];
+
+  written.forEach((block, i) => {
+    const next = written[i + 1];
+    const unchanged = isUnchanged(block);
+    parts.push(unchanged ? block.origin!.body : renderBlock(block));
+
+    let gap: number;
+    if (!next) {
+      gap = unchanged ? block.origin!.gap : 1;
+    } else if (unchanged && block.origin!.nextId === next.id && next.origin?.type === next.type) {
+      // Same neighbours as in the source: keep the original spacing
+      gap = block.origin!.gap;
+    } else {
+      gap = belongsToSpeech(block, next) ? 0 : 1;
+    }
+    for (let g = 0; g < gap; g++) parts.push('');
+  });
+
+  return parts.join('\n');
+};
+
+/**
+ * Replace the selection inside one block with pasted Fountain, re-reading
+ * the result so pasted scenes and dialogue become blocks of their own
+ */
+export const pasteFountain = (blocks: EditorBlock[], blockId: string, start: number, end: number, pasted: string): EditorBlock[] => {
+  const spliced = blocks.flatMap(block => {
+    if (block.id !== blockId) return [block];
+    return [
+      { ...block, text: block.text.slice(0, start) },
+      createBlock('raw', pasted),
+      createBlock(block.type, block.text.slice(end)),
+    ];
+  });
+  return fountainToBlocks(blocksToFountain(spliced));
+};
+
+// ============================================
+// KEYBOARD FLOW
+// ============================================
+
+/**
+ * Element type reached by Tab (direction 1) or Shift+Tab (direction -1)
+ */
+export const cycleElementType = (type: EditorElementType, direction: 1 | -1): EditorElementType => {
+  const idx = TAB_ORDER.indexOf(type);
+  if (idx < 0) return type;
+  return TAB_ORDER[(idx + direction + TAB_ORDER.length) % TAB_ORDER.length];
+};
+
+/**
+ * Element type of the block Enter creates after a block of this type
+ */
+export const nextElementType = (type: EditorElementType): EditorElementType => ENTER_NEXT[type];
+
+/**
+ * Promote an action line to a scene heading as soon as it starts like one
+ */
+export const detectElementType = (type: EditorElementType, text: string): EditorElementType =>
+  type === 'action' && !text.includes('\n') && HEADING_PREFIX_PATTERN.test(text) ? 'scene_heading' : type;
+
+/**
+ * Number of textarea rows a block needs at its printed width
+ */
+export const blockRows = (block: EditorBlock): number =>
+  Math.max(1, wrapText(block.text, BLOCK_LAYOUT[block.type].width).length);
+
+// ============================================
+// AUTOCOMPLETE
+// ============================================
+
+const unique = (values: string[]) =>
+  Array.from(new Set(values.map(v => v.trim().toUpperCase()).filter(Boolean)));
+
+/**
+ * Speaker names used by cues in the editor, without extensions
+ */
+export const cueNames = (blocks: EditorBlock[]): string[] =>
+  unique(blocks.filter(b => b.type === 'character').map(b => b.text.replace(/\(.*$/, '').replace(/\^$/, '')));
+
+/**
+ * Locations used by scene headings in the editor
+ */
+export const headingLocations = (blocks: EditorBlock[]): string[] =>
+  unique(blocks.filter(b => b.type === 'scene_heading' && HEADING_PREFIX_PATTERN.test(b.text)).map(b => parseSceneHeading(b.text).location));
+
+const normalizeLocation = (location: string) =>
+  HEADING_PREFIX_PATTERN.test(location) ? parseSceneHeading(location).location : location;
+
+/**
+ * Completions for the block being typed: character names for cues,
+ * INT./EXT., locations and times of day for scene headings
+ */
+export const getSuggestions = (
+  block: EditorBlock,
+  characterNames: string[],
+  locations: string[]
+): EditorSuggestion[] => {
+  const typed = block.text.toUpperCase();
+
+  if (block.type === 'character') {
+    const query = typed.trim();
+    if (!query || query.includes('(')) return [];
+    return unique(characterNames)
+      .filter(name => name.startsWith(query) && name !== query)
+      .slice(0, MAX_SUGGESTIONS)
+      .map(name => ({ label: name, text: name }));
+  }
+
+  if (block.type !== 'scene_heading' || !typed.trim()) return [];
+
+  const prefixMatch = typed.match(HEADING_PREFIX_PATTERN);
+  if (!prefixMatch) {
+    return HEADING_PREFIXES
+      .filter(prefix => prefix.startsWith(typed) && prefix !== typed)
+      .map(prefix => ({ label: prefix.trim(), text: prefix }));
+  }
+
+  const [, prefix, rest] = prefixMatch;
+  const dash = rest.lastIndexOf(' - ');
+  if (dash >= 0) {
+    const query = rest.slice(dash + 3).trim();
+    return TIMES_OF_DAY
+      .filter(time => time.startsWith(query) && time !== query)
+      .slice(0, MAX_SUGGESTIONS)
+      .map(time => ({ label: time, text: `${prefix}${rest.slice(0, dash)} - ${time}` }));
+  }
+
+  const query = rest.trim();
+  return unique(locations.map(normalizeLocation))
+    .filter(location => location.startsWith(query) && location !== query)
+    .slice(0, MAX_SUGGESTIONS)
+    .map(location => ({ label: location, text: `${prefix}${location} - ` }));
+};
@@ -0,0 +1,230 @@
+/**
+ * SCRIPT ENGINE - Script Document Service
+ *
+ * Bridges scriptContent (Fountain text) and the structured ScriptDocument
+ * model. Parsing is lossless: every node keeps the exact source lines it
+ * came from, so documentToFountain(fountainToDocument(text)) === text.
+ *
+ * syncScriptDocument re-parses edited text while carrying scene and
+ * element IDs over from the previous document, so anything anchored to a
+ * scene or line survives later edits.
+ */
+
+import { parseFountainDocument, stripInlineMarkup } from './fountainParser';
+import type { ScriptDocument, ScriptSceneNode, ScriptElementNode, ScriptAnchor, ProjectData } from '../types';
+
+const newId = () => crypto.randomUUID();
+
+// ============================================
+// PARSE / SERIALISE
+// ============================================
+
+/**
+ * Build a ScriptDocument from Fountain text with fresh IDs
+ */
+export const fountainToDocument = (text: string): ScriptDocument => {
+  const parsed = parseFountainDocument(text);
+  const lines = text.split('\n');
+
+  // One segment per element start line; overlapping elements (a boneyard
+  // opening on an action line) fold into the first one
+  const starts = parsed.elements.filter((el, i, all) => i === 0 || el.startLine > all[i - 1].startLine);
+  const firstLine = starts.length ? starts[0].startLine : lines.length;
+  const preambleLines = lines.slice(0, firstLine);
+
+  const scenes: ScriptSceneNode[] = [];
+  starts.forEach((element, i) => {
+    const end = i + 1 < starts.length ? starts[i + 1].startLine : lines.length;
+    const node: ScriptElementNode = {
+      id: newId(),
+      type: element.type,
+      text: element.text,
+      source: lines.slice(element.startLine, end).join('\n'),
+    };
+    if (element.character) node.character = element.character;
+
+    if (element.type === 'scene_heading') {
+      scenes.push({ id: newId(), heading: node, elements: [] });
+      return;
+    }
+    if (!scenes.length) scenes.push({ id: newId(), heading: null, elements: [] });
+    scenes[scenes.length - 1].elements.push(node);
+  });
+
+  const doc: ScriptDocument = { version: 1, scenes };
+  if (preambleLines.length && firstLine > 0) doc.preamble = preambleLines.join('\n');
+  if (!starts.length) doc.preamble = text;
+  return doc;
+};
+
+const documentSegments = (doc: ScriptDocument): string[] => {
+  const segments: string[] = [];
+  if (doc.preamble !== undefined) segments.push(doc.preamble);
+  doc.scenes.forEach(scene => {
+    if (scene.heading) segments.push(scene.heading.source);
+    scene.elements.forEach(el => segments.push(el.source));
+  });
+  return segments;
+};
+
+/**
+ * Serialise a ScriptDocument back to Fountain text
+ */
+export const documentToFountain = (doc: ScriptDocument): string => documentSegments(doc).join('\n');
+
+/**
+ * Fountain source of one scene, heading included
+ */
+export const sceneText = (scene: ScriptSceneNode): string =>
+  [...(scene.heading ? [scene.heading] : []), ...scene.elements].map(el => el.source).join('\n');
+
+/**
+ * The scene with a blank line after its last node, so the next scene's
+ * heading doesn't run on from it when scenes are rejoined
+ */
+export const withTrailingBlank = (scene: ScriptSceneNode): ScriptSceneNode => {
+  const nodes = [...(scene.heading ? [scene.heading] : []), ...scene.elements];
+  const last = nodes[nodes.length - 1];
+  if (!last || /\n\s*$/.test(last.source)) return scene;
+  const patched = { ...last, source: `${last.source}\n` };
+  return scene.elements.length
+    ? { ...scene, elements: [...scene.elements.slice(0, -1), patched] }
+    : { ...scene, heading: patched };
+};
+
+// ============================================
+// ID-PRESERVING SYNC
+// ============================================
+
+const sceneKey = (scene: ScriptSceneNode) =>
+  scene.heading ? stripInlineMarkup(scene.heading.text).toUpperCase().replace(/\s+/g, ' ').trim() : '';
+
+const elementKey = (el: ScriptElementNode) => `${el.type}|${el.text}`;
+
+const carryElementIds = (previous: ScriptElementNode[], next: ScriptElementNode[]) => {
+  const used = new Set<string>();
+
+  // Exact matches first, in order
+  next.forEach(el => {
+    const match = previous.find(p => !used.has(p.id) && elementKey(p) === elementKey(el));
+    if (match) {
+      el.id = match.id;
+      used.add(match.id);
+    }
+  });
+
+  // Edited elements keep the ID of the same-type element in the same position
+  next.forEach((el, idx) => {
+    if (previous.some(p => p.id === el.id)) return;
+    const candidate = previous[idx];
+    if (candidate && !used.has(candidate.id) && candidate.type === el.type) {
+      el.id = candidate.id;
+      used.add(candidate.id);
+    }
+  });
+};
+
+/**
+ * Re-parse Fountain text, reusing scene and element IDs from `previous`
+ * wherever the same scene or line can still be found.
+ */
+export const syncScriptDocument = (previous: ScriptDocument | undefined, text: string): ScriptDocument => {
+  const next = fountainToDocument(text);
+  if (!previous) return next;
+
+  const usedScenes = new Set<string>();
+  const matches = new Map<ScriptSceneNode, ScriptSceneNode>();
+
+  // Same heading text, in order
+  next.scenes.forEach(scene => {
+    const match = previous.scenes.find(p => !usedScenes.has(p.id) && sceneKey(p) === sceneKey(scene));
+    if (match) {
+      matches.set(scene, match);
+      usedScenes.add(match.id);
+    }
+  });
+
+  // A rewritten heading in the same slot is still the same scene
+  next.scenes.forEach((scene, idx) => {
+    if (matches.has(scene)) return;
+    const candidate = previous.scenes[idx];
+    if (candidate && !usedScenes.has(candidate.id)) {
+      matches.set(scene, candidate);
+      usedScenes.add(candidate.id);
+    }
+  });
+
+  matches.forEach((prevScene, scene) => {
+    scene.id = prevScene.id;
+    const prevNodes = [...(prevScene.heading ? [prevScene.heading] : []), ...prevScene.elements];
+    const nextNodes = [...(scene.heading ? [scene.heading] : []), ...scene.elements];
+    carryElementIds(prevNodes, nextNodes);
+  });
+
+  return next;
+};
+
+/**
+ * Return project data with scriptContent replaced and scriptDocument kept in step
+ */
+export const withScriptContent = (data: ProjectData, scriptContent: string): ProjectData => ({
+  ...data,
+  scriptContent,
+  scriptDocument: syncScriptDocument(data.scriptDocument, scriptContent),
+});
+
+/**
+ * Make sure loaded project data has a document matching its script
+ */
+export const ensureScriptDocument = (data: ProjectData): ProjectData => {
+  if (data.scriptDocument && documentToFountain(data.scriptDocument) === (data.scriptContent || '')) return data;
+  return withScriptContent(data, data.scriptContent || '');
+};
+
+// ============================================
+// LOOKUP
+// ============================================
+
+export interface LocatedNode {
+  scene: ScriptSceneNode;
+  element: ScriptElementNode | null;
+  startLine: number; // Zero-based line in scriptContent
+}
+
+/**
+ * Resolve an anchor to its scene, element and current line in scriptContent
+ */
+export const resolveAnchor = (doc: ScriptDocument, anchor: ScriptAnchor): LocatedNode | null => {
+  let line = doc.preamble !== undefined ? doc.preamble.split('\n').length : 0;
+
+  for (const scene of doc.scenes) {
+    const nodes = [...(scene.heading ? [scene.heading] : []), ...scene.elements];
+    if (scene.id === anchor.sceneId && !anchor.elementId) {
+      return { scene, element: scene.heading, startLine: line };
+    }
+    for (const node of nodes) {
+      if (scene.id === anchor.sceneId && node.id === anchor.elementId) {
+        return { scene, element: node, startLine: line };
+      }
+      line += node.source.split('\n').length;
+    }
+  }
+  return null;
+};
+
+/**
+ * Anchor for whatever sits at a given line of scriptContent
+ */
+export const anchorAtLine = (doc: ScriptDocument, targetLine: number): ScriptAnchor | null => {
+  let line = doc.preamble !== undefined ? doc.preamble.split('\n').length : 0;
+
+  for (const scene of doc.scenes) {
+    const nodes = [...(scene.heading ? [scene.heading] : []), ...scene.elements];
+    for (const node of nodes) {
+      const span = node.source.split('\n').length;
+      if (targetLine < line + span) return { sceneId: scene.id, elementId: node.id };
+      line += span;
+    }
+  }
+  return null;
+};
@@ -0,0 +1,45 @@
+/**
+ * SCRIPT ENGINE - Script Format Service
+ *
+ * The script modes a project can be written in, and which one a brief's
+ * `format` ("Two-act stage play", "Six-part audio drama podcast",
+ * ":30 Commercial") asks for. The mode decides the editor, the parser,
+ * the export layout and the Writer's Room drafting rules.
+ */
+
+import type { ProjectData, ScriptFormat } from '../types';
+
+export const SCRIPT_FORMATS: { value: ScriptFormat; label: string }[] = [
+  { value: 'screenplay', label: 'Screenplay' },
+  { value: 'av', label: 'AV two-column (commercial / corporate)' },
+  { value: 'stage', label: 'Stage play' },
+  { value: 'audio', label: 'Audio drama / podcast' },
+];
+
+// Stage and audio need an unambiguous phrase, since "act", "play" and
+// "radio" turn up in ordinary film and TV briefs. Listed in priority order
+// for matches at the same place.
+const FORMAT_KEYWORDS: { format: ScriptFormat; pattern: RegExp }[] = [
+  { format: 'audio', pattern: /\b(radio (?:play|drama|serial)|audio (?:drama|play|fiction|series)|audio-drama|podcast|audiobook)\b/i },
+  { format: 'stage', pattern: /\b(stage (?:play|musical|drama|adaptation)|(?:one|two|three)[- ]act (?:stage )?play|play for (?:the )?(?:stage|theat(?:re|er))|theat(?:re|er) (?:play|production|piece))\b/i },
+  { format: 'screenplay', pattern: /\b(feature|film|movie|screenplay|series|pilot|episodes?|miniseries|sitcom)\b/i },
+  { format: 'av', pattern: /\b(commercial|advert|spot|corporate|explainer|promo|av script)\b/i },
+];
+
+/**
+ * The mode a brief's format names, or null when it doesn't say. The
+ * keyword that comes first wins, so the genre leads: "Podcast series" is
+ * audio, "Feature film about a theatre troupe" and "Drama series adapted
+ * from the stage play" are screenplays. Still a keyword match, so callers
+ * only apply it before any script has been written.
+ */
+export const inferScriptFormat = (format?: string): ScriptFormat | null => {
+  if (!format || format === 'Pending...') return null;
+  const found = FORMAT_KEYWORDS
+    .map(k => ({ format: k.format, index: format.search(k.pattern) }))
+    .filter(k => k.index >= 0);
+  // Stable sort keeps the list order for ties
+  return found.sort((a, b) => a.index - b.index)[0]?.format || null;
+};
+
+export const getScriptFormat = (data: Pick<ProjectData, 'scriptFormat'>): ScriptFormat => data.scriptFormat || 'screenplay';
@@ -5,8 +5,17 @@
  * - PDF files (extracts text)
  * - FDX files (Final Draft XML)
  * - Fountain files (plain text screenplay format)
+ *
+ * And interview transcripts for documentary paper edits:
+ * - SRT / WebVTT subtitles
+ * - Timestamped text ("[00:01:23] Maria: ...")
  */
 
+import { parseFountainDocument, stripInlineMarkup, getTitlePageValue, isCharacterCue, NON_PRINTING_TYPES } from './fountainParser';
+import { countPages } from './paginationService';
+import { extractScreenplayFromPDF } from './pdfLayoutService';
+import type { Transcript, TranscriptSegment } from '../types';
+
 // ============================================
 // TYPES
 // ============================================
@@ -23,6 +32,7 @@ export interface ParsedScript {
 
 export interface ParsedScene {
   sceneNumber: number;
+  sceneNumberLabel?: string; // Production number as printed, e.g. "12A"
   heading: string;
   location: string;
   timeOfDay: string;
@@ -34,6 +44,7 @@ export interface SceneElement {
   type: 'action' | 'dialogue' | 'parenthetical' | 'transition' | 'character';
   content: string;
   character?: string;
+  dual?: 'left' | 'right';
 }
 
 export interface ScriptMetadata {
@@ -46,65 +57,56 @@ export interface ScriptMetadata {
 // FOUNTAIN PARSER
 // ============================================
 
-const parseFountain = (text: string): ParsedScript => {
-  const lines = text.split('\n');
+/**
+ * Split a scene heading into location, time of day and INT/EXT
+ */
+export const parseSceneHeading = (heading: string) => {
+  const isInt = /^(?:INT|I\/E)/i.test(heading);
+  const locMatch = heading.match(/(?:INT\.|EXT\.|INT\/EXT\.|I\/E\.)\s*(.+?)(?:\s*[-–]\s*(.+))?$/i);
+
+  return {
+    location: locMatch?.[1]?.trim() || heading,
+    timeOfDay: locMatch?.[2]?.trim() || 'DAY',
+    interior: isInt,
+  };
+};
+
+/**
+ * Parse Fountain text into scenes, characters and locations
+ */
+export const parseFountain = (text: string): ParsedScript => {
+  const doc = parseFountainDocument(text);
   const scenes: ParsedScene[] = [];
   const characters = new Set<string>();
   const locations = new Set<string>();
-  
+
   let currentScene: ParsedScene | null = null;
-  let sceneNumber = 0;
-  let title = '';
-  let authors: string[] = [];
-  
-  // Parse title page
-  let i = 0;
-  while (i < lines.length && i < 50) {
-    const line = lines[i].trim();
-    if (line === '') { i++; continue; }
-    
-    const titleMatch = line.match(/^Title:\s*(.+)/i);
-    const authorMatch = line.match(/^(?:Author|Authors|Credit):\s*(.+)/i);
-    
-    if (titleMatch) { title = titleMatch[1]; i++; continue; }
-    if (authorMatch) { authors.push(authorMatch[1]); i++; continue; }
-    if (line.match(/^(?:INT\.|EXT\.|INT\/EXT\.|I\/E\.)/i)) break;
-    i++;
-  }
-  
-  // Parse body
-  for (; i < lines.length; i++) {
-    const line = lines[i];
-    const trimmed = line.trim();
-    if (trimmed === '') continue;
-    
+
+  doc.elements.forEach(element => {
+    if (NON_PRINTING_TYPES.includes(element.type) || element.type === 'page_break') return;
+    const content = stripInlineMarkup(element.text);
+
     // Scene heading
-    if (trimmed.match(/^(?:INT\.|EXT\.|INT\/EXT\.|I\/E\.)/i) || trimmed.startsWith('.')) {
-      sceneNumber++;
-      const isInt = /^(?:INT|I\/E)/i.test(trimmed);
-      const locMatch = trimmed.match(/(?:INT\.|EXT\.|INT\/EXT\.|I\/E\.)\s*(.+?)(?:\s*[-–]\s*(.+))?$/i);
-      
-      const location = locMatch?.[1]?.trim() || trimmed;
-      const timeOfDay = locMatch?.[2]?.trim() || 'DAY';
-      
+    if (element.type === 'scene_heading') {
+      const { location, timeOfDay, interior } = parseSceneHeading(content);
       locations.add(location.toUpperCase());
-      
+
       currentScene = {
-        sceneNumber,
-        heading: trimmed,
+        sceneNumber: scenes.length + 1,
+        sceneNumberLabel: element.sceneNumber,
+        heading: content,
         location,
         timeOfDay,
-        interior: isInt,
+        interior,
         content: [],
       };
       scenes.push(currentScene);
-      continue;
+      return;
     }
-    
+
     if (!currentScene) {
-      sceneNumber++;
       currentScene = {
-        sceneNumber,
+        sceneNumber: scenes.length + 1,
         heading: 'OPENING',
         location: 'UNKNOWN',
         timeOfDay: 'DAY',
@@ -113,54 +115,47 @@ const parseFountain = (text: string): ParsedScript => {
       };
       scenes.push(currentScene);
     }
-    
-    // Character cue
-    const charMatch = trimmed.match(/^([A-Z][A-Z\s\.\-\']+)(?:\s*\(.*\))?$/);
-    if (charMatch && trimmed.length < 40 && !trimmed.includes(':')) {
-      const char = charMatch[1].trim();
-      if (!['INT', 'EXT', 'CUT TO', 'FADE IN', 'FADE OUT', 'DISSOLVE TO'].includes(char)) {
-        characters.add(char);
-        currentScene.content.push({ type: 'character', content: char, character: char });
-        continue;
-      }
-    }
-    
-    // Parenthetical
-    if (trimmed.startsWith('(') && trimmed.endsWith(')')) {
-      currentScene.content.push({ type: 'parenthetical', content: trimmed });
-      continue;
-    }
-    
-    // Transition
-    if (trimmed.match(/(CUT TO|FADE TO|DISSOLVE TO|SMASH CUT|FADE IN|FADE OUT):?$/i)) {
-      currentScene.content.push({ type: 'transition', content: trimmed });
-      continue;
-    }
-    
-    // Dialogue continuation
-    const lastElement = currentScene.content[currentScene.content.length - 1];
-    if (lastElement && (lastElement.type === 'character' || lastElement.type === 'parenthetical' || lastElement.type === 'dialogue')) {
-      if (lastElement.type === 'dialogue') {
-        lastElement.content += ' ' + trimmed;
-      } else {
-        const char = currentScene.content.findLast(e => e.type === 'character')?.character;
-        currentScene.content.push({ type: 'dialogue', content: trimmed, character: char });
-      }
-      continue;
+
+    switch (element.type) {
+      case 'character':
+        characters.add(element.character!);
+        currentScene.content.push({ type: 'character', content, character: element.character, dual: element.dual });
+        break;
+      case 'parenthetical':
+        currentScene.content.push({ type: 'parenthetical', content, dual: element.dual });
+        break;
+      case 'transition':
+        currentScene.content.push({ type: 'transition', content });
+        break;
+      case 'dialogue':
+        currentScene.content.push({ type: 'dialogue', content, character: element.character, dual: element.dual });
+        break;
+      case 'lyrics':
+        // Sung lines inside a dialogue block are dialogue, standalone lyrics read as action
+        currentScene.content.push(element.character
+          ? { type: 'dialogue', content, character: element.character, dual: element.dual }
+          : { type: 'action', content });
+        break;
+      default:
+        // Action and centered text
+        currentScene.content.push({ type: 'action', content });
     }
-    
-    // Default: Action
-    currentScene.content.push({ type: 'action', content: trimmed });
-  }
-  
+  });
+
+  const title = getTitlePageValue(doc, 'Title');
+  const authors = (getTitlePageValue(doc, 'Author', 'Authors') ?? getTitlePageValue(doc, 'Credit') ?? '')
+    .split('\n')
+    .map(a => stripInlineMarkup(a).trim())
+    .filter(Boolean);
+
   return {
-    title: title || 'Untitled Script',
+    title: title ? stripInlineMarkup(title).replace(/\n/g, ' ') : 'Untitled Script',
     authors,
     rawText: text,
     scenes,
     characters: Array.from(characters),
     locations: Array.from(locations),
-    metadata: { format: 'fountain', importedAt: Date.now() },
+    metadata: { format: 'fountain', pageCount: countPages(text), importedAt: Date.now() },
   };
 };
 
@@ -168,6 +163,76 @@ const parseFountain = (text: string): ParsedScript => {
 // FDX PARSER (Final Draft XML)
 // ============================================
 
+const readFDXTitlePage = (titlePage: Element | null): { title?: string; authors: string[] } => {
+  if (!titlePage) return { authors: [] };
+
+  // Older exports tag title page content explicitly
+  const typedTitle = titlePage.querySelector('Content[Type="Title"]')?.textContent?.trim();
+  if (typedTitle) {
+    const authors: string[] = [];
+    titlePage.querySelectorAll('Content[Type="Author"], Content[Type="Written by"]').forEach(el => {
+      const author = el.textContent?.trim();
+      if (author) authors.push(author);
+    });
+    return { title: typedTitle, authors };
+  }
+
+  // Final Draft itself writes plain paragraphs: title first, authors after the credit line
+  const lines = Array.from(titlePage.querySelectorAll('Paragraph')).map(p => p.textContent?.trim() || '');
+  const title = lines.find(Boolean);
+  const creditIdx = lines.findIndex(line => /^(?:written\s+)?by$|^screenplay\s+by$|^teleplay\s+by$/i.test(line));
+  const authors: string[] = [];
+  if (creditIdx >= 0) {
+    for (let i = creditIdx + 1; i < lines.length && lines[i]; i++) authors.push(lines[i]);
+  }
+  return { title, authors };
+};
+
+// Emphasis characters in FDX text are literal, so they are escaped for Fountain
+const escapeInlineMarkup = (text: string): string => text.replace(/[\\*_]/g, '\\$&');
+
+/**
+ * A paragraph's text runs as Fountain, with each run's Style turned back
+ * into emphasis markup. Whitespace stays outside the markers so they pair,
+ * and markup is applied per line because emphasis cannot span lines.
+ */
+const readFDXText = (para: Element): string => {
+  const runs: { text: string; style: string }[] = [];
+  para.querySelectorAll('Text').forEach(t => {
+    const text = t.textContent || '';
+    const style = t.getAttribute('Style') || '';
+    const last = runs[runs.length - 1];
+    if (last && last.style === style) last.text += text;
+    else if (text) runs.push({ text, style });
+  });
+
+  return runs.map(({ text, style }) => {
+    const styles = style.split('+').map(s => s.trim().toLowerCase());
+    const stars = '*'.repeat((styles.includes('bold') ? 2 : 0) + (styles.includes('italic') ? 1 : 0));
+    const open = (styles.includes('underline') ? '_' : '') + stars;
+    const close = stars + (styles.includes('underline') ? '_' : '');
+    return text.split('\n').map(line => {
+      const escaped = escapeInlineMarkup(line);
+      if (!open) return escaped;
+      const [, lead, words, trail] = escaped.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+      return words ? `${lead}${open}${words}${close}${trail}` : escaped;
+    }).join('\n');
+  }).join('');
+};
+
+/**
+ * Whether an action paragraph written plainly would re-parse as something
+ * else: a cue (all caps with lines under it), a heading, a transition or a
+ * line opening with Fountain markup
+ */
+const actionNeedsForcing = (text: string): boolean => {
+  const first = text.split('\n')[0].trim();
+  if (text.includes('\n') && isCharacterCue(first)) return true;
+  if (/^(?:INT\.?\/EXT|INT\/EXT|I\/E|INT|EXT|EST)[.\s]/i.test(first)) return true;
+  if (first === first.toUpperCase() && /TO:$/.test(first)) return true;
+  return /^(?:[!@~=#>.]|\[\[)/.test(first);
+};
+
 const parseFDX = async (xmlContent: string): Promise<ParsedScript> => {
   const parser = new DOMParser();
   const doc = parser.parseFromString(xmlContent, 'text/xml');
@@ -178,36 +243,61 @@ const parseFDX = async (xmlContent: string): Promise<ParsedScript> => {
   let sceneNumber = 0;
   let currentScene: ParsedScene | null = null;
   
-  const titlePage = doc.querySelector('TitlePage');
-  const title = titlePage?.querySelector('Content[Type="Title"]')?.textContent?.trim() || 
-                doc.querySelector('FinalDraft')?.getAttribute('Title') || 'Untitled Script';
+  const titleInfo = readFDXTitlePage(doc.querySelector('TitlePage'));
+  const title = titleInfo.title || doc.querySelector('FinalDraft')?.getAttribute('Title') || 'Untitled Script';
+  const authors = titleInfo.authors;
   
-  const authorElements = titlePage?.querySelectorAll('Content[Type="Author"], Content[Type="Written by"]');
-  const authors: string[] = [];
-  authorElements?.forEach(el => {
-    const author = el.textContent?.trim();
-    if (author) authors.push(author);
-  });
-  
-  const paragraphs = doc.querySelectorAll('Paragraph');
+  // Body paragraphs only; DualDialogue wrappers are expanded in place
+  const body = doc.querySelector('FinalDraft > Content') || doc.documentElement;
+  const paragraphs = Array.from(body.querySelectorAll('Paragraph')).filter(p => !p.querySelector('DualDialogue'));
+  let dualGroup: Element | null = null;
+  let dualSpeakers = 0;
+  // Fountain text of each element, emphasis included; content stays plain
+  const marked = new Map<SceneElement, string>();
+  // Layout the element types don't carry: centered action, and page breaks
+  // before an element or a scene's heading
+  const centered = new Set<SceneElement>();
+  const newPages = new Set<SceneElement | ParsedScene>();
   
   paragraphs.forEach(para => {
     const type = para.getAttribute('Type')?.toLowerCase() || '';
-    const textContent = para.querySelector('Text')?.textContent?.trim() || '';
+    const markedText = readFDXText(para).trim();
+    const textContent = stripInlineMarkup(markedText);
     if (!textContent) return;
     
+    // Speakers are counted per DualDialogue group: the first is left, the next right
+    const group = para.closest('DualDialogue');
+    if (group !== dualGroup) {
+      dualGroup = group;
+      dualSpeakers = 0;
+    }
+    if (group && type === 'character') dualSpeakers++;
+    const dual: SceneElement['dual'] = group ? (dualSpeakers > 1 ? 'right' : 'left') : undefined;
+    const newPage = para.getAttribute('StartsNewPage') === 'Yes';
+    const push = (element: SceneElement) => {
+      marked.set(element, markedText);
+      if (newPage) newPages.add(element);
+      currentScene!.content.push(element);
+      return element;
+    };
+    
     if (type === 'scene heading' || type === 'slug line') {
       sceneNumber++;
-      const isInt = /^(?:INT|I\/E)/i.test(textContent);
-      const locMatch = textContent.match(/(?:INT\.|EXT\.|INT\/EXT\.|I\/E\.)\s*(.+?)(?:\s*[-–]\s*(.+))?$/i);
-      
-      const location = locMatch?.[1]?.trim() || textContent;
-      const timeOfDay = locMatch?.[2]?.trim() || 'DAY';
+      const { location, timeOfDay, interior } = parseSceneHeading(textContent);
       
       locations.add(location.toUpperCase());
       
-      currentScene = { sceneNumber, heading: textContent, location, timeOfDay, interior: isInt, content: [] };
+      currentScene = {
+        sceneNumber,
+        sceneNumberLabel: para.getAttribute('Number') || undefined,
+        heading: textContent,
+        location,
+        timeOfDay,
+        interior,
+        content: [],
+      };
       scenes.push(currentScene);
+      if (newPage) newPages.add(currentScene);
       return;
     }
     
@@ -220,46 +310,65 @@ const parseFDX = async (xmlContent: string): Promise<ParsedScript> => {
     if (type === 'character') {
       const char = textContent.replace(/\s*\(.*\)$/, '').trim();
       characters.add(char);
-      currentScene.content.push({ type: 'character', content: textContent, character: char });
+      push({ type: 'character', content: textContent, character: char, dual });
       return;
     }
     
     if (type === 'dialogue') {
       const lastChar = currentScene.content.findLast(e => e.type === 'character');
-      currentScene.content.push({ type: 'dialogue', content: textContent, character: lastChar?.character });
+      // Lyrics come as dialogue marked with ~; the Fountain text keeps the marker
+      push({ type: 'dialogue', content: textContent.replace(/^~\s*/gm, ''), character: lastChar?.character, dual });
       return;
     }
     
     if (type === 'parenthetical') {
-      currentScene.content.push({ type: 'parenthetical', content: textContent });
+      push({ type: 'parenthetical', content: textContent, dual });
       return;
     }
     
     if (type === 'transition') {
-      currentScene.content.push({ type: 'transition', content: textContent });
+      push({ type: 'transition', content: textContent });
       return;
     }
     
-    currentScene.content.push({ type: 'action', content: textContent });
+    const action = push({ type: 'action', content: textContent });
+    if (para.getAttribute('Alignment') === 'Center') centered.add(action);
   });
   
+  // Rebuild Fountain text, forcing anything the Fountain rules would not infer
   let rawText = '';
   scenes.forEach(scene => {
-    rawText += scene.heading + '\n\n';
-    scene.content.forEach(element => {
-      if (element.type === 'character') rawText += '\n' + element.content + '\n';
-      else if (element.type === 'dialogue') rawText += element.content + '\n';
-      else if (element.type === 'parenthetical') rawText += element.content + '\n';
-      else rawText += element.content + '\n\n';
+    if (newPages.has(scene)) rawText += '===\n\n';
+    if (scene.heading !== 'OPENING') {
+      const forced = /^(?:INT|EXT|EST|I\/E)[.\s]/i.test(scene.heading) ? '' : '.';
+      const number = scene.sceneNumberLabel ? ` #${scene.sceneNumberLabel}#` : '';
+      rawText += forced + scene.heading + number + '\n\n';
+    }
+    scene.content.forEach((element, idx) => {
+      const text = marked.get(element) ?? element.content;
+      // A break inside a speech can't be written in Fountain without ending it
+      if (newPages.has(element) && element.type !== 'dialogue' && element.type !== 'parenthetical') rawText += '===\n\n';
+      if (element.type === 'character') rawText += (isCharacterCue(element.content) ? '' : '@') + element.content + (element.dual === 'right' ? ' ^' : '') + '\n';
+      else if (element.type === 'dialogue' || element.type === 'parenthetical') rawText += text + '\n';
+      else if (centered.has(element)) rawText += text.split('\n').map(line => `> ${line} <`).join('\n') + '\n\n';
+      else if (element.type === 'transition') rawText += (/TO:$/.test(element.content) ? '' : '> ') + text + '\n\n';
+      else rawText += (actionNeedsForcing(text) ? '!' : '') + text + '\n\n';
+      
+      // Close a dialogue block with a blank line when the next element is not part of it
+      const next = scene.content[idx + 1];
+      if ((element.type === 'dialogue' || element.type === 'parenthetical') && (!next || next.type !== 'dialogue' && next.type !== 'parenthetical')) {
+        rawText += '\n';
+      }
     });
-    rawText += '\n';
   });
   
+  rawText = rawText.trimEnd() + '\n';
+  
   return {
     title, authors, rawText, scenes,
     characters: Array.from(characters),
     locations: Array.from(locations),
-    metadata: { format: 'fdx', importedAt: Date.now() },
+    metadata: { format: 'fdx', pageCount: countPages(rawText), importedAt: Date.now() },
   };
 };
 
@@ -267,44 +376,25 @@ const parseFDX = async (xmlContent: string): Promise<ParsedScript> => {
 // PDF TEXT EXTRACTION
 // ============================================
 
+// pdf.js text positions keep the page layout, so elements are read by column.
+// It is loaded on the first PDF import rather than with every screen that
+// parses Fountain through this module.
 const parsePDF = async (file: File): Promise<ParsedScript> => {
-  // Try server-side extraction first
-  const formData = new FormData();
-  formData.append('file', file);
-  
+  const [{ getDocument, GlobalWorkerOptions }, { default: workerUrl }] = await Promise.all([
+    import('pdfjs-dist'),
+    import('pdfjs-dist/build/pdf.worker.min.mjs?url'),
+  ]);
+  GlobalWorkerOptions.workerSrc = workerUrl;
+  const pdf = await getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
   try {
-    const response = await fetch('/api/extract-pdf', { method: 'POST', body: formData });
-    if (response.ok) {
-      const { text } = await response.json();
-      const parsed = parseFountain(text);
-      parsed.metadata.format = 'pdf';
-      return parsed;
-    }
-  } catch (e) {
-    console.warn('Server PDF extraction failed, trying browser fallback');
-  }
-  
-  // Browser-based extraction using PDF.js
-  if (typeof window !== 'undefined' && (window as any).pdfjsLib) {
-    const pdfjsLib = (window as any).pdfjsLib;
-    const arrayBuffer = await file.arrayBuffer();
-    const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
-    
-    let fullText = '';
-    for (let i = 1; i <= pdf.numPages; i++) {
-      const page = await pdf.getPage(i);
-      const textContent = await page.getTextContent();
-      const pageText = textContent.items.map((item: any) => item.str).join(' ');
-      fullText += pageText + '\n\n';
-    }
-    
-    const parsed = parseFountain(fullText);
+    const fountainText = await extractScreenplayFromPDF(pdf);
+    const parsed = parseFountain(fountainText);
     parsed.metadata.format = 'pdf';
     parsed.metadata.pageCount = pdf.numPages;
     return parsed;
+  } finally {
+    pdf.destroy();
   }
-  
-  throw new Error('PDF extraction not available. Install PDF.js or enable server extraction.');
 };
 
 // ============================================
@@ -337,6 +427,117 @@ export const importScript = async (file: File): Promise<ParsedScript> => {
   return parseFountain(text);
 };
 
+// ============================================
+// TRANSCRIPT IMPORT
+// ============================================
+
+// 01:23, 00:01:23, 00:01:23,450 (SRT), 00:01:23.450 (VTT), 00:01:23:12 (frames)
+const TIMESTAMP = /(?:(\d{1,2}):)?(\d{1,2}):(\d{2})(?:([.,])(\d{1,3})|:(\d{2}))?/;
+const STAMPED_LINE = new RegExp(`^[\\[(]?(${TIMESTAMP.source})[\\])]?\\s*(?:[-–—|]\\s*)?(.*)$`);
+// "Maria Lopez  00:01:23" on its own line, the words below (Otter, Descript)
+const HEADER_LINE = new RegExp(`^(.+?)\\s+[\\[(]?(${TIMESTAMP.source})[\\])]?$`);
+// "MARIA: ...", "Maria Lopez: ...", "- Q: ...", ">> INTERVIEWER: ..."
+const SPEAKER_LABEL = /^(?:-\s*|>>\s*)?([A-Z][A-Za-z.'-]*(?:\s[A-Z][A-Za-z.'-]*){0,2})\s*:\s+/;
+
+// Spoken words per second, for the length of a final timestamped line
+const READ_RATE = 2.5;
+const TRANSCRIPT_FPS = 25;
+
+export const parseTimestamp = (text: string, fps = TRANSCRIPT_FPS): number | null => {
+  const match = text.match(TIMESTAMP);
+  if (!match) return null;
+  const [, hours, minutes, seconds, , millis, frames] = match;
+  return (parseInt(hours || '0', 10) * 3600) + parseInt(minutes, 10) * 60 + parseInt(seconds, 10)
+    + (millis ? parseInt(millis.padEnd(3, '0'), 10) / 1000 : 0)
+    + (frames ? parseInt(frames, 10) / fps : 0);
+};
+
+type RawSegment = Omit<TranscriptSegment, 'id' | 'speaker'> & { speaker?: string };
+
+const splitSpeaker = (text: string): { speaker?: string; text: string } => {
+  const voice = text.match(/^<v(?:\.[\w.-]+)?\s+([^>]+)>/);
+  if (voice) return { speaker: voice[1].trim(), text: text.replace(/<[^>]+>/g, '').trim() };
+  const clean = text.replace(/<[^>]+>/g, '').trim();
+  const label = clean.match(SPEAKER_LABEL);
+  return label ? { speaker: label[1], text: clean.slice(label[0].length).trim() } : { text: clean };
+};
+
+/**
+ * SRT and WebVTT cues; the arrow line is all the two need to agree on
+ */
+export const parseSubtitleCues = (text: string): RawSegment[] => {
+  const segments: RawSegment[] = [];
+  text.replace(/\r/g, '').split(/\n\s*\n/).forEach(block => {
+    const lines = block.split('\n').map(line => line.trim()).filter(Boolean);
+    const arrow = lines.findIndex(line => line.includes('-->'));
+    if (arrow < 0) return; // WEBVTT header, NOTE, STYLE, REGION
+    const [from, to] = lines[arrow].split('-->');
+    const start = parseTimestamp(from);
+    const end = parseTimestamp(to);
+    if (start === null || end === null) return;
+    const { speaker, text: words } = splitSpeaker(lines.slice(arrow + 1).join(' '));
+    if (words) segments.push({ start, end, speaker, text: words });
+  });
+  return segments;
+};
+
+/**
+ * Transcripts with a timestamp at the start of each line, or on a speaker
+ * line above the words. Each line runs until the next one starts.
+ */
+export const parseTimestampedText = (text: string): RawSegment[] => {
+  const segments: RawSegment[] = [];
+  let open: RawSegment | null = null;
+
+  text.replace(/\r/g, '').split('\n').forEach(raw => {
+    const line = raw.trim();
+    if (!line) return;
+    const header = line.match(HEADER_LINE);
+    const stamped = line.match(STAMPED_LINE);
+    if (stamped) {
+      const { speaker, text: words } = splitSpeaker(stamped[stamped.length - 1]);
+      open = { start: parseTimestamp(stamped[1])!, end: 0, speaker, text: words };
+      segments.push(open);
+    } else if (header && !SPEAKER_LABEL.test(line)) {
+      open = { start: parseTimestamp(header[2])!, end: 0, speaker: header[1].trim(), text: '' };
+      segments.push(open);
+    } else if (open) {
+      open.text = open.text ? `${open.text} ${line}` : line;
+    }
+  });
+
+  const spoken = segments.filter(segment => segment.text);
+  spoken.forEach((segment, i) => {
+    const next = spoken[i + 1];
+    const words = segment.text.split(/\s+/).length;
+    segment.end = next && next.start > segment.start ? next.start : segment.start + Math.max(1, words / READ_RATE);
+  });
+  return spoken;
+};
+
+/**
+ * Read an interview transcript. Lines take the speaker they are labelled
+ * with; unlabelled lines keep the last label, or the transcript's speaker.
+ */
+export const parseTranscript = (text: string, name: string, speaker: string): Transcript => {
+  const raw = text.includes('-->') ? parseSubtitleCues(text) : parseTimestampedText(text);
+  if (!raw.length) throw new Error(`No timestamps found in ${name}. Use SRT, WebVTT or timestamped text.`);
+
+  const fallback = speaker.trim().toUpperCase() || 'SPEAKER';
+  let current = fallback;
+  const segments = raw.map(segment => {
+    if (segment.speaker) current = segment.speaker.toUpperCase();
+    return { id: crypto.randomUUID(), start: segment.start, end: segment.end, speaker: current, text: segment.text };
+  });
+
+  return { id: crypto.randomUUID(), name, speaker: fallback, segments, importedAt: Date.now() };
+};
+
+export const importTranscript = async (file: File, speaker: string): Promise<Transcript> => {
+  const text = await file.text();
+  return parseTranscript(text, file.name.replace(/\.[^.]+$/, ''), speaker);
+};
+
 // ============================================
 // EXPORT TO DIRECTOR FORMAT
 // ============================================
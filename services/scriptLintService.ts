@@ -0,0 +1,332 @@
+/**
+ * SCRIPT ENGINE - Script Lint Service
+ *
+ * Format checks over scriptContent, aimed mostly at model output appended
+ * through scriptAppend: malformed sluglines, cues with no dialogue, orphan
+ * parentheticals, transitions that don't lead into a scene, inconsistent
+ * character names and lowercase cues.
+ *
+ * Every issue points at a source line and, where one is safe to guess,
+ * carries a fix expressed as a line-range replacement.
+ */
+
+import { parseFountainDocument, FountainElement, NON_PRINTING_TYPES } from './fountainParser';
+import { isOmittedHeading } from './sceneOperationsService';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type LintRule =
+  | 'slugline_prefix'
+  | 'slugline_time'
+  | 'cue_without_dialogue'
+  | 'orphan_parenthetical'
+  | 'transition_without_heading'
+  | 'inconsistent_name'
+  | 'lowercase_cue';
+
+export type LintSeverity = 'error' | 'warning';
+
+// Replace source lines startLine..endLine (inclusive, zero-based) with `lines`
+export interface LintEdit {
+  startLine: number;
+  endLine: number;
+  lines: string[];
+}
+
+export interface LintFix {
+  label: string;
+  edit: LintEdit;
+  removes?: boolean; // Deletes script text, so it is only applied one at a time, never by "Fix all"
+  deliberate?: boolean; // What it changes may be intended (.MONTAGE), so also one at a time only
+}
+
+export interface LintIssue {
+  id: string;
+  rule: LintRule;
+  severity: LintSeverity;
+  line: number; // Zero-based
+  message: string;
+  fix?: LintFix;
+}
+
+export const LINT_RULE_LABELS: Record<LintRule, string> = {
+  slugline_prefix: 'Scene heading prefix',
+  slugline_time: 'Scene heading time of day',
+  cue_without_dialogue: 'Cue without dialogue',
+  orphan_parenthetical: 'Orphan parenthetical',
+  transition_without_heading: 'Transition without scene',
+  inconsistent_name: 'Inconsistent character name',
+  lowercase_cue: 'Lowercase cue',
+};
+
+// ============================================
+// HELPERS
+// ============================================
+
+const PREFIX_PATTERN = /^(INT\.\/EXT\.|INT\/EXT\.|I\/E\.|INT\.|EXT\.|EST\.)\s/;
+const LOOSE_PREFIX_PATTERN = /^(INT\.?\/EXT|INT\/EXT|I\/E|INT|EXT|EST)\.?\s+/i;
+const TIME_PATTERN = /\s[-–]\s*\S/;
+const HEADING_LIKE_PATTERN = /^[A-Z0-9][A-Z0-9 '.,&/]+\s[-–]\s(DAY|NIGHT|MORNING|EVENING|AFTERNOON|DAWN|DUSK|CONTINUOUS|LATER|MOMENTS LATER)$/;
+
+const cueName = (text: string) => text.replace(/\s*\^$/, '').replace(/\(.*$/, '').trim();
+
+const isPrinting = (el: FountainElement) => !NON_PRINTING_TYPES.includes(el.type);
+
+// Names written the Scottish/Irish way keep their lowercase c
+const isMcName = (name: string) => /^Ma?c[A-Z][A-Z'\s-]*$/.test(name);
+
+const editDistance = (a: string, b: string): number => {
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+};
+
+/**
+ * Near-identical spellings of a longer name: almost certainly a typo
+ */
+const isMisspellingOf = (a: string, b: string) =>
+  a !== b && Math.min(a.length, b.length) >= 5 && editDistance(a, b) === 1;
+
+/**
+ * "RAY" and "DETECTIVE RAY" (one name ends or starts the other on a word
+ * boundary). Often the same character, but JOHN and JOHN SR. are not, so
+ * this is only ever a suggestion.
+ */
+const isLongerFormOf = (a: string, b: string) => {
+  if (a === b) return false;
+  const [short, long] = a.length < b.length ? [a, b] : [b, a];
+  return long.endsWith(` ${short}`) || long.startsWith(`${short} `);
+};
+
+const issue = (rule: LintRule, severity: LintSeverity, line: number, message: string, fix?: LintFix): LintIssue => ({
+  id: `${rule}:${line}`,
+  rule,
+  severity,
+  line,
+  message,
+  fix,
+});
+
+// ============================================
+// LINT
+// ============================================
+
+export const lintScript = (script: string): LintIssue[] => {
+  const doc = parseFountainDocument(script);
+  const lines = script.replace(/\r\n?/g, '\n').split('\n');
+  const elements = doc.elements.filter(isPrinting);
+  const issues: LintIssue[] = [];
+
+  const cues = elements.filter(el => el.type === 'character');
+  const cueCounts = new Map<string, number>();
+  cues.forEach(el => {
+    const name = (el.character || '').toUpperCase();
+    cueCounts.set(name, (cueCounts.get(name) || 0) + 1);
+  });
+
+  elements.forEach((el, idx) => {
+    const next = elements[idx + 1];
+    const prev = elements[idx - 1];
+    const source = lines[el.startLine];
+    const indent = source.match(/^\s*/)![0];
+
+    // Sluglines; OMITTED placeholders from the scene navigator are left as they are
+    if (el.type === 'scene_heading') {
+      if (isOmittedHeading(el.text)) return;
+      const number = source.match(/\s*#[^#\s]+#\s*$/)?.[0] || '';
+      const text = el.text;
+      if (el.forced && !LOOSE_PREFIX_PATTERN.test(text)) {
+        issues.push(issue('slugline_prefix', 'warning', el.startLine, `Scene heading "${text}" has no INT./EXT.`, {
+          label: 'Make it INT.',
+          edit: { startLine: el.startLine, endLine: el.startLine, lines: [`${indent}INT. ${text.toUpperCase()}${number}`] },
+          deliberate: true,
+        }));
+      } else if (!PREFIX_PATTERN.test(text) || text !== text.toUpperCase()) {
+        const fixed = text.replace(LOOSE_PREFIX_PATTERN, (_, prefix: string) => `${prefix.toUpperCase()}. `).toUpperCase();
+        if (fixed !== text) {
+          issues.push(issue('slugline_prefix', 'error', el.startLine, `Scene heading "${text}" is not in standard form`, {
+            label: `Change to "${fixed}"`,
+            edit: { startLine: el.startLine, endLine: el.startLine, lines: [`${indent}${fixed}${number}`] },
+          }));
+        }
+      }
+      if (!TIME_PATTERN.test(text) && LOOSE_PREFIX_PATTERN.test(text)) {
+        issues.push(issue('slugline_time', 'warning', el.startLine, `Scene heading "${text}" has no time of day`, {
+          label: 'Add - DAY',
+          edit: { startLine: el.startLine, endLine: el.startLine, lines: [`${source.replace(/\s*#[^#\s]+#\s*$/, '').trimEnd()} - DAY${number}`] },
+        }));
+      }
+      return;
+    }
+
+    // Action that is really an unprefixed slugline
+    if (el.type === 'action' && el.startLine === el.endLine && HEADING_LIKE_PATTERN.test(el.text.trim())) {
+      issues.push(issue('slugline_prefix', 'error', el.startLine, `"${el.text.trim()}" looks like a scene heading without INT./EXT.`, {
+        label: 'Make it INT.',
+        edit: { startLine: el.startLine, endLine: el.startLine, lines: [`INT. ${el.text.trim()}`] },
+      }));
+      return;
+    }
+
+    // Cue separated from its dialogue by a blank line: parsed as a lone action line
+    if (el.type === 'action' && el.startLine === el.endLine && !el.forced) {
+      const name = cueName(el.text.trim());
+      if (name && name === name.toUpperCase() && cueCounts.has(name) && next && next.type === 'action' && !HEADING_LIKE_PATTERN.test(next.text.trim())) {
+        issues.push(issue('cue_without_dialogue', 'error', el.startLine, `Cue "${el.text.trim()}" is not followed by dialogue`, {
+          label: 'Join with the next paragraph as dialogue',
+          edit: { startLine: el.startLine, endLine: next.startLine - 1, lines: [lines[el.startLine]] },
+        }));
+        return;
+      }
+    }
+
+    // Lowercase cue written straight above its dialogue: parsed as action
+    if (el.type === 'action' && !el.forced && el.endLine > el.startLine) {
+      const name = cueName(source.trim());
+      if (name && name !== name.toUpperCase() && cueCounts.has(name.toUpperCase()) && !isMcName(name)) {
+        const fixed = source.trim().toUpperCase();
+        issues.push(issue('lowercase_cue', 'error', el.startLine, `Cue "${source.trim()}" should be upper case`, {
+          label: `Change to ${fixed}`,
+          edit: { startLine: el.startLine, endLine: el.startLine, lines: [`${indent}${fixed}`] },
+        }));
+      }
+    }
+
+    // Cue followed only by parentheticals
+    if (el.type === 'character') {
+      let j = idx + 1;
+      while (elements[j]?.type === 'parenthetical' && elements[j].character === el.character && elements[j].startLine <= elements[j - 1].endLine + 1) j++;
+      const spoken = elements[j] && ['dialogue', 'lyrics'].includes(elements[j].type) && elements[j].startLine === elements[j - 1].endLine + 1;
+      if (!spoken) {
+        const end = elements[j - 1].endLine;
+        const blankAfter = lines[end + 1]?.trim() === '' ? 1 : 0;
+        issues.push(issue('cue_without_dialogue', 'error', el.startLine, `Cue "${el.text}" has no dialogue`, {
+          label: 'Remove the empty cue',
+          edit: { startLine: el.startLine, endLine: end + blankAfter, lines: [] },
+          removes: true,
+        }));
+      }
+    }
+
+    // Parenthetical outside a dialogue block
+    if (el.type === 'action' && /^\(.*\)$/.test(el.text.trim()) && el.startLine === el.endLine) {
+      const afterSpeech = prev && ['dialogue', 'parenthetical', 'lyrics'].includes(prev.type) && !!next && next.type === 'action';
+      const plain = el.text.trim().slice(1, -1).trim();
+      const asAction = plain.charAt(0).toUpperCase() + plain.slice(1) + (/[.!?]$/.test(plain) ? '' : '.');
+      issues.push(issue('orphan_parenthetical', 'warning', el.startLine, `Parenthetical "${el.text.trim()}" is not inside a dialogue block`, afterSpeech
+        ? {
+            label: `Attach it and the next paragraph to ${prev!.character || 'the speech above'}`,
+            edit: { startLine: prev!.endLine + 1, endLine: next!.startLine - 1, lines: [el.text.trim()] },
+          }
+        : {
+            label: 'Turn into action',
+            edit: { startLine: el.startLine, endLine: el.startLine, lines: [asAction] },
+          }
+      ));
+    }
+
+    // Parenthetical closing a dialogue block
+    const inSpeech = prev?.character === el.character && ['dialogue', 'lyrics', 'parenthetical'].includes(prev.type);
+    if (el.type === 'parenthetical' && inSpeech && (!next || next.startLine > el.endLine + 1 || next.character !== el.character)) {
+      const plain = el.text.slice(1, -1).trim();
+      issues.push(issue('orphan_parenthetical', 'warning', el.startLine, `Parenthetical "${el.text}" ends ${el.character}'s speech with nothing after it`, {
+        label: 'Move it out as action',
+        edit: { startLine: el.startLine, endLine: el.startLine, lines: ['', plain.charAt(0).toUpperCase() + plain.slice(1) + (/[.!?]$/.test(plain) ? '' : '.')] },
+      }));
+    }
+
+    // Transitions lead into a new scene
+    const following = elements.slice(idx + 1).find(e => e.type !== 'page_break');
+    if (el.type === 'transition' && following && following.type !== 'scene_heading') {
+      const blankAfter = lines[el.endLine + 1]?.trim() === '' ? 1 : 0;
+      issues.push(issue('transition_without_heading', 'warning', el.startLine, `Transition "${el.text}" is not followed by a scene heading`, {
+        label: 'Remove the transition',
+        edit: { startLine: el.startLine, endLine: el.endLine + blankAfter, lines: [] },
+        removes: true,
+      }));
+    }
+
+    // Lowercase cues forced with @
+    if (el.type === 'character' && el.character && el.character !== el.character.toUpperCase() && !isMcName(el.character)) {
+      const fixed = source.trim().replace(/^@/, '').toUpperCase();
+      issues.push(issue('lowercase_cue', 'error', el.startLine, `Cue "${el.text}" should be upper case`, {
+        label: `Change to ${fixed}`,
+        edit: { startLine: el.startLine, endLine: el.startLine, lines: [`${indent}${fixed}`] },
+      }));
+    }
+  });
+
+  // Inconsistent names: cue the less used form with the more used one
+  const names = Array.from(cueCounts.keys());
+  const moreUsed = (name: string, other: string) =>
+    cueCounts.get(other)! > cueCounts.get(name)! || (cueCounts.get(other) === cueCounts.get(name) && other.length > name.length);
+  cues.forEach(el => {
+    const name = (el.character || '').toUpperCase();
+    const byCount = (a: string, b: string) => cueCounts.get(b)! - cueCounts.get(a)!;
+    const misspelt = names.filter(other => isMisspellingOf(name, other) && moreUsed(name, other)).sort(byCount)[0];
+    const canonical = misspelt || names.filter(other => isLongerFormOf(name, other) && moreUsed(name, other)).sort(byCount)[0];
+    if (!canonical) return;
+
+    const source = lines[el.startLine];
+    const fixed = source.replace(new RegExp(el.character!.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i'), canonical);
+    const message = misspelt
+      ? `"${name}" is also cued as "${canonical}" (${cueCounts.get(canonical)}×)`
+      : `"${name}" may be the same character as "${canonical}" (${cueCounts.get(canonical)}×)`;
+    issues.push(issue('inconsistent_name', 'warning', el.startLine, message, {
+      label: `Change to ${canonical}`,
+      edit: { startLine: el.startLine, endLine: el.startLine, lines: [fixed] },
+    }));
+  });
+
+  return issues.sort((a, b) => a.line - b.line);
+};
+
+// ============================================
+// FIXES
+// ============================================
+
+export const applyLintEdit = (script: string, edit: LintEdit): string => {
+  const lines = script.split('\n');
+  lines.splice(edit.startLine, edit.endLine - edit.startLine + 1, ...edit.lines);
+  return lines.join('\n');
+};
+
+// Renaming a cue is a judgement call (JOHN SR. is not JOHN), so it is never applied in bulk either
+export const isBulkFix = (issue: LintIssue): boolean =>
+  !!issue.fix && !issue.fix.removes && !issue.fix.deliberate && issue.rule !== 'inconsistent_name';
+
+/**
+ * Apply every available fix that keeps the script's content. Edits are
+ * applied bottom-up so earlier line numbers stay valid; overlapping ones
+ * wait for the next pass.
+ */
+export const applyAllLintFixes = (script: string, maxPasses: number = 5): string => {
+  let current = script;
+  for (let pass = 0; pass < maxPasses; pass++) {
+    const edits = lintScript(current)
+      .filter(isBulkFix)
+      .map(i => i.fix!.edit)
+      .sort((a, b) => b.startLine - a.startLine);
+    if (!edits.length) break;
+
+    let floor = Infinity;
+    const before = current;
+    edits.forEach(edit => {
+      if (edit.endLine >= floor) return;
+      current = applyLintEdit(current, edit);
+      floor = edit.startLine;
+    });
+    if (current === before) break;
+  }
+  return current;
+};
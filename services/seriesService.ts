@@ -0,0 +1,176 @@
+/**
+ * SCRIPT ENGINE - Series Service
+ *
+ * Multi-episode series. The series project owns the shared bible
+ * (characters, locations, tone, format) and the season's arcs; each
+ * episode is its own project with its own script, beats and snapshots.
+ * Episodes wait in the same local stash as draft branches, and the bible
+ * is handed on whenever the writer moves between series and episodes.
+ */
+
+import { withScriptContent } from './scriptDocumentService';
+import { buildCharacterReport } from './characterReportService';
+import type { BranchStash } from './branchService';
+import type { ProjectState, ProjectData, SeriesPlan, SeasonArc } from '../types';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface EpisodeAppearance {
+  scenes: number;
+  words: number;
+}
+
+export interface SeriesAppearances {
+  characters: string[];
+  // Character -> episode ID -> presence in that episode
+  byCharacter: Record<string, Record<string, EpisodeAppearance>>;
+}
+
+const ARC_COLORS = ['#d32f2f', '#1976d2', '#388e3c', '#f9a825', '#7b1fa2', '#00838f', '#ef6c00', '#c2185b'];
+
+// ============================================
+// SHARED BIBLE
+// ============================================
+
+/**
+ * Series a workspace belongs to: its own ID for the series itself
+ */
+export const seriesIdOf = (id: string, state: ProjectState): string | undefined =>
+  state.episode?.seriesId || (state.data.series ? id : undefined);
+
+export const withSeriesBible = (data: ProjectData, bible: ProjectData): ProjectData => ({
+  ...data,
+  characters: [...bible.characters],
+  characterProfiles: [...(bible.characterProfiles || [])],
+  locations: [...bible.locations],
+  tone: bible.tone,
+  format: bible.format,
+});
+
+/**
+ * Hand the active workspace's bible to the rest of its series in the
+ * stash, so whichever is opened next starts from the latest version
+ */
+export const shareSeriesBible = (activeId: string, active: ProjectState, stash: BranchStash): BranchStash => {
+  const seriesId = seriesIdOf(activeId, active);
+  if (!seriesId) return stash;
+  const next = { ...stash };
+  Object.entries(stash).forEach(([id, state]) => {
+    if (seriesIdOf(id, state) === seriesId) next[id] = { ...state, data: withSeriesBible(state.data, active.data) };
+  });
+  return next;
+};
+
+// ============================================
+// EPISODES
+// ============================================
+
+/**
+ * Turn a single-script project into a series. The script, beats,
+ * production data and history become episode 1; the project keeps the bible.
+ */
+export const startSeries = (id: string, state: ProjectState): { series: ProjectState; episode: ProjectState } => {
+  const series: ProjectState = {
+    ...state,
+    data: {
+      ...withScriptContent(state.data, ''),
+      beats: [],
+      scenesWritten: 0,
+      breakdowns: [],
+      schedule: undefined,
+      snapshots: [],
+      paperEdit: undefined,
+      translations: undefined,
+      series: { season: 1, arcs: [] },
+    },
+  };
+  const episode: ProjectState = {
+    currentPhase: state.currentPhase,
+    data: { ...state.data, title: 'Episode 1', series: undefined },
+    episode: { id: crypto.randomUUID(), seriesId: id, number: 1 },
+  };
+  return { series, episode };
+};
+
+/**
+ * Episodes of a series, in order, whether active or stashed
+ */
+export const listEpisodes = (seriesId: string, activeId: string, active: ProjectState, stash: BranchStash): ProjectState[] =>
+  [active, ...Object.entries(stash).filter(([id]) => id !== activeId).map(([, state]) => state)]
+    .filter(state => state.episode?.seriesId === seriesId)
+    .sort((a, b) => a.episode!.number - b.episode!.number);
+
+export const createEpisode = (seriesId: string, series: ProjectState, episodes: ProjectState[], title?: string): ProjectState => {
+  const number = Math.max(0, ...episodes.map(e => e.episode!.number)) + 1;
+  const blank: ProjectData = {
+    ...series.data,
+    title: title?.trim() || `Episode ${number}`,
+    logline: '',
+    beats: [],
+    scenesWritten: 0,
+    productionNotes: [],
+    breakdowns: [],
+    schedule: undefined,
+    series: undefined,
+    snapshots: [],
+    visuals: [],
+    paperEdit: undefined,
+    translations: undefined,
+  };
+  return {
+    currentPhase: series.currentPhase,
+    data: withScriptContent(blank, ''),
+    episode: { id: crypto.randomUUID(), seriesId, number },
+  };
+};
+
+// ============================================
+// SEASON ARCS
+// ============================================
+
+export const createArc = (plan: SeriesPlan, name: string): SeasonArc => ({
+  id: crypto.randomUUID(),
+  name: name.trim() || 'Untitled arc',
+  color: ARC_COLORS[plan.arcs.length % ARC_COLORS.length],
+  notes: {},
+});
+
+/**
+ * Drop an episode's notes from every arc, for when it is deleted
+ */
+export const removeEpisodeNotes = (plan: SeriesPlan, episodeId: string): SeriesPlan => ({
+  ...plan,
+  arcs: plan.arcs.map(arc => {
+    const notes = { ...arc.notes };
+    delete notes[episodeId];
+    return { ...arc, notes };
+  }),
+});
+
+// ============================================
+// APPEARANCES
+// ============================================
+
+/**
+ * Which characters appear in which episode: scenes present and dialogue
+ * words, per the character report of each episode's script
+ */
+export const buildSeriesAppearances = (episodes: ProjectState[]): SeriesAppearances => {
+  const byCharacter: SeriesAppearances['byCharacter'] = {};
+  episodes.forEach(episode => {
+    buildCharacterReport(episode.data).characters.forEach(stats => {
+      if (!stats.scenes.length) return;
+      byCharacter[stats.name] = byCharacter[stats.name] || {};
+      byCharacter[stats.name][episode.episode!.id] = { scenes: stats.scenes.length, words: stats.words };
+    });
+  });
+
+  const episodeCount = (name: string) => Object.keys(byCharacter[name]).length;
+  const totalWords = (name: string) => Object.values(byCharacter[name]).reduce((sum, a) => sum + a.words, 0);
+  const characters = Object.keys(byCharacter).sort((a, b) =>
+    episodeCount(b) - episodeCount(a) || totalWords(b) - totalWords(a) || a.localeCompare(b));
+
+  return { characters, byCharacter };
+};
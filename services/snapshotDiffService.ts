@@ -0,0 +1,296 @@
+/**
+ * SCRIPT ENGINE - Snapshot Diff Service
+ *
+ * Compares two versions of a project (two snapshots, or a snapshot and
+ * the current state): the script line by line and scene by scene, and the
+ * bible fields (characters, locations, beats) as structured lists. Also
+ * builds partial restores, so one scene or just the beats can come back
+ * from a snapshot without overwriting everything else.
+ */
+
+import { diffLines, DiffOp } from './diffService';
+import { ensureScriptDocument, documentToFountain, withScriptContent, sceneText, withTrailingBlank } from './scriptDocumentService';
+import { stripInlineMarkup } from './fountainParser';
+import type { ProjectData, ScriptSceneNode, CharacterProfile } from '../types';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface SideBySideRow {
+  type: 'equal' | 'insert' | 'delete' | 'replace' | 'skip';
+  left?: { line: number; text: string };
+  right?: { line: number; text: string };
+  skipped?: number; // 'skip' rows: unchanged lines folded away
+}
+
+export type SceneChange = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface SceneDiff {
+  key: string;
+  status: SceneChange;
+  moved: boolean;
+  heading: string;
+  sceneId?: string; // Scene in the older version, for restoring it
+  before?: string;
+  after?: string;
+}
+
+export interface ListDiff {
+  added: string[];
+  removed: string[];
+  unchanged: string[];
+}
+
+export interface ProfileChange {
+  name: string;
+  fields: (keyof CharacterProfile)[];
+}
+
+export interface BibleDiff {
+  characters: ListDiff;
+  profiles: ProfileChange[];
+  locations: ListDiff;
+  beats: SideBySideRow[];
+  beatsChanged: boolean;
+}
+
+export type RestorablePart = 'script' | 'characters' | 'locations' | 'beats';
+
+// ============================================
+// LINE DIFF
+// ============================================
+
+/**
+ * Pair up diff runs into rows for a two-column view, folding long
+ * unchanged stretches down to `context` lines either side of a change
+ */
+export const toSideBySide = (ops: DiffOp[], a: string[], b: string[], context: number = 3): SideBySideRow[] => {
+  const rows: SideBySideRow[] = [];
+
+  ops.forEach((op, idx) => {
+    if (op.type === 'equal') {
+      const length = op.aEnd - op.aStart;
+      const head = idx === 0 ? 0 : context;
+      const tail = idx === ops.length - 1 ? 0 : context;
+      const row = (i: number): SideBySideRow => ({
+        type: 'equal',
+        left: { line: op.aStart + i, text: a[op.aStart + i] },
+        right: { line: op.bStart + i, text: b[op.bStart + i] },
+      });
+      if (length <= head + tail + 1) {
+        for (let i = 0; i < length; i++) rows.push(row(i));
+        return;
+      }
+      for (let i = 0; i < head; i++) rows.push(row(i));
+      rows.push({ type: 'skip', skipped: length - head - tail });
+      for (let i = length - tail; i < length; i++) rows.push(row(i));
+      return;
+    }
+
+    const span = Math.max(op.aEnd - op.aStart, op.bEnd - op.bStart);
+    for (let i = 0; i < span; i++) {
+      const ai = op.aStart + i;
+      const bi = op.bStart + i;
+      rows.push({
+        type: op.type,
+        left: ai < op.aEnd ? { line: ai, text: a[ai] } : undefined,
+        right: bi < op.bEnd ? { line: bi, text: b[bi] } : undefined,
+      });
+    }
+  });
+  return rows;
+};
+
+export const diffScriptLines = (before: string, after: string, context?: number): SideBySideRow[] => {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  return toSideBySide(diffLines(a, b), a, b, context);
+};
+
+// ============================================
+// SCENE DIFF
+// ============================================
+
+const sceneHeading = (scene: ScriptSceneNode) =>
+  scene.heading ? stripInlineMarkup(scene.heading.text).toUpperCase() : 'OPENING';
+
+const sceneKey = (scene: ScriptSceneNode) => sceneHeading(scene).replace(/\s+/g, ' ').trim();
+
+/**
+ * Pair scenes across versions: same scene ID first (both versions come
+ * from one document lineage), then same heading
+ */
+const matchScenes = (before: ScriptSceneNode[], after: ScriptSceneNode[]): Map<ScriptSceneNode, ScriptSceneNode> => {
+  const matches = new Map<ScriptSceneNode, ScriptSceneNode>();
+  const used = new Set<ScriptSceneNode>();
+  const pair = (test: (a: ScriptSceneNode, b: ScriptSceneNode) => boolean) => {
+    before.forEach(a => {
+      if (matches.has(a)) return;
+      const b = after.find(candidate => !used.has(candidate) && test(a, candidate));
+      if (b) {
+        matches.set(a, b);
+        used.add(b);
+      }
+    });
+  };
+  pair((a, b) => a.id === b.id);
+  pair((a, b) => sceneKey(a) === sceneKey(b));
+  return matches;
+};
+
+/**
+ * Indexes of a longest increasing run of `positions`: the scenes that kept
+ * their relative order. Everything else counts as moved.
+ */
+const inOrder = (positions: number[]): Set<number> => {
+  const length = positions.map(() => 1);
+  const previous = positions.map(() => -1);
+  positions.forEach((p, i) => {
+    for (let j = 0; j < i; j++) {
+      if (positions[j] < p && length[j] + 1 > length[i]) {
+        length[i] = length[j] + 1;
+        previous[i] = j;
+      }
+    }
+  });
+  const kept = new Set<number>();
+  let i = length.indexOf(Math.max(0, ...length));
+  while (i >= 0) {
+    kept.add(i);
+    i = previous[i];
+  }
+  return kept;
+};
+
+export const diffScenes = (before: ProjectData, after: ProjectData): SceneDiff[] => {
+  const a = ensureScriptDocument(before).scriptDocument!.scenes;
+  const b = ensureScriptDocument(after).scriptDocument!.scenes;
+  const matches = matchScenes(a, b);
+
+  const orderAfter = new Map(b.map((scene, i) => [scene, i]));
+  const matchedBefore = a.filter(scene => matches.has(scene));
+  const staying = inOrder(matchedBefore.map(scene => orderAfter.get(matches.get(scene)!)!));
+
+  const matchedAfter = new Set(matches.values());
+  const result: SceneDiff[] = [];
+  const emitted = new Set<ScriptSceneNode>();
+  const emitAdded = (upTo: number) => {
+    for (let i = 0; i < upTo; i++) {
+      const scene = b[i];
+      if (emitted.has(scene) || matchedAfter.has(scene)) continue;
+      emitted.add(scene);
+      result.push({ key: `added-${scene.id}`, status: 'added', moved: false, heading: sceneHeading(scene), after: sceneText(scene) });
+    }
+  };
+
+  a.forEach(scene => {
+    const match = matches.get(scene);
+    if (!match) {
+      result.push({ key: `removed-${scene.id}`, status: 'removed', moved: false, heading: sceneHeading(scene), sceneId: scene.id, before: sceneText(scene) });
+      return;
+    }
+    emitAdded(b.indexOf(match));
+    const before = sceneText(scene);
+    const after = sceneText(match);
+    result.push({
+      key: scene.id,
+      status: before.trim() === after.trim() ? 'unchanged' : 'changed',
+      moved: !staying.has(matchedBefore.indexOf(scene)),
+      heading: sceneHeading(match),
+      sceneId: scene.id,
+      before,
+      after,
+    });
+  });
+  emitAdded(b.length);
+  return result;
+};
+
+// ============================================
+// BIBLE DIFF
+// ============================================
+
+const diffList = (before: string[], after: string[]): ListDiff => {
+  const norm = (value: string) => value.trim().toUpperCase();
+  const beforeKeys = new Set(before.map(norm));
+  const afterKeys = new Set(after.map(norm));
+  const unique = (values: string[]) => values.filter((v, i) => values.findIndex(o => norm(o) === norm(v)) === i);
+  return {
+    added: unique(after).filter(v => !beforeKeys.has(norm(v))),
+    removed: unique(before).filter(v => !afterKeys.has(norm(v))),
+    unchanged: unique(after).filter(v => beforeKeys.has(norm(v))),
+  };
+};
+
+const characterNames = (data: ProjectData) => [...(data.characterProfiles || []).map(p => p.name), ...(data.characters || [])];
+
+export const diffBible = (before: ProjectData, after: ProjectData): BibleDiff => {
+  const profiles: ProfileChange[] = [];
+  (after.characterProfiles || []).forEach(profile => {
+    const old = (before.characterProfiles || []).find(p => p.name.toUpperCase() === profile.name.toUpperCase());
+    if (!old) return;
+    const fields = (['archetype', 'dialogueDNA'] as (keyof CharacterProfile)[]).filter(f => (old[f] || '') !== (profile[f] || ''));
+    if (fields.length) profiles.push({ name: profile.name, fields });
+  });
+
+  const beatsBefore = before.beats || [];
+  const beatsAfter = after.beats || [];
+  const beatOps = diffLines(beatsBefore, beatsAfter);
+
+  return {
+    characters: diffList(characterNames(before), characterNames(after)),
+    profiles,
+    locations: diffList(before.locations || [], after.locations || []),
+    beats: toSideBySide(beatOps, beatsBefore, beatsAfter, Infinity),
+    beatsChanged: beatOps.some(op => op.type !== 'equal'),
+  };
+};
+
+// ============================================
+// PARTIAL RESTORE
+// ============================================
+
+/**
+ * Current project data with one part taken from `source`
+ */
+export const restorePart = (current: ProjectData, source: ProjectData, part: RestorablePart): ProjectData => {
+  switch (part) {
+    case 'script':
+      return withScriptContent(current, source.scriptContent || '');
+    case 'characters':
+      return { ...current, characters: [...source.characters], characterProfiles: [...(source.characterProfiles || [])] };
+    case 'locations':
+      return { ...current, locations: [...source.locations] };
+    case 'beats':
+      return { ...current, beats: [...source.beats] };
+  }
+};
+
+/**
+ * Put one scene from `source` back into the current script: over its
+ * current version if it still exists, otherwise after the scene it
+ * followed in the snapshot
+ */
+export const restoreScene = (current: ProjectData, source: ProjectData, sceneId: string): ProjectData => {
+  const sourceScenes = ensureScriptDocument(source).scriptDocument!.scenes;
+  const doc = ensureScriptDocument(current).scriptDocument!;
+  const scene = sourceScenes.find(s => s.id === sceneId);
+  if (!scene) return current;
+
+  const matches = matchScenes(sourceScenes, doc.scenes);
+  const scenes = [...doc.scenes];
+  const existing = matches.get(scene);
+
+  if (existing) {
+    scenes[scenes.indexOf(existing)] = scene;
+  } else {
+    const previous = sourceScenes.slice(0, sourceScenes.indexOf(scene)).reverse().find(s => matches.has(s));
+    const at = previous ? scenes.indexOf(matches.get(previous)!) + 1 : scenes.findIndex(s => s.heading) === -1 ? scenes.length : scenes.findIndex(s => s.heading);
+    scenes.splice(at, 0, scene);
+  }
+
+  // Every scene but the last needs its blank line so the next heading still parses
+  const spaced = scenes.map((s, i) => (i < scenes.length - 1 ? withTrailingBlank(s) : s));
+  return withScriptContent(current, documentToFountain({ ...doc, scenes: spaced }));
+};
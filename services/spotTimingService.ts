@@ -0,0 +1,139 @@
+/**
+ * SCRIPT ENGINE - Spot Timing Service
+ *
+ * Running time of commercial spots against their target length. The
+ * target lives in `ProjectData.format` (":30 Commercial", "60s spot",
+ * "1:00 online cut"), so it travels with the brief the Writer's Room
+ * already fills in. Also builds the AI trim pass that cuts a spot back to
+ * length while respecting the timing rules.
+ */
+
+import { parseAVScript, lineTimings, formatDuration, TIMING_RULES, LineTiming } from './avScriptService';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ShotTiming {
+  number: number;
+  start: number;
+  duration: number;
+  estimate: number;
+  timed: boolean;
+  short: boolean; // Set duration is shorter than its lines need
+  lines: LineTiming[];
+}
+
+export interface SpotTiming {
+  duration: number;
+  target: number | null;
+  over: number; // Seconds over the target, 0 when on time or untargeted
+  shots: ShotTiming[];
+}
+
+export const SPOT_LENGTHS = [15, 30, 60];
+
+// ":30", "1:00", "30s", "30 sec", "30-second"
+const TARGET_PATTERN = /(^|\s)(?::(\d{2})|(\d{1,2}):(\d{2})|(\d+)\s*-?\s*(?:s|secs?|seconds?)\b)/i;
+
+// ============================================
+// TARGET LENGTH
+// ============================================
+
+export const getTargetDuration = (format?: string): number | null => {
+  const match = (format || '').match(TARGET_PATTERN);
+  if (!match) return null;
+  if (match[2]) return parseInt(match[2], 10);
+  if (match[3]) return parseInt(match[3], 10) * 60 + parseInt(match[4], 10);
+  return parseInt(match[5], 10) || null;
+};
+
+/**
+ * Spot length the way the trade writes it: ":30", "1:00"
+ */
+export const formatSpotLength = (seconds: number): string =>
+  seconds < 60 ? `:${String(seconds).padStart(2, '0')}` : formatDuration(seconds);
+
+/**
+ * The format string with its target length set, replaced or removed
+ */
+export const withTargetDuration = (format: string, seconds: number | null): string => {
+  const base = format === 'Pending...' ? '' : format;
+  const length = seconds ? formatSpotLength(seconds) : '';
+  if (TARGET_PATTERN.test(base)) {
+    return base.replace(TARGET_PATTERN, (_, lead: string) => (length ? `${lead}${length}` : lead)).replace(/\s+/g, ' ').trim();
+  }
+  if (!length) return base;
+  return base.trim() ? `${length} ${base.trim()}` : `${length} Commercial`;
+};
+
+// ============================================
+// TIMING
+// ============================================
+
+export const getSpotTiming = (script: string, format?: string): SpotTiming => {
+  const parsed = parseAVScript(script);
+  const target = getTargetDuration(format);
+  return {
+    duration: parsed.duration,
+    target,
+    over: target ? Math.max(0, parsed.duration - target) : 0,
+    shots: parsed.shots.map(shot => ({
+      number: shot.number,
+      start: shot.start,
+      duration: shot.duration,
+      estimate: shot.estimate,
+      timed: shot.timed,
+      short: shot.timed && shot.duration < shot.estimate,
+      lines: lineTimings(shot),
+    })),
+  };
+};
+
+// ============================================
+// AI TRIM
+// ============================================
+
+/**
+ * Instruction and context for `punchUpScript` to cut the whole spot to
+ * its target, with the timing rules spelled out so the model counts the
+ * same way the editor does
+ */
+export const buildTrimRequest = (script: string, target: number): { instruction: string; context: string } => {
+  const timing = getSpotTiming(script);
+  const rules = TIMING_RULES;
+  const shots = timing.shots
+    .map(shot => `Shot ${shot.number}: ${formatDuration(shot.duration)}${shot.timed ? ' (set)' : ' (estimated)'}, lines need ${formatDuration(shot.estimate)}`)
+    .join('\n');
+
+  const instruction = [
+    `trimmed to run ${formatSpotLength(target)} (${target} seconds) or less in total; it currently runs ${formatDuration(timing.duration)}.`,
+    'Keep the exact two-column AV format: one shot per paragraph, VIDEO:/SUPER: lines for picture, AUDIO:/VO:/SFX:/MUSIC: lines for sound, # section headings.',
+    `End each VIDEO line with the shot's length in square brackets, e.g. [0:04], and make the lengths add up to no more than ${target} seconds.`,
+    'Tighten or cut voice-over first, then merge or drop shots. Keep the brand name, the offer and the call to action, and keep the shot order',
+  ].join(' ');
+
+  const context = [
+    'AV SCRIPT TIMING RULES',
+    `Voice-over and sync read at ${rules.voWordsPerSecond} words a second (${rules.voWordsPerSecond * 60} words a minute).`,
+    `Described action plays at about ${rules.actionWordsPerSecond} words a second; supers need ${rules.superWordsPerSecond} words a second to be read.`,
+    `No shot shorter than ${rules.minShotSeconds} seconds. Music and effects play under and add no time.`,
+    '',
+    'CURRENT SHOTS',
+    shots,
+  ].join('\n');
+
+  return { instruction, context };
+};
+
+/**
+ * The model's rewrite without code fences or the quotes the prompt put
+ * around the original
+ */
+export const cleanTrimResult = (text: string): string =>
+  text
+    .trim()
+    .replace(/^```[\w-]*\n?/, '')
+    .replace(/\n?```$/, '')
+    .replace(/^"([\s\S]*)"$/, '$1')
+    .trim() + '\n';
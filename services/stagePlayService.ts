@@ -0,0 +1,382 @@
+/**
+ * SCRIPT ENGINE - Stage Play Service
+ *
+ * Plays for the stage, kept as plain text in `scriptContent`:
+ *
+ *   CHARACTERS
+ *   MARGARET, sixties, a retired judge.
+ *   TOM, her son.
+ *
+ *   ACT ONE
+ *
+ *   SCENE 1
+ *   A kitchen in Leeds. Morning.
+ *
+ *   (MARGARET sits at the table. TOM enters.)
+ *
+ *   TOM
+ *   Morning, Mum.
+ *
+ *   MARGARET
+ *   (not looking up)
+ *   You're late.
+ *
+ * "ACT ..." and "SCENE ..." lines divide the play; the paragraph straight
+ * after a scene heading sets the stage. A CHARACTERS (or CAST, DRAMATIS
+ * PERSONAE) heading opens the character list, which runs to the first
+ * blank line. A line in capitals followed by text is a speech; lines in
+ * parentheses are stage directions, or acting notes inside a speech. Any
+ * other paragraph is a stage direction too.
+ */
+
+import { createPdfDocument, POINTS_PER_INCH, textWidth, PdfPageBuilder } from './pdfWriter';
+import { wrapText } from './paginationService';
+import { createDocx, textParagraph, DocxBlock } from './docxWriter';
+import { isParenthesized } from './textUtils';
+import type { ProjectData } from '../types';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type StageElementType = 'cast-heading' | 'cast' | 'act' | 'scene' | 'setting' | 'direction' | 'character' | 'parenthetical' | 'dialogue';
+
+export interface StageElement {
+  type: StageElementType;
+  text: string;
+  line: number;     // 0-based
+  speaker?: string; // Set on character, parenthetical and dialogue
+}
+
+export interface CastMember {
+  name: string;
+  description: string;
+  line: number;
+}
+
+export interface StageScene {
+  title: string;
+  act: string | null;
+  setting: string;
+  line: number;
+  speakers: string[];
+}
+
+export interface StageAct {
+  title: string;
+  line: number;
+  scenes: StageScene[];
+}
+
+export interface StagePlay {
+  elements: StageElement[];
+  cast: CastMember[];
+  acts: StageAct[];
+  scenes: StageScene[];
+  speeches: Record<string, number>; // Speeches per character
+  uncast: string[];                 // Speak but are missing from the character list
+}
+
+const CAST_HEADING = /^(CHARACTERS|CAST|CAST OF CHARACTERS|DRAMATIS PERSONAE)\s*:?$/i;
+// Uppercase only, so a speech line like "Act your age" stays dialogue
+const ACT_HEADING = /^#*\s*ACT\s+[A-Z0-9]+\b/;
+const SCENE_HEADING = /^#*\s*SCENE\s+[A-Z0-9]+\b/;
+// "MARGARET", "DR. OKAFOR", "TOM (CONT'D)"
+const CUE_PATTERN = /^[A-Z0-9][A-Z0-9 .'&-]*(\s*\([^)]*\))?$/;
+const CAST_ENTRY = /^([^,:]+?)\s*(?:,|:|\s[-–—]\s)\s*(.*)$/;
+
+// ============================================
+// PARSE
+// ============================================
+
+const isHeading = (line: string) => ACT_HEADING.test(line) || SCENE_HEADING.test(line) || CAST_HEADING.test(line);
+
+export const isStageCue = (line: string, next?: string) =>
+  !!next?.trim() && line.length <= 40 && /[A-Z]/.test(line) && CUE_PATTERN.test(line) && !isHeading(line);
+
+const speakerName = (cue: string) => cue.replace(/\s*\([^)]*\)\s*$/, '').trim();
+
+export const parseStagePlay = (text: string): StagePlay => {
+  const lines = text.split('\n').map(line => line.trim());
+  const elements: StageElement[] = [];
+  const cast: CastMember[] = [];
+  const acts: StageAct[] = [];
+  const scenes: StageScene[] = [];
+  const speeches: Record<string, number> = {};
+
+  let block: 'none' | 'cast' | 'setting' | 'speech' | 'direction' = 'none';
+  let speaker: string | undefined;
+  let scene: StageScene | null = null;
+
+  lines.forEach((line, index) => {
+    if (!line) {
+      block = block === 'setting' && !scene?.setting ? 'setting' : 'none';
+      speaker = undefined;
+      return;
+    }
+
+    // A speech runs to the next blank line, headings included
+    if (block === 'speech' && speaker) {
+      elements.push({ type: isParenthesized(line) ? 'parenthetical' : 'dialogue', text: line, line: index, speaker });
+      return;
+    }
+
+    if (CAST_HEADING.test(line)) {
+      elements.push({ type: 'cast-heading', text: line.replace(/:$/, ''), line: index });
+      block = 'cast';
+      return;
+    }
+    if (ACT_HEADING.test(line)) {
+      const title = line.replace(/^#+\s*/, '');
+      elements.push({ type: 'act', text: title, line: index });
+      acts.push({ title, line: index, scenes: [] });
+      scene = null;
+      block = 'none';
+      return;
+    }
+    if (SCENE_HEADING.test(line)) {
+      const title = line.replace(/^#+\s*/, '');
+      elements.push({ type: 'scene', text: title, line: index });
+      const act = acts[acts.length - 1] || null;
+      scene = { title, act: act?.title || null, setting: '', line: index, speakers: [] };
+      scenes.push(scene);
+      act?.scenes.push(scene);
+      block = 'setting';
+      return;
+    }
+
+    if (block === 'cast') {
+      const entry = line.match(CAST_ENTRY);
+      const name = (entry ? entry[1] : line).trim();
+      cast.push({ name: name.toUpperCase(), description: entry ? entry[2].trim() : '', line: index });
+      elements.push({ type: 'cast', text: line, line: index });
+      return;
+    }
+
+    if (block !== 'direction' && isStageCue(line, lines[index + 1])) {
+      speaker = speakerName(line);
+      speeches[speaker] = (speeches[speaker] || 0) + 1;
+      if (scene && !scene.speakers.includes(speaker)) scene.speakers.push(speaker);
+      elements.push({ type: 'character', text: line, line: index, speaker });
+      block = 'speech';
+      return;
+    }
+
+    if (block === 'setting' && scene && !isParenthesized(line)) {
+      scene.setting = scene.setting ? `${scene.setting} ${line}` : line;
+      elements.push({ type: 'setting', text: line, line: index });
+      return;
+    }
+
+    elements.push({ type: 'direction', text: line, line: index });
+    block = 'direction';
+  });
+
+  const listed = new Set(cast.map(member => member.name));
+  const uncast = Object.keys(speeches).filter(name => !listed.has(name));
+
+  return { elements, cast, acts, scenes, speeches, uncast };
+};
+
+// ============================================
+// EDITING
+// ============================================
+
+/**
+ * Tab in the editor: a plain line becomes a stage direction, a direction
+ * becomes a character cue, a cue becomes plain text again
+ */
+export const cycleStageLine = (line: string): string => {
+  const text = line.trim();
+  if (!text) return '()';
+  if (isParenthesized(text)) return text.slice(1, -1).toUpperCase();
+  if (CUE_PATTERN.test(text) && /[A-Z]/.test(text)) return text.charAt(0) + text.slice(1).toLowerCase();
+  return `(${text})`;
+};
+
+/**
+ * Appends names missing from the character list, creating the list at the
+ * top of the play when there is none
+ */
+export const addToCastList = (text: string, names: string[]): string => {
+  if (!names.length) return text;
+  const lines = text.split('\n');
+  const play = parseStagePlay(text);
+  const entries = names.map(name => `${name},`);
+  if (!play.elements.some(el => el.type === 'cast-heading')) {
+    return ['CHARACTERS', ...entries, '', text.replace(/^\n+/, '')].join('\n');
+  }
+  const headingLine = play.elements.find(el => el.type === 'cast-heading')!.line;
+  const last = play.cast.length ? play.cast[play.cast.length - 1].line : headingLine;
+  return [...lines.slice(0, last + 1), ...entries, ...lines.slice(last + 1)].join('\n');
+};
+
+// ============================================
+// PDF
+// ============================================
+
+// Common US acting-edition layout: names centred, speeches at the left
+// margin, directions indented and in italics
+const PDF = {
+  fontSize: 12,
+  lineHeight: 12,
+  top: 1,
+  bottom: 10,
+  left: 1.5,
+  right: 7.5,
+  directionIndent: 1.5, // From the left margin, inches
+  parentheticalIndent: 2.25,
+};
+
+const chars = (fromInches: number) => Math.floor(((PDF.right - fromInches) * POINTS_PER_INCH) / (PDF.fontSize * 0.6));
+
+export const renderStagePDF = (data: ProjectData): Blob => {
+  const play = parseStagePlay(data.scriptContent || '');
+  const pdf = createPdfDocument();
+  const center = ((PDF.left + PDF.right) / 2) * POINTS_PER_INCH;
+  const bottom = PDF.bottom * POINTS_PER_INCH;
+  let page: PdfPageBuilder;
+  let y = 0;
+  let pageNumber = 0;
+  let started = false; // Past the title page and character list
+
+  // Only the pages of the play itself are numbered
+  const newPage = () => {
+    page = pdf.addPage();
+    y = PDF.top * POINTS_PER_INCH;
+    if (started) {
+      pageNumber++;
+      const label = `${pageNumber}.`;
+      page.text(PDF.right * POINTS_PER_INCH - textWidth(label, PDF.fontSize), 0.5 * POINTS_PER_INCH, label, { size: PDF.fontSize });
+    }
+  };
+  const centered = (text: string, options: { bold?: boolean; underline?: boolean } = {}) => {
+    page.text(center - textWidth(text, PDF.fontSize) / 2, y, text, { size: PDF.fontSize, font: options.bold ? 'bold' : 'regular', underline: options.underline });
+    y += PDF.lineHeight;
+  };
+  const block = (text: string, fromInches: number, font: 'regular' | 'italic' = 'regular') => {
+    const wrapped = wrapText(text, chars(fromInches));
+    if (y + wrapped.length * PDF.lineHeight > bottom) newPage();
+    wrapped.forEach(line => {
+      page.text(fromInches * POINTS_PER_INCH, y, line.text, { size: PDF.fontSize, font });
+      y += PDF.lineHeight;
+    });
+  };
+  const gap = (lines = 1) => { y += PDF.lineHeight * lines; };
+
+  // Title page
+  newPage();
+  y = 4 * POINTS_PER_INCH;
+  centered((data.title || 'Untitled').toUpperCase(), { bold: true });
+  gap();
+  if (data.format && data.format !== 'Pending...') centered(data.format);
+
+  // Character list on its own page
+  if (play.cast.length) {
+    newPage();
+    centered('CHARACTERS', { bold: true, underline: true });
+    gap();
+    play.cast.forEach(member => {
+      block(member.description ? `${member.name}, ${member.description}` : member.name, PDF.left);
+      gap(0.5);
+    });
+  }
+
+  play.elements.forEach((el, i) => {
+    const previous = play.elements[i - 1];
+    switch (el.type) {
+      case 'cast-heading':
+      case 'cast':
+        return;
+      case 'act':
+        started = true;
+        newPage();
+        y = 2 * POINTS_PER_INCH;
+        centered(el.text.toUpperCase(), { bold: true, underline: true });
+        gap();
+        return;
+      case 'scene':
+        if (!started || y > bottom - 6 * PDF.lineHeight) {
+          started = true;
+          newPage();
+        } else gap();
+        centered(el.text.toUpperCase(), { bold: true });
+        gap();
+        return;
+    }
+    if (!started) {
+      started = true;
+      newPage();
+    }
+    switch (el.type) {
+      case 'setting':
+      case 'direction':
+        if (previous && previous.type !== el.type) gap();
+        block(el.text, PDF.left + PDF.directionIndent, 'italic');
+        return;
+      case 'character':
+        gap();
+        if (y + 3 * PDF.lineHeight > bottom) newPage();
+        centered(el.text.toUpperCase());
+        return;
+      case 'parenthetical':
+        block(el.text, PDF.left + PDF.parentheticalIndent, 'italic');
+        return;
+      case 'dialogue':
+        block(el.text, PDF.left);
+        return;
+    }
+  });
+
+  return pdf.toBlob();
+};
+
+// ============================================
+// DOCX
+// ============================================
+
+export const renderStageDocx = (data: ProjectData): Blob => {
+  const play = parseStagePlay(data.scriptContent || '');
+  const blocks: DocxBlock[] = [
+    { type: 'paragraph', runs: [{ text: (data.title || 'Untitled').toUpperCase(), bold: true }], align: 'center', spaceAfter: 12 },
+  ];
+  if (data.format && data.format !== 'Pending...') blocks.push(textParagraph(data.format, { align: 'center' }));
+
+  if (play.cast.length) {
+    blocks.push({ type: 'paragraph', runs: [{ text: 'CHARACTERS', bold: true, underline: true }], align: 'center', spaceAfter: 12, pageBreakBefore: true });
+    play.cast.forEach(member => blocks.push(textParagraph(member.description ? `${member.name}, ${member.description}` : member.name, { spaceAfter: 6 })));
+  }
+
+  let newPage = true;
+  play.elements.forEach(el => {
+    switch (el.type) {
+      case 'cast-heading':
+      case 'cast':
+        return;
+      case 'act':
+        blocks.push({ type: 'paragraph', runs: [{ text: el.text.toUpperCase(), bold: true, underline: true }], align: 'center', spaceAfter: 12, pageBreakBefore: true });
+        newPage = false;
+        return;
+      case 'scene':
+        blocks.push({ type: 'paragraph', runs: [{ text: el.text.toUpperCase(), bold: true }], align: 'center', spaceAfter: 12, pageBreakBefore: newPage });
+        newPage = false;
+        return;
+      case 'setting':
+      case 'direction':
+        blocks.push(textParagraph(el.text, { indent: PDF.directionIndent, spaceAfter: 12, pageBreakBefore: newPage }, true));
+        break;
+      case 'character':
+        blocks.push(textParagraph(el.text.toUpperCase(), { align: 'center', pageBreakBefore: newPage }));
+        break;
+      case 'parenthetical':
+        blocks.push(textParagraph(el.text, { indent: PDF.parentheticalIndent }, true));
+        break;
+      case 'dialogue':
+        blocks.push(textParagraph(el.text, { spaceAfter: 12 }));
+        break;
+    }
+    newPage = false;
+  });
+
+  return createDocx(blocks, { font: 'Courier New', size: 12, margins: 1 });
+};
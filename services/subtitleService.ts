@@ -0,0 +1,305 @@
+/**
+ * SCRIPT ENGINE - Subtitle Service
+ *
+ * Temp captions (SRT and WebVTT) from the script's dialogue, for
+ * animatics and accessibility review. The script is laid out as a
+ * timeline: speeches last as long as they take to say or to read,
+ * whichever is longer, and action takes the time it plays in. When a
+ * table read has been recorded, the timeline is stretched to fit its real
+ * length instead.
+ *
+ * Captions follow broadcast rules: at most 42 characters a line and two
+ * lines a caption, broken at sentence and clause ends, never between an
+ * article or preposition and the word it belongs to.
+ */
+
+import { parseFountainDocument, stripInlineMarkup } from './fountainParser';
+import { parseStagePlay } from './stagePlayService';
+import { parseAudioDrama, AUDIO_WORDS_PER_MINUTE } from './audioDramaService';
+import { parseAVScript, TIMING_RULES } from './avScriptService';
+import { getScriptFormat } from './scriptFormatService';
+import { countWords } from './textUtils';
+import type { ProjectData } from '../types';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface CaptionOptions {
+  speakerLabels: boolean;
+  maxChars: number;       // Per line
+  maxLines: number;       // Per caption
+  charsPerSecond: number; // Reading speed
+  minDuration: number;    // seconds
+  includeActionTime: boolean;
+}
+
+export const CAPTION_DEFAULTS: CaptionOptions = {
+  speakerLabels: false,
+  maxChars: 42,
+  maxLines: 2,
+  charsPerSecond: 17,
+  minDuration: 1,
+  includeActionTime: true,
+};
+
+export interface Caption {
+  index: number;
+  start: number; // seconds
+  end: number;
+  speaker?: string;
+  lines: string[];
+}
+
+// Measured length of a recorded read and how much of the script it covers
+export interface RecordedTiming {
+  seconds: number;
+  lines?: number; // Script lines covered from the top; all when unset
+}
+
+interface TimelineEvent {
+  line: number;
+  seconds: number;
+  speaker?: string;
+  text?: string; // Set on speech; silent events only take time
+}
+
+const AV_LABEL = /^([A-Z]+)\s*(?:\([^)]*\))?\s*:\s*(.*)$/;
+
+// Words that belong with the word after them
+const NO_BREAK_AFTER = new Set([
+  'a', 'an', 'the', 'to', 'of', 'in', 'on', 'at', 'for', 'by', 'with', 'from', 'and', 'or', 'but', 'my', 'your', 'his', 'her', 'its', 'our', 'their', 'i', 'mr.', 'mrs.', 'ms.', 'dr.',
+]);
+
+// ============================================
+// TIMELINE
+// ============================================
+
+const speechSeconds = (text: string) => countWords(text) / TIMING_RULES.voWordsPerSecond;
+
+const actionSeconds = (text: string) => countWords(text) / TIMING_RULES.actionWordsPerSecond;
+
+const withoutNotes = (text: string) => text.replace(/\([^)]*\)/g, ' ').replace(/\s+/g, ' ').trim();
+
+/**
+ * The script as timed events in the project's format. Speech times are
+ * speaking times; reading time is applied when captions are cut.
+ */
+const buildTimeline = (data: ProjectData, options: CaptionOptions): TimelineEvent[] => {
+  const script = data.scriptContent || '';
+  const silent = (line: number, seconds: number): TimelineEvent[] => (options.includeActionTime && seconds > 0 ? [{ line, seconds }] : []);
+
+  switch (getScriptFormat(data)) {
+    case 'stage':
+      return parseStagePlay(script).elements.flatMap(el => {
+        if (el.type === 'dialogue') return [{ line: el.line, seconds: speechSeconds(el.text), speaker: el.speaker, text: el.text }];
+        if (el.type === 'direction' || el.type === 'setting') return silent(el.line, actionSeconds(el.text));
+        return [];
+      });
+
+    case 'audio':
+      return parseAudioDrama(script).elements.flatMap(el => {
+        if (el.type === 'speech' || el.type === 'narration') {
+          const text = withoutNotes(el.text.replace(/\n/g, ' '));
+          return text ? [{ line: el.line, seconds: (countWords(text) / AUDIO_WORDS_PER_MINUTE) * 60, speaker: el.speaker, text }] : [];
+        }
+        return [];
+      });
+
+    case 'av':
+      // Shots carry their own timing; speech sits at the top of its shot
+      return parseAVScript(script).shots.flatMap(shot => {
+        const speech: TimelineEvent[] = shot.audio.flatMap(line => {
+          const label = line.match(AV_LABEL);
+          if (label && (label[1] === 'SFX' || label[1] === 'MUSIC')) return [];
+          // Sync is "SYNC: NAME: words"; unlabelled lines continue the VO
+          const body = label ? label[2] : line;
+          const named = label?.[1] === 'SYNC' ? body.match(/^([A-Z][A-Z .'-]*):\s*(.*)$/) : null;
+          const text = withoutNotes(named ? named[2] : body);
+          return text ? [{ line: shot.startLine, seconds: speechSeconds(text), speaker: named?.[1].trim() || label?.[1], text }] : [];
+        });
+        const spoken = speech.reduce((total, event) => total + event.seconds, 0);
+        return [...speech, ...silent(shot.startLine, shot.duration - spoken)];
+      });
+
+    default: {
+      const events: TimelineEvent[] = [];
+      parseFountainDocument(script).elements.forEach((el, i, elements) => {
+        const text = stripInlineMarkup(el.text);
+        if (el.type === 'dialogue' || (el.type === 'lyrics' && el.character)) {
+          const last = events[events.length - 1];
+          // Dialogue broken by a parenthetical is still one speech
+          if (last?.text && last.speaker === el.character && elements[i - 1]?.type === 'parenthetical') {
+            last.text = `${last.text} ${text}`;
+            last.seconds += speechSeconds(text);
+            last.line = el.startLine;
+          } else {
+            events.push({ line: el.startLine, seconds: speechSeconds(text), speaker: el.character, text });
+          }
+        } else if (el.type === 'action') {
+          events.push(...silent(el.startLine, actionSeconds(text)));
+        }
+      });
+      return events;
+    }
+  }
+};
+
+// ============================================
+// LINE BREAKING
+// ============================================
+
+/**
+ * Best place to break a caption into two lines, or null when it won't fit
+ */
+const balanceLines = (text: string, maxChars: number): string[] | null => {
+  if (text.length <= maxChars) return [text];
+  const words = text.split(' ');
+  let best: { lines: string[]; score: number } | null = null;
+  for (let i = 1; i < words.length; i++) {
+    const top = words.slice(0, i).join(' ');
+    const bottom = words.slice(i).join(' ');
+    if (top.length > maxChars || bottom.length > maxChars) continue;
+    const before = words[i - 1];
+    let score = Math.abs(top.length - bottom.length);
+    if (/[.,;:!?…—-]$/.test(before)) score -= 15;
+    if (NO_BREAK_AFTER.has(before.toLowerCase())) score += 25;
+    if (!best || score < best.score) best = { lines: [top, bottom], score };
+  }
+  return best?.lines || null;
+};
+
+const fitsCaption = (text: string, maxChars: number, maxLines: number) =>
+  maxLines === 1 ? text.length <= maxChars : balanceLines(text, maxChars) !== null;
+
+/**
+ * Packs pieces into as few captions as fit, splitting a piece that is too
+ * long on its own by words
+ */
+const pack = (pieces: string[], fits: (text: string) => boolean): string[] => {
+  const chunks: string[] = [];
+  pieces.forEach(piece => {
+    const current = chunks[chunks.length - 1];
+    if (current !== undefined && fits(`${current} ${piece}`)) {
+      chunks[chunks.length - 1] = `${current} ${piece}`;
+    } else if (fits(piece)) {
+      chunks.push(piece);
+    } else {
+      let chunk = '';
+      piece.split(' ').forEach(word => {
+        if (chunk && !fits(`${chunk} ${word}`)) {
+          chunks.push(chunk);
+          chunk = word;
+        } else {
+          chunk = chunk ? `${chunk} ${word}` : word;
+        }
+      });
+      if (chunk) chunks.push(chunk);
+    }
+  });
+  return chunks;
+};
+
+/**
+ * A speech as captions, each a list of lines
+ */
+export const breakCaptionLines = (text: string, maxChars = CAPTION_DEFAULTS.maxChars, maxLines = CAPTION_DEFAULTS.maxLines): string[][] => {
+  const fits = (candidate: string) => fitsCaption(candidate, maxChars, Math.min(maxLines, 2));
+  const clean = text.replace(/\s+/g, ' ').trim();
+  if (!clean) return [];
+  const sentences = clean.split(/(?<=[.!?…])\s+/);
+  // Sentences too long for one caption break at clause ends first
+  const pieces = sentences.flatMap(sentence => (fits(sentence) ? [sentence] : sentence.split(/(?<=[,;:—])\s+/)));
+  return pack(pieces, fits).map(chunk => (maxLines === 1 ? [chunk] : balanceLines(chunk, maxChars) || [chunk]));
+};
+
+// ============================================
+// CAPTIONS
+// ============================================
+
+export const buildCaptions = (data: ProjectData, options: CaptionOptions = CAPTION_DEFAULTS, recorded?: RecordedTiming): Caption[] => {
+  const events = buildTimeline(data, options);
+  const reading = !(recorded && recorded.seconds > 0);
+
+  if (!reading) {
+    // Stretch the covered part of the timeline to the recording's length
+    const covered = events.filter(event => recorded!.lines === undefined || event.line < recorded!.lines);
+    const estimated = covered.reduce((total, event) => total + event.seconds, 0);
+    const scale = estimated > 0 ? recorded!.seconds / estimated : 1;
+    covered.forEach(event => { event.seconds *= scale; });
+  }
+
+  const captions: Caption[] = [];
+  let clock = 0;
+  let lastSpeaker: string | undefined;
+
+  events.forEach(event => {
+    if (!event.text) {
+      clock += event.seconds;
+      return;
+    }
+    const labelled = options.speakerLabels && event.speaker && event.speaker !== lastSpeaker;
+    const chunks = breakCaptionLines(labelled ? `${event.speaker}: ${event.text}` : event.text, options.maxChars, options.maxLines);
+    const lengths = chunks.map(lines => lines.join(' ').length);
+    // Nobody is speaking yet: every caption, label included, stays up for its
+    // reading time and at least the minimum, and the speech takes as long as they do
+    const weights = reading ? lengths.map(length => Math.max(options.minDuration, length / options.charsPerSecond)) : lengths;
+    const total = weights.reduce((sum, weight) => sum + weight, 0) || 1;
+    const seconds = reading ? Math.max(event.seconds, total) : event.seconds;
+    let at = clock;
+    chunks.forEach((lines, i) => {
+      const share = (seconds * weights[i]) / total;
+      captions.push({ index: captions.length + 1, start: at, end: at + Math.max(options.minDuration, share), speaker: event.speaker, lines });
+      at += share;
+    });
+    clock += seconds;
+    lastSpeaker = event.speaker;
+  });
+
+  // A caption held for its minimum never runs into the next one
+  captions.forEach((caption, i) => {
+    const next = captions[i + 1];
+    if (next && caption.end > next.start) caption.end = Math.max(caption.start + 0.1, next.start);
+  });
+
+  return captions;
+};
+
+// ============================================
+// SERIALIZE
+// ============================================
+
+const clockParts = (seconds: number) => {
+  const millis = Math.round(seconds * 1000);
+  const [h, m, s] = [Math.floor(millis / 3600000), Math.floor(millis / 60000) % 60, Math.floor(millis / 1000) % 60].map(n => String(n).padStart(2, '0'));
+  return { h, m, s, ms: String(millis % 1000).padStart(3, '0') };
+};
+
+export const formatSrtTime = (seconds: number) => {
+  const { h, m, s, ms } = clockParts(seconds);
+  return `${h}:${m}:${s},${ms}`;
+};
+
+export const formatVttTime = (seconds: number) => {
+  const { h, m, s, ms } = clockParts(seconds);
+  return `${h}:${m}:${s}.${ms}`;
+};
+
+export const toSRT = (captions: Caption[]): string =>
+  captions.map(c => `${c.index}\n${formatSrtTime(c.start)} --> ${formatSrtTime(c.end)}\n${c.lines.join('\n')}`).join('\n\n') + '\n';
+
+const escapeVtt = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * WebVTT, with speakers as voice spans so players and review tools can
+ * tell them apart even when the label isn't shown
+ */
+export const toWebVTT = (captions: Caption[], title?: string): string => [
+  'WEBVTT',
+  '',
+  ...(title ? [`NOTE Temp captions: ${title.replace(/-->/g, '->')}`, ''] : []),
+  ...captions.map(c => {
+    const text = c.lines.map(escapeVtt).join('\n');
+    return `${c.index}\n${formatVttTime(c.start)} --> ${formatVttTime(c.end)}\n${c.speaker ? `<v ${escapeVtt(c.speaker)}>` : ''}${text}\n`;
+  }),
+].join('\n');
@@ -7,10 +7,12 @@
  */
 
 import { supabase, isSupabaseConfigured, TENANT_ID, DEFAULT_OWNER } from '../lib/supabase';
-import type { ProjectState, ProjectData, Snapshot } from '../types';
+import type { ProjectState, ProjectData, Snapshot, RevisionMark, DraftBranch, EpisodeLink, SeriesPlan, PaperEdit, ScriptTranslation, ScriptDocument, ScriptFormat, SceneBreakdown, ShootingSchedule, ScoutedLocation } from '../types';
+import { ensureScriptDocument } from './scriptDocumentService';
 
 // Debounce timer reference
 let syncTimer: ReturnType<typeof setTimeout> | null = null;
+let syncTimerProjectId: string | null = null; // The project the pending sync will save
 const SYNC_DEBOUNCE_MS = 2000; // 2 seconds
 
 // Sync status for UI feedback
@@ -29,6 +31,8 @@ export interface ProjectListItem {
   currentPhase: number;
   updatedAt: Date;
   createdAt: Date;
+  episodeNumber?: number;       // Set on episodes
+  episodes?: ProjectListItem[]; // Set on series, in episode order
 }
 
 // Database row type
@@ -45,10 +49,23 @@ interface ProjectRow {
   locations: string[];
   beats: string[];
   script_content: string;
+  script_document: ScriptDocument | null;
+  script_format: ScriptFormat | null;
+  breakdowns: SceneBreakdown[];
+  schedule: ShootingSchedule | null;
+  scouted_locations: ScoutedLocation[];
   scenes_written: number;
   production_notes: string[];
   visuals: Array<{ id: string; type: string; data: string; label: string; timestamp: number }>;
   current_phase: number;
+  branch_of: string | null;
+  branch_name: string | null;
+  branch_base: ProjectData | null;
+  series_id: string | null;
+  episode_number: number | null;
+  series_plan: SeriesPlan | null;
+  paper_edit: PaperEdit | null;
+  translations: ScriptTranslation[] | null;
   created_at: string;
   updated_at: string;
   last_synced_at: string | null;
@@ -71,10 +88,23 @@ function toDbRow(projectId: string, state: ProjectState): Partial<ProjectRow> {
     locations: state.data.locations || [],
     beats: state.data.beats || [],
     script_content: state.data.scriptContent || '',
+    script_document: state.data.scriptDocument || null,
+    script_format: state.data.scriptFormat || 'screenplay',
+    breakdowns: state.data.breakdowns || [],
+    schedule: state.data.schedule || null,
+    scouted_locations: state.data.scoutedLocations || [],
     scenes_written: state.data.scenesWritten || 0,
     production_notes: state.data.productionNotes || [],
     visuals: state.data.visuals || [],
     current_phase: state.currentPhase,
+    branch_of: state.branch?.parentId || null,
+    branch_name: state.branch?.name || null,
+    branch_base: state.branch?.base || null,
+    series_id: state.episode?.seriesId || null,
+    episode_number: state.episode?.number ?? null,
+    series_plan: state.data.series || null,
+    paper_edit: state.data.paperEdit || null,
+    translations: state.data.translations || null,
     last_synced_at: new Date().toISOString(),
   };
 }
@@ -83,9 +113,17 @@ function toDbRow(projectId: string, state: ProjectState): Partial<ProjectRow> {
  * Convert database row to ProjectState
  */
 function fromDbRow(row: ProjectRow): ProjectState {
+  const branch: DraftBranch | undefined = row.branch_of && row.branch_base
+    ? { id: row.id, parentId: row.branch_of, name: row.branch_name || 'Branch', createdAt: new Date(row.created_at).getTime(), base: row.branch_base }
+    : undefined;
+  const episode: EpisodeLink | undefined = row.series_id
+    ? { id: row.id, seriesId: row.series_id, number: row.episode_number || 1 }
+    : undefined;
   return {
     currentPhase: row.current_phase,
-    data: {
+    ...(branch ? { branch } : {}),
+    ...(episode ? { episode } : {}),
+    data: ensureScriptDocument({
       title: row.title,
       logline: row.logline || '',
       format: row.format || '',
@@ -102,7 +140,15 @@ function fromDbRow(row: ProjectRow): ProjectState {
         ...v,
         type: (v.type === 'reference' || v.type === 'generated') ? v.type : 'generated' as const
       })),
-    },
+      scriptDocument: row.script_document || undefined,
+      scriptFormat: row.script_format || undefined,
+      breakdowns: row.breakdowns || [],
+      schedule: row.schedule || undefined,
+      scoutedLocations: row.scouted_locations || [],
+      series: row.series_plan || undefined,
+      paperEdit: row.paper_edit || undefined,
+      translations: row.translations || undefined,
+    }),
   };
 }
 
@@ -126,6 +172,7 @@ export function syncProject(
   }
 
   // Set new debounced sync
+  syncTimerProjectId = projectId;
   syncTimer = setTimeout(async () => {
     onStatusChange?.('syncing');
 
@@ -162,8 +209,8 @@ export async function syncProjectNow(
     return { success: false, error: 'Supabase not configured' };
   }
 
-  // Clear debounce timer
-  if (syncTimer) {
+  // Clear debounce timer; a pending sync of another project still runs
+  if (syncTimer && syncTimerProjectId === projectId) {
     clearTimeout(syncTimer);
     syncTimer = null;
   }
@@ -226,6 +273,7 @@ export async function loadProject(
         timestamp: new Date(s.created_at).getTime(),
         label: s.label || '',
         data: s.data as ProjectData,
+        ...(s.revision ? { revision: s.revision as RevisionMark } : {}),
       }));
     }
 
@@ -236,7 +284,8 @@ export async function loadProject(
 }
 
 /**
- * List all projects for this tenant
+ * List all projects for this tenant, with each series' episodes grouped
+ * under it
  */
 export async function listProjects(): Promise<{
   data: ProjectListItem[];
@@ -249,22 +298,35 @@ export async function listProjects(): Promise<{
   try {
     const { data, error } = await supabase
       .from('script_engine_projects')
-      .select('id, title, logline, current_phase, created_at, updated_at')
+      .select('id, title, logline, current_phase, series_id, episode_number, series_plan, created_at, updated_at')
       .eq('tenant_id', TENANT_ID)
+      .is('branch_of', null) // Draft branches live under their main project
       .order('updated_at', { ascending: false });
 
     if (error) {
       return { data: [], error: error.message };
     }
 
-    const projects: ProjectListItem[] = (data || []).map((row) => ({
+    const rows = data || [];
+    const toItem = (row: typeof rows[number]): ProjectListItem => ({
       id: row.id,
       title: row.title,
       logline: row.logline,
       currentPhase: row.current_phase,
       updatedAt: new Date(row.updated_at),
       createdAt: new Date(row.created_at),
-    }));
+      ...(row.series_id ? { episodeNumber: row.episode_number || 1 } : {}),
+    });
+
+    const projects: ProjectListItem[] = rows.filter((row) => !row.series_id).map((row) => {
+      const item = toItem(row);
+      if (!row.series_plan) return item;
+      const episodes = rows
+        .filter((ep) => ep.series_id === row.id)
+        .map(toItem)
+        .sort((a, b) => (a.episodeNumber || 0) - (b.episodeNumber || 0));
+      return { ...item, episodes };
+    });
 
     return { data: projects };
   } catch (err) {
@@ -347,6 +409,7 @@ export async function saveSnapshot(
       project_id: projectId,
       label: snapshot.label,
       data: snapshot.data,
+      revision: snapshot.revision ?? null,
     });
 
     if (error) {
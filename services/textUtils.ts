@@ -0,0 +1,18 @@
+/**
+ * SCRIPT ENGINE - Text Utilities
+ *
+ * Small line and word helpers shared by the script format parsers, timing
+ * and reports.
+ */
+
+/**
+ * Words in a stretch of text, in any script; punctuation on its own
+ * doesn't count
+ */
+export const countWords = (text: string): number => text.split(/\s+/).filter(w => /[\p{L}\p{N}]/u.test(w)).length;
+
+/**
+ * Whether a trimmed line is wholly in parentheses: a parenthetical or a
+ * stage direction
+ */
+export const isParenthesized = (line: string): boolean => line.startsWith('(') && line.endsWith(')');
@@ -0,0 +1,353 @@
+/**
+ * SCRIPT ENGINE - Translation Service
+ *
+ * Language variants of the script for international co-productions. The
+ * script is cut into units in its own format's terms: speeches (and,
+ * when asked, action and sound cues) are translated through Gemini, while
+ * scene headings, character cues, labels and timings are carried over
+ * untouched, so the translation is still a script the editors, exports
+ * and breakdowns understand.
+ *
+ * Each variant keeps its source/translation pairs, which is what the
+ * bilingual view and export lay side by side. Updating a variant after
+ * the script changes only sends the lines that are new.
+ */
+
+import { parseFountainDocument } from './fountainParser';
+import { parseStagePlay } from './stagePlayService';
+import { parseAudioDrama, isSound } from './audioDramaService';
+import { columnOf, AVColumn } from './avScriptService';
+import { getScriptFormat } from './scriptFormatService';
+import { createDocx, DocxBlock, DocxCell } from './docxWriter';
+import { translateScriptLines } from './geminiService';
+import type { ProjectData, ScriptTranslation, TranslationScope, TranslationUnit } from '../types';
+
+// Offered in the language picker; any other language can be typed in
+export const TRANSLATION_LANGUAGES = [
+  'French', 'German', 'Spanish', 'Italian', 'Portuguese', 'Brazilian Portuguese', 'Dutch', 'Swedish', 'Danish', 'Norwegian',
+  'Polish', 'Czech', 'Greek', 'Turkish', 'Arabic', 'Hebrew', 'Hindi', 'Japanese', 'Korean', 'Mandarin Chinese', 'Cantonese',
+];
+
+// One translatable stretch of the script. The prefix (indent, label,
+// opening bracket) and suffix stay as they are around the translated body;
+// `marker` opens every line after the first, e.g. "~" on sung lyrics.
+interface Piece {
+  start: number; // 0-based lines, inclusive
+  end: number;
+  kind: 'dialogue' | 'action';
+  prefix: string;
+  body: string;
+  suffix: string;
+  marker: string;
+  speaker?: string; // Who says it, on spoken lines
+}
+
+const PLAIN = /^(\s*)(.*?)(\s*)$/;
+const PARENTHESIZED = /^(\s*\(\s*)(.*?)(\s*\)\s*)$/;
+const CENTERED = /^(\s*>\s*)(.*?)(\s*<\s*)$/;
+const STAGE_CAST_ENTRY = /^(\s*[^,:]+?\s*(?:,|:|\s[-–—]\s)\s*)(.+?)(\s*)$/;
+const AUDIO_LABELLED = /^(\s*[A-Z][A-Z0-9 .'&-]{0,30}?\s*(?:\([^)]*\))?\s*:\s*)(.*?)(\s*)$/;
+const AV_COLUMN = /^(?:VIDEO|V|AUDIO|A)\s*:\s*/i;
+const AV_LABEL = /^([A-Z]+)\s*(?:\([^)]*\))?\s*:\s*/;
+const AV_SYNC_NAME = /^[A-Z][A-Z .'-]*:\s*/;
+const AV_DURATION = /\s*\[(?:\d+:\d{1,2}|\d+(?:\.\d+)?\s*s)\]\s*/i;
+
+const BATCH_LINES = 40;
+const BATCH_CHARS = 4000;
+
+// ============================================
+// UNITS
+// ============================================
+
+const onLine = (line: string, index: number, kind: Piece['kind'], pattern: RegExp, speaker?: string): Piece[] => {
+  const match = line.match(pattern);
+  return match && match[2].trim() ? [{ start: index, end: index, kind, prefix: match[1], body: match[2], suffix: match[3], marker: '', speaker }] : [];
+};
+
+const fountainPieces = (lines: string[], scope: TranslationScope): Piece[] =>
+  parseFountainDocument(lines.join('\n')).elements.flatMap((el): Piece[] => {
+    const raw = lines.slice(el.startLine, el.endLine + 1);
+    // Multi-line dialogue, action and lyrics go as one passage
+    const passage = (kind: Piece['kind'], lead: RegExp, marker = '', speaker?: string): Piece[] => {
+      const parts = raw.map(line => line.match(lead)!);
+      const body = parts.map(part => part[2]).join('\n');
+      return body.trim() ? [{ start: el.startLine, end: el.endLine, kind, prefix: parts[0][1], body, suffix: '', marker, speaker }] : [];
+    };
+    switch (el.type) {
+      case 'dialogue':
+        return passage('dialogue', /^(\s*)(.*)$/, '', el.character);
+      case 'lyrics':
+        return passage('dialogue', /^(\s*~\s*)(.*)$/, '~', el.character);
+      case 'parenthetical':
+        return onLine(raw[0], el.startLine, 'dialogue', PARENTHESIZED);
+      case 'action':
+        return scope === 'all' ? passage('action', el.forced ? /^(\s*!?)(.*)$/ : /^()(.*)$/) : [];
+      case 'centered':
+        return scope === 'all' ? onLine(raw[0], el.startLine, 'action', CENTERED) : [];
+      default:
+        return [];
+    }
+  });
+
+const stagePieces = (lines: string[], scope: TranslationScope): Piece[] =>
+  parseStagePlay(lines.join('\n')).elements.flatMap((el): Piece[] => {
+    const raw = lines[el.line];
+    const pattern = PARENTHESIZED.test(raw) ? PARENTHESIZED : PLAIN;
+    if (el.type === 'dialogue') return onLine(raw, el.line, 'dialogue', pattern, el.speaker);
+    if (el.type === 'parenthetical') return onLine(raw, el.line, 'dialogue', pattern);
+    if (scope !== 'all') return [];
+    if (el.type === 'direction' || el.type === 'setting') return onLine(raw, el.line, 'action', pattern);
+    if (el.type === 'cast') return onLine(raw, el.line, 'action', STAGE_CAST_ENTRY);
+    return [];
+  });
+
+const audioPieces = (lines: string[], scope: TranslationScope): Piece[] => {
+  const elements = parseAudioDrama(lines.join('\n')).elements;
+  const starts = new Set(elements.map(el => el.line));
+  const pieces = elements.flatMap((el): Piece[] => {
+    const raw = lines[el.line];
+    if (el.type === 'speech' || el.type === 'narration') return onLine(raw, el.line, 'dialogue', AUDIO_LABELLED, el.speaker);
+    if (scope !== 'all') return [];
+    if (isSound(el)) return onLine(raw, el.line, 'action', AUDIO_LABELLED);
+    if (el.type === 'note') return onLine(raw, el.line, 'action', PARENTHESIZED.test(raw) ? PARENTHESIZED : PLAIN);
+    return [];
+  });
+  // Any other line carries on the speech above it
+  let speaker: string | undefined;
+  lines.forEach((line, index) => {
+    if (starts.has(index)) speaker = elements.find(el => el.line === index)?.speaker;
+    else if (line.trim()) pieces.push(...onLine(line, index, 'dialogue', PLAIN, speaker));
+  });
+  return pieces.sort((a, b) => a.start - b.start);
+};
+
+const avPieces = (lines: string[], scope: TranslationScope): Piece[] => {
+  let column: AVColumn = 'video';
+  let voice: string | undefined; // Unlabelled audio lines carry on the last voice
+  return lines.flatMap((line, index): Piece[] => {
+    const trimmed = line.trim();
+    if (!trimmed) {
+      column = 'video';
+      voice = undefined;
+      return [];
+    }
+    if (trimmed.startsWith('#')) return [];
+
+    // Timings move to the end of the line, where the parser still finds them
+    const duration = trimmed.match(AV_DURATION);
+    const content = duration ? trimmed.replace(AV_DURATION, ' ').trim() : trimmed;
+    column = columnOf(content) || column;
+
+    let prefix = content.match(AV_COLUMN)?.[0] || '';
+    const label = content.slice(prefix.length).match(AV_LABEL);
+    if (label) prefix += label[0];
+    const syncName = label?.[1] === 'SYNC' ? content.slice(prefix.length).match(AV_SYNC_NAME)?.[0] || '' : '';
+    prefix += syncName;
+    const body = content.slice(prefix.length);
+
+    // Supers are words on screen, so they go with the dialogue
+    const kind: Piece['kind'] = column === 'video'
+      ? (label?.[1] === 'SUPER' ? 'dialogue' : 'action')
+      : (label?.[1] === 'SFX' || label?.[1] === 'MUSIC' ? 'action' : 'dialogue');
+    if (column === 'audio' && label) voice = kind === 'action' ? undefined : syncName ? syncName.replace(/:\s*$/, '').trim() : label[1];
+    if (!body || (kind === 'action' && scope !== 'all')) return [];
+    const speaker = column === 'audio' && kind === 'dialogue' ? voice || 'VO' : undefined;
+    return [{ start: index, end: index, kind, prefix, body, suffix: duration ? ` ${duration[0].trim()}` : '', marker: '', speaker }];
+  });
+};
+
+const PIECES = { screenplay: fountainPieces, stage: stagePieces, audio: audioPieces, av: avPieces };
+
+/**
+ * Puts a translated body back between the piece's prefix and suffix. A
+ * bracketed or labelled line has to stay one line; passages may rewrap.
+ */
+const assemble = (piece: Piece, body: string): string => {
+  const text = body.trim().replace(/\r/g, '');
+  const lines = piece.suffix ? [text.replace(/\s*\n\s*/g, ' ')] : text.split(/\n+/).map(line => line.trim());
+  return piece.prefix + lines.join(`\n${piece.marker}`) + piece.suffix;
+};
+
+/**
+ * The script cut into units, with the translatable ones marked. Targets
+ * start as the source.
+ */
+const segmentScript = (data: ProjectData, scope: TranslationScope): { units: TranslationUnit[]; pieces: (Piece | null)[] } => {
+  const lines = (data.scriptContent || '').split('\n');
+  const pieces = PIECES[getScriptFormat(data)](lines, scope);
+  const units: TranslationUnit[] = [];
+  const unitPieces: (Piece | null)[] = [];
+  let next = 0;
+  for (let i = 0; i < lines.length; i++) {
+    const piece = pieces[next]?.start === i ? pieces[next++] : null;
+    if (piece) {
+      const source = lines.slice(piece.start, piece.end + 1).join('\n');
+      units.push({
+        source,
+        target: source,
+        kind: piece.kind,
+        ...(piece.speaker ? { speaker: piece.speaker } : {}),
+        ...(piece.prefix ? { prefix: piece.prefix } : {}),
+        ...(piece.suffix ? { suffix: piece.suffix } : {}),
+      });
+      i = piece.end;
+    } else {
+      units.push({ source: lines[i], target: lines[i] });
+    }
+    unitPieces.push(piece);
+  }
+  return { units, pieces: unitPieces };
+};
+
+// ============================================
+// TRANSLATE
+// ============================================
+
+/**
+ * What the model is told about the project alongside the lines
+ */
+export const translationContext = (data: ProjectData): string =>
+  [
+    `"${data.title || 'Untitled'}"${data.format && data.format !== 'Pending...' ? `, ${data.format}` : ''}.`,
+    data.logline,
+    data.tone ? `Tone: ${data.tone}.` : '',
+    data.characters.length ? `Characters: ${data.characters.join(', ')}.` : '',
+  ].filter(Boolean).join(' ');
+
+/**
+ * Translates the script into a language variant. Given the variant it
+ * replaces, lines whose source hasn't changed keep their translation and
+ * dubbing adaptation (including any hand edits) and only new or changed
+ * lines are sent.
+ */
+export const translateScript = async (
+  data: ProjectData,
+  language: string,
+  scope: TranslationScope,
+  previous?: ScriptTranslation,
+  onProgress?: (done: number, total: number) => void,
+): Promise<ScriptTranslation> => {
+  const { units, pieces } = segmentScript(data, scope);
+  const known = new Map((previous?.units || []).filter(u => u.kind && u.target !== u.source).map(u => [u.source, u]));
+
+  const pending: number[] = [];
+  units.forEach((unit, i) => {
+    if (!unit.kind) return;
+    const reuse = known.get(unit.source);
+    if (!reuse) {
+      pending.push(i);
+      return;
+    }
+    unit.target = reuse.target;
+    if (reuse.dub !== undefined) unit.dub = reuse.dub;
+  });
+
+  const batches: number[][] = [];
+  let chars = 0;
+  pending.forEach(i => {
+    const batch = batches[batches.length - 1];
+    if (!batch || batch.length >= BATCH_LINES || chars + pieces[i]!.body.length > BATCH_CHARS) {
+      batches.push([i]);
+      chars = 0;
+    } else {
+      batch.push(i);
+    }
+    chars += pieces[i]!.body.length;
+  });
+
+  const context = translationContext(data);
+  onProgress?.(0, batches.length);
+  for (let b = 0; b < batches.length; b++) {
+    const json = await translateScriptLines(batches[b].map(i => ({ id: String(i), text: pieces[i]!.body })), language, context);
+    let result: Record<string, unknown> = {};
+    try {
+      result = JSON.parse(json);
+    } catch (e) {
+      console.error('Unreadable translation batch', e);
+    }
+    // Lines the model skipped keep their source and are retried on update
+    batches[b].forEach(i => {
+      const text = result[String(i)];
+      if (typeof text === 'string' && text.trim()) units[i].target = assemble(pieces[i]!, text);
+    });
+    onProgress?.(b + 1, batches.length);
+  }
+
+  const now = Date.now();
+  return {
+    id: previous?.id || crypto.randomUUID(),
+    language,
+    ...(previous?.sourceLanguage ? { sourceLanguage: previous.sourceLanguage } : {}),
+    scope,
+    units,
+    createdAt: previous?.createdAt || now,
+    updatedAt: now,
+  };
+};
+
+// ============================================
+// VARIANTS
+// ============================================
+
+export const translatedScript = (translation: ScriptTranslation): string => translation.units.map(u => u.target).join('\n');
+
+export const translationSource = (translation: ScriptTranslation): string => translation.units.map(u => u.source).join('\n');
+
+/**
+ * True once the script has moved on from the text this variant translated
+ */
+export const isTranslationStale = (translation: ScriptTranslation, script: string): boolean => translationSource(translation) !== script;
+
+/**
+ * Translatable units still reading the same as the source: lines the
+ * model skipped, or words (names, "OK.") that need no translating
+ */
+export const untranslatedCount = (translation: ScriptTranslation): number =>
+  translation.units.filter(u => u.kind && u.target === u.source).length;
+
+export const setUnitTarget = (translation: ScriptTranslation, index: number, target: string): ScriptTranslation => ({
+  ...translation,
+  units: translation.units.map((unit, i) => (i === index ? { ...unit, target } : unit)),
+  updatedAt: Date.now(),
+});
+
+/**
+ * The variant as a project, for the format's own exports
+ */
+export const asTranslatedProject = (data: ProjectData, translation: ScriptTranslation): ProjectData => ({
+  ...data,
+  scriptFormat: getScriptFormat(data),
+  scriptContent: translatedScript(translation),
+});
+
+// ============================================
+// BILINGUAL DOCX
+// ============================================
+
+const cellOf = (text: string, italic = false): DocxCell => ({
+  paragraphs: text.trim().split('\n').map(line => ({ type: 'paragraph' as const, runs: [{ text: line, italic }] })),
+});
+
+/**
+ * Original and translation side by side, a row per unit; structure spans
+ * both columns
+ */
+export const renderBilingualDocx = (data: ProjectData, translation: ScriptTranslation): Blob => {
+  const head = (text: string): DocxCell => ({ paragraphs: [{ type: 'paragraph', runs: [{ text, bold: true }] }], shade: '#E6E6E6' });
+  const rows: DocxCell[][] = [[head('ORIGINAL'), head(translation.language.toUpperCase())]];
+  translation.units.forEach(unit => {
+    if (!unit.source.trim()) return;
+    if (!unit.kind) {
+      rows.push([{ paragraphs: [{ type: 'paragraph', runs: [{ text: unit.source.trim(), bold: true }] }], span: 2, shade: '#F5F5F5' }]);
+      return;
+    }
+    rows.push([cellOf(unit.source, unit.kind === 'action'), cellOf(unit.target, unit.kind === 'action')]);
+  });
+
+  const blocks: DocxBlock[] = [
+    { type: 'paragraph', runs: [{ text: `${(data.title || 'Untitled').toUpperCase()} - ${translation.language.toUpperCase()}`, bold: true }], size: 14, spaceAfter: 4 },
+    { type: 'paragraph', runs: [{ text: translation.scope === 'all' ? 'Dialogue and action translated' : 'Dialogue translated' }], spaceAfter: 12 },
+    { type: 'table', columns: [3.5, 3.5], rows, headerRows: 1 },
+  ];
+  return createDocx(blocks, { font: 'Courier New', size: 10, margins: 0.75 });
+};
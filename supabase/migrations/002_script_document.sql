@@ -0,0 +1,6 @@
+-- Structured script document
+-- Scenes and elements with stable IDs, kept alongside script_content.
+-- script_content stays the source of truth; the document serialises back to it losslessly.
+
+ALTER TABLE script_engine_projects
+  ADD COLUMN IF NOT EXISTS script_document JSONB;
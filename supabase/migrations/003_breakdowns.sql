@@ -0,0 +1,5 @@
+-- Production breakdown
+-- Per-scene element tags (cast, extras, props, wardrobe...), keyed by script_document scene id.
+
+ALTER TABLE script_engine_projects
+  ADD COLUMN IF NOT EXISTS breakdowns JSONB DEFAULT '[]'::jsonb;
@@ -0,0 +1,5 @@
+-- Shooting schedule
+-- Stripboard shoot days, each listing script_document scene ids in shooting order.
+
+ALTER TABLE script_engine_projects
+  ADD COLUMN IF NOT EXISTS schedule JSONB;
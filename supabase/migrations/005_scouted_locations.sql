@@ -0,0 +1,5 @@
+-- Scouted locations
+-- Real-world places saved from Location Scout, with addresses for call sheets.
+
+ALTER TABLE script_engine_projects
+  ADD COLUMN IF NOT EXISTS scouted_locations JSONB DEFAULT '[]'::jsonb;
@@ -0,0 +1,6 @@
+-- Revision sets
+-- Snapshots issued as production revisions (White, Blue, Pink...) carry their
+-- set index, color and, for the White set, the locked page breaks.
+
+ALTER TABLE script_engine_snapshots
+  ADD COLUMN IF NOT EXISTS revision JSONB;
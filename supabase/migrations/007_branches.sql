@@ -0,0 +1,10 @@
+-- Draft branches
+-- A branch is its own project row (so it keeps its own snapshots) pointing at
+-- main, with main's data at the fork point as the base for three-way merges.
+
+ALTER TABLE script_engine_projects
+  ADD COLUMN IF NOT EXISTS branch_of UUID REFERENCES script_engine_projects(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS branch_name TEXT,
+  ADD COLUMN IF NOT EXISTS branch_base JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_sep_branch_of ON script_engine_projects(branch_of);
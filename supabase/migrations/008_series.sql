@@ -0,0 +1,10 @@
+-- Multi-episode series
+-- A series is a project row holding the shared bible and season arcs
+-- (series_plan); each episode is its own project row pointing at it.
+
+ALTER TABLE script_engine_projects
+  ADD COLUMN IF NOT EXISTS series_id UUID REFERENCES script_engine_projects(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS episode_number INTEGER,
+  ADD COLUMN IF NOT EXISTS series_plan JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_sep_series_id ON script_engine_projects(series_id, episode_number);
@@ -0,0 +1,6 @@
+-- Script format
+-- How script_content is written: 'screenplay' (Fountain) or 'av' (two-column
+-- audio/visual script for commercials and corporate films).
+
+ALTER TABLE script_engine_projects
+  ADD COLUMN IF NOT EXISTS script_format TEXT NOT NULL DEFAULT 'screenplay';
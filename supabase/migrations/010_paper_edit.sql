@@ -0,0 +1,6 @@
+-- Documentary paper edit
+-- Imported interview transcripts and the soundbites, VO and B-roll notes
+-- picked from them, ordered under the project's beats.
+
+ALTER TABLE script_engine_projects
+  ADD COLUMN IF NOT EXISTS paper_edit JSONB;
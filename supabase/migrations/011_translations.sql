@@ -0,0 +1,6 @@
+-- Script translations
+-- Language variants of the script, stored as source/translation pairs so
+-- they can be read and exported side by side with the original.
+
+ALTER TABLE script_engine_projects
+  ADD COLUMN IF NOT EXISTS translations JSONB;
@@ -0,0 +1,6 @@
+-- Script format modes
+-- Stage plays and audio dramas join the screenplay and AV modes. The column
+-- is free text, so this only documents the values it now holds.
+
+COMMENT ON COLUMN script_engine_projects.script_format IS
+  'How script_content is written: screenplay (Fountain), av (two-column audio/visual script), stage (stage play) or audio (audio drama / podcast)';
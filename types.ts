@@ -1,3 +1,5 @@
+import type { FountainElementType } from './services/fountainParser';
+
 export interface Message {
   id: string;
   role: 'user' | 'model';
@@ -35,8 +37,114 @@ export interface Snapshot {
   timestamp: number;
   label: string;
   data: ProjectData;
+  revision?: RevisionMark; // Set when this snapshot is an issued revision set
+  assetRename?: { from: string; to: string }; // Shared asset renamed after this snapshot, renamed back on restore
+}
+
+// Production revision set. The White set locks the script and records
+// where each locked page began; later sets (Blue, Pink...) are the
+// baselines each round of changes is measured against.
+export interface RevisionMark {
+  index: number; // 0 = White (locked), 1 = Blue, 2 = Pink...
+  color: string;
+  pageStarts?: LockedPageStart[]; // White set only, lines in its scriptContent
+}
+
+export interface LockedPageStart {
+  line: number;
+  blockStart: boolean; // False when the page opened mid-element (split action, (CONT'D) dialogue)
+}
+
+// Structured script model: scenes and elements with stable IDs.
+// Each node keeps its exact Fountain source so the model serialises back
+// to scriptContent byte-for-byte.
+export interface ScriptElementNode {
+  id: string;
+  type: FountainElementType;
+  text: string;
+  character?: string;
+  source: string; // Raw Fountain lines, including the blank lines that follow
+}
+
+export interface ScriptSceneNode {
+  id: string;
+  heading: ScriptElementNode | null; // null for material before the first scene heading
+  elements: ScriptElementNode[];
+}
+
+export interface ScriptDocument {
+  version: 1;
+  preamble?: string; // Title page and leading blank lines
+  scenes: ScriptSceneNode[];
+}
+
+// Points at a scene (and optionally a line within it) that survives edits
+export interface ScriptAnchor {
+  sceneId: string;
+  elementId?: string;
+}
+
+// Production breakdown: elements tagged per scene, keyed by ScriptSceneNode id
+export type BreakdownCategory =
+  | 'cast'
+  | 'extras'
+  | 'props'
+  | 'wardrobe'
+  | 'vehicles'
+  | 'animals'
+  | 'sfx'
+  | 'vfx'
+  | 'makeup'
+  | 'set_dressing';
+
+export interface SceneBreakdown {
+  sceneId: string;
+  tags: Partial<Record<BreakdownCategory, string[]>>;
+  notes?: string;
+}
+
+// Call sheet fields shared by every shoot day
+export interface CallSheetTemplate {
+  production?: string;  // Company / production name
+  contacts?: string;    // Key crew and phone numbers, one per line
+  generalCall?: string; // Default crew call, "07:00"
+  hospital?: string;    // Nearest hospital / emergency info
+  notes?: string;       // Standing notes printed on every sheet
+}
+
+// Per-day call sheet details, on top of the template
+export interface CallSheetDetails {
+  generalCall?: string;
+  castCalls?: Record<string, string>; // Character (upper case) -> call time
+  notes?: string;
+}
+
+// Shooting schedule: scenes (by ScriptSceneNode id) in shooting order per day
+export interface ShootDay {
+  id: string;
+  date?: string; // ISO date (YYYY-MM-DD)
+  sceneIds: string[];
+  callSheet?: CallSheetDetails;
+}
+
+export interface ShootingSchedule {
+  days: ShootDay[];
+  startDate?: string; // ISO date of day 1; later days follow on working days
+  callSheetTemplate?: CallSheetTemplate;
+}
+
+// A real-world place found with Location Scout
+export interface ScoutedLocation {
+  id: string;
+  name: string;
+  address?: string;
+  mapUri?: string;
+  scriptLocation?: string; // Script location (upper case) this place stands in for
 }
 
+// How the script in scriptContent is written
+export type ScriptFormat = 'screenplay' | 'av' | 'stage' | 'audio';
+
 export interface ProjectData {
   id?: string;
   title: string;
@@ -50,6 +158,14 @@ export interface ProjectData {
   scenesWritten: number;
   productionNotes: string[];
   scriptContent: string; // The Master Script
+  scriptFormat?: ScriptFormat; // Defaults to screenplay
+  scriptDocument?: ScriptDocument; // Structured view of scriptContent
+  breakdowns?: SceneBreakdown[]; // Production breakdown per scene
+  schedule?: ShootingSchedule; // Stripboard / shooting schedule
+  scoutedLocations?: ScoutedLocation[]; // Places saved from Location Scout
+  series?: SeriesPlan; // Set on a series: its season arcs (episodes are their own projects)
+  paperEdit?: PaperEdit; // Documentary paper edit built from interview transcripts
+  translations?: ScriptTranslation[]; // Language variants of the script
   snapshots: Snapshot[];
   visuals: VisualAsset[]; // The Visual Bible
 }
@@ -57,6 +173,101 @@ export interface ProjectData {
 export interface ProjectState {
   currentPhase: Phase;
   data: ProjectData;
+  branch?: DraftBranch; // Set when this is a draft branch rather than main
+  episode?: EpisodeLink; // Set when this is an episode of a series
+}
+
+// A named alternate draft. Stored as its own project row (with its own
+// snapshots) and merged back into main against `base`.
+export interface DraftBranch {
+  id: string;        // Project row of the branch
+  parentId: string;  // Project row of main
+  name: string;
+  createdAt: number;
+  base: ProjectData; // Main as it was when the branch was cut
+}
+
+// An episode is its own project row (its own script, beats and snapshots)
+// under the series, which owns the shared bible.
+export interface EpisodeLink {
+  id: string;       // Project row of the episode
+  seriesId: string; // Project row of the series
+  number: number;
+}
+
+export interface SeriesPlan {
+  season: number;
+  arcs: SeasonArc[];
+}
+
+// A storyline tracked across the season, with a note per episode
+export interface SeasonArc {
+  id: string;
+  name: string;
+  color: string;
+  notes: Record<string, string>; // Episode ID -> what happens in this arc there
+}
+
+// An interview or sync transcript imported from SRT/VTT or timestamped text
+export interface Transcript {
+  id: string;
+  name: string;    // Source clip, e.g. "INT_Maria_01"
+  speaker: string; // Who is talking unless a segment says otherwise
+  segments: TranscriptSegment[];
+  importedAt: number;
+}
+
+export interface TranscriptSegment {
+  id: string;
+  start: number; // Source time, seconds
+  end: number;
+  speaker: string;
+  text: string;
+}
+
+// One line of the paper edit. Bites copy their words and source times so
+// the edit survives a transcript being re-imported or removed.
+export interface PaperEditItem {
+  id: string;
+  type: 'bite' | 'vo' | 'broll';
+  beat: string; // Text of the beat (ProjectData.beats) it sits under
+  text: string;
+  transcriptId?: string; // Bites only
+  source?: string;
+  speaker?: string;
+  start?: number;
+  end?: number;
+}
+
+export interface PaperEdit {
+  transcripts: Transcript[];
+  items: PaperEditItem[]; // In cut order within each beat
+  fps: number;            // For source timecodes
+}
+
+// A language variant of the script. Units pair each stretch of the source
+// with its translation in script order, so the two read side by side;
+// headings, cues and other structure are units carried over unchanged.
+export interface ScriptTranslation {
+  id: string;
+  language: string;
+  sourceLanguage?: string; // What the script itself is written in; English when unset
+  scope: TranslationScope;
+  units: TranslationUnit[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type TranslationScope = 'dialogue' | 'all'; // Dialogue only, or dialogue and action
+
+export interface TranslationUnit {
+  source: string;
+  target: string;
+  kind?: 'dialogue' | 'action'; // Unset on structure, which is never translated
+  speaker?: string;             // Set on spoken lines (not parentheticals or supers)
+  prefix?: string;              // Label, indent or bracket around the words, kept as is
+  suffix?: string;
+  dub?: string;                 // Dubbing adaptation of the target, fitted to the original's length
 }
 
 export interface GenerationConfig {
@@ -40,6 +40,7 @@ export default defineConfig(({ mode }) => {
             'react-vendor': ['react', 'react-dom'],
             'ui-vendor': ['lucide-react'],
             'ai-vendor': ['@google/genai'],
+            'pdf-vendor': ['pdfjs-dist'],
           },
         },
       },